@@ -3,21 +3,49 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Login from "@/pages/login";
 import LowStockOverview from "@/pages/low-stock-overview";
+import ExpiryOverview from "@/pages/expiry-overview";
+import SupplyRequestsOverview from "@/pages/supply-requests-overview";
+import SupplyRequestAction from "@/pages/supply-request-action";
 import EmailSettings from "@/pages/email-settings";
+import EmailOutbox from "@/pages/email-outbox";
 import AmbulancePosts from "@/pages/ambulance-posts";
 import PostCabinetOverview from "@/pages/post-cabinet-overview";
+import Users from "@/pages/users";
+import PickList from "@/pages/pick-list";
+import DrawerView from "@/pages/drawer-view";
+import ShiftCheck from "@/pages/shift-check";
+import Stocktakes from "@/pages/stocktakes";
+import Stocktake from "@/pages/stocktake";
+import NormCompliance from "@/pages/norm-compliance";
+import DrawerMigration from "@/pages/drawer-migration";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/voorraad-overzicht" component={LowStockOverview} />
-      <Route path="/email-settings" component={EmailSettings} />
-      <Route path="/ambulance-posts" component={AmbulancePosts} />
-      <Route path="/post-cabinet-overview" component={PostCabinetOverview} />
+      <Route path="/login" component={Login} />
+      <Route path="/aanvulverzoek/:token" component={SupplyRequestAction} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/voorraad-overzicht" component={LowStockOverview} />
+      <ProtectedRoute path="/vervaldatum-overzicht" component={ExpiryOverview} />
+      <ProtectedRoute path="/aanvulverzoeken" component={SupplyRequestsOverview} />
+      <ProtectedRoute path="/picklijst" component={PickList} minimumRole="post-coordinator" />
+      <ProtectedRoute path="/lade/:postId/:cabinetId" component={DrawerView} />
+      <ProtectedRoute path="/dienstcontrole" component={ShiftCheck} />
+      <ProtectedRoute path="/inventarisatie" component={Stocktakes} minimumRole="post-coordinator" />
+      <ProtectedRoute path="/inventarisatie/:id" component={Stocktake} minimumRole="post-coordinator" />
+      <ProtectedRoute path="/normen" component={NormCompliance} />
+      <ProtectedRoute path="/laden-koppelen" component={DrawerMigration} minimumRole="administrator" />
+      <ProtectedRoute path="/email-settings" component={EmailSettings} minimumRole="administrator" />
+      <ProtectedRoute path="/email-wachtrij" component={EmailOutbox} minimumRole="administrator" />
+      <ProtectedRoute path="/ambulance-posts" component={AmbulancePosts} minimumRole="post-coordinator" />
+      <ProtectedRoute path="/post-cabinet-overview" component={PostCabinetOverview} />
+      <ProtectedRoute path="/gebruikers" component={Users} minimumRole="administrator" />
       <Route component={NotFound} />
     </Switch>
   );
@@ -26,10 +54,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
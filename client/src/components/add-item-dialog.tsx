@@ -20,6 +20,7 @@ import { Plus, Camera, X, Building2, Pencil, Trash2 } from "lucide-react";
 import AddCabinetDialog from "../components/add-cabinet-dialog";
 import AddPostDialog from "../components/add-post-dialog";
 import { ObjectUploader } from "../components/ObjectUploader";
+import DrawerField from "../components/drawer-field";
 import type { UploadResult } from "@uppy/core";
 
 interface AddItemDialogProps {
@@ -38,6 +39,7 @@ type ItemLocation = {
   ambulancePostId: string;
   cabinet: string;
   drawer: string;
+  drawerId?: string;
   contactPersonId?: string;
 };
 
@@ -89,6 +91,7 @@ export default function AddItemDialog({ open, onOpenChange, onSuccess, selectedP
       description: "",
       category: "",
       searchTerms: "",
+      storeLocation: "",
       expiryDate: null,
       alertEmail: null,
       photoUrl: photoUrl,
@@ -123,6 +126,10 @@ export default function AddItemDialog({ open, onOpenChange, onSuccess, selectedP
   const updateLocation = (index: number, field: keyof ItemLocation, value: string) => {
     const updated = [...itemLocations];
     updated[index] = { ...updated[index], [field]: value };
+    // A drawer belongs to one cabinet
+    if (field === 'cabinet') {
+      updated[index].drawerId = "";
+    }
     setItemLocations(updated);
   };
 
@@ -402,6 +409,25 @@ export default function AddItemDialog({ open, onOpenChange, onSuccess, selectedP
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="storeLocation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Magazijnlocatie (Optioneel)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      placeholder="Vak in het centrale magazijn (bijv. A-12)"
+                      {...field} 
+                      value={field.value || ""}
+                      data-testid="input-store-location"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Locatie Tabel - Meerdere locaties per item */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -494,11 +520,16 @@ export default function AddItemDialog({ open, onOpenChange, onSuccess, selectedP
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Input
-                            placeholder="Bijv. Boven, Links"
-                            value={location.drawer}
-                            onChange={(e) => updateLocation(index, 'drawer', e.target.value)}
-                            data-testid={`input-drawer-${index}`}
+                          <DrawerField
+                            cabinetId={location.cabinet}
+                            drawer={location.drawer}
+                            drawerId={location.drawerId}
+                            onChange={(value) => {
+                              const updated = [...itemLocations];
+                              updated[index] = { ...updated[index], ...value };
+                              setItemLocations(updated);
+                            }}
+                            testId={String(index)}
                           />
                         </TableCell>
                         <TableCell>
@@ -27,6 +27,8 @@ export function BackupManagement() {
     stats?: {
       itemsImported: number;
       locationsImported: number;
+      lotsImported?: number;
+      drawersImported?: number;
       postsImported: number;
     };
   } | null>(null);
@@ -269,7 +271,13 @@ export function BackupManagement() {
                         <div className="text-sm">
                           <p>Items geïmporteerd: {importStatus.stats.itemsImported}</p>
                           <p>Locaties geïmporteerd: {importStatus.stats.locationsImported}</p>
+                          {!!importStatus.stats.lotsImported && (
+                            <p>Lots geïmporteerd: {importStatus.stats.lotsImported}</p>
+                          )}
                           <p>Posten geïmporteerd: {importStatus.stats.postsImported}</p>
+                          {!!importStatus.stats.drawersImported && (
+                            <p>Laden geïmporteerd: {importStatus.stats.drawersImported}</p>
+                          )}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { drawerPositions, type Drawer } from "@shared/schema";
+
+interface DrawerForm {
+  name: string;
+  position: string;
+  drawerNumber: string;
+}
+
+const emptyForm: DrawerForm = { name: "", position: "midden", drawerNumber: "" };
+
+const toPayload = (form: DrawerForm) => ({
+  name: form.name,
+  position: form.position,
+  drawerNumber: parseInt(form.drawerNumber),
+});
+
+// The structured drawers of a cabinet - item locations pick from these instead of typing a drawer
+export default function CabinetDrawerManager({ cabinetId }: { cabinetId: string }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const queryClient = useQueryClient();
+  const [newDrawer, setNewDrawer] = useState<DrawerForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<DrawerForm>(emptyForm);
+
+  const { data: drawers = [] } = useQuery<Drawer[]>({
+    queryKey: ['/api/cabinets', cabinetId, 'drawers'],
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/cabinets', cabinetId, 'drawers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/drawers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/drawer-migration'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Fout bij opslaan lade", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/cabinets/${cabinetId}/drawers`, toPayload(newDrawer));
+    },
+    onSuccess: () => {
+      setNewDrawer(emptyForm);
+      onSuccess();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/drawers/${id}`, toPayload(editForm));
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      onSuccess();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/drawers/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const startEdit = (drawer: Drawer) => {
+    setEditingId(drawer.id);
+    setEditForm({ name: drawer.name, position: drawer.position, drawerNumber: String(drawer.drawerNumber) });
+  };
+
+  const nextNumber = drawers.reduce((highest, drawer) => Math.max(highest, drawer.drawerNumber), 0) + 1;
+
+  const renderFields = (form: DrawerForm, setForm: (form: DrawerForm) => void, testId: string) => (
+    <>
+      <TableCell>
+        <Input
+          type="number"
+          min="1"
+          className="w-16"
+          placeholder={String(nextNumber)}
+          value={form.drawerNumber}
+          onChange={(e) => setForm({ ...form, drawerNumber: e.target.value })}
+          data-testid={`input-drawer-number-${testId}`}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          placeholder="Bijv. Lade 1"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          data-testid={`input-drawer-name-${testId}`}
+        />
+      </TableCell>
+      <TableCell>
+        <Select value={form.position} onValueChange={(position) => setForm({ ...form, position })}>
+          <SelectTrigger className="w-28" data-testid={`select-drawer-position-${testId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {drawerPositions.map(position => (
+              <SelectItem key={position} value={position}>{position}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+    </>
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Nr.</TableHead>
+          <TableHead>Naam</TableHead>
+          <TableHead>Positie</TableHead>
+          <TableHead></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {drawers.map(drawer => editingId === drawer.id ? (
+          <TableRow key={drawer.id}>
+            {renderFields(editForm, setEditForm, drawer.id)}
+            <TableCell className="text-right whitespace-nowrap">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateMutation.mutate(drawer.id)}
+                disabled={!editForm.name.trim() || !editForm.drawerNumber || updateMutation.isPending}
+                data-testid={`button-save-drawer-${drawer.id}`}
+              >
+                <Check className="w-4 h-4 text-green-600" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ) : (
+          <TableRow key={drawer.id} data-testid={`row-drawer-${drawer.id}`}>
+            <TableCell>{drawer.drawerNumber}</TableCell>
+            <TableCell className="font-medium">{drawer.name}</TableCell>
+            <TableCell>{drawer.position}</TableCell>
+            <TableCell className="text-right whitespace-nowrap">
+              <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(drawer)} data-testid={`button-edit-drawer-${drawer.id}`}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              {hasRole("administrator") && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => confirm(`Lade "${drawer.name}" verwijderen? Gekoppelde locaties houden de naam als vrije tekst.`) && deleteMutation.mutate(drawer.id)}
+                  data-testid={`button-delete-drawer-${drawer.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+        <TableRow>
+          {renderFields(newDrawer, setNewDrawer, "new")}
+          <TableCell className="text-right">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => createMutation.mutate()}
+              disabled={!newDrawer.name.trim() || !newDrawer.drawerNumber || createMutation.isPending}
+              data-testid={`button-add-drawer-${cabinetId}`}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+}
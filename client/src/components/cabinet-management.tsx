@@ -1,10 +1,12 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Edit, Trash2, Plus } from "lucide-react";
+import { Edit, Trash2, Plus, Link2 } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import AddCabinetDialog from "./add-cabinet-dialog";
 import EditCabinetDialog from "./edit-cabinet-dialog";
@@ -36,6 +38,8 @@ export default function CabinetManagement() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingCabinet, setEditingCabinet] = useState<Cabinet | null>(null);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("administrator");
   const queryClient = useQueryClient();
 
   const { data: cabinets = [], isLoading } = useQuery<Cabinet[]>({
@@ -86,14 +90,24 @@ export default function CabinetManagement() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-800">Kasten Beheren</h2>
-        <Button 
-          onClick={() => setShowAddDialog(true)}
-          data-testid="button-add-cabinet"
-          className="bg-medical-blue hover:bg-medical-blue/90"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Nieuwe Kast
-        </Button>
+        <div className="flex gap-2">
+          {hasRole("administrator") && (
+            <Link href="/laden-koppelen">
+              <Button variant="outline" data-testid="button-drawer-migration">
+                <Link2 className="w-4 h-4 mr-2" />
+                Laden koppelen
+              </Button>
+            </Link>
+          )}
+          <Button 
+            onClick={() => setShowAddDialog(true)}
+            data-testid="button-add-cabinet"
+            className="bg-medical-blue hover:bg-medical-blue/90"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Nieuwe Kast
+          </Button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -124,16 +138,18 @@ export default function CabinetManagement() {
                   >
                     <Edit className="w-4 h-4" />
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDeleteCabinet(cabinet)}
-                    disabled={deleteCabinetMutation.isPending}
-                    data-testid={`button-delete-cabinet-${cabinet.id}`}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteCabinet(cabinet)}
+                      disabled={deleteCabinetMutation.isPending}
+                      data-testid={`button-delete-cabinet-${cabinet.id}`}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -157,9 +173,11 @@ export default function CabinetManagement() {
       )}
 
       {/* Backup Management Section */}
-      <div className="border-t pt-6 mt-8">
-        <BackupManagement />
-      </div>
+      {isAdmin && (
+        <div className="border-t pt-6 mt-8">
+          <BackupManagement />
+        </div>
+      )}
 
       <AddCabinetDialog
         open={showAddDialog}
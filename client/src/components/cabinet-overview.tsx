@@ -2,8 +2,10 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Settings } from "lucide-react";
+import { Settings, FileDown, ClipboardCheck, QrCode } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import { CabinetOrderDialog } from "./cabinet-order-dialog";
+import { getCabinetColorHex } from "@shared/schema";
 
 interface CabinetSummary {
   id: string;
@@ -21,27 +23,6 @@ interface CabinetOverviewProps {
   ambulancePostName?: string;
 }
 
-// Convert Tailwind CSS color classes to hex colors
-const tailwindToHex = (tailwindClass: string): string => {
-  const colorMap: { [key: string]: string } = {
-    'bg-red-500': '#EF4444',
-    'bg-orange-500': '#F97316', 
-    'bg-yellow-500': '#EAB308',
-    'bg-green-500': '#22C55E',
-    'bg-blue-500': '#3B82F6',
-    'bg-purple-500': '#A855F7',
-    'bg-pink-500': '#EC4899',
-    'bg-indigo-500': '#6366F1',
-    'bg-teal-500': '#14B8A6',
-    'bg-lime-500': '#84CC16',
-    'bg-slate-500': '#64748B',
-    'bg-gray-700': '#374151',
-    'bg-slate-200': '#E2E8F0'
-  };
-  
-  return colorMap[tailwindClass] || '#6B7280'; // Default gray
-};
-
 // Get cabinet color styling
 const getCabinetColor = (cabinetId: string, cabinets: any[]): string => {
   const cabinet = cabinets.find((c: any) => c.id === cabinetId);
@@ -57,6 +38,7 @@ export default function CabinetOverview({
   ambulancePostName 
 }: CabinetOverviewProps) {
   const [showOrderDialog, setShowOrderDialog] = useState(false);
+  const { hasRole } = useAuth();
 
   // Get cabinet summary data
   const { data: summaryData = [] } = useQuery<CabinetSummary[]>({
@@ -131,16 +113,31 @@ export default function CabinetOverview({
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-semibold text-slate-900">Kast Overzicht</h2>
         {selectedAmbulancePost && ambulancePostName && (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setShowOrderDialog(true)}
-            className="flex items-center space-x-2"
-            data-testid="cabinet-order-settings"
-          >
-            <Settings className="w-4 h-4" />
-            <span>Volgorde</span>
-          </Button>
+          <div className="flex gap-2">
+            {hasRole("post-coordinator") && (
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={`/api/pick-list/pdf?posts=${selectedAmbulancePost}`}
+                  download
+                  className="flex items-center space-x-2"
+                  data-testid="button-pick-list-pdf"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  <span>Picklijst PDF</span>
+                </a>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowOrderDialog(true)}
+              className="flex items-center space-x-2"
+              data-testid="cabinet-order-settings"
+            >
+              <Settings className="w-4 h-4" />
+              <span>Volgorde</span>
+            </Button>
+          </div>
         )}
       </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
@@ -155,7 +152,7 @@ export default function CabinetOverview({
               <div className="flex items-center justify-between mb-4">
                 <div 
                   className="w-12 h-12 rounded-lg flex items-center justify-center"
-                  style={{ backgroundColor: tailwindToHex(cabinet.color || 'bg-slate-200') }}
+                  style={{ backgroundColor: getCabinetColorHex(cabinet.color || 'bg-slate-200') }}
                 >
                   <span className="text-white font-bold text-xl">{cabinet.abbreviation}</span>
                 </div>
@@ -166,9 +163,35 @@ export default function CabinetOverview({
                   <p className="text-sm text-slate-500">Items</p>
                 </div>
               </div>
-              <h3 className="font-semibold text-slate-900 mb-2" data-testid={`text-cabinet-name-${cabinet.id}`}>
-                {cabinet.name}
-              </h3>
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <h3 className="font-semibold text-slate-900" data-testid={`text-cabinet-name-${cabinet.id}`}>
+                  {cabinet.name}
+                </h3>
+                {selectedAmbulancePost && (
+                  <div className="flex gap-2">
+                    <a
+                      href={`/api/ambulance-posts/${selectedAmbulancePost}/cabinets/${cabinet.id}/sheet.pdf`}
+                      download
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-slate-400 hover:text-medical-blue"
+                      title="Inhoudsblad voor de kastdeur (PDF)"
+                      data-testid={`button-cabinet-sheet-${cabinet.id}`}
+                    >
+                      <FileDown className="w-4 h-4" />
+                    </a>
+                    <a
+                      href={`/api/ambulance-posts/${selectedAmbulancePost}/cabinets/${cabinet.id}/labels.pdf`}
+                      download
+                      onClick={(e) => e.stopPropagation()}
+                      className="text-slate-400 hover:text-medical-blue"
+                      title="QR-labels per lade (PDF)"
+                      data-testid={`button-cabinet-labels-${cabinet.id}`}
+                    >
+                      <QrCode className="w-4 h-4" />
+                    </a>
+                  </div>
+                )}
+              </div>
               <div className="space-y-1 text-sm text-slate-600">
                 {Object.entries(cabinet.categories).slice(0, 3).map(([category, count]) => (
                   <div key={category} className="flex justify-between">
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Eye } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AmbulancePost, ClonePostPlan, PostContact } from "@shared/schema";
+
+// Contacts left on automatic are matched by email on the server
+const AUTOMATIC = "automatisch";
+const NO_CONTACT = "geen";
+
+interface ClonePostDialogProps {
+  targetPostId: string;
+  targetPostName: string;
+  children?: React.ReactNode;
+}
+
+export default function ClonePostDialog({ targetPostId, targetPostName, children }: ClonePostDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [sourcePostId, setSourcePostId] = useState("");
+  const [contactChoices, setContactChoices] = useState<Record<string, string>>({});
+  const [plan, setPlan] = useState<ClonePostPlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+    enabled: open,
+  });
+
+  const { data: sourceContacts = [] } = useQuery<PostContact[]>({
+    queryKey: ['/api/post-contacts', sourcePostId],
+    enabled: open && !!sourcePostId,
+  });
+
+  const { data: targetContacts = [] } = useQuery<PostContact[]>({
+    queryKey: ['/api/post-contacts', targetPostId],
+    enabled: open,
+  });
+
+  const getContactMapping = () => Object.fromEntries(
+    Object.entries(contactChoices)
+      .filter(([, choice]) => choice !== AUTOMATIC)
+      .map(([sourceContactId, choice]) => [sourceContactId, choice === NO_CONTACT ? null : choice])
+  );
+
+  const cloneMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<ClonePostPlan> => {
+      const response = await apiRequest("POST", `/api/ambulance-posts/${targetPostId}/clone`, {
+        sourcePostId,
+        contactMapping: getContactMapping(),
+        dryRun,
+      });
+      return response.json();
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPlan(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/ambulance-posts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cabinet-locations'] });
+      toast({ title: "Post gekopieerd", description: `${result.createdCount} kast(en) en locatie(s) aangemaakt bij ${targetPostName}` });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fout bij kopiëren", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setSourcePostId("");
+      setContactChoices({});
+      setPlan(null);
+    }
+  };
+
+  // Any change to the choices makes an earlier preview stale
+  const changeSource = (postId: string) => {
+    setSourcePostId(postId);
+    setContactChoices({});
+    setPlan(null);
+  };
+
+  const changeContact = (sourceContactId: string, choice: string) => {
+    setContactChoices(current => ({ ...current, [sourceContactId]: choice }));
+    setPlan(null);
+  };
+
+  const newCabinets = plan?.cabinetLocations.filter(cabinet => !cabinet.exists) ?? [];
+  const newLocations = plan?.itemLocations.filter(location => !location.exists) ?? [];
+  const skippedLocations = (plan?.itemLocations.length ?? 0) - newLocations.length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid={`dialog-clone-post-${targetPostId}`}>
+        <DialogHeader>
+          <DialogTitle>Inrichting kopiëren naar {targetPostName}</DialogTitle>
+          <DialogDescription>
+            Kasten, kastvolgorde en itemlocaties worden overgenomen van de bronpost. Alle voorraad start als "Op voorraad".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Bronpost</Label>
+            <Select value={sourcePostId} onValueChange={changeSource}>
+              <SelectTrigger data-testid="select-clone-source">
+                <SelectValue placeholder="Kies de post om van te kopiëren" />
+              </SelectTrigger>
+              <SelectContent>
+                {ambulancePosts.filter(post => post.id !== targetPostId).map(post => (
+                  <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sourceContacts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Contactpersonen</Label>
+              <p className="text-sm text-slate-500">
+                Automatisch koppelt aan de contactpersoon van {targetPostName} met hetzelfde e-mailadres.
+              </p>
+              {sourceContacts.map(contact => (
+                <div key={contact.id} className="flex flex-col md:flex-row md:items-center gap-2">
+                  <span className="text-sm md:w-1/2">{contact.name} <span className="text-slate-500">({contact.email})</span></span>
+                  <Select value={contactChoices[contact.id] ?? AUTOMATIC} onValueChange={(choice) => changeContact(contact.id, choice)}>
+                    <SelectTrigger className="md:w-1/2" data-testid={`select-clone-contact-${contact.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTOMATIC}>Automatisch</SelectItem>
+                      <SelectItem value={NO_CONTACT}>Geen contactpersoon</SelectItem>
+                      {targetContacts.map(target => (
+                        <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-3 border-t pt-4" data-testid="clone-preview">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{newCabinets.length} nieuwe kast(en)</Badge>
+                <Badge variant="secondary">{newLocations.length} nieuwe locatie(s)</Badge>
+                {skippedLocations > 0 && <Badge variant="outline">{skippedLocations} al aanwezig, overgeslagen</Badge>}
+                <Badge variant="outline">{plan.copiesCabinetOrder ? "Kastvolgorde wordt overgenomen" : "Kastvolgorde blijft ongewijzigd"}</Badge>
+              </div>
+              {newLocations.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Plaats</TableHead>
+                      <TableHead>Aantal</TableHead>
+                      <TableHead>Contactpersoon</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {newLocations.map(location => (
+                      <TableRow key={location.sourceLocationId}>
+                        <TableCell className="font-medium">{location.itemName}</TableCell>
+                        <TableCell className="text-sm">{location.cabinetName}{location.drawer ? ` · ${location.drawer}` : ""}</TableCell>
+                        <TableCell className="text-sm">{location.currentQuantity ?? "-"}</TableCell>
+                        <TableCell className="text-sm">{location.contactPersonName ?? "Geen"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => cloneMutation.mutate(true)}
+              disabled={!sourcePostId || cloneMutation.isPending}
+              data-testid="button-clone-preview"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Voorbeeld
+            </Button>
+            <Button
+              onClick={() => confirm(`${newCabinets.length} kast(en) en ${newLocations.length} locatie(s) toevoegen aan ${targetPostName}?`) && cloneMutation.mutate(false)}
+              disabled={!plan || cloneMutation.isPending}
+              data-testid="button-clone-confirm"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Kopiëren
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
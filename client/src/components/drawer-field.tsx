@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Drawer } from "@shared/schema";
+
+const NO_DRAWER = "geen";
+
+interface DrawerFieldProps {
+  cabinetId: string;
+  drawer: string;
+  drawerId?: string;
+  onChange: (value: { drawer: string; drawerId: string }) => void;
+  testId: string;
+}
+
+// Cabinets with structured drawers pick one of them, other cabinets keep free text
+export default function DrawerField({ cabinetId, drawer, drawerId, onChange, testId }: DrawerFieldProps) {
+  const { data: drawers = [] } = useQuery<Drawer[]>({
+    queryKey: ['/api/drawers'],
+  });
+  const cabinetDrawers = drawers.filter(option => option.cabinetId === cabinetId);
+
+  if (cabinetDrawers.length === 0) {
+    return (
+      <Input
+        placeholder="Bijv. Boven, Links"
+        value={drawer}
+        onChange={(e) => onChange({ drawer: e.target.value, drawerId: "" })}
+        data-testid={`input-drawer-${testId}`}
+      />
+    );
+  }
+
+  return (
+    <Select
+      value={drawerId || (drawer ? "" : NO_DRAWER)}
+      onValueChange={(value) => {
+        const selected = cabinetDrawers.find(option => option.id === value);
+        onChange(selected ? { drawer: selected.name, drawerId: selected.id } : { drawer: "", drawerId: "" });
+      }}
+    >
+      <SelectTrigger data-testid={`select-drawer-${testId}`}>
+        {/* A label that was never linked stays visible until a drawer is picked */}
+        <SelectValue placeholder={drawer ? `${drawer} (niet gekoppeld)` : "Lade"} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_DRAWER}>Geen lade</SelectItem>
+        {cabinetDrawers.map(option => (
+          <SelectItem key={option.id} value={option.id}>{option.drawerNumber}. {option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import CabinetDrawerManager from "@/components/cabinet-drawer-manager";
 import type { Cabinet } from "@shared/schema";
 
 const formSchema = z.object({
@@ -300,6 +301,17 @@ export default function EditCabinetDialog({ open, onOpenChange, cabinet, onSucce
             )}
           </div>
 
+          {/* Laden - wijzigingen worden direct opgeslagen */}
+          <div className="space-y-2">
+            <Label className="text-base font-medium">Laden</Label>
+            <div className="border rounded-md">
+              <CabinetDrawerManager cabinetId={cabinet.id} />
+            </div>
+            <p className="text-xs text-gray-500">
+              Laden worden direct opgeslagen. Itemlocaties in deze kast kiezen uit deze laden.
+            </p>
+          </div>
+
           {/* Ambulancepost Selectie */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Ambulanceposten waar deze kast aanwezig is</Label>
@@ -39,20 +39,26 @@ import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import AddCabinetDialog from "@/components/add-cabinet-dialog";
 import AddPostDialog from "@/components/add-post-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Plus, Trash2, Package2, MapPin, Calendar, AlertTriangle, Camera, Save, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { MedicalItem, AmbulancePost, Cabinet, ItemLocation, PostContact } from "@shared/schema";
+import { deriveStockStatus, type MedicalItem, type AmbulancePost, type Cabinet, type ItemLocation, type PostContact } from "@shared/schema";
 import { CategorySelector } from "./category-selector";
+import { ItemAuditHistory } from "./item-audit-history";
+import { ItemLotManagement } from "./item-lot-management";
+import DrawerField from "./drawer-field";
 
 const editItemSchema = z.object({
   name: z.string().min(1, "Naam is verplicht"),
   description: z.string().optional(),
   category: z.string().min(1, "Categorie is verplicht"),
   searchTerms: z.string().optional(),
+  storeLocation: z.string().optional(),
   expiryDate: z.string().nullable(),
   photoUrl: z.string().nullable(),
   isDiscontinued: z.boolean().default(false),
@@ -71,13 +77,30 @@ interface LocationRow {
   ambulancePostId: string;
   cabinet: string;
   drawer: string;
+  drawerId?: string;
   contactPersonId?: string;
   stockStatus?: string;
   isLowStock?: boolean;
+  currentQuantity?: string;
+  minQuantity?: string;
+  maxQuantity?: string;
 }
 
+// Empty quantity inputs mean the location is not counted
+const parseQuantity = (value?: string) =>
+  value && value.trim() !== "" ? parseInt(value, 10) : null;
+
+// Counted locations show the status that the server will derive on save
+const getCountedStatus = (location: LocationRow) =>
+  deriveStockStatus({
+    currentQuantity: parseQuantity(location.currentQuantity),
+    minQuantity: parseQuantity(location.minQuantity),
+  });
+
 export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItemDialogProps) {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("administrator");
   const queryClient = useQueryClient();
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   
@@ -124,6 +147,7 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
       description: item.description || "",
       category: item.category,
       searchTerms: (item as any).searchTerms || "",
+      storeLocation: item.storeLocation || "",
       expiryDate: item.expiryDate || null,
       photoUrl: item.photoUrl || null,
       isDiscontinued: (item as any).isDiscontinued || false,
@@ -141,12 +165,17 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
   useEffect(() => {
     if (existingLocations && existingLocations.length > 0) {
       setItemLocations(existingLocations.map(loc => ({
+        id: loc.id,
         ambulancePostId: loc.ambulancePostId,
         cabinet: loc.cabinet,
         drawer: loc.drawer || "",
+        drawerId: loc.drawerId || "",
         contactPersonId: loc.contactPersonId || "",
         stockStatus: loc.stockStatus || "op-voorraad",
-        isLowStock: loc.isLowStock || false
+        isLowStock: loc.isLowStock || false,
+        currentQuantity: loc.currentQuantity?.toString() ?? "",
+        minQuantity: loc.minQuantity?.toString() ?? "",
+        maxQuantity: loc.maxQuantity?.toString() ?? ""
       })));
       console.log("Loaded existing locations with contact persons:", existingLocations);
     } else if (item?.id) {
@@ -169,6 +198,8 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
       queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/cabinets/summary'] });
       queryClient.invalidateQueries({ queryKey: ['/api/item-locations', item.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-status-history', item.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/audit?itemId=${item.id}`] });
       onOpenChange(false);
       onSuccess?.();
       toast({
@@ -232,6 +263,11 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
     if (field === 'stockStatus') {
       newLocations[index].isLowStock = value === 'bijna-op' || value === 'niet-meer-aanwezig';
     }
+
+    // A drawer belongs to one cabinet
+    if (field === 'cabinet') {
+      newLocations[index].drawerId = "";
+    }
     
     setItemLocations(newLocations);
   };
@@ -256,9 +292,13 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
     ).map(loc => ({
       ...loc,
       drawer: loc.drawer && loc.drawer.trim() !== "" ? loc.drawer.trim() : null,
+      drawerId: loc.drawerId || null,
       contactPersonId: loc.contactPersonId || null,
       stockStatus: loc.stockStatus || "op-voorraad",
-      isLowStock: loc.stockStatus === 'bijna-op' || loc.stockStatus === 'niet-meer-aanwezig'
+      isLowStock: loc.stockStatus === 'bijna-op' || loc.stockStatus === 'niet-meer-aanwezig',
+      currentQuantity: parseQuantity(loc.currentQuantity),
+      minQuantity: parseQuantity(loc.minQuantity),
+      maxQuantity: parseQuantity(loc.maxQuantity)
     }));
 
     const submissionData = {
@@ -311,575 +351,656 @@ export function EditItemDialog({ item, open, onOpenChange, onSuccess }: EditItem
           </div>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-            {/* Photo Upload Section */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Camera className="h-5 w-5" />
-                  Foto Upload
-                </CardTitle>
-                <CardDescription>
-                  Upload een foto van het medische item voor gemakkelijke herkenning
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="flex items-center gap-6">
-                  {form.watch('photoUrl') ? (
-                    <div className="relative">
-                      <img 
-                        src={form.watch('photoUrl')?.includes('storage.googleapis.com') 
-                          ? `/objects/uploads/${form.watch('photoUrl')?.split('/').pop()}` 
-                          : form.watch('photoUrl') || ''
-                        }
-                        alt="Item foto" 
-                        className="w-32 h-32 object-cover rounded-lg border-2 border-blue-200 shadow-md"
-                        onError={(e) => {
-                          // Fallback to original URL if objects route fails
-                          const target = e.currentTarget;
-                          const originalUrl = form.watch('photoUrl');
-                          if (originalUrl && !target.src.includes('storage.googleapis.com')) {
-                            target.src = originalUrl;
-                          } else {
-                            // Both failed, show placeholder
-                            target.style.display = 'none';
-                            const parentDiv = target.parentElement;
-                            if (parentDiv && !parentDiv.querySelector('.photo-placeholder')) {
-                              const placeholder = document.createElement('div');
-                              placeholder.className = 'photo-placeholder w-32 h-32 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center';
-                              placeholder.innerHTML = '<span class="text-xs text-gray-500">Foto fout</span>';
-                              parentDiv.appendChild(placeholder);
+        <Tabs defaultValue="details">
+          <TabsList className="mb-4">
+            <TabsTrigger value="details" data-testid="tab-item-details">Gegevens</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-item-history">Geschiedenis</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+                {/* Photo Upload Section */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Camera className="h-5 w-5" />
+                      Foto Upload
+                    </CardTitle>
+                    <CardDescription>
+                      Upload een foto van het medische item voor gemakkelijke herkenning
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-6">
+                      {form.watch('photoUrl') ? (
+                        <div className="relative">
+                          <img 
+                            src={form.watch('photoUrl')?.includes('storage.googleapis.com') 
+                              ? `/objects/uploads/${form.watch('photoUrl')?.split('/').pop()}` 
+                              : form.watch('photoUrl') || ''
                             }
-                          }
-                        }}
-                      />
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="sm"
-                        className="absolute -top-2 -right-2 h-8 w-8 rounded-full p-0"
-                        onClick={() => form.setValue('photoUrl', null as any)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ) : (
-                    <div className="w-32 h-32 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
-                      <div className="text-center">
-                        <Camera className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                        <span className="text-xs text-gray-500">Geen foto</span>
+                            alt="Item foto" 
+                            className="w-32 h-32 object-cover rounded-lg border-2 border-blue-200 shadow-md"
+                            onError={(e) => {
+                              // Fallback to original URL if objects route fails
+                              const target = e.currentTarget;
+                              const originalUrl = form.watch('photoUrl');
+                              if (originalUrl && !target.src.includes('storage.googleapis.com')) {
+                                target.src = originalUrl;
+                              } else {
+                                // Both failed, show placeholder
+                                target.style.display = 'none';
+                                const parentDiv = target.parentElement;
+                                if (parentDiv && !parentDiv.querySelector('.photo-placeholder')) {
+                                  const placeholder = document.createElement('div');
+                                  placeholder.className = 'photo-placeholder w-32 h-32 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center';
+                                  placeholder.innerHTML = '<span class="text-xs text-gray-500">Foto fout</span>';
+                                  parentDiv.appendChild(placeholder);
+                                }
+                              }
+                            }}
+                          />
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="sm"
+                            className="absolute -top-2 -right-2 h-8 w-8 rounded-full p-0"
+                            onClick={() => form.setValue('photoUrl', null as any)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="w-32 h-32 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
+                          <div className="text-center">
+                            <Camera className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                            <span className="text-xs text-gray-500">Geen foto</span>
+                          </div>
+                        </div>
+                      )}
+                      <div className="flex-1">
+                        <ObjectUploader
+                          maxNumberOfFiles={1}
+                          maxFileSize={10485760}
+                          onGetUploadParameters={handleGetUploadParameters}
+                          onComplete={handleUploadComplete}
+                          buttonClassName="bg-blue-600 hover:bg-blue-700 text-white"
+                        >
+                          <div className="flex items-center gap-2">
+                            <Camera className="h-4 w-4" />
+                            <span>Foto Uploaden</span>
+                          </div>
+                        </ObjectUploader>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Maximaal 10MB, ondersteunt JPG, PNG en HEIC formaten
+                        </p>
                       </div>
                     </div>
-                  )}
-                  <div className="flex-1">
-                    <ObjectUploader
-                      maxNumberOfFiles={1}
-                      maxFileSize={10485760}
-                      onGetUploadParameters={handleGetUploadParameters}
-                      onComplete={handleUploadComplete}
-                      buttonClassName="bg-blue-600 hover:bg-blue-700 text-white"
-                    >
-                      <div className="flex items-center gap-2">
-                        <Camera className="h-4 w-4" />
-                        <span>Foto Uploaden</span>
-                      </div>
-                    </ObjectUploader>
-                    <p className="text-xs text-muted-foreground mt-2">
-                      Maximaal 10MB, ondersteunt JPG, PNG en HEIC formaten
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Basic Information */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Package2 className="h-5 w-5" />
-                  Basis Informatie
-                </CardTitle>
-                <CardDescription>
-                  Naam, categorie en beschrijving van het medische item
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-sm font-medium">Naam *</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="Naam van het medische item" 
-                            {...field} 
-                            data-testid="input-name"
-                            className="focus:ring-2 focus:ring-blue-500" 
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="category"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-sm font-medium">Categorie *</FormLabel>
-                        <FormControl>
-                          <CategorySelector
-                            value={field.value}
-                            onValueChange={field.onChange}
-                            placeholder="Selecteer categorie"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium">Beschrijving</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Beschrijving van het item (optioneel)"
-                          className="min-h-[80px] focus:ring-2 focus:ring-blue-500"
-                          {...field} 
-                          data-testid="input-description"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  </CardContent>
+                </Card>
 
-                <FormField
-                  control={form.control}
-                  name="searchTerms"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-sm font-medium">Zoektermen</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="Alternatieve benamingen, zoektermen (bijv. inject, injectie, naald)"
-                          className="focus:ring-2 focus:ring-blue-500"
-                          {...field} 
-                          value={field.value || ""}
-                          data-testid="input-search-terms"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                      <p className="text-xs text-muted-foreground">
-                        Voeg alternatieve benamingen toe om dit item gemakkelijker te vinden
-                      </p>
-                    </FormItem>
-                  )}
-                />
-              </CardContent>
-            </Card>
-
-            {/* Additional Details */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Calendar className="h-5 w-5" />
-                  Vervaldatum
-                </CardTitle>
-                <CardDescription>
-                  Vervaldatum van het medische item
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <FormField
-                  control={form.control}
-                  name="expiryDate"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="flex items-center gap-2 text-sm font-medium">
-                        <Calendar className="h-4 w-4" />
-                        Vervaldatum
-                      </FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="date" 
-                          {...field} 
-                          value={field.value || ''}
-                          data-testid="input-expiry-date"
-                          className="focus:ring-2 focus:ring-blue-500"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </CardContent>
-            </Card>
-
-            {/* Discontinued Status */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="h-5 w-5" />
-                  Artikel Status
-                </CardTitle>
-                <CardDescription>
-                  Status en beschikbaarheid van het medische artikel
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-2 gap-6">
-                  <FormField
-                    control={form.control}
-                    name="isDiscontinued"
-                    render={({ field }) => (
-                      <FormItem>
-                        <div className="space-y-3">
-                          <FormLabel className="text-sm font-medium">Product Status</FormLabel>
-                          <div className="flex flex-row items-center justify-between rounded-lg border border-orange-200 bg-orange-50 p-4">
-                            <div className="space-y-0.5">
-                              <div className="flex items-center gap-2">
-                                <AlertTriangle className="h-4 w-4 text-orange-600" />
-                                <span className="text-sm font-medium">Niet meer leverbaar</span>
-                              </div>
-                              <div className="text-xs text-muted-foreground">
-                                Item wordt niet meer geproduceerd
-                              </div>
-                            </div>
+                {/* Basic Information */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Package2 className="h-5 w-5" />
+                      Basis Informatie
+                    </CardTitle>
+                    <CardDescription>
+                      Naam, categorie en beschrijving van het medische item
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Naam *</FormLabel>
                             <FormControl>
-                              <Switch
-                                checked={field.value}
-                                onCheckedChange={field.onChange}
-                                data-testid="switch-discontinued"
+                              <Input 
+                                placeholder="Naam van het medische item" 
+                                {...field} 
+                                data-testid="input-name"
+                                className="focus:ring-2 focus:ring-blue-500" 
                               />
                             </FormControl>
-                          </div>
-                        </div>
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Replacement Item Selection - only show if discontinued */}
-            {form.watch('isDiscontinued') && (
-              <Card className="border-orange-200 bg-orange-50">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2 text-orange-800">
-                    <Package2 className="h-5 w-5" />
-                    Vervangingsproduct
-                  </CardTitle>
-                  <CardDescription className="text-orange-700">
-                    Selecteer een alternatief product om dit vervangen item te vervangen
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <FormField
-                    control={form.control}
-                    name="replacementItemId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-sm font-medium">Vervangingsproduct</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value || ""} data-testid="select-replacement-item">
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="category"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Categorie *</FormLabel>
+                            <FormControl>
+                              <CategorySelector
+                                value={field.value}
+                                onValueChange={field.onChange}
+                                placeholder="Selecteer categorie"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="description"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Beschrijving</FormLabel>
                           <FormControl>
-                            <SelectTrigger className="focus:ring-2 focus:ring-orange-500">
-                              <SelectValue placeholder="Selecteer vervangingsproduct (optioneel)" />
-                            </SelectTrigger>
+                            <Textarea 
+                              placeholder="Beschrijving van het item (optioneel)"
+                              className="min-h-[80px] focus:ring-2 focus:ring-blue-500"
+                              {...field} 
+                              data-testid="input-description"
+                            />
                           </FormControl>
-                          <SelectContent>
-                            <SelectItem value="none">Geen vervangingsproduct</SelectItem>
-                            {allMedicalItems
-                              .filter(replacementItem => replacementItem.id !== item.id && !(replacementItem as any).isDiscontinued)
-                              .map((replacementItem) => (
-                                <SelectItem key={replacementItem.id} value={replacementItem.id}>
-                                  <div className="flex items-center gap-2">
-                                    <Badge variant="secondary" className="text-xs">
-                                      {replacementItem.category}
-                                    </Badge>
-                                    <span>{replacementItem.name}</span>
-                                  </div>
-                                </SelectItem>
-                              ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                        <p className="text-xs text-orange-700 mt-1">
-                          Kies een product dat dit item kan vervangen voor een soepele overgang
-                        </p>
-                      </FormItem>
-                    )}
-                  />
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Location Management Table */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="searchTerms"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Zoektermen</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder="Alternatieve benamingen, zoektermen (bijv. inject, injectie, naald)"
+                              className="focus:ring-2 focus:ring-blue-500"
+                              {...field} 
+                              value={field.value || ""}
+                              data-testid="input-search-terms"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                          <p className="text-xs text-muted-foreground">
+                            Voeg alternatieve benamingen toe om dit item gemakkelijker te vinden
+                          </p>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="storeLocation"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Magazijnlocatie</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder="Vak in het centrale magazijn (bijv. A-12)"
+                              className="focus:ring-2 focus:ring-blue-500"
+                              {...field} 
+                              value={field.value || ""}
+                              data-testid="input-store-location"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                          <p className="text-xs text-muted-foreground">
+                            De picklijst staat op volgorde van magazijnlocatie
+                          </p>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Additional Details */}
+                <Card>
+                  <CardHeader>
                     <CardTitle className="flex items-center gap-2">
-                      <MapPin className="h-5 w-5" />
-                      Locatie Item per post
+                      <Calendar className="h-5 w-5" />
+                      Vervaldatum
                     </CardTitle>
                     <CardDescription>
-                      Beheer waar dit item wordt opgeslagen in verschillende ambulanceposten
+                      Vervaldatum van het medische item
                     </CardDescription>
-                  </div>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={addLocation}
-                    data-testid="button-add-location"
-                    className="flex items-center gap-2"
-                  >
-                    <Plus className="w-4 h-4" />
-                    Locatie Toevoegen
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-
-                <div className="border rounded-lg bg-white shadow-sm">
-                <Table className="w-full">
-                  <TableHeader>
-                    <TableRow className="bg-gray-50">
-                      <TableHead className="w-[180px] font-semibold">Ambulancepost</TableHead>
-                      <TableHead className="w-[160px] font-semibold">Kast</TableHead>
-                      <TableHead className="w-[120px] font-semibold">Lade</TableHead>
-                      <TableHead className="w-[160px] font-semibold">Contactpersoon</TableHead>
-                      <TableHead className="w-[140px] font-semibold">Voorraad Status</TableHead>
-                      <TableHead className="w-[80px] font-semibold text-center">Acties</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {itemLocations.map((location, index) => (
-                      <TableRow key={index} className="hover:bg-gray-50 transition-colors">
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Select
-                              value={location.ambulancePostId}
-                              onValueChange={(value) => updateLocation(index, 'ambulancePostId', value)}
-                            >
-                              <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500" data-testid={`select-post-${index}`}>
-                                <SelectValue placeholder="Selecteer post" />
-                              </SelectTrigger>
+                  </CardHeader>
+                  <CardContent>
+                    <FormField
+                      control={form.control}
+                      name="expiryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="flex items-center gap-2 text-sm font-medium">
+                            <Calendar className="h-4 w-4" />
+                            Vervaldatum
+                          </FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="date" 
+                              {...field} 
+                              value={field.value || ''}
+                              data-testid="input-expiry-date"
+                              className="focus:ring-2 focus:ring-blue-500"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Discontinued Status */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <AlertTriangle className="h-5 w-5" />
+                      Artikel Status
+                    </CardTitle>
+                    <CardDescription>
+                      Status en beschikbaarheid van het medische artikel
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="isDiscontinued"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="space-y-3">
+                              <FormLabel className="text-sm font-medium">Product Status</FormLabel>
+                              <div className="flex flex-row items-center justify-between rounded-lg border border-orange-200 bg-orange-50 p-4">
+                                <div className="space-y-0.5">
+                                  <div className="flex items-center gap-2">
+                                    <AlertTriangle className="h-4 w-4 text-orange-600" />
+                                    <span className="text-sm font-medium">Niet meer leverbaar</span>
+                                  </div>
+                                  <div className="text-xs text-muted-foreground">
+                                    Item wordt niet meer geproduceerd
+                                  </div>
+                                </div>
+                                <FormControl>
+                                  <Switch
+                                    checked={field.value}
+                                    onCheckedChange={field.onChange}
+                                    data-testid="switch-discontinued"
+                                  />
+                                </FormControl>
+                              </div>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Replacement Item Selection - only show if discontinued */}
+                {form.watch('isDiscontinued') && (
+                  <Card className="border-orange-200 bg-orange-50">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-orange-800">
+                        <Package2 className="h-5 w-5" />
+                        Vervangingsproduct
+                      </CardTitle>
+                      <CardDescription className="text-orange-700">
+                        Selecteer een alternatief product om dit vervangen item te vervangen
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <FormField
+                        control={form.control}
+                        name="replacementItemId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-sm font-medium">Vervangingsproduct</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value || ""} data-testid="select-replacement-item">
+                              <FormControl>
+                                <SelectTrigger className="focus:ring-2 focus:ring-orange-500">
+                                  <SelectValue placeholder="Selecteer vervangingsproduct (optioneel)" />
+                                </SelectTrigger>
+                              </FormControl>
                               <SelectContent>
-                                {ambulancePosts.map((post) => (
-                                  <SelectItem key={post.id} value={post.id}>
-                                    {post.name}
-                                  </SelectItem>
-                                ))}
+                                <SelectItem value="none">Geen vervangingsproduct</SelectItem>
+                                {allMedicalItems
+                                  .filter(replacementItem => replacementItem.id !== item.id && !(replacementItem as any).isDiscontinued)
+                                  .map((replacementItem) => (
+                                    <SelectItem key={replacementItem.id} value={replacementItem.id}>
+                                      <div className="flex items-center gap-2">
+                                        <Badge variant="secondary" className="text-xs">
+                                          {replacementItem.category}
+                                        </Badge>
+                                        <span>{replacementItem.name}</span>
+                                      </div>
+                                    </SelectItem>
+                                  ))}
                               </SelectContent>
                             </Select>
+                            <FormMessage />
+                            <p className="text-xs text-orange-700 mt-1">
+                              Kies een product dat dit item kan vervangen voor een soepele overgang
+                            </p>
+                          </FormItem>
+                        )}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Location Management Table */}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <MapPin className="h-5 w-5" />
+                          Locatie Item per post
+                        </CardTitle>
+                        <CardDescription>
+                          Beheer waar dit item wordt opgeslagen in verschillende ambulanceposten
+                        </CardDescription>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addLocation}
+                        data-testid="button-add-location"
+                        className="flex items-center gap-2"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Locatie Toevoegen
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+
+                    <div className="border rounded-lg bg-white shadow-sm">
+                    <Table className="w-full">
+                      <TableHeader>
+                        <TableRow className="bg-gray-50">
+                          <TableHead className="w-[180px] font-semibold">Ambulancepost</TableHead>
+                          <TableHead className="w-[160px] font-semibold">Kast</TableHead>
+                          <TableHead className="w-[120px] font-semibold">Lade</TableHead>
+                          <TableHead className="w-[160px] font-semibold">Contactpersoon</TableHead>
+                          <TableHead className="w-[200px] font-semibold">Aantal / Min / Max</TableHead>
+                          <TableHead className="w-[140px] font-semibold">Voorraad Status</TableHead>
+                          <TableHead className="w-[80px] font-semibold text-center">Acties</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {itemLocations.map((location, index) => (
+                          <TableRow key={index} className="hover:bg-gray-50 transition-colors">
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Select
+                                  value={location.ambulancePostId}
+                                  onValueChange={(value) => updateLocation(index, 'ambulancePostId', value)}
+                                >
+                                  <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500" data-testid={`select-post-${index}`}>
+                                    <SelectValue placeholder="Selecteer post" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {ambulancePosts.map((post) => (
+                                      <SelectItem key={post.id} value={post.id}>
+                                        {post.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setIsAddPostOpen(true)}
+                                  data-testid={`button-add-post-${index}`}
+                                >
+                                  <Plus className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Select
+                                  value={location.cabinet}
+                                  onValueChange={(value) => updateLocation(index, 'cabinet', value)}
+                                >
+                                  <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500" data-testid={`select-cabinet-${index}`}>
+                                    <SelectValue placeholder="Selecteer kast" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {cabinets.map((cabinet) => (
+                                      <SelectItem key={cabinet.id} value={cabinet.id}>
+                                        {cabinet.name} ({cabinet.abbreviation})
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setIsAddCabinetOpen(true)}
+                                  data-testid={`button-add-cabinet-${index}`}
+                                >
+                                  <Plus className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <DrawerField
+                                cabinetId={location.cabinet}
+                                drawer={location.drawer}
+                                drawerId={location.drawerId}
+                                onChange={(value) => {
+                                  const newLocations = [...itemLocations];
+                                  newLocations[index] = { ...newLocations[index], ...value };
+                                  setItemLocations(newLocations);
+                                }}
+                                testId={String(index)}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={location.contactPersonId || "none"}
+                                onValueChange={(value) => updateLocation(index, 'contactPersonId', value === "none" ? "" : value)}
+                              >
+                                <SelectTrigger data-testid={`select-contact-person-${index}`} className="w-full focus:ring-2 focus:ring-blue-500">
+                                  <SelectValue placeholder="Contactpersoon" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Geen contactpersoon</SelectItem>
+                                  {location.ambulancePostId ? getContactsForPost(location.ambulancePostId).map((contact: PostContact) => (
+                                    <SelectItem key={contact.id} value={contact.id}>
+                                      {contact.name} - {contact.department || contact.email}
+                                    </SelectItem>
+                                  )) : (
+                                    <SelectItem value="select-post" disabled>
+                                      Selecteer eerst een ambulancepost
+                                    </SelectItem>
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  placeholder="Aantal"
+                                  value={location.currentQuantity ?? ""}
+                                  onChange={(e) => updateLocation(index, 'currentQuantity', e.target.value)}
+                                  data-testid={`input-current-quantity-${index}`}
+                                  className="w-20 focus:ring-2 focus:ring-blue-500"
+                                />
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  placeholder="Min"
+                                  value={location.minQuantity ?? ""}
+                                  onChange={(e) => updateLocation(index, 'minQuantity', e.target.value)}
+                                  data-testid={`input-min-quantity-${index}`}
+                                  className="w-16 focus:ring-2 focus:ring-blue-500"
+                                />
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  placeholder="Max"
+                                  value={location.maxQuantity ?? ""}
+                                  onChange={(e) => updateLocation(index, 'maxQuantity', e.target.value)}
+                                  data-testid={`input-max-quantity-${index}`}
+                                  className="w-16 focus:ring-2 focus:ring-blue-500"
+                                />
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Select
+                                value={getCountedStatus(location) ?? location.stockStatus ?? "op-voorraad"}
+                                onValueChange={(value) => updateLocation(index, 'stockStatus', value)}
+                                disabled={!!getCountedStatus(location)}
+                              >
+                                <SelectTrigger data-testid={`select-stock-status-${index}`} className="w-full focus:ring-2 focus:ring-blue-500">
+                                  <SelectValue placeholder="Status" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="op-voorraad">
+                                    <div className="flex items-center gap-2">
+                                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                                      Op voorraad
+                                    </div>
+                                  </SelectItem>
+                                  <SelectItem value="bijna-op">
+                                    <div className="flex items-center gap-2">
+                                      <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
+                                      Bijna op
+                                    </div>
+                                  </SelectItem>
+                                  <SelectItem value="niet-meer-aanwezig">
+                                    <div className="flex items-center gap-2">
+                                      <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                                      Niet meer aanwezig
+                                    </div>
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell className="text-center">
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeLocation(index)}
+                                disabled={itemLocations.length === 1}
+                                data-testid={`button-remove-location-${index}`}
+                                className="hover:bg-red-50 hover:border-red-300 hover:text-red-600"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Lot Management */}
+                <ItemLotManagement
+                  itemId={item.id}
+                  locations={existingLocations ?? []}
+                  ambulancePosts={ambulancePosts}
+                  cabinets={cabinets}
+                />
+
+                {/* Action Buttons */}
+                <Card className="bg-gray-50 border-t-2 border-blue-200">
+                  <CardContent className="pt-6">
+                    <div className="flex justify-between items-center">
+                      {/* Delete button section */}
+                      <div>
+                        {!isAdmin ? null : !showDeleteConfirmation ? (
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            onClick={() => setShowDeleteConfirmation(true)}
+                            data-testid="button-delete"
+                            className="bg-red-600 hover:bg-red-700 flex items-center gap-2"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Verwijderen
+                          </Button>
+                        ) : (
+                          <div className="flex items-center gap-3">
+                            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                              <span className="text-red-600 text-sm font-medium">
+                                Weet je zeker dat je het item voor alle posten wilt verwijderen?
+                              </span>
+                            </div>
                             <Button
                               type="button"
-                              variant="outline"
+                              variant="destructive"
                               size="sm"
-                              onClick={() => setIsAddPostOpen(true)}
-                              data-testid={`button-add-post-${index}`}
+                              onClick={handleDelete}
+                              disabled={deleteItemMutation.isPending}
+                              data-testid="button-confirm-delete"
+                              className="flex items-center gap-2"
                             >
-                              <Plus className="w-4 h-4" />
+                              <Trash2 className="w-4 h-4" />
+                              {deleteItemMutation.isPending ? "Bezig..." : "Ja, verwijderen"}
                             </Button>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Select
-                              value={location.cabinet}
-                              onValueChange={(value) => updateLocation(index, 'cabinet', value)}
-                            >
-                              <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500" data-testid={`select-cabinet-${index}`}>
-                                <SelectValue placeholder="Selecteer kast" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {cabinets.map((cabinet) => (
-                                  <SelectItem key={cabinet.id} value={cabinet.id}>
-                                    {cabinet.name} ({cabinet.abbreviation})
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
                             <Button
                               type="button"
                               variant="outline"
                               size="sm"
-                              onClick={() => setIsAddCabinetOpen(true)}
-                              data-testid={`button-add-cabinet-${index}`}
+                              onClick={() => setShowDeleteConfirmation(false)}
+                              data-testid="button-cancel-delete"
                             >
-                              <Plus className="w-4 h-4" />
+                              Annuleren
                             </Button>
                           </div>
-                        </TableCell>
-                        <TableCell>
-                          <Input
-                            placeholder="Lade (optioneel)"
-                            value={location.drawer}
-                            onChange={(e) => updateLocation(index, 'drawer', e.target.value)}
-                            data-testid={`input-drawer-${index}`}
-                            className="focus:ring-2 focus:ring-blue-500"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Select
-                            value={location.contactPersonId || "none"}
-                            onValueChange={(value) => updateLocation(index, 'contactPersonId', value === "none" ? "" : value)}
-                          >
-                            <SelectTrigger data-testid={`select-contact-person-${index}`} className="w-full focus:ring-2 focus:ring-blue-500">
-                              <SelectValue placeholder="Contactpersoon" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="none">Geen contactpersoon</SelectItem>
-                              {location.ambulancePostId ? getContactsForPost(location.ambulancePostId).map((contact: PostContact) => (
-                                <SelectItem key={contact.id} value={contact.id}>
-                                  {contact.name} - {contact.department || contact.email}
-                                </SelectItem>
-                              )) : (
-                                <SelectItem value="select-post" disabled>
-                                  Selecteer eerst een ambulancepost
-                                </SelectItem>
-                              )}
-                            </SelectContent>
-                          </Select>
-                        </TableCell>
-                        <TableCell>
-                          <Select
-                            value={location.stockStatus || "op-voorraad"}
-                            onValueChange={(value) => updateLocation(index, 'stockStatus', value)}
-                          >
-                            <SelectTrigger data-testid={`select-stock-status-${index}`} className="w-full focus:ring-2 focus:ring-blue-500">
-                              <SelectValue placeholder="Status" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="op-voorraad">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                                  Op voorraad
-                                </div>
-                              </SelectItem>
-                              <SelectItem value="bijna-op">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
-                                  Bijna op
-                                </div>
-                              </SelectItem>
-                              <SelectItem value="niet-meer-aanwezig">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                                  Niet meer aanwezig
-                                </div>
-                              </SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </TableCell>
-                        <TableCell className="text-center">
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeLocation(index)}
-                            disabled={itemLocations.length === 1}
-                            data-testid={`button-remove-location-${index}`}
-                            className="hover:bg-red-50 hover:border-red-300 hover:text-red-600"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Action Buttons */}
-            <Card className="bg-gray-50 border-t-2 border-blue-200">
-              <CardContent className="pt-6">
-                <div className="flex justify-between items-center">
-                  {/* Delete button section */}
-                  <div>
-                    {!showDeleteConfirmation ? (
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        onClick={() => setShowDeleteConfirmation(true)}
-                        data-testid="button-delete"
-                        className="bg-red-600 hover:bg-red-700 flex items-center gap-2"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                        Verwijderen
-                      </Button>
-                    ) : (
-                      <div className="flex items-center gap-3">
-                        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
-                          <span className="text-red-600 text-sm font-medium">
-                            Weet je zeker dat je het item voor alle posten wilt verwijderen?
-                          </span>
-                        </div>
-                        <Button
-                          type="button"
-                          variant="destructive"
-                          size="sm"
-                          onClick={handleDelete}
-                          disabled={deleteItemMutation.isPending}
-                          data-testid="button-confirm-delete"
+                        )}
+                      </div>
+
+                      {/* Action buttons */}
+                      <div className="flex gap-3">
+                        <Button 
+                          type="button" 
+                          variant="outline" 
+                          onClick={() => onOpenChange(false)}
+                          data-testid="button-cancel"
                           className="flex items-center gap-2"
                         >
-                          <Trash2 className="w-4 h-4" />
-                          {deleteItemMutation.isPending ? "Bezig..." : "Ja, verwijderen"}
+                          <X className="w-4 h-4" />
+                          Sluiten
                         </Button>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setShowDeleteConfirmation(false)}
-                          data-testid="button-cancel-delete"
+                        <Button 
+                          type="submit" 
+                          disabled={updateItemMutation.isPending}
+                          className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2"
+                          data-testid="button-submit"
                         >
-                          Annuleren
+                          <Save className="w-4 h-4" />
+                          {updateItemMutation.isPending ? "Bezig..." : "Item Bijwerken"}
                         </Button>
                       </div>
-                    )}
-                  </div>
-
-                  {/* Action buttons */}
-                  <div className="flex gap-3">
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={() => onOpenChange(false)}
-                      data-testid="button-cancel"
-                      className="flex items-center gap-2"
-                    >
-                      <X className="w-4 h-4" />
-                      Sluiten
-                    </Button>
-                    <Button 
-                      type="submit" 
-                      disabled={updateItemMutation.isPending}
-                      className="bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2"
-                      data-testid="button-submit"
-                    >
-                      <Save className="w-4 h-4" />
-                      {updateItemMutation.isPending ? "Bezig..." : "Item Bijwerken"}
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </form>
-        </Form>
+                    </div>
+                  </CardContent>
+                </Card>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {open && <ItemAuditHistory itemId={item.id} />}
+          </TabsContent>
+        </Tabs>
 
         {/* Add Cabinet Dialog */}
         <AddCabinetDialog 
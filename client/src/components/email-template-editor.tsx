@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, RotateCcw, Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { emailTemplatePlaceholders, type EmailTemplateKey, type EmailTemplateView, type MedicalItem } from "@shared/schema";
+
+const AUTO_ITEM = "auto";
+const PREVIEW_DELAY_MS = 400;
+
+export function EmailTemplateEditor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>("restock");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [previewItemId, setPreviewItemId] = useState(AUTO_ITEM);
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+
+  const { data: templates = [] } = useQuery<EmailTemplateView[]>({
+    queryKey: ['/api/email-templates'],
+  });
+
+  const { data: items = [] } = useQuery<MedicalItem[]>({
+    queryKey: ['/api/medical-items'],
+  });
+
+  const template = templates.find(candidate => candidate.key === selectedKey);
+
+  useEffect(() => {
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  }, [template]);
+
+  // Live preview - rendered by the server with a real item, a moment after the last keystroke
+  useEffect(() => {
+    if (!template) return;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await apiRequest("POST", `/api/email-templates/${selectedKey}/preview`, {
+          subject,
+          body,
+          itemId: previewItemId === AUTO_ITEM ? undefined : previewItemId,
+        });
+        setPreview(await response.json());
+      } catch {
+        setPreview(null);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [template, selectedKey, subject, body, previewItemId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/email-templates/${selectedKey}`, { subject, body });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({
+        title: "Opgeslagen",
+        description: "De email template is bijgewerkt",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij opslaan",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/email-templates/${selectedKey}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({
+        title: "Standaard hersteld",
+        description: "De email template gebruikt weer de standaard tekst",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij herstellen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isDirty = !!template && (subject !== template.subject || body !== template.body);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-medical-blue" />
+          Email Templates
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Pas onderwerp en tekst van de automatische emails aan. Kopregel, opmaak en voettekst blijven hetzelfde.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={selectedKey} onValueChange={(value) => setSelectedKey(value as EmailTemplateKey)}>
+              <SelectTrigger data-testid="select-email-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(candidate => (
+                  <SelectItem key={candidate.key} value={candidate.key}>
+                    {candidate.name}{candidate.isCustom ? " (aangepast)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Voorbeeld met item</Label>
+            <Select value={previewItemId} onValueChange={setPreviewItemId} disabled={selectedKey === "test"}>
+              <SelectTrigger data-testid="select-preview-item">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_ITEM}>Eerste item met locatie</SelectItem>
+                {items.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="template-subject">Onderwerp</Label>
+                {template?.isCustom && <Badge variant="secondary">Aangepast</Badge>}
+              </div>
+              <Input
+                id="template-subject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                data-testid="input-template-subject"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-body">Inhoud (HTML)</Label>
+              <Textarea
+                id="template-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={14}
+                className="font-mono text-xs"
+                data-testid="textarea-template-body"
+              />
+            </div>
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs">
+              <p className="font-medium text-slate-700 mb-2">Beschikbare placeholders</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {emailTemplatePlaceholders.map(({ placeholder, description }) => (
+                  <div key={placeholder}>
+                    <code className="text-medical-blue">{placeholder}</code>
+                    <span className="text-slate-500"> - {description}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Voorbeeld</Label>
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <div className="bg-slate-50 px-3 py-2 text-sm border-b border-slate-200" data-testid="text-preview-subject">
+                <span className="text-slate-500">Onderwerp: </span>{preview?.subject ?? "-"}
+              </div>
+              {/* Sandboxed so the template HTML cannot run scripts in the app */}
+              <iframe
+                title="Email voorbeeld"
+                sandbox=""
+                srcDoc={preview?.html ?? ""}
+                className="w-full h-[480px] bg-white"
+                data-testid="iframe-template-preview"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={!template?.isCustom || resetMutation.isPending}
+            data-testid="button-reset-template"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Standaard herstellen
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={!isDirty || saveMutation.isPending}
+            data-testid="button-save-template"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Opslaan..." : "Opslaan"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
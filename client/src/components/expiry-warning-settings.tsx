@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, Play, Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ExpiryWarningSettings as Settings } from "@shared/schema";
+
+export function ExpiryWarningSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(true);
+  const [windowDays, setWindowDays] = useState("60, 30, 7");
+  const [sendTime, setSendTime] = useState("07:00");
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ['/api/expiry-warning-settings'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setEnabled(settings.enabled);
+      setWindowDays(settings.windowDays.join(", "));
+      setSendTime(settings.sendTime);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const days = windowDays
+        .split(",")
+        .map(value => parseInt(value.trim(), 10))
+        .filter(value => !isNaN(value));
+      const response = await apiRequest("PUT", "/api/expiry-warning-settings", { enabled, windowDays: days, sendTime });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expiry-warning-settings'] });
+      toast({
+        title: "Opgeslagen",
+        description: "Vervaldatum waarschuwingen zijn bijgewerkt",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij opslaan",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/expiry-warnings/run");
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Waarschuwingen verstuurd",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij versturen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-amber-500" />
+          Vervaldatum Waarschuwingen
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Dagelijks krijgt elke contactpersoon één overzicht van items die binnen de ingestelde termijnen verlopen.
+          Een waarschuwing wordt per termijn maar één keer verstuurd.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="expiry-enabled">Automatisch versturen</Label>
+          <Switch
+            id="expiry-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-expiry-enabled"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="expiry-windows">Waarschuwingstermijnen (dagen)</Label>
+            <Input
+              id="expiry-windows"
+              placeholder="60, 30, 7"
+              value={windowDays}
+              onChange={(e) => setWindowDays(e.target.value)}
+              data-testid="input-expiry-windows"
+            />
+            <p className="text-xs text-slate-500">Komma-gescheiden, bijv. 60, 30, 7</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expiry-send-time">Verzendtijd</Label>
+            <Input
+              id="expiry-send-time"
+              type="time"
+              value={sendTime}
+              onChange={(e) => setSendTime(e.target.value)}
+              data-testid="input-expiry-send-time"
+            />
+            {settings?.lastRunDate && (
+              <p className="text-xs text-slate-500">
+                Laatst verstuurd op {new Date(settings.lastRunDate).toLocaleDateString('nl-NL')}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            data-testid="button-run-expiry-warnings"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            {runMutation.isPending ? "Versturen..." : "Nu Versturen"}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-expiry-settings"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Opslaan..." : "Opslaan"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
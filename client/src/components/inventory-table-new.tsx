@@ -5,11 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { EditItemDialog } from "../components/edit-item-dialog";
 import { LocationStockStatus } from "../components/location-stock-status";
 import { OtherPostsAvailability } from "../components/other-posts-availability";
-import type { MedicalItem } from "@shared/schema";
+import { StockStatusTimeline } from "../components/stock-status-timeline";
+import { SendAllSupplyRequestsButton } from "../components/send-all-supply-requests-button";
+import { isQuantityTracked, isOpenSupplyRequest, type MedicalItem } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 
 interface InventoryTableProps {
@@ -362,7 +365,9 @@ const SupplyRequestColumn = ({ item, selectedPost }: { item: MedicalItem; select
     loc.stockStatus === 'bijna-op' || loc.stockStatus === 'niet-meer-aanwezig'
   );
 
-  const hasRecentRequest = notifications.length > 0;
+  // Delivered and cancelled requests are kept as history - only open ones count here
+  const openRequests = notifications.filter(isOpenSupplyRequest);
+  const hasRecentRequest = openRequests.length > 0;
 
   if (!needsSupply && !hasRecentRequest) {
     return (
@@ -373,7 +378,7 @@ const SupplyRequestColumn = ({ item, selectedPost }: { item: MedicalItem; select
   }
 
   if (hasRecentRequest) {
-    const latestRequest = notifications[0];
+    const latestRequest = openRequests[0];
     
     // Find the contact person who received the email
     const location = relevantLocations.find((loc: any) => 
@@ -428,6 +433,9 @@ const ActionsColumn = ({ item, selectedPost, onEdit }: {
   selectedPost?: string;
   onEdit: () => void;
 }) => {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("post-coordinator");
+
   // If item is discontinued, show only text instead of dropdown
   if ((item as any).isDiscontinued) {
     return (
@@ -435,14 +443,16 @@ const ActionsColumn = ({ item, selectedPost, onEdit }: {
         <div className="text-xs text-gray-600 px-2 py-1 bg-gray-100 rounded">
           Niet meer leverbaar
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onEdit}
-          data-testid={`button-edit-${item.id}`}
-        >
-          <Edit className="w-4 h-4" />
-        </Button>
+        {canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onEdit}
+            data-testid={`button-edit-${item.id}`}
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+        )}
       </div>
     );
   }
@@ -453,15 +463,17 @@ const ActionsColumn = ({ item, selectedPost, onEdit }: {
       <LocationStockStatus item={item} selectedPost={selectedPost} />
       
       {/* Action buttons */}
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={onEdit}
-        data-testid={`button-edit-${item.id}`}
-        className="ml-2"
-      >
-        <Edit className="w-4 h-4" />
-      </Button>
+      {canEdit && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onEdit}
+          data-testid={`button-edit-${item.id}`}
+          className="ml-2"
+        >
+          <Edit className="w-4 h-4" />
+        </Button>
+      )}
     </div>
   );
 };
@@ -474,6 +486,7 @@ const ItemDetailView = ({ item, open, onOpenChange, selectedPost }: {
   selectedPost?: string;
 }) => {
   const [editingItem, setEditingItem] = useState<MedicalItem | null>(null);
+  const { hasRole } = useAuth();
 
   const { data: locations = [] } = useQuery({
     queryKey: ['/api/item-locations', item?.id],
@@ -504,8 +517,21 @@ const ItemDetailView = ({ item, open, onOpenChange, selectedPost }: {
     },
   });
 
+  // Earliest lot expiry per item - replaces the item expiry date when lots are registered
+  const { data: lotExpiries = {} } = useQuery<Record<string, string>>({
+    queryKey: ['/api/lots/effective-expiry', selectedPost],
+    queryFn: async () => {
+      const params = selectedPost ? `?ambulancePost=${selectedPost}` : "";
+      const response = await fetch(`/api/lots/effective-expiry${params}`);
+      if (!response.ok) return {};
+      return response.json();
+    },
+  });
+
   if (!item) return null;
 
+  const effectiveExpiryDate = lotExpiries[item.id] ?? item.expiryDate;
+
   // Filter locations for selected post if specified
   const relevantLocations = selectedPost 
     ? locations.filter((loc: any) => loc.ambulancePostId === selectedPost)
@@ -639,7 +665,12 @@ const ItemDetailView = ({ item, open, onOpenChange, selectedPost }: {
                   <div><span className="font-medium">Naam:</span> {item.name}</div>
                   <div><span className="font-medium">Categorie:</span> {getCategoryIcon(item.category)} {item.category}</div>
                   {item.description && <div><span className="font-medium">Beschrijving:</span> {item.description}</div>}
-                  {item.expiryDate && <div><span className="font-medium">Vervaldatum:</span> {new Date(item.expiryDate).toLocaleDateString('nl-NL')}</div>}
+                  {effectiveExpiryDate && (
+                    <div>
+                      <span className="font-medium">Vervaldatum:</span> {new Date(effectiveExpiryDate).toLocaleDateString('nl-NL')}
+                      {lotExpiries[item.id] && <span className="text-gray-500"> (vroegste lot)</span>}
+                    </div>
+                  )}
                   {item.alertEmail && <div><span className="font-medium">Alert Email:</span> {item.alertEmail}</div>}
                   
                   {/* Discontinued Status */}
@@ -660,6 +691,34 @@ const ItemDetailView = ({ item, open, onOpenChange, selectedPost }: {
 
 
 
+            {/* Quantities per location */}
+            {relevantLocations.some((loc: any) => isQuantityTracked(loc)) && (
+              <div>
+                <h3 className="font-semibold text-slate-900 mb-3">Aantallen</h3>
+                <div className="space-y-2 text-sm">
+                  {relevantLocations.filter((loc: any) => isQuantityTracked(loc)).map((loc: any) => {
+                    const cabinet = cabinets.find((c: any) => c.id === loc.cabinet);
+                    const post = ambulancePosts.find((p: any) => p.id === loc.ambulancePostId);
+                    return (
+                      <div key={loc.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                        <span>
+                          {!selectedPost && post && <span className="text-gray-500">{post.name} · </span>}
+                          {cabinet?.name || `Kast ${loc.cabinet}`}
+                          {loc.drawer && <span className="text-gray-500"> · {loc.drawer}</span>}
+                        </span>
+                        <span className="font-medium">
+                          {loc.currentQuantity} stuks
+                          <span className="text-gray-500 font-normal">
+                            {" "}(min {loc.minQuantity}{loc.maxQuantity != null && `, max ${loc.maxQuantity}`})
+                          </span>
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Other Posts Availability */}
             {selectedPost && (
               <div>
@@ -668,16 +727,24 @@ const ItemDetailView = ({ item, open, onOpenChange, selectedPost }: {
               </div>
             )}
 
+            {/* Stock Status History */}
+            <div>
+              <h3 className="font-semibold text-slate-900 mb-3">Voorraadgeschiedenis</h3>
+              <StockStatusTimeline itemId={item.id} ambulancePostId={selectedPost} />
+            </div>
+
             {/* Actions */}
             <div className="flex justify-end gap-3 pt-4 border-t">
-              <Button 
-                variant="outline" 
-                onClick={() => setEditingItem(item)}
-                className="flex items-center gap-2"
-              >
-                <Edit className="w-4 h-4" />
-                Bewerken
-              </Button>
+              {hasRole("post-coordinator") && (
+                <Button 
+                  variant="outline" 
+                  onClick={() => setEditingItem(item)}
+                  className="flex items-center gap-2"
+                >
+                  <Edit className="w-4 h-4" />
+                  Bewerken
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 onClick={() => onOpenChange(false)}
@@ -711,6 +778,8 @@ const MobileInventoryCard = ({ item, selectedPost, onEdit, onViewDetail }: {
   onEdit: () => void;
   onViewDetail: () => void;
 }) => {
+  const { hasRole } = useAuth();
+
   return (
     <div 
       className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow cursor-pointer"
@@ -760,18 +829,20 @@ const MobileInventoryCard = ({ item, selectedPost, onEdit, onViewDetail }: {
             {/* Status & Actions */}
             <div className="flex items-center space-x-2 ml-2">
               <ItemStatusIndicator item={item} selectedPost={selectedPost} />
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onEdit();
-                }}
-                className="h-8 w-8 p-0"
-                data-testid={`button-mobile-edit-${item.id}`}
-              >
-                <Edit className="w-4 h-4" />
-              </Button>
+              {hasRole("post-coordinator") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEdit();
+                  }}
+                  className="h-8 w-8 p-0"
+                  data-testid={`button-mobile-edit-${item.id}`}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
 
@@ -820,7 +891,10 @@ export default function InventoryTable({ items, isLoading, onRefetch, selectedPo
   return (
     <div className="bg-white rounded-lg shadow-sm border border-slate-200">
       <div className="p-6">
-        <h2 className="text-lg font-semibold text-slate-900 mb-4">Inventaris Overzicht</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-slate-900">Inventaris Overzicht</h2>
+          {selectedPost && <SendAllSupplyRequestsButton ambulancePostId={selectedPost} />}
+        </div>
         
         {/* Mobile Layout */}
         {isMobile ? (
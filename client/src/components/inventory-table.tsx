@@ -269,12 +269,15 @@ export default function InventoryTable({ items, isLoading, onRefetch, selectedPo
   const markOutOfStockMutation = useMutation({
     mutationFn: async (item: MedicalItem) => {
       const response = await apiRequest("POST", `/api/items/${item.id}/mark-out-of-stock`, {});
-      return response;
+      return response.json();
     },
     onSuccess: (data: any) => {
+      // Without a recipient the status was already set and no email went out
       toast({
-        title: "Email verzonden",
-        description: `Item "${data.itemName}" gemarkeerd als OP. Email verzonden naar ${data.recipient}.`,
+        title: data.recipient ? "Email verzonden" : "Geen wijziging",
+        description: data.recipient
+          ? `Item "${data.itemName}" gemarkeerd als OP. Email verzonden naar ${data.recipient}.`
+          : data.message,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/medical-items"] });
       onRefetch();
@@ -291,12 +294,15 @@ export default function InventoryTable({ items, isLoading, onRefetch, selectedPo
   const markLowStockMutation = useMutation({
     mutationFn: async (item: MedicalItem) => {
       const response = await apiRequest("POST", `/api/items/${item.id}/mark-low-stock`, {});
-      return response;
+      return response.json();
     },
     onSuccess: (data: any) => {
+      // Without a recipient the status was already set and no email went out
       toast({
-        title: "Email verzonden",
-        description: `Item "${data.itemName}" gemarkeerd als Bijna op. Email verzonden naar ${data.recipient}.`,
+        title: data.recipient ? "Email verzonden" : "Geen wijziging",
+        description: data.recipient
+          ? `Item "${data.itemName}" gemarkeerd als Bijna op. Email verzonden naar ${data.recipient}.`
+          : data.message,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/medical-items"] });
       onRefetch();
@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import { History, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { AmbulancePost, AuditLogEntry } from "@shared/schema";
+
+interface ItemAuditHistoryProps {
+  itemId: string;
+}
+
+const actionLabels: Record<string, { label: string; className: string }> = {
+  create: { label: "Aangemaakt", className: "bg-green-100 text-green-800" },
+  update: { label: "Gewijzigd", className: "bg-blue-100 text-blue-800" },
+  delete: { label: "Verwijderd", className: "bg-red-100 text-red-800" },
+};
+
+const entityLabels: Record<string, string> = {
+  "medical-item": "Item",
+  "item-location": "Locatie",
+  "item-lot": "Lot",
+};
+
+const fieldLabels: Record<string, string> = {
+  name: "Naam",
+  description: "Beschrijving",
+  category: "Categorie",
+  searchTerms: "Zoektermen",
+  expiryDate: "Vervaldatum",
+  alertEmail: "Waarschuwingsemail",
+  photoUrl: "Foto",
+  storeLocation: "Magazijnlocatie",
+  isDiscontinued: "Uit assortiment",
+  replacementItemId: "Vervangend item",
+  ambulancePostId: "Post",
+  cabinet: "Kast",
+  drawer: "Lade",
+  contactPersonId: "Contactpersoon",
+  isLowStock: "Weinig voorraad",
+  stockStatus: "Voorraadstatus",
+  currentQuantity: "Aantal",
+  minQuantity: "Minimum aantal",
+  maxQuantity: "Maximum aantal",
+  lotNumber: "Lotnummer",
+  quantity: "Aantal",
+  receivedDate: "Ontvangen",
+};
+
+// Technical fields that mean nothing to the person reading the history
+const HIDDEN_FIELDS = ["id", "itemId", "locationId", "createdAt", "updatedAt"];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "boolean") return value ? "Ja" : "Nee";
+  return String(value);
+}
+
+export function ItemAuditHistory({ itemId }: ItemAuditHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntry[]>({
+    queryKey: [`/api/audit?itemId=${itemId}`],
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ["/api/ambulance-posts"],
+  });
+
+  const displayValue = (field: string, value: unknown) =>
+    field === "ambulancePostId"
+      ? ambulancePosts.find(post => post.id === value)?.name || formatValue(value)
+      : formatValue(value);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-sm text-muted-foreground">Geschiedenis laden...</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+        <History className="h-10 w-10 mb-3 text-gray-400" />
+        <p className="text-sm">Nog geen wijzigingen geregistreerd voor dit item.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="item-audit-history">
+      {entries.map(entry => {
+        const action = actionLabels[entry.action] ?? { label: entry.action, className: "" };
+        const before = entry.changes.before ?? {};
+        const after = entry.changes.after ?? {};
+        const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+          .filter(field => !HIDDEN_FIELDS.includes(field));
+
+        return (
+          <div key={entry.id} className="border rounded-lg p-3" data-testid={`audit-entry-${entry.id}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <Badge className={action.className}>{action.label}</Badge>
+              <span className="text-sm font-medium">{entityLabels[entry.entityType] ?? entry.entityType}</span>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground ml-auto">
+                <User className="h-3 w-3" />
+                {entry.actorName}
+                {entry.createdAt && (
+                  <> &middot; {new Date(entry.createdAt).toLocaleString('nl-NL', {
+                    day: '2-digit',
+                    month: '2-digit',
+                    year: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit'
+                  })}</>
+                )}
+              </span>
+            </div>
+            {fields.length > 0 && (
+              <div className="space-y-1 text-xs">
+                {fields.map(field => (
+                  <div key={field} className="grid grid-cols-[140px_1fr] gap-2">
+                    <span className="text-muted-foreground">{fieldLabels[field] ?? field}</span>
+                    <span>
+                      {entry.action === "update" ? (
+                        <>
+                          <span className="line-through text-red-600">{displayValue(field, before[field])}</span>
+                          {" → "}
+                          <span className="text-green-700">{displayValue(field, after[field])}</span>
+                        </>
+                      ) : (
+                        displayValue(field, entry.action === "delete" ? before[field] : after[field])
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
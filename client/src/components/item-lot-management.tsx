@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Boxes, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { AmbulancePost, Cabinet, ItemLocation, ItemLot } from "@shared/schema";
+
+interface ItemLotManagementProps {
+  itemId: string;
+  locations: ItemLocation[];
+  ambulancePosts: AmbulancePost[];
+  cabinets: Cabinet[];
+}
+
+interface LotForm {
+  lotNumber: string;
+  expiryDate: string;
+  quantity: string;
+  receivedDate: string;
+}
+
+const emptyLotForm: LotForm = { lotNumber: "", expiryDate: "", quantity: "", receivedDate: "" };
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('nl-NL') : "-";
+
+const isExpired = (date: string) => new Date(date) < new Date(new Date().toDateString());
+
+export function ItemLotManagement({ itemId, locations, ambulancePosts, cabinets }: ItemLotManagementProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canManagePost } = useAuth();
+  // Location the new-lot row is open for, and the lot being edited
+  const [addingForLocation, setAddingForLocation] = useState<string | null>(null);
+  const [editingLotId, setEditingLotId] = useState<string | null>(null);
+  const [lotForm, setLotForm] = useState<LotForm>(emptyLotForm);
+
+  const { data: lots = [], isLoading } = useQuery<ItemLot[]>({
+    queryKey: ['/api/medical-items', itemId, 'lots'],
+    queryFn: async () => {
+      const response = await fetch(`/api/medical-items/${itemId}/lots`);
+      if (!response.ok) throw new Error("Failed to fetch lots");
+      return response.json();
+    },
+  });
+
+  const closeForm = () => {
+    setAddingForLocation(null);
+    setEditingLotId(null);
+    setLotForm(emptyLotForm);
+  };
+
+  const toPayload = (form: LotForm) => ({
+    lotNumber: form.lotNumber.trim(),
+    expiryDate: form.expiryDate,
+    quantity: form.quantity.trim() !== "" ? parseInt(form.quantity, 10) : null,
+    receivedDate: form.receivedDate || null,
+  });
+
+  const invalidateLots = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/medical-items', itemId, 'lots'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/lots/effective-expiry'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expiry-overview'] });
+  };
+
+  const saveLotMutation = useMutation({
+    mutationFn: async () => {
+      if (editingLotId) {
+        return apiRequest("PATCH", `/api/lots/${editingLotId}`, toPayload(lotForm));
+      }
+      return apiRequest("POST", `/api/item-locations/${addingForLocation}/lots`, toPayload(lotForm));
+    },
+    onSuccess: () => {
+      invalidateLots();
+      toast({
+        title: "Succes",
+        description: editingLotId ? "Lot bijgewerkt" : "Lot toegevoegd",
+      });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteLotMutation = useMutation({
+    mutationFn: async (lotId: string) => apiRequest("DELETE", `/api/lots/${lotId}`),
+    onSuccess: () => {
+      invalidateLots();
+      toast({
+        title: "Succes",
+        description: "Lot verwijderd",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEdit = (lot: ItemLot) => {
+    setAddingForLocation(null);
+    setEditingLotId(lot.id);
+    setLotForm({
+      lotNumber: lot.lotNumber,
+      expiryDate: lot.expiryDate,
+      quantity: lot.quantity?.toString() ?? "",
+      receivedDate: lot.receivedDate ?? "",
+    });
+  };
+
+  const startAdd = (locationId: string) => {
+    setEditingLotId(null);
+    setAddingForLocation(locationId);
+    setLotForm(emptyLotForm);
+  };
+
+  const handleDelete = (lot: ItemLot) => {
+    if (confirm(`Weet je zeker dat je lot "${lot.lotNumber}" wilt verwijderen?`)) {
+      deleteLotMutation.mutate(lot.id);
+    }
+  };
+
+  const getLocationLabel = (location: ItemLocation) => {
+    const post = ambulancePosts.find(p => p.id === location.ambulancePostId);
+    const cabinet = cabinets.find(c => c.id === location.cabinet);
+    return [post?.name, cabinet?.name || `Kast ${location.cabinet}`, location.drawer].filter(Boolean).join(" · ");
+  };
+
+  const renderFormRow = (key: string) => (
+    <TableRow
+      key={key}
+      className="bg-blue-50/50"
+      // This section sits inside the item form - Enter must not submit the whole item
+      onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+    >
+      <TableCell>
+        <Input
+          placeholder="Lotnummer"
+          value={lotForm.lotNumber}
+          onChange={(e) => setLotForm({ ...lotForm, lotNumber: e.target.value })}
+          data-testid="input-lot-number"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="date"
+          value={lotForm.expiryDate}
+          onChange={(e) => setLotForm({ ...lotForm, expiryDate: e.target.value })}
+          data-testid="input-lot-expiry"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Optioneel"
+          value={lotForm.quantity}
+          onChange={(e) => setLotForm({ ...lotForm, quantity: e.target.value })}
+          data-testid="input-lot-quantity"
+          className="w-24"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="date"
+          value={lotForm.receivedDate}
+          onChange={(e) => setLotForm({ ...lotForm, receivedDate: e.target.value })}
+          data-testid="input-lot-received"
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex gap-1 justify-end">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => saveLotMutation.mutate()}
+            disabled={saveLotMutation.isPending || !lotForm.lotNumber.trim() || !lotForm.expiryDate}
+            data-testid="button-save-lot"
+          >
+            <Save className="w-4 h-4" />
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={closeForm}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="h-5 w-5" />
+          Lots en Vervaldata
+        </CardTitle>
+        <CardDescription>
+          Lotnummers per locatie - de vroegste vervaldatum per post geldt als vervaldatum van het item
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sla eerst een locatie op om lots toe te voegen.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Lots laden...</p>
+        ) : (
+          locations.map(location => {
+            const locationLots = lots.filter(lot => lot.locationId === location.id);
+            const canEdit = canManagePost(location.ambulancePostId);
+
+            return (
+              <div key={location.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">{getLocationLabel(location)}</h4>
+                  {canEdit && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => startAdd(location.id)}
+                      data-testid={`button-add-lot-${location.id}`}
+                      className="flex items-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Lot Toevoegen
+                    </Button>
+                  )}
+                </div>
+                <div className="border rounded-lg bg-white">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50">
+                        <TableHead>Lotnummer</TableHead>
+                        <TableHead>Vervaldatum</TableHead>
+                        <TableHead>Aantal</TableHead>
+                        <TableHead>Ontvangen</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {locationLots.map(lot =>
+                        editingLotId === lot.id ? renderFormRow(lot.id) : (
+                          <TableRow key={lot.id} data-testid={`row-lot-${lot.id}`}>
+                            <TableCell className="font-medium">{lot.lotNumber}</TableCell>
+                            <TableCell>
+                              {formatDate(lot.expiryDate)}
+                              {isExpired(lot.expiryDate) && (
+                                <Badge variant="destructive" className="ml-2">Verlopen</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>{lot.quantity ?? "-"}</TableCell>
+                            <TableCell>{formatDate(lot.receivedDate)}</TableCell>
+                            <TableCell>
+                              {canEdit && (
+                                <div className="flex gap-1 justify-end">
+                                  <Button type="button" variant="ghost" size="sm" onClick={() => startEdit(lot)}>
+                                    <Pencil className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDelete(lot)}
+                                    disabled={deleteLotMutation.isPending}
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      )}
+                      {addingForLocation === location.id && renderFormRow("new")}
+                      {locationLots.length === 0 && addingForLocation !== location.id && (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                            Geen lots geregistreerd
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState } from "react";
-import { Send, Mail } from "lucide-react";
+import { Send, Mail, Minus, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { MedicalItem, ItemLocation, PostContact, AmbulancePost } from "@shared/schema";
+import { isQuantityTracked, type MedicalItem, type ItemLocation, type PostContact, type AmbulancePost } from "@shared/schema";
 
 interface LocationStockStatusProps {
   item: MedicalItem;
@@ -19,6 +20,7 @@ interface ItemLocationWithDetails extends ItemLocation {
 
 export function LocationStockStatus({ item, selectedPost }: LocationStockStatusProps) {
   const { toast } = useToast();
+  const { canManagePost } = useAuth();
   const queryClient = useQueryClient();
 
   // Query to get item locations for this specific item
@@ -70,6 +72,27 @@ export function LocationStockStatus({ item, selectedPost }: LocationStockStatusP
       queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
       queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-status-history'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Fout bij bijwerken",
+        description: error.message || "Er is een fout opgetreden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation to update the counted quantity of a location
+  const updateLocationQuantityMutation = useMutation({
+    mutationFn: async ({ locationId, currentQuantity }: { locationId: string, currentQuantity: number }) => {
+      return apiRequest("PATCH", `/api/item-locations/${locationId}/quantity`, { currentQuantity });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-status-history'] });
     },
     onError: (error: any) => {
       toast({
@@ -105,6 +128,11 @@ export function LocationStockStatus({ item, selectedPost }: LocationStockStatusP
     updateLocationStatusMutation.mutate({ locationId, stockStatus: newStatus });
   };
 
+  const handleQuantityChange = (location: ItemLocation, delta: number) => {
+    const currentQuantity = Math.max(0, (location.currentQuantity ?? 0) + delta);
+    updateLocationQuantityMutation.mutate({ locationId: location.id, currentQuantity });
+  };
+
   const handleSendSupplyRequest = (locationId: string) => {
     sendSupplyRequestMutation.mutate(locationId);
   };
@@ -161,6 +189,42 @@ export function LocationStockStatus({ item, selectedPost }: LocationStockStatusP
         const canSendRequest = location.stockStatus === 'bijna-op' || location.stockStatus === 'niet-meer-aanwezig';
         const hasContactPerson = !!locationDetails.contactPerson;
 
+        if (isQuantityTracked(location)) {
+          return (
+            <div
+              key={location.id}
+              className="flex items-center h-8 rounded-md border"
+              title={`Minimum ${location.minQuantity}${location.maxQuantity != null ? `, maximum ${location.maxQuantity}` : ""}`}
+              data-testid={`quantity-${location.id}`}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-7 p-0"
+                onClick={() => handleQuantityChange(location, -1)}
+                disabled={!canManagePost(location.ambulancePostId) || updateLocationQuantityMutation.isPending || location.currentQuantity === 0}
+                data-testid={`button-decrease-${location.id}`}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className={`text-xs font-medium px-1 whitespace-nowrap ${getStatusColor(location.stockStatus)}`}>
+                {location.currentQuantity}
+                <span className="text-slate-400 font-normal"> / {location.minQuantity}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-7 p-0"
+                onClick={() => handleQuantityChange(location, 1)}
+                disabled={!canManagePost(location.ambulancePostId) || updateLocationQuantityMutation.isPending}
+                data-testid={`button-increase-${location.id}`}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        }
+
         return (
           <div key={location.id} className="flex items-center space-x-1">
             <Select
@@ -31,6 +31,7 @@ import type { InsertPostContact, PostContact } from "@shared/schema";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Plus, Edit, Trash2, Users, Settings } from "lucide-react";
 import * as z from "zod";
 
@@ -48,6 +49,7 @@ export default function ManagePostContactsDialog({
   const [open, setOpen] = useState(false);
   const [editingContact, setEditingContact] = useState<PostContact | null>(null);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: contacts = [], isLoading } = useQuery({
@@ -425,15 +427,17 @@ export default function ManagePostContactsDialog({
                               >
                                 <Edit className="h-4 w-4" />
                               </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => deleteContactMutation.mutate(contact.id)}
-                                disabled={deleteContactMutation.isPending}
-                                data-testid={`button-delete-contact-${contact.id}`}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {hasRole("administrator") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => deleteContactMutation.mutate(contact.id)}
+                                  disabled={deleteContactMutation.isPending}
+                                  data-testid={`button-delete-contact-${contact.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AmbulancePost, Cabinet, MedicalItem, NormListWithItems } from "@shared/schema";
+
+const WHOLE_POST = "hele-post";
+
+// Administrators maintain the norm lists and which posts must meet them
+export default function NormListManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newList, setNewList] = useState({ name: "", description: "" });
+  const [newItems, setNewItems] = useState<Record<string, { itemId: string; cabinet: string; drawer: string; minQuantity: string }>>({});
+
+  const { data: normLists = [] } = useQuery<NormListWithItems[]>({
+    queryKey: ['/api/norm-lists'],
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const { data: medicalItems = [] } = useQuery<MedicalItem[]>({
+    queryKey: ['/api/medical-items'],
+  });
+
+  const { data: cabinets = [] } = useQuery<Cabinet[]>({
+    queryKey: ['/api/cabinets'],
+  });
+
+  const itemNames = new Map(medicalItems.map(item => [item.id, item.name]));
+  const cabinetNames = new Map(cabinets.map(cabinet => [cabinet.id, cabinet.name]));
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/norm-lists'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/norm-compliance'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Fout bij opslaan", description: error.message, variant: "destructive" });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/norm-lists", { name: newList.name, description: newList.description || null });
+    },
+    onSuccess: () => {
+      setNewList({ name: "", description: "" });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/norm-lists/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, ambulancePostIds }: { id: string; ambulancePostIds: string[] }) => {
+      await apiRequest("PUT", `/api/norm-lists/${id}/posts`, { ambulancePostIds });
+    },
+    onSuccess,
+    onError,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async (normListId: string) => {
+      const newItem = newItems[normListId];
+      await apiRequest("POST", `/api/norm-lists/${normListId}/items`, {
+        itemId: newItem.itemId,
+        cabinet: newItem.cabinet && newItem.cabinet !== WHOLE_POST ? newItem.cabinet : null,
+        drawer: newItem.drawer || null,
+        minQuantity: newItem.minQuantity ? parseInt(newItem.minQuantity) : null,
+      });
+    },
+    onSuccess: (_data, normListId) => {
+      setNewItems(current => ({ ...current, [normListId]: { itemId: "", cabinet: "", drawer: "", minQuantity: "" } }));
+      onSuccess();
+    },
+    onError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/norm-list-items/${id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const togglePost = (normList: NormListWithItems, postId: string, checked: boolean) => {
+    const ambulancePostIds = checked
+      ? [...normList.ambulancePostIds, postId]
+      : normList.ambulancePostIds.filter(id => id !== postId);
+    assignMutation.mutate({ id: normList.id, ambulancePostIds });
+  };
+
+  const updateNewItem = (normListId: string, changes: Partial<{ itemId: string; cabinet: string; drawer: string; minQuantity: string }>) => {
+    setNewItems(current => ({
+      ...current,
+      [normListId]: { ...(current[normListId] ?? { itemId: "", cabinet: "", drawer: "", minQuantity: "" }), ...changes },
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Nieuwe normlijst</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row gap-3">
+          <Input
+            placeholder="Naam, bijv. Standaard ambulancepost"
+            value={newList.name}
+            onChange={(e) => setNewList({ ...newList, name: e.target.value })}
+            data-testid="input-norm-list-name"
+          />
+          <Input
+            placeholder="Omschrijving (optioneel)"
+            value={newList.description}
+            onChange={(e) => setNewList({ ...newList, description: e.target.value })}
+            data-testid="input-norm-list-description"
+          />
+          <Button
+            onClick={() => createListMutation.mutate()}
+            disabled={!newList.name.trim() || createListMutation.isPending}
+            data-testid="button-create-norm-list"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Aanmaken
+          </Button>
+        </CardContent>
+      </Card>
+
+      {normLists.map(normList => {
+        const newItem = newItems[normList.id] ?? { itemId: "", cabinet: "", drawer: "", minQuantity: "" };
+        return (
+          <Card key={normList.id} data-testid={`card-norm-list-${normList.id}`}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-base">{normList.name}</CardTitle>
+                  {normList.description && <p className="text-sm text-slate-500 mt-1">{normList.description}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => confirm(`Normlijst "${normList.name}" verwijderen?`) && deleteListMutation.mutate(normList.id)}
+                  data-testid={`button-delete-norm-list-${normList.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-slate-700 mb-2">Geldt voor</p>
+                <div className="flex flex-wrap gap-4">
+                  {ambulancePosts.map(post => (
+                    <label key={post.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={normList.ambulancePostIds.includes(post.id)}
+                        onCheckedChange={(checked) => togglePost(normList, post.id, checked === true)}
+                        data-testid={`checkbox-norm-post-${normList.id}-${post.id}`}
+                      />
+                      {post.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Kast</TableHead>
+                    <TableHead>Lade</TableHead>
+                    <TableHead>Minimaal</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {normList.items.map(item => (
+                    <TableRow key={item.id} data-testid={`row-norm-item-${item.id}`}>
+                      <TableCell className="font-medium">{itemNames.get(item.itemId) ?? "Onbekend item"}</TableCell>
+                      <TableCell>{item.cabinet ? cabinetNames.get(item.cabinet) ?? item.cabinet : "Hele post"}</TableCell>
+                      <TableCell>{item.drawer ?? "-"}</TableCell>
+                      <TableCell>{item.minQuantity ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteItemMutation.mutate(item.id)}
+                          data-testid={`button-delete-norm-item-${item.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <Select value={newItem.itemId} onValueChange={(value) => updateNewItem(normList.id, { itemId: value })}>
+                        <SelectTrigger data-testid={`select-norm-item-${normList.id}`}>
+                          <SelectValue placeholder="Kies een item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {medicalItems.filter(item => !item.isDiscontinued).map(item => (
+                            <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select value={newItem.cabinet} onValueChange={(value) => updateNewItem(normList.id, { cabinet: value })}>
+                        <SelectTrigger data-testid={`select-norm-cabinet-${normList.id}`}>
+                          <SelectValue placeholder="Hele post" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={WHOLE_POST}>Hele post</SelectItem>
+                          {cabinets.map(cabinet => (
+                            <SelectItem key={cabinet.id} value={cabinet.id}>{cabinet.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="Lade"
+                        value={newItem.drawer}
+                        onChange={(e) => updateNewItem(normList.id, { drawer: e.target.value })}
+                        disabled={!newItem.cabinet || newItem.cabinet === WHOLE_POST}
+                        data-testid={`input-norm-drawer-${normList.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        className="w-24"
+                        value={newItem.minQuantity}
+                        onChange={(e) => updateNewItem(normList.id, { minQuantity: e.target.value })}
+                        data-testid={`input-norm-min-${normList.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => addItemMutation.mutate(normList.id)}
+                        disabled={!newItem.itemId || addItemMutation.isPending}
+                        data-testid={`button-add-norm-item-${normList.id}`}
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
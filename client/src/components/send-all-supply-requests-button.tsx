@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SendAllSupplyRequestsButtonProps {
+  ambulancePostId: string;
+}
+
+// Sends every open supply request of the post - the server combines them into one email per contact
+export function SendAllSupplyRequestsButton({ ambulancePostId }: SendAllSupplyRequestsButtonProps) {
+  const { toast } = useToast();
+  const { canManagePost } = useAuth();
+  const queryClient = useQueryClient();
+
+  const sendAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ambulance-posts/${ambulancePostId}/supply-requests/send-all`);
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      toast({
+        title: "Aanvulverzoeken verstuurd",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij verzenden",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClick = () => {
+    if (confirm("Alle openstaande aanvulverzoeken van deze post versturen? Elke contactpersoon krijgt één email met al zijn of haar items.")) {
+      sendAllMutation.mutate();
+    }
+  };
+
+  if (!canManagePost(ambulancePostId)) return null;
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleClick}
+      disabled={sendAllMutation.isPending}
+      data-testid="button-send-all-supply-requests"
+    >
+      <Send className="w-4 h-4 mr-2" />
+      {sendAllMutation.isPending ? "Versturen..." : "Alle aanvragen versturen"}
+    </Button>
+  );
+}
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { History, Mail } from "lucide-react";
+import type { AmbulancePost, StockStatusHistoryEntry } from "@shared/schema";
+
+interface StockStatusTimelineProps {
+  itemId: string;
+  ambulancePostId?: string;
+}
+
+const statusInfo: Record<string, { label: string; color: string }> = {
+  "op-voorraad": { label: "Op voorraad", color: "bg-green-500" },
+  "bijna-op": { label: "Bijna op", color: "bg-orange-500" },
+  "niet-meer-aanwezig": { label: "Niet op voorraad", color: "bg-red-500" },
+};
+
+const getStatusLabel = (status: string | null) =>
+  status ? statusInfo[status]?.label ?? status : "Nieuw";
+
+export function StockStatusTimeline({ itemId, ambulancePostId }: StockStatusTimelineProps) {
+  const { data: history = [], isLoading } = useQuery<StockStatusHistoryEntry[]>({
+    queryKey: ['/api/stock-status-history', itemId, ambulancePostId],
+    queryFn: async () => {
+      const params = ambulancePostId ? `?ambulancePost=${ambulancePostId}` : "";
+      const response = await fetch(`/api/stock-status-history/${itemId}${params}`);
+      if (!response.ok) throw new Error("Failed to fetch stock status history");
+      return response.json();
+    },
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-gray-400">...</div>;
+  }
+
+  // Only real changes count, the initial status of a new location is not a stock-out
+  const changes = history.filter(entry => entry.fromStatus !== null);
+
+  if (changes.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <History className="w-4 h-4" />
+        Nog geen statuswijzigingen geregistreerd
+      </div>
+    );
+  }
+
+  const oneYearAgo = new Date();
+  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
+  const lastYear = changes.filter(entry => entry.changedAt && new Date(entry.changedAt) >= oneYearAgo);
+  const outOfStockCount = lastYear.filter(entry => entry.toStatus === "niet-meer-aanwezig").length;
+  const runningLowCount = lastYear.filter(entry => entry.toStatus === "bijna-op").length;
+
+  const getPostName = (postId: string) =>
+    ambulancePosts.find(post => post.id === postId)?.name || "Onbekende post";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+          <div className="text-2xl font-bold text-red-700">{outOfStockCount}×</div>
+          <div className="text-xs text-red-600">Niet op voorraad (afgelopen 12 maanden)</div>
+        </div>
+        <div className="rounded-lg border border-orange-200 bg-orange-50 p-3">
+          <div className="text-2xl font-bold text-orange-700">{runningLowCount}×</div>
+          <div className="text-xs text-orange-600">Bijna op (afgelopen 12 maanden)</div>
+        </div>
+      </div>
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+        {changes.map(entry => (
+          <li key={entry.id} className="ml-4" data-testid={`status-history-${entry.id}`}>
+            <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${statusInfo[entry.toStatus]?.color ?? "bg-gray-500"}`} />
+            <div className="text-sm">
+              <span className="text-gray-500">{getStatusLabel(entry.fromStatus)}</span>
+              {" → "}
+              <span className="font-medium">{getStatusLabel(entry.toStatus)}</span>
+              {!ambulancePostId && (
+                <span className="text-gray-500"> · {getPostName(entry.ambulancePostId)}</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              {entry.changedAt && new Date(entry.changedAt).toLocaleString('nl-NL', {
+                day: '2-digit',
+                month: '2-digit',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+              <span>door {entry.actorName}</span>
+              {entry.supplyRequestId && (
+                <span className="flex items-center gap-1" title="Aanvulverzoek was verzonden">
+                  <Mail className="w-3 h-3" />
+                  aanvulverzoek
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
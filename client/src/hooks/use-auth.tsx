@@ -0,0 +1,101 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { hasRole as userHasRole, type PublicUser, type UserRole } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient, AUTH_QUERY_KEY } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  hasRole: (minimum: UserRole) => boolean;
+  canManagePost: (ambulancePostId: string) => boolean;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return await res.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, user);
+    },
+    onError: () => {
+      toast({
+        title: "Inloggen mislukt",
+        description: "Controleer je gebruikersnaam en wachtwoord",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop all cached inventory data so the next user starts clean
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Uitloggen mislukt",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasRole = (minimum: UserRole) => userHasRole(user, minimum);
+
+  // Mirrors requirePostAccess on the server
+  const canManagePost = (ambulancePostId: string) =>
+    hasRole("administrator") ||
+    (hasRole("post-coordinator") && !!user?.ambulancePostIds.includes(ambulancePostId));
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+        hasRole,
+        canManagePost,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,36 @@
+import { Loader2 } from "lucide-react";
+import { Redirect, Route, useLocation, useSearch } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  minimumRole = "viewer",
+}: {
+  path: string;
+  component: () => React.JSX.Element;
+  minimumRole?: UserRole;
+}) {
+  const { user, isLoading, hasRole } = useAuth();
+  const [location] = useLocation();
+  const search = useSearch();
+  // Come back here after logging in, e.g. when a QR label was scanned
+  const returnTo = encodeURIComponent(search ? `${location}?${search}` : location);
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-slate-500" />
+        </div>
+      ) : !user ? (
+        <Redirect to={location === "/" ? "/login" : `/login?terug=${returnTo}`} />
+      ) : hasRole(minimumRole) ? (
+        <Component />
+      ) : (
+        <Redirect to="/" />
+      )}
+    </Route>
+  );
+}
@@ -1,4 +1,6 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, MutationCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+
+export const AUTH_QUERY_KEY = ["/api/user"];
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -41,7 +43,17 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 on any other request means the session expired - clear the user so
+// ProtectedRoute sends the browser back to the login page
+function handleUnauthorized(error: Error) {
+  if (error.message.startsWith("401:")) {
+    queryClient.setQueryData(AUTH_QUERY_KEY, null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
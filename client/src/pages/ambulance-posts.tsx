@@ -6,15 +6,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Plus, Pencil, Trash2, Building2, Users } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Plus, Pencil, Trash2, Building2, Users, Copy } from "lucide-react";
 import ManagePostContactsDialog from "@/components/manage-post-contacts-dialog";
+import ClonePostDialog from "@/components/clone-post-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { AmbulancePost } from "@shared/schema";
+import type { AmbulancePost, PublicEmailConfig } from "@shared/schema";
 
 const ambulancePostSchema = z.object({
   id: z.string().min(1, "ID is verplicht").regex(/^[a-z0-9-]+$/, "ID mag alleen kleine letters, cijfers en streepjes bevatten"),
@@ -22,12 +25,25 @@ const ambulancePostSchema = z.object({
   location: z.string().optional(),
   description: z.string().optional(),
   isActive: z.boolean().default(true),
+  emailConfigId: z.string(),
+  replyToEmail: z.string().email("Ongeldig email adres").or(z.literal('')),
 });
 
 type AmbulancePostForm = z.infer<typeof ambulancePostSchema>;
 
+const DEFAULT_PROFILE = "standaard";
+
+// Empty choices are stored as null - the post then uses the default profile and no reply-to
+const toPostData = (data: AmbulancePostForm) => ({
+  ...data,
+  emailConfigId: data.emailConfigId === DEFAULT_PROFILE ? null : data.emailConfigId,
+  replyToEmail: data.replyToEmail || null,
+});
+
 export default function AmbulancePosts() {
   const { toast } = useToast();
+  const { hasRole, canManagePost } = useAuth();
+  const isAdmin = hasRole("administrator");
   const queryClient = useQueryClient();
   const [editingPost, setEditingPost] = useState<AmbulancePost | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -36,6 +52,11 @@ export default function AmbulancePosts() {
     queryKey: ['/api/ambulance-posts'],
   });
 
+  const { data: emailProfiles = [] } = useQuery<PublicEmailConfig[]>({
+    queryKey: ['/api/email-configs'],
+    enabled: isAdmin,
+  });
+
   const form = useForm<AmbulancePostForm>({
     resolver: zodResolver(ambulancePostSchema),
     defaultValues: {
@@ -44,6 +65,8 @@ export default function AmbulancePosts() {
       location: '',
       description: '',
       isActive: true,
+      emailConfigId: DEFAULT_PROFILE,
+      replyToEmail: '',
     },
   });
 
@@ -51,7 +74,7 @@ export default function AmbulancePosts() {
     mutationFn: async (data: AmbulancePostForm) => {
       const response = await fetch('/api/ambulance-posts', {
         method: 'POST',
-        body: JSON.stringify(data),
+        body: JSON.stringify(toPostData(data)),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -81,10 +104,10 @@ export default function AmbulancePosts() {
   });
 
   const updatePostMutation = useMutation({
-    mutationFn: async (data: { id: string; post: Partial<AmbulancePostForm> }) => {
+    mutationFn: async (data: { id: string; post: AmbulancePostForm }) => {
       const response = await fetch(`/api/ambulance-posts/${data.id}`, {
         method: 'PUT',
-        body: JSON.stringify(data.post),
+        body: JSON.stringify(toPostData(data.post)),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -149,6 +172,8 @@ export default function AmbulancePosts() {
       location: post.location || '',
       description: post.description || '',
       isActive: post.isActive,
+      emailConfigId: post.emailConfigId ?? DEFAULT_PROFILE,
+      replyToEmail: post.replyToEmail ?? '',
     });
     setIsDialogOpen(true);
   };
@@ -178,6 +203,8 @@ export default function AmbulancePosts() {
       location: '',
       description: '',
       isActive: true,
+      emailConfigId: DEFAULT_PROFILE,
+      replyToEmail: '',
     });
     setIsDialogOpen(true);
   };
@@ -209,12 +236,14 @@ export default function AmbulancePosts() {
         <h1 className="text-2xl font-bold text-gray-900">Ambulanceposten Beheer</h1>
         <div className="ml-auto">
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={openCreateDialog} data-testid="button-add-post">
-                <Plus className="h-4 w-4 mr-2" />
-                Nieuwe Post
-              </Button>
-            </DialogTrigger>
+            {isAdmin && (
+              <DialogTrigger asChild>
+                <Button onClick={openCreateDialog} data-testid="button-add-post">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nieuwe Post
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="max-w-md">
               <DialogHeader>
                 <DialogTitle>
@@ -292,6 +321,47 @@ export default function AmbulancePosts() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="emailConfigId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email profiel</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-post-email-profile">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_PROFILE}>Standaard profiel</SelectItem>
+                            {emailProfiles.map(profile => (
+                              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="replyToEmail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reply-to adres (optioneel)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="email"
+                            placeholder="bijv: magazijn-noord@ziekenhuis.nl" 
+                            {...field} 
+                            data-testid="input-post-reply-to"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="isActive"
@@ -343,10 +413,12 @@ export default function AmbulancePosts() {
               <p className="text-gray-500 text-center mb-4">
                 Er zijn nog geen ambulanceposten geconfigureerd.
               </p>
-              <Button onClick={openCreateDialog} data-testid="button-add-first-post">
-                <Plus className="h-4 w-4 mr-2" />
-                Eerste Post Toevoegen
-              </Button>
+              {isAdmin && (
+                <Button onClick={openCreateDialog} data-testid="button-add-first-post">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Eerste Post Toevoegen
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -365,28 +437,41 @@ export default function AmbulancePosts() {
                   >
                     {post.isActive ? 'Actief' : 'Inactief'}
                   </span>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleEdit(post)}
-                    data-testid={`button-edit-${post.id}`}
-                  >
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  <ManagePostContactsDialog postId={post.id} postName={post.name}>
-                    <Button variant="outline" size="icon" data-testid={`button-contacts-${post.id}`}>
-                      <Users className="h-4 w-4" />
+                  {isAdmin && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleEdit(post)}
+                      data-testid={`button-edit-${post.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
                     </Button>
-                  </ManagePostContactsDialog>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleDelete(post.id)}
-                    disabled={deletePostMutation.isPending}
-                    data-testid={`button-delete-${post.id}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  )}
+                  {canManagePost(post.id) && (
+                    <ManagePostContactsDialog postId={post.id} postName={post.name}>
+                      <Button variant="outline" size="icon" data-testid={`button-contacts-${post.id}`}>
+                        <Users className="h-4 w-4" />
+                      </Button>
+                    </ManagePostContactsDialog>
+                  )}
+                  {isAdmin && (
+                    <ClonePostDialog targetPostId={post.id} targetPostName={post.name}>
+                      <Button variant="outline" size="icon" title="Inrichting kopiëren van andere post" data-testid={`button-clone-${post.id}`}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </ClonePostDialog>
+                  )}
+                  {isAdmin && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleDelete(post.id)}
+                      disabled={deletePostMutation.isPending}
+                      data-testid={`button-delete-${post.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Check, Link2, Wand2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CabinetDrawerManager from "@/components/cabinet-drawer-manager";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Drawer, DrawerMigrationGroup, DrawerMigrationStatus } from "@shared/schema";
+
+const groupKey = (group: DrawerMigrationGroup) => `${group.cabinet}|${group.drawerText}`;
+
+export default function DrawerMigrationPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [managedCabinet, setManagedCabinet] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery<DrawerMigrationStatus>({
+    queryKey: ['/api/drawer-migration'],
+  });
+
+  const { data: drawers = [] } = useQuery<Drawer[]>({
+    queryKey: ['/api/drawers'],
+  });
+
+  const onLinked = (result: { linkedCount: number; status: DrawerMigrationStatus }) => {
+    queryClient.setQueryData(['/api/drawer-migration'], result.status);
+    queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+    toast({ title: "Laden gekoppeld", description: `${result.linkedCount} locatie(s) gekoppeld aan een lade` });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Fout bij koppelen", description: error.message, variant: "destructive" });
+  };
+
+  const autoMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/drawer-migration/auto")).json(),
+    onSuccess: onLinked,
+    onError,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (group: DrawerMigrationGroup) => (await apiRequest("POST", "/api/drawer-migration/resolve", {
+      cabinet: group.cabinet,
+      drawerText: group.drawerText,
+      drawerId: choices[groupKey(group)] ?? group.suggestedDrawerId,
+    })).json(),
+    onSuccess: onLinked,
+    onError,
+  });
+
+  const groups = status?.groups ?? [];
+  const suggestedCount = groups.filter(group => group.suggestedDrawerId).length;
+  const cabinetIds = Array.from(new Set(groups.map(group => group.cabinet)));
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Laden koppelen</h1>
+              <p className="text-sm text-slate-500">Vrije tekst bij itemlocaties omzetten naar vaste laden per kast</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-col md:flex-row gap-4 md:items-center justify-between">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-500 text-white">{status?.linkedCount ?? 0} locatie(s) gekoppeld</Badge>
+              <Badge variant="secondary">{groups.length} lade-omschrijving(en) nog niet gekoppeld</Badge>
+              {suggestedCount > 0 && <Badge variant="outline">{suggestedCount} automatisch te koppelen</Badge>}
+            </div>
+            <Button
+              onClick={() => autoMutation.mutate()}
+              disabled={suggestedCount === 0 || autoMutation.isPending}
+              data-testid="button-drawer-auto-match"
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              Herkende laden koppelen
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <p className="text-slate-600">Laden...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-slate-600 flex items-center gap-2">
+            <Check className="w-4 h-4 text-green-600" /> Alle itemlocaties met een lade zijn gekoppeld.
+          </p>
+        ) : cabinetIds.map(cabinetId => {
+          const cabinetGroups = groups.filter(group => group.cabinet === cabinetId);
+          const cabinetDrawers = drawers.filter(drawer => drawer.cabinetId === cabinetId);
+          return (
+            <Card key={cabinetId} data-testid={`card-drawer-migration-${cabinetId}`}>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base">{cabinetGroups[0].cabinetName}</CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setManagedCabinet(managedCabinet === cabinetId ? null : cabinetId)}
+                    data-testid={`button-manage-drawers-${cabinetId}`}
+                  >
+                    {managedCabinet === cabinetId ? "Laden verbergen" : `Laden beheren (${cabinetDrawers.length})`}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {managedCabinet === cabinetId && (
+                  <div className="border rounded-md">
+                    <CabinetDrawerManager cabinetId={cabinetId} />
+                  </div>
+                )}
+                {cabinetDrawers.length === 0 && (
+                  <p className="text-sm text-slate-600">Deze kast heeft nog geen laden - maak ze eerst aan via "Laden beheren".</p>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Huidige omschrijving</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Lade</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cabinetGroups.map(group => {
+                      const key = groupKey(group);
+                      const choice = choices[key] ?? group.suggestedDrawerId ?? "";
+                      return (
+                        <TableRow key={key} data-testid={`row-drawer-text-${key}`}>
+                          <TableCell className="font-medium">"{group.drawerText}"</TableCell>
+                          <TableCell className="text-sm">
+                            {group.locationCount} locatie(s)
+                            <div className="text-xs text-slate-500">
+                              {group.itemNames.slice(0, 3).join(", ")}{group.itemNames.length > 3 ? ` en ${group.itemNames.length - 3} meer` : ""}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Select value={choice} onValueChange={(value) => setChoices(current => ({ ...current, [key]: value }))}>
+                              <SelectTrigger className="w-56" disabled={cabinetDrawers.length === 0} data-testid={`select-drawer-resolution-${key}`}>
+                                <SelectValue placeholder="Kies een lade" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {cabinetDrawers.map(drawer => (
+                                  <SelectItem key={drawer.id} value={drawer.id}>{drawer.drawerNumber}. {drawer.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {group.suggestedDrawerId && !choices[key] && (
+                              <div className="text-xs text-green-700 mt-1">Automatisch herkend</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              onClick={() => resolveMutation.mutate(group)}
+                              disabled={!choice || resolveMutation.isPending}
+                              data-testid={`button-resolve-drawer-${key}`}
+                            >
+                              <Link2 className="w-4 h-4 mr-2" />
+                              Koppelen
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
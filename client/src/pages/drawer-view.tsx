@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import { ArrowLeft, CheckCircle, Loader2, Minus, Package } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { getCabinetColorHex, isQuantityTracked, type DrawerView, type DrawerViewItem } from "@shared/schema";
+
+const statusInfo: Record<string, { label: string; badge: string }> = {
+  "op-voorraad": { label: "Op voorraad", badge: "bg-green-500 text-white" },
+  "bijna-op": { label: "Bijna op", badge: "bg-orange-500 text-white" },
+  "niet-meer-aanwezig": { label: "Op", badge: "bg-red-500 text-white" },
+};
+
+type StockUpdate = { item: DrawerViewItem } & ({ stockStatus: string } | { currentQuantity: number });
+
+// Mobile page behind the QR label on a cabinet or drawer - big buttons for the crew
+export default function DrawerViewPage() {
+  const { postId, cabinetId } = useParams<{ postId: string; cabinetId: string }>();
+  // Labels carry ?ladeId, labels printed before drawers had ids carry the drawer name as ?lade
+  const search = new URLSearchParams(useSearch());
+  const drawerId = search.get("ladeId");
+  const drawer = search.get("lade");
+  const drawerQuery = drawerId ? `?ladeId=${encodeURIComponent(drawerId)}` : drawer ? `?lade=${encodeURIComponent(drawer)}` : "";
+  const { toast } = useToast();
+  const { canManagePost } = useAuth();
+  // Counts are changed by coordinators of the post, the manual status by everyone
+  const canCount = canManagePost(postId);
+  const queryClient = useQueryClient();
+  const [sendRequest, setSendRequest] = useState(true);
+
+  const viewUrl = `/api/ambulance-posts/${postId}/cabinets/${cabinetId}/drawer-view${drawerQuery}`;
+  const { data: view, isLoading, error } = useQuery<DrawerView>({
+    queryKey: [viewUrl],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: StockUpdate) => {
+      const { item } = update;
+      if ("currentQuantity" in update) {
+        await apiRequest("PATCH", `/api/item-locations/${item.locationId}/quantity`, { currentQuantity: update.currentQuantity });
+      } else {
+        await apiRequest("PATCH", `/api/item-locations/${item.locationId}/status`, { stockStatus: update.stockStatus });
+      }
+
+      // Optionally let the contact person know straight away - locations with a request waiting are not asked again
+      if (sendRequest && item.hasContactPerson && !item.openSupplyRequestId) {
+        const response = await apiRequest("POST", `/api/supply-request/${item.locationId}`, {});
+        return { itemName: item.itemName, requested: true, message: (await response.json()).message as string };
+      }
+      return { itemName: item.itemName, requested: false, message: "Status bijgewerkt" };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [viewUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      toast({
+        title: result.itemName,
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [viewUrl] });
+      toast({
+        title: "Fout bij melden",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-slate-500" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen bg-medical-light flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center text-slate-600">
+            Deze kast of lade is niet gevonden. Is het label nog actueel?
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const color = getCabinetColorHex(view.cabinetColor);
+  const isBusy = (item: DrawerViewItem) => updateMutation.isPending && updateMutation.variables?.item.locationId === item.locationId;
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      <header className="text-white px-4 py-4" style={{ backgroundColor: color }}>
+        <div className="max-w-xl mx-auto flex items-center gap-3">
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="text-inherit hover:bg-white/20 px-2">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold truncate" style={{ textShadow: "0 1px 2px rgba(0,0,0,0.3)" }}>
+              {view.cabinetName}{view.drawer ? ` · ${view.drawer}` : ""}
+            </h1>
+            <p className="text-sm opacity-90">{view.ambulancePostName}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-4 space-y-3">
+        <div className="flex items-center justify-between bg-white rounded-lg px-4 py-3 border border-slate-200">
+          <Label htmlFor="send-request" className="text-sm">Meteen aanvulverzoek versturen</Label>
+          <Switch id="send-request" checked={sendRequest} onCheckedChange={setSendRequest} data-testid="switch-send-request" />
+        </div>
+
+        {view.items.length === 0 && (
+          <Card>
+            <CardContent className="pt-6 text-center text-slate-600">
+              <Package className="w-10 h-10 mx-auto mb-2 text-slate-400" />
+              Er liggen geen items in deze {view.drawer ? "lade" : "kast"}.
+            </CardContent>
+          </Card>
+        )}
+
+        {view.items.map(item => {
+          const status = statusInfo[item.stockStatus] ?? { label: item.stockStatus, badge: "bg-slate-400 text-white" };
+          const isCounted = isQuantityTracked(item);
+          return (
+            <Card key={item.locationId} data-testid={`card-drawer-item-${item.locationId}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  {item.photoUrl ? (
+                    <img src={item.photoUrl} alt="" className="w-14 h-14 rounded object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-14 h-14 rounded bg-slate-100 flex items-center justify-center flex-shrink-0">
+                      <Package className="w-6 h-6 text-slate-400" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="font-semibold text-slate-900">{item.itemName}</div>
+                    <div className="text-xs text-slate-500">
+                      {!view.drawer && item.drawer ? `${item.drawer} · ` : ""}{item.category}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge className={status.badge}>{status.label}</Badge>
+                      {isCounted && <span className="text-xs text-slate-600">{item.currentQuantity} stuks</span>}
+                      {item.openSupplyRequestId && (
+                        <span className="text-xs text-blue-600 flex items-center gap-1">
+                          <CheckCircle className="w-3 h-3" /> Aangevraagd
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {isCounted ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button
+                      variant="outline"
+                      className="h-14 text-base"
+                      onClick={() => updateMutation.mutate({ item, currentQuantity: Math.max(0, item.currentQuantity! - 1) })}
+                      disabled={!canCount || isBusy(item) || item.currentQuantity === 0}
+                      data-testid={`button-take-one-${item.locationId}`}
+                    >
+                      <Minus className="w-5 h-5 mr-2" />
+                      Eén gepakt
+                    </Button>
+                    <Button
+                      className="h-14 text-base bg-red-600 hover:bg-red-700 text-white"
+                      onClick={() => updateMutation.mutate({ item, currentQuantity: 0 })}
+                      disabled={!canCount || isBusy(item) || item.stockStatus === "niet-meer-aanwezig"}
+                      data-testid={`button-out-of-stock-${item.locationId}`}
+                    >
+                      Op
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button
+                      className="h-14 text-base bg-orange-500 hover:bg-orange-600 text-white"
+                      onClick={() => updateMutation.mutate({ item, stockStatus: "bijna-op" })}
+                      disabled={isBusy(item) || item.stockStatus === "bijna-op"}
+                      data-testid={`button-low-stock-${item.locationId}`}
+                    >
+                      Bijna op
+                    </Button>
+                    <Button
+                      className="h-14 text-base bg-red-600 hover:bg-red-700 text-white"
+                      onClick={() => updateMutation.mutate({ item, stockStatus: "niet-meer-aanwezig" })}
+                      disabled={isBusy(item) || item.stockStatus === "niet-meer-aanwezig"}
+                      data-testid={`button-out-of-stock-${item.locationId}`}
+                    >
+                      Op
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
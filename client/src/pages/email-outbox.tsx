@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Inbox, RefreshCw, RotateCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailOutboxEntry, EmailOutboxStatus } from "@shared/schema";
+
+const statusFilters: Record<string, string> = {
+  "pending,sending,failed": "Niet verzonden",
+  "failed": "Mislukt",
+  "pending,sending": "In wachtrij",
+  "sent": "Verzonden",
+};
+
+const statusInfo: Record<EmailOutboxStatus, { label: string; badge: string }> = {
+  "pending": { label: "In wachtrij", badge: "bg-blue-500 text-white" },
+  "sending": { label: "Bezig", badge: "bg-indigo-500 text-white" },
+  "sent": { label: "Verzonden", badge: "bg-green-500 text-white" },
+  "failed": { label: "Mislukt", badge: "bg-red-500 text-white" },
+};
+
+const formatDateTime = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString('nl-NL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : "-";
+
+export default function EmailOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState("pending,sending,failed");
+
+  const { data: entries = [], isLoading, refetch, isFetching } = useQuery<EmailOutboxEntry[]>({
+    queryKey: ['/api/email-outbox', statusFilter],
+    queryFn: async () => {
+      const response = await fetch(`/api/email-outbox?status=${statusFilter}`);
+      if (!response.ok) throw new Error("Failed to fetch email outbox");
+      return response.json();
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/email-outbox/${id}/resend`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-outbox'] });
+      toast({
+        title: "Opnieuw in wachtrij",
+        description: "De email wordt opnieuw verzonden",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij opnieuw verzenden",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Email Wachtrij</h1>
+              <p className="text-sm text-slate-500">Uitgaande emails worden automatisch opnieuw geprobeerd als verzenden mislukt</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <Inbox className="w-5 h-5 text-medical-blue" />
+                Emails ({entries.length})
+              </CardTitle>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-44" data-testid="select-outbox-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(statusFilters).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="button-refresh-outbox">
+                  <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-slate-600">Laden...</p>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8">
+                <Inbox className="w-12 h-12 text-green-500 mx-auto mb-4" />
+                <p className="text-slate-600">Geen emails gevonden.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ontvanger</TableHead>
+                    <TableHead>Onderwerp</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Pogingen</TableHead>
+                    <TableHead>Aangemaakt</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => {
+                    const status = entry.status as EmailOutboxStatus;
+                    return (
+                      <TableRow key={entry.id} data-testid={`row-outbox-${entry.id}`}>
+                        <TableCell className="text-sm">{entry.recipient}</TableCell>
+                        <TableCell className="text-sm">
+                          <div>{entry.subject}</div>
+                          {entry.lastError && status !== "sent" && (
+                            <div className="text-xs text-red-600 mt-1">{entry.lastError}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusInfo[status]?.badge}>{statusInfo[status]?.label ?? entry.status}</Badge>
+                          {status === "pending" && entry.attempts > 0 && (
+                            <div className="text-xs text-slate-500 mt-1">Volgende poging {formatDateTime(entry.nextAttemptAt)}</div>
+                          )}
+                          {status === "sent" && (
+                            <div className="text-xs text-slate-500 mt-1">{formatDateTime(entry.sentAt)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.attempts}</TableCell>
+                        <TableCell className="text-sm text-slate-600">{formatDateTime(entry.createdAt)}</TableCell>
+                        <TableCell>
+                          {(status === "failed" || status === "pending") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => resendMutation.mutate(entry.id)}
+                              disabled={resendMutation.isPending}
+                              className="text-xs h-7 px-2"
+                              data-testid={`button-resend-${entry.id}`}
+                            >
+                              <RotateCw className="w-3 h-3 mr-1" />
+                              {status === "failed" ? "Opnieuw verzenden" : "Nu verzenden"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Mail, Save, TestTube, Eye, EyeOff } from "lucide-react";
+import { ArrowLeft, Mail, Save, TestTube, Eye, EyeOff, Plus, Star, Trash2 } from "lucide-react";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -13,84 +13,115 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { emailProviders, type EmailProvider, type PublicEmailConfig as EmailProfile } from "@shared/schema";
+import { ExpiryWarningSettings } from "@/components/expiry-warning-settings";
+import { EmailTemplateEditor } from "@/components/email-template-editor";
 
 const emailConfigSchema = z.object({
-  smtpHost: z.string().min(1, "SMTP host is verplicht"),
+  name: z.string().trim().min(1, "Naam is verplicht"),
+  provider: z.enum(emailProviders),
+  smtpHost: z.string(),
   smtpPort: z.number().min(1, "SMTP poort moet groter dan 0 zijn").max(65535, "Ongeldige poort"),
-  smtpUser: z.string().min(1, "SMTP gebruikersnaam is verplicht"),
-  smtpPassword: z.string().min(1, "SMTP wachtwoord is verplicht"),
+  smtpUser: z.string(),
+  smtpPassword: z.string(), // leeg = opgeslagen wachtwoord behouden
   smtpSecure: z.boolean().default(true),
+  graphTenantId: z.string(),
+  graphClientId: z.string(),
+  graphClientSecret: z.string(), // leeg = opgeslagen secret behouden
   fromEmail: z.string().email("Ongeldig email adres"),
   fromName: z.string().min(1, "Afzender naam is verplicht"),
+}).superRefine((config, ctx) => {
+  // Only the fields of the chosen provider are required
+  const required: [keyof typeof config, string][] = config.provider === "graph"
+    ? [["graphTenantId", "Tenant ID is verplicht"], ["graphClientId", "Client ID is verplicht"]]
+    : [["smtpHost", "SMTP host is verplicht"], ["smtpUser", "SMTP gebruikersnaam is verplicht"]];
+  for (const [field, message] of required) {
+    if (!config[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
 });
 
 type EmailConfig = z.infer<typeof emailConfigSchema>;
 
+const NEW_PROFILE = "nieuw";
+
+const providerLabels: Record<EmailProvider, string> = {
+  smtp: "SMTP server",
+  graph: "Microsoft 365 (Graph API)",
+};
+
+const emptyProfile: EmailConfig = {
+  name: '',
+  provider: 'smtp',
+  smtpHost: '',
+  smtpPort: 587,
+  smtpUser: '',
+  smtpPassword: '',
+  smtpSecure: true,
+  graphTenantId: '',
+  graphClientId: '',
+  graphClientSecret: '',
+  fromEmail: '',
+  fromName: 'Medische Inventaris'
+};
+
 export default function EmailSettings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showPassword, setShowPassword] = useState(false);
   const [isTestingEmail, setIsTestingEmail] = useState(false);
 
-  const { data: emailConfig, isLoading } = useQuery<EmailConfig>({
-    queryKey: ['/api/email-config'],
-    queryFn: async () => {
-      const response = await fetch('/api/email-config');
-      if (!response.ok) {
-        if (response.status === 404) {
-          // Return default values if no config exists yet
-          return {
-            smtpHost: '',
-            smtpPort: 587,
-            smtpUser: '',
-            smtpPassword: '',
-            smtpSecure: true,
-            fromEmail: '',
-            fromName: 'Medische Inventaris'
-          };
-        }
-        throw new Error('Failed to fetch email config');
-      }
-      return response.json();
-    },
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+
+  const { data: profiles = [], isLoading } = useQuery<EmailProfile[]>({
+    queryKey: ['/api/email-configs'],
   });
 
+  // Start with the default profile, or an empty form when nothing is configured yet
+  useEffect(() => {
+    if (!isLoading && selectedProfileId === null) {
+      setSelectedProfileId(profiles[0]?.id ?? NEW_PROFILE);
+    }
+  }, [profiles, isLoading, selectedProfileId]);
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+
   const form = useForm<EmailConfig>({
     resolver: zodResolver(emailConfigSchema),
-    defaultValues: {
-      smtpHost: '',
-      smtpPort: 587,
-      smtpUser: '',
-      smtpPassword: '',
-      smtpSecure: true,
-      fromEmail: '',
-      fromName: 'Medische Inventaris'
-    },
+    defaultValues: emptyProfile,
   });
 
-  // Update form when data loads
+  const provider = form.watch("provider");
+
+  // Load the selected profile into the form
   useEffect(() => {
-    if (emailConfig && !isLoading) {
-      form.reset(emailConfig);
+    if (selectedProfileId === NEW_PROFILE) {
+      form.reset({ ...emptyProfile, name: profiles.length === 0 ? 'Standaard' : '' });
+    } else if (selectedProfile) {
+      // Saved secrets are never sent to the browser - blank keeps them
+      const { id, isDefault, hasPassword, hasClientSecret, ...values } = selectedProfile;
+      form.reset({
+        ...values,
+        provider: values.provider as EmailProvider,
+        smtpPassword: '',
+        graphTenantId: values.graphTenantId ?? '',
+        graphClientId: values.graphClientId ?? '',
+        graphClientSecret: '',
+      });
     }
-  }, [emailConfig, isLoading, form]);
+  }, [selectedProfileId, selectedProfile, profiles.length, form]);
 
   const updateEmailConfigMutation = useMutation({
     mutationFn: async (data: EmailConfig) => {
-      const response = await fetch('/api/email-config', {
-        method: 'POST',
-        body: JSON.stringify(data),
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) {
-        throw new Error('Failed to save email config');
-      }
+      const response = selectedProfile
+        ? await apiRequest('PUT', `/api/email-configs/${selectedProfile.id}`, data)
+        : await apiRequest('POST', '/api/email-configs', data);
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/email-config'] });
+    onSuccess: (data: { config: EmailProfile }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-configs'] });
+      setSelectedProfileId(data.config.id);
       toast({
         title: "Instellingen opgeslagen",
         description: "Email server configuratie is succesvol bijgewerkt",
@@ -106,13 +137,64 @@ export default function EmailSettings() {
     },
   });
 
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/email-configs/${id}/default`);
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-configs'] });
+      toast({
+        title: "Standaard profiel gewijzigd",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/email-configs/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-configs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ambulance-posts'] });
+      setSelectedProfileId(null);
+      toast({
+        title: "Profiel verwijderd",
+        description: "Posten met dit profiel gebruiken nu het standaard profiel",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij verwijderen",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDeleteProfile = () => {
+    if (selectedProfile && confirm(`Weet je zeker dat je het profiel "${selectedProfile.name}" wilt verwijderen?`)) {
+      deleteProfileMutation.mutate(selectedProfile.id);
+    }
+  };
+
   const testEmailMutation = useMutation({
     mutationFn: async (testEmail: string) => {
       const response = await fetch('/api/test-email', {
         method: 'POST',
         body: JSON.stringify({ 
           testEmail,
-          config: form.getValues()
+          config: form.getValues(),
+          profileId: selectedProfile?.id
         }),
         headers: {
           'Content-Type': 'application/json',
@@ -142,6 +224,14 @@ export default function EmailSettings() {
   });
 
   const onSubmit = (data: EmailConfig) => {
+    if (data.provider === "graph" && !data.graphClientSecret && !selectedProfile?.hasClientSecret) {
+      form.setError("graphClientSecret", { message: "Client secret is verplicht" });
+      return;
+    }
+    if (data.provider === "smtp" && !data.smtpPassword && !selectedProfile?.hasPassword) {
+      form.setError("smtpPassword", { message: "SMTP wachtwoord is verplicht" });
+      return;
+    }
     updateEmailConfigMutation.mutate(data);
   };
 
@@ -221,105 +311,270 @@ export default function EmailSettings() {
               </CardTitle>
               <p className="text-sm text-slate-600">
                 Configureer de SMTP server instellingen voor het verzenden van email notificaties.
+                Per ambulancepost kan een eigen profiel gekozen worden; posten zonder profiel gebruiken het standaard profiel.
               </p>
             </CardHeader>
             <CardContent>
+              <div className="flex flex-wrap items-center gap-2 mb-6 pb-6 border-b border-slate-200">
+                <Select value={selectedProfileId ?? undefined} onValueChange={setSelectedProfileId}>
+                  <SelectTrigger className="w-64" data-testid="select-email-profile">
+                    <SelectValue placeholder="Kies een profiel" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}{profile.isDefault ? " (standaard)" : ""}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={NEW_PROFILE}>+ Nieuw profiel</SelectItem>
+                  </SelectContent>
+                </Select>
+                {selectedProfile?.isDefault && <Badge variant="secondary">Standaard profiel</Badge>}
+                <div className="flex gap-2 ml-auto">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedProfileId(NEW_PROFILE)}
+                    data-testid="button-new-profile"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Nieuw
+                  </Button>
+                  {selectedProfile && !selectedProfile.isDefault && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDefaultMutation.mutate(selectedProfile.id)}
+                      disabled={setDefaultMutation.isPending}
+                      data-testid="button-default-profile"
+                    >
+                      <Star className="w-4 h-4 mr-1" />
+                      Als standaard
+                    </Button>
+                  )}
+                  {selectedProfile && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDeleteProfile}
+                      disabled={deleteProfileMutation.isPending}
+                      className="text-red-600 hover:text-red-700"
+                      data-testid="button-delete-profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField
-                      control={form.control}
-                      name="smtpHost"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>SMTP Host</FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="smtp.gmail.com" 
-                              {...field} 
-                              data-testid="input-smtp-host"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Profielnaam</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="bijv. Regio Noord" 
+                            {...field} 
+                            data-testid="input-profile-name"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                    <FormField
-                      control={form.control}
-                      name="smtpPort"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>SMTP Poort</FormLabel>
+                  <FormField
+                    control={form.control}
+                    name="provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Verzendmethode</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
                           <FormControl>
-                            <Input 
-                              type="number" 
-                              placeholder="587" 
-                              {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                              data-testid="input-smtp-port"
-                            />
+                            <SelectTrigger data-testid="select-email-provider">
+                              <SelectValue />
+                            </SelectTrigger>
                           </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                          <SelectContent>
+                            {emailProviders.map(provider => (
+                              <SelectItem key={provider} value={provider}>{providerLabels[provider]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <FormField
-                      control={form.control}
-                      name="smtpUser"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Gebruikersnaam</FormLabel>
-                          <FormControl>
-                            <Input 
-                              placeholder="gebruiker@example.com" 
-                              {...field} 
-                              data-testid="input-smtp-user"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                  {provider === "smtp" && (
+                    <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="smtpHost"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>SMTP Host</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="smtp.gmail.com" 
+                                {...field} 
+                                data-testid="input-smtp-host"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={form.control}
-                      name="smtpPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Wachtwoord</FormLabel>
-                          <FormControl>
-                            <div className="relative">
+                      <FormField
+                        control={form.control}
+                        name="smtpPort"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>SMTP Poort</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                placeholder="587" 
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                data-testid="input-smtp-port"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FormField
+                        control={form.control}
+                        name="smtpUser"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Gebruikersnaam</FormLabel>
+                            <FormControl>
                               <Input 
-                                type={showPassword ? "text" : "password"}
-                                placeholder="••••••••" 
+                                placeholder="gebruiker@example.com" 
                                 {...field} 
-                                data-testid="input-smtp-password"
+                                data-testid="input-smtp-user"
                               />
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                className="absolute right-0 top-0 h-full px-3"
-                                onClick={() => setShowPassword(!showPassword)}
-                                data-testid="button-toggle-password"
-                              >
-                                {showPassword ? (
-                                  <EyeOff className="h-4 w-4" />
-                                ) : (
-                                  <Eye className="h-4 w-4" />
-                                )}
-                              </Button>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="smtpPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Wachtwoord</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <Input 
+                                  type={showPassword ? "text" : "password"}
+                                  placeholder={selectedProfile?.hasPassword ? "Opgeslagen - leeg laten om te behouden" : "••••••••"} 
+                                  {...field} 
+                                  data-testid="input-smtp-password"
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  className="absolute right-0 top-0 h-full px-3"
+                                  onClick={() => setShowPassword(!showPassword)}
+                                  data-testid="button-toggle-password"
+                                >
+                                  {showPassword ? (
+                                    <EyeOff className="h-4 w-4" />
+                                  ) : (
+                                    <Eye className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </div>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    </>
+                  )}
+
+                  {provider === "graph" && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <FormField
+                          control={form.control}
+                          name="graphTenantId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tenant ID</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  placeholder="00000000-0000-0000-0000-000000000000" 
+                                  {...field} 
+                                  data-testid="input-graph-tenant-id"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="graphClientId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Client ID</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  placeholder="00000000-0000-0000-0000-000000000000" 
+                                  {...field} 
+                                  data-testid="input-graph-client-id"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name="graphClientSecret"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Client secret</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="password"
+                                placeholder={selectedProfile?.hasClientSecret ? "Opgeslagen - leeg laten om te behouden" : "••••••••"} 
+                                {...field} 
+                                data-testid="input-graph-client-secret"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <p className="text-xs text-slate-500">
+                        De app registratie in Microsoft Entra ID heeft de applicatie permissie <strong>Mail.Send</strong> met admin consent nodig. Het afzender adres moet een bestaande mailbox zijn.
+                      </p>
+                    </>
+                  )}
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <FormField
@@ -371,7 +626,7 @@ export default function EmailSettings() {
                           fetch('/api/test-smtp-connection', {
                             method: 'POST',
                             headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ config })
+                            body: JSON.stringify({ config, profileId: selectedProfile?.id })
                           }).then(res => res.json()).then(data => {
                             toast({
                               title: data.success ? "Verbinding OK" : "Verbinding mislukt",
@@ -411,6 +666,10 @@ export default function EmailSettings() {
             </CardContent>
           </Card>
 
+          <ExpiryWarningSettings />
+
+          <EmailTemplateEditor />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-sm font-medium text-slate-700">Veelgebruikte SMTP Instellingen</CardTitle>
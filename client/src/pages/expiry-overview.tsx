@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, CalendarClock, Download, List, CalendarDays } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { expiryGroups, type AmbulancePost, type Cabinet, type Category, type ExpiryEntry, type ExpiryGroup } from "@shared/schema";
+
+const ALL = "alle";
+
+const groupInfo: Record<ExpiryGroup, { title: string; badge: string }> = {
+  "verlopen": { title: "Verlopen", badge: "bg-red-500 text-white" },
+  "deze-week": { title: "Deze week", badge: "bg-orange-500 text-white" },
+  "deze-maand": { title: "Deze maand", badge: "bg-yellow-400 text-slate-900" },
+  "later": { title: "Later", badge: "bg-green-500 text-white" },
+};
+
+// Expiry dates are plain calendar dates - parse them as local dates for the calendar
+const toLocalDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDate = (date: string) => toLocalDate(date).toLocaleDateString('nl-NL');
+
+const formatRemaining = (days: number) => {
+  if (days < 0) return `${Math.abs(days)} dagen geleden`;
+  if (days === 0) return "Vandaag";
+  return `Over ${days} dagen`;
+};
+
+const csvValue = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export default function ExpiryOverview() {
+  const [selectedPost, setSelectedPost] = useState(ALL);
+  const [selectedCabinet, setSelectedCabinet] = useState(ALL);
+  const [selectedCategory, setSelectedCategory] = useState(ALL);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+
+  const { data: entries = [], isLoading } = useQuery<ExpiryEntry[]>({
+    queryKey: ['/api/expiry-overview', selectedPost, selectedCabinet, selectedCategory],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (selectedPost !== ALL) params.append("ambulancePost", selectedPost);
+      if (selectedCabinet !== ALL) params.append("cabinet", selectedCabinet);
+      if (selectedCategory !== ALL) params.append("category", selectedCategory);
+      const response = await fetch(`/api/expiry-overview?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch expiry overview");
+      return response.json();
+    },
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const { data: cabinets = [] } = useQuery<Cabinet[]>({
+    queryKey: ['/api/cabinets'],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  const expiryDays = Array.from(new Set(entries.map(entry => entry.expiryDate))).map(toLocalDate);
+  const expiredDays = Array.from(new Set(entries.filter(entry => entry.group === "verlopen").map(entry => entry.expiryDate))).map(toLocalDate);
+  const selectedDayEntries = selectedDay
+    ? entries.filter(entry => toLocalDate(entry.expiryDate).getTime() === selectedDay.getTime())
+    : [];
+
+  const handleExportCsv = () => {
+    const header = ["Item", "Categorie", "Post", "Kast", "Lade", "Lotnummer", "Aantal", "Vervaldatum", "Dagen tot vervaldatum", "Groep"];
+    const rows = entries.map(entry => [
+      entry.itemName,
+      entry.category,
+      entry.ambulancePostName,
+      entry.cabinetName,
+      entry.drawer,
+      entry.lotNumber,
+      entry.quantity,
+      entry.expiryDate,
+      entry.daysUntilExpiry,
+      groupInfo[entry.group].title,
+    ]);
+    // Semicolons and a BOM so Dutch Excel opens the file with the right columns and accents
+    const csv = "\uFEFF" + [header, ...rows].map(row => row.map(csvValue).join(";")).join("\n");
+
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vervaldatum-overzicht-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderEntriesTable = (rows: ExpiryEntry[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead>Post</TableHead>
+          <TableHead>Kast</TableHead>
+          <TableHead>Lade</TableHead>
+          <TableHead>Lot</TableHead>
+          <TableHead>Vervaldatum</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(entry => (
+          <TableRow key={`${entry.locationId}-${entry.lotId ?? "item"}`} data-testid={`row-expiry-${entry.locationId}-${entry.lotId ?? "item"}`}>
+            <TableCell>
+              <div className="font-medium">{entry.itemName}</div>
+              <div className="text-xs text-slate-500">{entry.category}</div>
+            </TableCell>
+            <TableCell className="text-sm">{entry.ambulancePostName}</TableCell>
+            <TableCell className="text-sm">{entry.cabinetName}</TableCell>
+            <TableCell className="text-sm text-slate-600">{entry.drawer || '-'}</TableCell>
+            <TableCell className="text-sm">
+              {entry.lotNumber ?? '-'}
+              {entry.quantity != null && <span className="text-slate-500"> ({entry.quantity} st.)</span>}
+            </TableCell>
+            <TableCell>
+              <div className="text-sm font-medium">{formatDate(entry.expiryDate)}</div>
+              <div className="text-xs text-slate-500">{formatRemaining(entry.daysUntilExpiry)}</div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Vervaldatum Overzicht</h1>
+              <p className="text-sm text-slate-500">Alle items en lots gesorteerd op vervaldatum</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={entries.length === 0} data-testid="button-export-csv">
+              <Download className="w-4 h-4 mr-2" />
+              CSV Export
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Select value={selectedPost} onValueChange={setSelectedPost}>
+                  <SelectTrigger data-testid="select-expiry-post">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle posten</SelectItem>
+                    {ambulancePosts.map(post => (
+                      <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={selectedCabinet} onValueChange={setSelectedCabinet}>
+                  <SelectTrigger data-testid="select-expiry-cabinet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle kasten</SelectItem>
+                    {cabinets.map(cabinet => (
+                      <SelectItem key={cabinet.id} value={cabinet.id}>{cabinet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+                  <SelectTrigger data-testid="select-expiry-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle categorieën</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Tabs defaultValue="list">
+            <TabsList>
+              <TabsTrigger value="list" data-testid="tab-expiry-list">
+                <List className="w-4 h-4 mr-2" />
+                Lijst
+              </TabsTrigger>
+              <TabsTrigger value="calendar" data-testid="tab-expiry-calendar">
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Kalender
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="list" className="space-y-6">
+              {isLoading ? (
+                <p className="text-slate-600">Laden...</p>
+              ) : entries.length === 0 ? (
+                <Card>
+                  <CardContent className="text-center py-8">
+                    <CalendarClock className="w-12 h-12 text-green-500 mx-auto mb-4" />
+                    <p className="text-slate-600">Geen items met een vervaldatum gevonden.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                expiryGroups.map(group => {
+                  const groupEntries = entries.filter(entry => entry.group === group);
+                  if (groupEntries.length === 0) return null;
+                  return (
+                    <Card key={group}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                          <Badge className={groupInfo[group].badge}>{groupEntries.length}</Badge>
+                          {groupInfo[group].title}
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>{renderEntriesTable(groupEntries)}</CardContent>
+                    </Card>
+                  );
+                })
+              )}
+            </TabsContent>
+
+            <TabsContent value="calendar">
+              <Card>
+                <CardContent className="pt-6 flex flex-col md:flex-row gap-6">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDay}
+                    onSelect={setSelectedDay}
+                    modifiers={{ expiring: expiryDays, expired: expiredDays }}
+                    modifiersClassNames={{
+                      expiring: "font-bold underline decoration-orange-500 decoration-2",
+                      expired: "text-red-600",
+                    }}
+                    className="rounded-md border self-start"
+                  />
+                  <div className="flex-1">
+                    {!selectedDay ? (
+                      <p className="text-sm text-slate-600">Kies een onderstreepte dag om te zien wat er dan verloopt.</p>
+                    ) : selectedDayEntries.length === 0 ? (
+                      <p className="text-sm text-slate-600">Niets verloopt op {selectedDay.toLocaleDateString('nl-NL')}.</p>
+                    ) : (
+                      <>
+                        <h3 className="font-semibold text-slate-900 mb-3">
+                          Verloopt op {selectedDay.toLocaleDateString('nl-NL')}
+                        </h3>
+                        {renderEntriesTable(selectedDayEntries)}
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+    </div>
+  );
+}
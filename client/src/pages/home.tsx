@@ -1,12 +1,12 @@
 import { useState, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Plus, Settings, ChevronDown, AlertTriangle, Mail, MapPin, Archive, FileSpreadsheet } from "lucide-react";
+import { Plus, Settings, ChevronDown, AlertTriangle, CalendarClock, ClipboardList, ClipboardCheck, ClipboardPen, ListChecks, ShieldCheck, Inbox, Mail, MapPin, Archive, FileSpreadsheet, LogOut, UserCog } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import CabinetOverview from "../components/cabinet-overview";
 import InventoryTable from "../components/inventory-table-new";
@@ -14,10 +14,12 @@ import AddItemDialog from "../components/add-item-dialog";
 import CabinetManagement from "../components/cabinet-management";
 import SearchAutocomplete from "../components/search-autocomplete";
 import ExcelImportDialog from "../components/excel-import-dialog";
+import { useAuth } from "@/hooks/use-auth";
 import type { MedicalItem, AmbulancePost } from "@shared/schema";
 import ravLogo from "@assets/IMG_0009_1754910857700.png";
 
 export default function Home() {
+  const { user, logoutMutation, hasRole } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCabinet, setSelectedCabinet] = useState<string>("");
   const [selectedCategory, setSelectedCategory] = useState<string>("");
@@ -157,14 +159,16 @@ export default function Home() {
                   </SelectContent>
                 </Select>
               </div>
-              <Button 
-                onClick={() => setIsAddDialogOpen(true)}
-                className="bg-medical-blue hover:bg-blue-700"
-                data-testid="button-add-item"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Item Toevoegen
-              </Button>
+              {hasRole("post-coordinator") && (
+                <Button 
+                  onClick={() => setIsAddDialogOpen(true)}
+                  className="bg-medical-blue hover:bg-blue-700"
+                  data-testid="button-add-item"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Item Toevoegen
+                </Button>
+              )}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button 
@@ -177,6 +181,10 @@ export default function Home() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs font-normal text-slate-500">
+                    Ingelogd als {user?.username}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
                   <DropdownMenuItem asChild>
                     <Link href="/voorraad-overzicht" data-testid="menu-stock-overview">
                       <div className="flex items-center gap-2">
@@ -185,40 +193,126 @@ export default function Home() {
                       </div>
                     </Link>
                   </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    onClick={() => setShowSettingsDialog(true)}
-                    data-testid="menu-cabinet-management"
-                  >
-                    <div className="flex items-center gap-2">
-                      <Archive className="w-4 h-4" />
-                      Kasten Beheren
-                    </div>
+                  <DropdownMenuItem asChild>
+                    <Link href="/vervaldatum-overzicht" data-testid="menu-expiry-overview">
+                      <div className="flex items-center gap-2">
+                        <CalendarClock className="w-4 h-4" />
+                        Vervaldatum Overzicht
+                      </div>
+                    </Link>
                   </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    onClick={() => setShowExcelImportDialog(true)}
-                    data-testid="menu-excel-import"
-                  >
-                    <div className="flex items-center gap-2">
-                      <FileSpreadsheet className="w-4 h-4" />
-                      Excel Import
-                    </div>
+                  <DropdownMenuItem asChild>
+                    <Link href="/aanvulverzoeken" data-testid="menu-supply-requests">
+                      <div className="flex items-center gap-2">
+                        <ClipboardList className="w-4 h-4" />
+                        Aanvulverzoeken
+                      </div>
+                    </Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem asChild>
-                    <Link href="/email-settings" data-testid="menu-email-settings">
+                    <Link href="/normen" data-testid="menu-norm-compliance">
                       <div className="flex items-center gap-2">
-                        <Mail className="w-4 h-4" />
-                        Email Instellingen
+                        <ShieldCheck className="w-4 h-4" />
+                        Normen
                       </div>
                     </Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem asChild>
-                    <Link href="/ambulance-posts" data-testid="menu-ambulance-posts">
+                    <Link href="/dienstcontrole" data-testid="menu-shift-check">
                       <div className="flex items-center gap-2">
-                        <MapPin className="w-4 h-4" />
-                        Posten Beheer
+                        <ListChecks className="w-4 h-4" />
+                        Dienstcontrole
                       </div>
                     </Link>
                   </DropdownMenuItem>
+                  {hasRole("post-coordinator") && (
+                    <>
+                      <DropdownMenuItem asChild>
+                        <Link href="/picklijst" data-testid="menu-pick-list">
+                          <div className="flex items-center gap-2">
+                            <ClipboardCheck className="w-4 h-4" />
+                            Picklijst
+                          </div>
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/inventarisatie" data-testid="menu-stocktakes">
+                          <div className="flex items-center gap-2">
+                            <ClipboardPen className="w-4 h-4" />
+                            Inventarisatie
+                          </div>
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setShowSettingsDialog(true)}
+                        data-testid="menu-cabinet-management"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Archive className="w-4 h-4" />
+                          Kasten Beheren
+                        </div>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem 
+                        onClick={() => setShowExcelImportDialog(true)}
+                        data-testid="menu-excel-import"
+                      >
+                        <div className="flex items-center gap-2">
+                          <FileSpreadsheet className="w-4 h-4" />
+                          Excel Import
+                        </div>
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  {hasRole("administrator") && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/email-settings" data-testid="menu-email-settings">
+                        <div className="flex items-center gap-2">
+                          <Mail className="w-4 h-4" />
+                          Email Instellingen
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {hasRole("administrator") && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/email-wachtrij" data-testid="menu-email-outbox">
+                        <div className="flex items-center gap-2">
+                          <Inbox className="w-4 h-4" />
+                          Email Wachtrij
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {hasRole("post-coordinator") && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/ambulance-posts" data-testid="menu-ambulance-posts">
+                        <div className="flex items-center gap-2">
+                          <MapPin className="w-4 h-4" />
+                          Posten Beheer
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  {hasRole("administrator") && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/gebruikers" data-testid="menu-users">
+                        <div className="flex items-center gap-2">
+                          <UserCog className="w-4 h-4" />
+                          Gebruikers Beheer
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem 
+                    onClick={() => logoutMutation.mutate()}
+                    data-testid="menu-logout"
+                  >
+                    <div className="flex items-center gap-2">
+                      <LogOut className="w-4 h-4" />
+                      Uitloggen
+                    </div>
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
@@ -0,0 +1,105 @@
+import { Redirect, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { LogIn } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import ravLogo from "@assets/IMG_0009_1754910857700.png";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Gebruikersnaam is verplicht"),
+  password: z.string().min(1, "Wachtwoord is verplicht"),
+});
+
+type LoginForm = z.infer<typeof loginSchema>;
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+  const returnTo = new URLSearchParams(useSearch()).get("terug");
+
+  const form = useForm<LoginForm>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  if (user) {
+    // Only paths within the app, never another site
+    return <Redirect to={returnTo?.startsWith("/") && !returnTo.startsWith("//") ? returnTo : "/"} />;
+  }
+
+  const onSubmit = (data: LoginForm) => {
+    loginMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-medical-light flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center space-y-3">
+          <div className="w-20 h-20 mx-auto rounded-xl overflow-hidden">
+            <img
+              src={ravLogo}
+              alt="RAV FL&GV Logo"
+              className="w-full h-full object-contain"
+              data-testid="logo-rav-login"
+            />
+          </div>
+          <CardTitle className="text-xl">MedInventory</CardTitle>
+          <p className="text-sm text-slate-500">Log in om de medische voorraad te beheren</p>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gebruikersnaam</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} data-testid="input-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Wachtwoord</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="current-password"
+                        {...field}
+                        data-testid="input-password"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-medical-blue hover:bg-blue-700"
+                disabled={loginMutation.isPending}
+                data-testid="button-login"
+              >
+                <LogIn className="w-4 h-4 mr-2" />
+                {loginMutation.isPending ? "Inloggen..." : "Inloggen"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -73,6 +73,7 @@ export default function LowStockOverview() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-status-history'] });
       toast({
         title: "Status bijgewerkt",
         description: "Voorraad status is succesvol aangepast voor alle locaties",
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ListTodo, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import NormListManager from "@/components/norm-list-manager";
+import type { AmbulancePost, NormCompliance, NormComplianceStatus } from "@shared/schema";
+
+const ALL = "alle";
+
+const statusLabels: Record<NormComplianceStatus, { label: string; badge: string }> = {
+  "ok": { label: "In orde", badge: "bg-green-500 text-white" },
+  "ontbreekt": { label: "Ontbreekt", badge: "bg-red-600 text-white" },
+  "niet-meer-aanwezig": { label: "Op", badge: "bg-red-500 text-white" },
+  "te-weinig": { label: "Te weinig", badge: "bg-orange-500 text-white" },
+  "uit-assortiment": { label: "Uit assortiment", badge: "bg-slate-500 text-white" },
+};
+
+export default function NormCompliancePage() {
+  const { hasRole } = useAuth();
+  const [selectedPost, setSelectedPost] = useState<string>(ALL);
+  const [problemsOnly, setProblemsOnly] = useState(true);
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const { data: compliance = [], isLoading } = useQuery<NormCompliance[]>({
+    queryKey: ['/api/norm-compliance', selectedPost],
+    queryFn: async () => {
+      const response = await fetch(selectedPost === ALL ? "/api/norm-compliance" : `/api/norm-compliance?post=${selectedPost}`);
+      if (!response.ok) throw new Error("Failed to fetch norm compliance");
+      return response.json();
+    },
+  });
+
+  const complianceView = (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 flex flex-col md:flex-row gap-4 md:items-center">
+          <Select value={selectedPost} onValueChange={setSelectedPost}>
+            <SelectTrigger className="md:w-72" data-testid="select-norm-post">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Alle actieve posten</SelectItem>
+              {ambulancePosts.filter(post => post.isActive).map(post => (
+                <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="problems-only" checked={problemsOnly} onCheckedChange={setProblemsOnly} data-testid="switch-problems-only" />
+            <Label htmlFor="problems-only">Alleen problemen tonen</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-slate-600">Laden...</p>
+      ) : compliance.map(post => {
+        const problems = post.lines.filter(line => line.status !== "ok");
+        const lines = problemsOnly ? problems : post.lines;
+        return (
+          <Card key={post.ambulancePostId} data-testid={`card-norm-compliance-${post.ambulancePostId}`}>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <CardTitle className="text-base">{post.ambulancePostName}</CardTitle>
+                {post.normListNames.length > 0 && (
+                  <Badge className={problems.length > 0 ? "bg-red-500 text-white" : "bg-green-500 text-white"}>
+                    {problems.length > 0 ? `${problems.length} van ${post.lines.length} normitems niet in orde` : "Voldoet aan de norm"}
+                  </Badge>
+                )}
+              </div>
+              {post.normListNames.length > 0 && (
+                <p className="text-sm text-slate-500">Normlijsten: {post.normListNames.join(", ")}</p>
+              )}
+            </CardHeader>
+            <CardContent>
+              {post.normListNames.length === 0 ? (
+                <p className="text-sm text-slate-600">Er is nog geen normlijst aan deze post toegewezen.</p>
+              ) : lines.length === 0 ? (
+                <p className="text-sm text-slate-600 flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4 text-green-600" /> Alle verplichte items zijn aanwezig.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Normlijst</TableHead>
+                      <TableHead>Plaats</TableHead>
+                      <TableHead>Minimaal</TableHead>
+                      <TableHead>Aanwezig</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map(line => (
+                      <TableRow key={line.normItemId} data-testid={`row-norm-line-${post.ambulancePostId}-${line.normItemId}`}>
+                        <TableCell>
+                          <div className="font-medium">{line.itemName}</div>
+                          <div className="text-xs text-slate-500">{line.category}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{line.normListName}</TableCell>
+                        <TableCell className="text-sm">
+                          {line.cabinetName ? `${line.cabinetName}${line.drawer ? ` · ${line.drawer}` : ""}` : "Hele post"}
+                        </TableCell>
+                        <TableCell className="text-sm">{line.minQuantity ?? "-"}</TableCell>
+                        <TableCell className="text-sm">
+                          {line.currentQuantity != null ? `${line.currentQuantity} stuks` : `${line.locationCount} locatie(s)`}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusLabels[line.status].badge}>{statusLabels[line.status].label}</Badge>
+                          {line.replacementItemName && (
+                            <div className="text-xs text-slate-500 mt-1">Vervangen door {line.replacementItemName}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Normen</h1>
+              <p className="text-sm text-slate-500">Verplichte items per post en wat er ontbreekt</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {hasRole("administrator") ? (
+          <Tabs defaultValue="compliance">
+            <TabsList>
+              <TabsTrigger value="compliance" data-testid="tab-norm-compliance">
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Naleving
+              </TabsTrigger>
+              <TabsTrigger value="lists" data-testid="tab-norm-lists">
+                <ListTodo className="w-4 h-4 mr-2" />
+                Normlijsten
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="compliance">{complianceView}</TabsContent>
+            <TabsContent value="lists"><NormListManager /></TabsContent>
+          </Tabs>
+        ) : complianceView}
+      </main>
+    </div>
+  );
+}
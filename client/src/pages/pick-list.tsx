@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardCheck, FileDown, PackageCheck, Printer } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { AmbulancePost, PickListLine } from "@shared/schema";
+
+const statusLabels: Record<string, { label: string; badge: string }> = {
+  "bijna-op": { label: "Bijna op", badge: "bg-orange-500 text-white" },
+  "niet-meer-aanwezig": { label: "Op", badge: "bg-red-500 text-white" },
+};
+
+export default function PickList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canManagePost } = useAuth();
+  const [selectedPostIds, setSelectedPostIds] = useState<string[]>([]);
+  const [pickedItemIds, setPickedItemIds] = useState<string[]>([]);
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const managedPosts = ambulancePosts.filter(post => post.isActive && canManagePost(post.id));
+
+  const { data: lines = [], isLoading } = useQuery<PickListLine[]>({
+    queryKey: ['/api/pick-list', selectedPostIds.join(",")],
+    queryFn: async () => {
+      const response = await fetch(`/api/pick-list?posts=${selectedPostIds.join(",")}`);
+      if (!response.ok) throw new Error("Failed to fetch pick list");
+      return response.json();
+    },
+    enabled: selectedPostIds.length > 0,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (locationIds: string[]) => {
+      const response = await apiRequest("POST", "/api/pick-list/complete", { locationIds });
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setPickedItemIds([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/pick-list'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      toast({
+        title: "Picklijst afgerond",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij afronden",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const togglePost = (postId: string, checked: boolean) => {
+    setSelectedPostIds(current => checked ? [...current, postId] : current.filter(id => id !== postId));
+  };
+
+  const togglePicked = (itemId: string, checked: boolean) => {
+    setPickedItemIds(current => checked ? [...current, itemId] : current.filter(id => id !== itemId));
+  };
+
+  const pickedLines = lines.filter(line => pickedItemIds.includes(line.itemId));
+
+  const handleComplete = () => {
+    const locationIds = pickedLines.flatMap(line => line.locations.map(location => location.locationId));
+    if (confirm(`${pickedLines.length} item(s) op ${locationIds.length} locatie(s) als aangevuld markeren? Openstaande aanvulverzoeken worden gesloten.`)) {
+      completeMutation.mutate(locationIds);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200 print:hidden">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Picklijst</h1>
+              <p className="text-sm text-slate-500">Alles wat bijna op of op is, op volgorde van het magazijn</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle className="text-base">Posten</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {managedPosts.length === 0 ? (
+              <p className="text-slate-600 text-sm">Je bent niet gekoppeld aan een ambulancepost.</p>
+            ) : (
+              <div className="flex flex-wrap gap-4">
+                {managedPosts.map(post => (
+                  <label key={post.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedPostIds.includes(post.id)}
+                      onCheckedChange={(checked) => togglePost(post.id, checked === true)}
+                      data-testid={`checkbox-pick-post-${post.id}`}
+                    />
+                    {post.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedPostIds.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="w-5 h-5 text-medical-blue" />
+                  Te pakken ({pickedLines.length}/{lines.length})
+                </CardTitle>
+                <div className="flex gap-2 print:hidden">
+                  <Button variant="outline" size="sm" onClick={() => window.print()} disabled={lines.length === 0} data-testid="button-print-pick-list">
+                    <Printer className="w-4 h-4 mr-2" />
+                    Afdrukken
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/pick-list/pdf?posts=${selectedPostIds.join(",")}`} download data-testid="button-pick-list-pdf">
+                      <FileDown className="w-4 h-4 mr-2" />
+                      PDF
+                    </a>
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleComplete}
+                    disabled={pickedLines.length === 0 || completeMutation.isPending}
+                    data-testid="button-complete-pick-list"
+                  >
+                    <PackageCheck className="w-4 h-4 mr-2" />
+                    {completeMutation.isPending ? "Afronden..." : "Gepickte items afronden"}
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-slate-600">Laden...</p>
+              ) : lines.length === 0 ? (
+                <div className="text-center py-8">
+                  <PackageCheck className="w-12 h-12 text-green-500 mx-auto mb-4" />
+                  <p className="text-slate-600">Niets aan te vullen voor de gekozen posten.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Magazijn</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Aantal</TableHead>
+                      <TableHead>Voor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map(line => {
+                      const isPicked = pickedItemIds.includes(line.itemId);
+                      return (
+                        <TableRow key={line.itemId} className={isPicked ? "bg-green-50" : undefined} data-testid={`row-pick-${line.itemId}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={isPicked}
+                              onCheckedChange={(checked) => togglePicked(line.itemId, checked === true)}
+                              data-testid={`checkbox-picked-${line.itemId}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{line.storeLocation ?? "-"}</TableCell>
+                          <TableCell>
+                            <div className={`font-medium ${isPicked ? "line-through text-slate-500" : ""}`}>
+                              {line.itemName} – {line.postCount} {line.postCount === 1 ? "post" : "posten"}
+                            </div>
+                            <div className="text-xs text-slate-500">{line.category}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">{line.quantityNeeded ?? "-"}</TableCell>
+                          <TableCell className="text-sm space-y-1">
+                            {line.locations.map(location => (
+                              <div key={location.locationId} className="flex items-center gap-2">
+                                <Badge className={statusLabels[location.stockStatus]?.badge ?? "bg-slate-400 text-white"}>
+                                  {statusLabels[location.stockStatus]?.label ?? location.stockStatus}
+                                </Badge>
+                                <span>
+                                  {location.ambulancePostName}
+                                  <span className="text-slate-500">
+                                    {" "}· {location.cabinetName}{location.drawer ? ` · ${location.drawer}` : ""}
+                                    {location.quantityNeeded !== null && ` · ${location.quantityNeeded} stuks`}
+                                  </span>
+                                </span>
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -2,10 +2,14 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Building2, Archive, Layers3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Building2, Archive, Layers3, FileDown, ClipboardCheck, QrCode } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import type { AmbulancePost, Cabinet, ItemLocation } from "@shared/schema";
 
 export default function PostCabinetOverview() {
+  const { hasRole } = useAuth();
+
   const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
     queryKey: ["/api/ambulance-posts"],
   });
@@ -61,9 +65,19 @@ export default function PostCabinetOverview() {
                     </CardDescription>
                   </div>
                 </div>
-                <Badge variant="secondary" className="text-sm">
-                  {totalItems} items totaal
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {hasRole("post-coordinator") && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/pick-list/pdf?posts=${post.id}`} download data-testid={`button-pick-list-pdf-${post.id}`}>
+                        <ClipboardCheck className="w-4 h-4 mr-2" />
+                        Picklijst PDF
+                      </a>
+                    </Button>
+                  )}
+                  <Badge variant="secondary" className="text-sm">
+                    {totalItems} items totaal
+                  </Badge>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -80,6 +94,7 @@ export default function PostCabinetOverview() {
                       <TableHead>Kast Naam</TableHead>
                       <TableHead>Aantal Items</TableHead>
                       <TableHead>Laden</TableHead>
+                      <TableHead className="w-32"></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -116,6 +131,22 @@ export default function PostCabinetOverview() {
                             <span className="text-muted-foreground text-sm">Geen lade opgegeven</span>
                           )}
                         </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={`/api/ambulance-posts/${post.id}/cabinets/${cabinet.id}/sheet.pdf`} download data-testid={`button-cabinet-sheet-${post.id}-${cabinet.id}`}>
+                                <FileDown className="w-4 h-4 mr-2" />
+                                Inhoudsblad
+                              </a>
+                            </Button>
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={`/api/ambulance-posts/${post.id}/cabinets/${cabinet.id}/labels.pdf`} download data-testid={`button-cabinet-labels-${post.id}-${cabinet.id}`}>
+                                <QrCode className="w-4 h-4 mr-2" />
+                                QR-labels
+                              </a>
+                            </Button>
+                          </div>
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ArrowRight, CheckCircle, ListChecks, Loader2, Minus, Package, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getCabinetColorHex, isQuantityTracked, type AmbulancePost, type DrawerViewItem, type ShiftCheck, type ShiftCheckDrawer } from "@shared/schema";
+
+const statusButtons = [
+  { status: "op-voorraad", label: "Op voorraad", className: "bg-green-600 hover:bg-green-700" },
+  { status: "bijna-op", label: "Bijna op", className: "bg-orange-500 hover:bg-orange-600" },
+  { status: "niet-meer-aanwezig", label: "Op", className: "bg-red-600 hover:bg-red-700" },
+] as const;
+
+type CheckResult = { stockStatus?: string; currentQuantity?: number };
+
+const formatDateTime = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString('nl-NL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : "-";
+
+// What the app has recorded now - the starting point of every item in the check
+const initialResult = (item: DrawerViewItem): CheckResult =>
+  isQuantityTracked(item) ? { currentQuantity: item.currentQuantity! } : { stockStatus: item.stockStatus };
+
+const isChanged = (item: DrawerViewItem, result: CheckResult) =>
+  isQuantityTracked(item) ? result.currentQuantity !== item.currentQuantity : result.stockStatus !== item.stockStatus;
+
+export default function ShiftCheckPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedPost, setSelectedPost] = useState<string>("");
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [step, setStep] = useState(0);
+  const [results, setResults] = useState<Record<string, CheckResult>>({});
+  const [completedCheck, setCompletedCheck] = useState<ShiftCheck | null>(null);
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const { data: drawers = [], isLoading: drawersLoading } = useQuery<ShiftCheckDrawer[]>({
+    queryKey: ['/api/ambulance-posts', selectedPost, 'shift-check'],
+    enabled: !!selectedPost,
+  });
+
+  const { data: recentChecks = [] } = useQuery<ShiftCheck[]>({
+    queryKey: ['/api/ambulance-posts', selectedPost, 'shift-checks'],
+    enabled: !!selectedPost,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const items = drawers.flatMap(drawer => drawer.items);
+      const response = await apiRequest("POST", `/api/ambulance-posts/${selectedPost}/shift-checks`, {
+        startedAt,
+        results: items.map(item => ({ locationId: item.locationId, ...results[item.locationId] })),
+      });
+      return response.json() as Promise<ShiftCheck>;
+    },
+    onSuccess: (check) => {
+      setCompletedCheck(check);
+      setStartedAt(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/ambulance-posts', selectedPost] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij opslaan van de controle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startCheck = () => {
+    setResults(Object.fromEntries(drawers.flatMap(drawer => drawer.items.map(item => [item.locationId, initialResult(item)]))));
+    setStep(0);
+    setCompletedCheck(null);
+    setStartedAt(new Date());
+  };
+
+  const setResult = (locationId: string, result: CheckResult) => {
+    setResults(current => ({ ...current, [locationId]: result }));
+  };
+
+  const allItems = drawers.flatMap(drawer => drawer.items);
+  const changedItems = allItems.filter(item => results[item.locationId] && isChanged(item, results[item.locationId]));
+  const isSummary = step >= drawers.length;
+  const currentDrawer = drawers[step];
+
+  // Walking the drawers - one screen per drawer, then a summary
+  if (startedAt && drawers.length > 0) {
+    const color = currentDrawer ? getCabinetColorHex(currentDrawer.cabinetColor) : undefined;
+    return (
+      <div className="min-h-screen bg-medical-light pb-28">
+        <header className={`px-4 py-4 ${currentDrawer ? "text-white" : "bg-white border-b border-slate-200"}`} style={{ backgroundColor: color }}>
+          <div className="max-w-xl mx-auto">
+            <p className="text-sm opacity-90">
+              {isSummary ? "Controle afronden" : `Lade ${step + 1} van ${drawers.length}`}
+            </p>
+            <h1 className="text-xl font-bold" style={currentDrawer ? { textShadow: "0 1px 2px rgba(0,0,0,0.3)" } : undefined}>
+              {currentDrawer
+                ? `${currentDrawer.cabinetName}${currentDrawer.drawer ? ` · ${currentDrawer.drawer}` : ""}`
+                : `${changedItems.length} afwijking(en) gevonden`}
+            </h1>
+          </div>
+        </header>
+
+        <main className="max-w-xl mx-auto px-4 py-4 space-y-3">
+          {currentDrawer?.items.map(item => {
+            const result = results[item.locationId] ?? initialResult(item);
+            return (
+              <Card key={item.locationId} className={isChanged(item, result) ? "border-orange-400" : undefined} data-testid={`card-check-item-${item.locationId}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center gap-3">
+                    {item.photoUrl ? (
+                      <img src={item.photoUrl} alt="" className="w-16 h-16 rounded object-cover flex-shrink-0" />
+                    ) : (
+                      <div className="w-16 h-16 rounded bg-slate-100 flex items-center justify-center flex-shrink-0">
+                        <Package className="w-6 h-6 text-slate-400" />
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <div className="font-semibold text-slate-900">{item.itemName}</div>
+                      <div className="text-xs text-slate-500">{item.category}</div>
+                    </div>
+                  </div>
+
+                  {isQuantityTracked(item) ? (
+                    <div className="flex items-center justify-between gap-3">
+                      <Button
+                        variant="outline"
+                        className="h-14 w-14"
+                        onClick={() => setResult(item.locationId, { currentQuantity: Math.max(0, result.currentQuantity! - 1) })}
+                        disabled={result.currentQuantity === 0}
+                        data-testid={`button-check-decrease-${item.locationId}`}
+                      >
+                        <Minus className="w-5 h-5" />
+                      </Button>
+                      <div className="text-center">
+                        <div className="text-3xl font-bold text-slate-900">{result.currentQuantity}</div>
+                        <div className="text-xs text-slate-500">minimaal {item.minQuantity}</div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="h-14 w-14"
+                        onClick={() => setResult(item.locationId, { currentQuantity: result.currentQuantity! + 1 })}
+                        data-testid={`button-check-increase-${item.locationId}`}
+                      >
+                        <Plus className="w-5 h-5" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      {statusButtons.map(button => (
+                        <Button
+                          key={button.status}
+                          className={`h-14 text-sm ${result.stockStatus === button.status ? `${button.className} text-white` : "bg-white text-slate-700 border border-slate-300 hover:bg-slate-50"}`}
+                          onClick={() => setResult(item.locationId, { stockStatus: button.status })}
+                          data-testid={`button-check-${button.status}-${item.locationId}`}
+                        >
+                          {button.label}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {isSummary && (
+            <Card>
+              <CardContent className="p-4 space-y-2">
+                <p className="text-sm text-slate-600">
+                  {allItems.length} item(s) in {drawers.length} lade(s) gecontroleerd.
+                </p>
+                {changedItems.length === 0 ? (
+                  <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4" /> Alles klopt met de voorraad in de app.
+                  </p>
+                ) : (
+                  changedItems.map(item => {
+                    const result = results[item.locationId];
+                    return (
+                      <div key={item.locationId} className="text-sm border-t border-slate-100 pt-2">
+                        <div className="font-medium text-slate-900">{item.itemName}</div>
+                        <div className="text-slate-500">
+                          {isQuantityTracked(item)
+                            ? `${item.currentQuantity} → ${result.currentQuantity} stuks`
+                            : `${statusButtons.find(b => b.status === item.stockStatus)?.label ?? item.stockStatus} → ${statusButtons.find(b => b.status === result.stockStatus)?.label}`}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </main>
+
+        <footer className="fixed bottom-0 inset-x-0 bg-white border-t border-slate-200 px-4 py-3">
+          <div className="max-w-xl mx-auto flex gap-3">
+            <Button
+              variant="outline"
+              className="h-14 flex-1"
+              onClick={() => step === 0 ? setStartedAt(null) : setStep(step - 1)}
+              data-testid="button-check-previous"
+            >
+              <ArrowLeft className="w-5 h-5 mr-2" />
+              {step === 0 ? "Stoppen" : "Vorige"}
+            </Button>
+            {isSummary ? (
+              <Button
+                className="h-14 flex-1 bg-medical-blue hover:bg-blue-700"
+                onClick={() => submitMutation.mutate()}
+                disabled={submitMutation.isPending}
+                data-testid="button-check-submit"
+              >
+                {submitMutation.isPending ? "Opslaan..." : "Controle opslaan"}
+              </Button>
+            ) : (
+              <Button
+                className="h-14 flex-1 bg-medical-blue hover:bg-blue-700"
+                onClick={() => setStep(step + 1)}
+                data-testid="button-check-next"
+              >
+                Volgende
+                <ArrowRight className="w-5 h-5 ml-2" />
+              </Button>
+            )}
+          </div>
+        </footer>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-xl mx-auto px-4">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Dienstcontrole</h1>
+              <p className="text-sm text-slate-500">Alle kasten lade voor lade nalopen</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-6 space-y-4">
+        {completedCheck && (
+          <Card className="border-green-300 bg-green-50">
+            <CardContent className="p-4 flex items-center gap-3">
+              <CheckCircle className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-green-800">
+                Controle opgeslagen: {completedCheck.locationCount} item(s) gecontroleerd, {completedCheck.deviationCount} afwijking(en) bijgewerkt.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <Select value={selectedPost} onValueChange={(value) => { setSelectedPost(value); setCompletedCheck(null); }}>
+              <SelectTrigger className="h-12" data-testid="select-check-post">
+                <SelectValue placeholder="Kies een ambulancepost" />
+              </SelectTrigger>
+              <SelectContent>
+                {ambulancePosts.filter(post => post.isActive).map(post => (
+                  <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="w-full h-14 text-base bg-medical-blue hover:bg-blue-700"
+              onClick={startCheck}
+              disabled={!selectedPost || drawersLoading || drawers.length === 0}
+              data-testid="button-start-check"
+            >
+              {drawersLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <ListChecks className="w-5 h-5 mr-2" />}
+              {selectedPost && !drawersLoading && drawers.length === 0 ? "Geen items op deze post" : "Controle starten"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {selectedPost && recentChecks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Laatste controles</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {recentChecks.map(check => (
+                <div key={check.id} className="flex items-center justify-between text-sm border-b border-slate-100 last:border-0 pb-2" data-testid={`row-shift-check-${check.id}`}>
+                  <div>
+                    <div className="font-medium text-slate-900">{formatDateTime(check.completedAt)}</div>
+                    <div className="text-slate-500">{check.checkedByName} · {check.locationCount} item(s)</div>
+                  </div>
+                  <Badge className={check.deviationCount > 0 ? "bg-orange-500 text-white" : "bg-green-500 text-white"}>
+                    {check.deviationCount} afwijking(en)
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Check, Loader2, PackagePlus, Printer, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getStocktakeLineResult, type Cabinet, type MedicalItem, type StocktakeLineResult, type StocktakeView, type UpdateStocktakeLine } from "@shared/schema";
+
+type StocktakeViewLine = StocktakeView["lines"][number];
+
+const statusLabels: Record<string, string> = {
+  "op-voorraad": "Op voorraad",
+  "bijna-op": "Bijna op",
+  "niet-meer-aanwezig": "Op",
+};
+
+const resultLabels: Record<StocktakeLineResult, { label: string; badge: string }> = {
+  "niet-geteld": { label: "Niet geteld", badge: "bg-slate-300 text-slate-800" },
+  "klopt": { label: "Klopt", badge: "bg-green-500 text-white" },
+  "afwijking": { label: "Afwijking", badge: "bg-orange-500 text-white" },
+  "ontbreekt": { label: "Ontbreekt", badge: "bg-red-500 text-white" },
+  "niet-geregistreerd": { label: "Niet geregistreerd", badge: "bg-purple-500 text-white" },
+};
+
+const formatDateTime = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString('nl-NL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : "-";
+
+const formatExpected = (line: StocktakeViewLine) =>
+  !line.isRegistered ? "-" : line.expectedQuantity != null ? `${line.expectedQuantity} stuks` : statusLabels[line.expectedStatus ?? ""] ?? line.expectedStatus;
+
+const formatFound = (line: StocktakeViewLine) =>
+  line.isMissing ? "Niet aanwezig"
+    : !line.countedAt ? "-"
+    : line.foundQuantity != null ? `${line.foundQuantity} stuks` : statusLabels[line.foundStatus ?? ""] ?? line.foundStatus;
+
+export default function StocktakePage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [find, setFind] = useState({ itemId: "", itemName: "", cabinet: "", drawer: "", foundQuantity: "" });
+
+  const { data: stocktake, isLoading } = useQuery<StocktakeView>({
+    queryKey: ['/api/stocktakes', id],
+  });
+
+  const { data: medicalItems = [] } = useQuery<MedicalItem[]>({
+    queryKey: ['/api/medical-items'],
+    enabled: stocktake?.status === "open",
+  });
+
+  const { data: cabinets = [] } = useQuery<Cabinet[]>({
+    queryKey: ['/api/cabinets'],
+    enabled: stocktake?.status === "open",
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/stocktakes'] });
+
+  const lineMutation = useMutation({
+    mutationFn: async ({ lineId, changes }: { lineId: string; changes: UpdateStocktakeLine }) => {
+      const response = await apiRequest("PATCH", `/api/stocktakes/${id}/lines/${lineId}`, changes);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: onError("Fout bij opslaan van de telling"),
+  });
+
+  const findMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/lines`, {
+        itemId: find.itemId || null,
+        itemName: find.itemName || undefined,
+        cabinet: find.cabinet,
+        drawer: find.drawer || null,
+        foundQuantity: find.foundQuantity === "" ? null : parseInt(find.foundQuantity),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setFind({ itemId: "", itemName: "", cabinet: find.cabinet, drawer: find.drawer, foundQuantity: "" });
+      invalidate();
+    },
+    onError: onError("Fout bij toevoegen van de vondst"),
+  });
+
+  const deleteFindMutation = useMutation({
+    mutationFn: async (lineId: string) => {
+      await apiRequest("DELETE", `/api/stocktakes/${id}/lines/${lineId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Fout bij verwijderen van de vondst"),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (action: "close" | "cancel") => {
+      const response = await apiRequest("POST", `/api/stocktakes/${id}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: (data: { message?: string }) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/item-locations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/medical-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      toast({ title: "Telling bijgewerkt", description: data.message ?? "De telling is geannuleerd" });
+    },
+    onError: onError("Fout bij afsluiten van de telling"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-slate-500" />
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="min-h-screen bg-medical-light flex items-center justify-center">
+        <p className="text-slate-600">Telling niet gevonden.</p>
+      </div>
+    );
+  }
+
+  const isOpen = stocktake.status === "open";
+  const registeredLines = stocktake.lines.filter(line => line.isRegistered);
+  const countedLines = registeredLines.filter(line => getStocktakeLineResult(line) !== "niet-geteld");
+  const resultCounts = stocktake.lines.reduce<Record<string, number>>((counts, line) => {
+    const result = getStocktakeLineResult(line);
+    counts[result] = (counts[result] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const saveQuantity = (line: StocktakeViewLine) => {
+    const value = quantities[line.id];
+    if (value === undefined || value === "" || parseInt(value) === line.foundQuantity) return;
+    lineMutation.mutate({ lineId: line.id, changes: { foundQuantity: parseInt(value), isMissing: false } });
+  };
+
+  const confirmExpected = (line: StocktakeViewLine) => {
+    setQuantities(current => ({ ...current, [line.id]: String(line.expectedQuantity ?? "") }));
+    lineMutation.mutate({
+      lineId: line.id,
+      changes: line.expectedQuantity != null
+        ? { foundQuantity: line.expectedQuantity, isMissing: false }
+        : { foundStatus: line.expectedStatus as UpdateStocktakeLine["foundStatus"], isMissing: false },
+    });
+  };
+
+  const handleClose = () => {
+    const corrections = stocktake.lines.filter(line => line.applyCorrection && ["afwijking", "ontbreekt", "niet-geregistreerd"].includes(getStocktakeLineResult(line))).length;
+    if (confirm(`Telling afsluiten? ${corrections} correctie(s) worden in één keer doorgevoerd op de locaties van ${stocktake.ambulancePostName}.`)) {
+      closeMutation.mutate("close");
+    }
+  };
+
+  const handleCancel = () => {
+    if (confirm("Telling annuleren? Er wordt niets aangepast.")) {
+      closeMutation.mutate("cancel");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200 print:hidden">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/inventarisatie" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Tellingen
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">
+                {isOpen ? "Telling" : "Verschillenrapport"} {stocktake.ambulancePostName}
+              </h1>
+              <p className="text-sm text-slate-500">
+                Gestart {formatDateTime(stocktake.openedAt)} door {stocktake.openedByName}
+                {stocktake.closedAt && ` · ${stocktake.status === "closed" ? "afgesloten" : "geannuleerd"} ${formatDateTime(stocktake.closedAt)} door ${stocktake.closedByName}`}
+              </p>
+            </div>
+            {isOpen ? (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCancel} disabled={closeMutation.isPending} data-testid="button-cancel-stocktake">
+                  Annuleren
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleClose}
+                  disabled={closeMutation.isPending || countedLines.length < registeredLines.length}
+                  data-testid="button-close-stocktake"
+                >
+                  {closeMutation.isPending ? "Afsluiten..." : "Telling afsluiten"}
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => window.print()} data-testid="button-print-stocktake">
+                <Printer className="w-4 h-4 mr-2" />
+                Afdrukken
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="hidden print:block">
+          <h1 className="text-xl font-semibold">Verschillenrapport {stocktake.ambulancePostName}</h1>
+          <p className="text-sm">Afgesloten {formatDateTime(stocktake.closedAt)} door {stocktake.closedByName}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isOpen && (
+            <Badge variant="outline" className="text-sm">
+              {countedLines.length} van {registeredLines.length} geteld
+            </Badge>
+          )}
+          {(Object.keys(resultLabels) as StocktakeLineResult[]).filter(result => resultCounts[result]).map(result => (
+            <Badge key={result} className={`text-sm ${resultLabels[result].badge}`}>
+              {resultLabels[result].label}: {resultCounts[result]}
+            </Badge>
+          ))}
+          {stocktake.correctionCount != null && (
+            <Badge variant="outline" className="text-sm">{stocktake.correctionCount} correctie(s) doorgevoerd</Badge>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Locatie</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Verwacht</TableHead>
+                  <TableHead>Gevonden</TableHead>
+                  <TableHead>Ontbreekt</TableHead>
+                  <TableHead>Corrigeren</TableHead>
+                  <TableHead>Resultaat</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktake.lines.map(line => {
+                  const result = getStocktakeLineResult(line);
+                  return (
+                    <TableRow key={line.id} data-testid={`row-stocktake-line-${line.id}`}>
+                      <TableCell className="text-sm">
+                        {line.cabinetName}{line.drawer ? ` · ${line.drawer}` : ""}
+                      </TableCell>
+                      <TableCell className="font-medium">{line.itemName}</TableCell>
+                      <TableCell className="text-sm">{formatExpected(line)}</TableCell>
+                      <TableCell>
+                        {!isOpen || !line.isRegistered ? (
+                          <span className="text-sm">{formatFound(line)}</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            {line.expectedQuantity != null ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                className="w-24 h-9"
+                                value={quantities[line.id] ?? line.foundQuantity ?? ""}
+                                onChange={(e) => setQuantities(current => ({ ...current, [line.id]: e.target.value }))}
+                                onBlur={() => saveQuantity(line)}
+                                onKeyDown={(e) => e.key === "Enter" && saveQuantity(line)}
+                                disabled={line.isMissing}
+                                data-testid={`input-found-quantity-${line.id}`}
+                              />
+                            ) : (
+                              <Select
+                                value={line.foundStatus ?? ""}
+                                onValueChange={(value) => lineMutation.mutate({ lineId: line.id, changes: { foundStatus: value as UpdateStocktakeLine["foundStatus"], isMissing: false } })}
+                                disabled={line.isMissing}
+                              >
+                                <SelectTrigger className="w-36 h-9" data-testid={`select-found-status-${line.id}`}>
+                                  <SelectValue placeholder="Status" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(statusLabels).map(([status, label]) => (
+                                    <SelectItem key={status} value={status}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            {!line.countedAt && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => confirmExpected(line)}
+                                title="Klopt met verwacht"
+                                data-testid={`button-confirm-line-${line.id}`}
+                              >
+                                <Check className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {line.isRegistered && (
+                          <Checkbox
+                            checked={line.isMissing}
+                            disabled={!isOpen}
+                            onCheckedChange={(checked) => lineMutation.mutate({ lineId: line.id, changes: { isMissing: checked === true } })}
+                            data-testid={`checkbox-missing-${line.id}`}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {(line.isRegistered || line.itemId) && (
+                          <Checkbox
+                            checked={line.applyCorrection}
+                            disabled={!isOpen || (line.isRegistered && !line.countedAt)}
+                            onCheckedChange={(checked) => lineMutation.mutate({ lineId: line.id, changes: { applyCorrection: checked === true } })}
+                            data-testid={`checkbox-apply-correction-${line.id}`}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge className={resultLabels[result].badge}>{resultLabels[result].label}</Badge>
+                          {isOpen && !line.isRegistered && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteFindMutation.mutate(line.id)}
+                              data-testid={`button-delete-find-${line.id}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {isOpen && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <PackagePlus className="w-5 h-5 text-medical-blue" />
+                Niet geregistreerd item gevonden
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                <Select value={find.itemId} onValueChange={(value) => setFind({ ...find, itemId: value, itemName: "" })}>
+                  <SelectTrigger data-testid="select-find-item">
+                    <SelectValue placeholder="Bekend item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {medicalItems.filter(item => !item.isDiscontinued).map(item => (
+                      <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="of omschrijving"
+                  value={find.itemName}
+                  onChange={(e) => setFind({ ...find, itemName: e.target.value, itemId: "" })}
+                  data-testid="input-find-name"
+                />
+                <Select value={find.cabinet} onValueChange={(value) => setFind({ ...find, cabinet: value })}>
+                  <SelectTrigger data-testid="select-find-cabinet">
+                    <SelectValue placeholder="Kast" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cabinets.map(cabinet => (
+                      <SelectItem key={cabinet.id} value={cabinet.id}>{cabinet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Lade"
+                  value={find.drawer}
+                  onChange={(e) => setFind({ ...find, drawer: e.target.value })}
+                  data-testid="input-find-drawer"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Aantal (optioneel)"
+                  value={find.foundQuantity}
+                  onChange={(e) => setFind({ ...find, foundQuantity: e.target.value })}
+                  data-testid="input-find-quantity"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-slate-500">
+                  Bekende items worden bij het afsluiten als nieuwe locatie geregistreerd, omschrijvingen komen alleen in het rapport.
+                </p>
+                <Button
+                  size="sm"
+                  onClick={() => findMutation.mutate()}
+                  disabled={(!find.itemId && !find.itemName.trim()) || !find.cabinet || findMutation.isPending}
+                  data-testid="button-add-find"
+                >
+                  Toevoegen
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, ClipboardPen, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { AmbulancePost, Stocktake } from "@shared/schema";
+
+const stocktakeStatusLabels: Record<string, { label: string; badge: string }> = {
+  "open": { label: "Lopend", badge: "bg-blue-500 text-white" },
+  "closed": { label: "Afgesloten", badge: "bg-green-500 text-white" },
+  "cancelled": { label: "Geannuleerd", badge: "bg-slate-400 text-white" },
+};
+
+const formatDateTime = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString('nl-NL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : "-";
+
+export default function Stocktakes() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { canManagePost } = useAuth();
+  const [selectedPost, setSelectedPost] = useState<string>("");
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const managedPosts = ambulancePosts.filter(post => post.isActive && canManagePost(post.id));
+
+  const { data: stocktakes = [], isLoading } = useQuery<Stocktake[]>({
+    queryKey: ['/api/stocktakes', selectedPost],
+    queryFn: async () => {
+      const response = await fetch(`/api/stocktakes?post=${selectedPost}`);
+      if (!response.ok) throw new Error("Failed to fetch stocktakes");
+      return response.json();
+    },
+    enabled: !!selectedPost,
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ambulance-posts/${selectedPost}/stocktakes`, {});
+      return response.json() as Promise<Stocktake>;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stocktakes'] });
+      setLocation(`/inventarisatie/${stocktake.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij starten van de telling",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOpenStocktake = stocktakes.some(stocktake => stocktake.status === "open");
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Inventarisatie</h1>
+              <p className="text-sm text-slate-500">Maandelijkse telling van alle locaties van een post</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardContent className="pt-6 flex flex-col md:flex-row gap-4 md:items-center">
+            <Select value={selectedPost} onValueChange={setSelectedPost}>
+              <SelectTrigger className="md:w-72" data-testid="select-stocktake-post">
+                <SelectValue placeholder="Kies een ambulancepost" />
+              </SelectTrigger>
+              <SelectContent>
+                {managedPosts.map(post => (
+                  <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => openMutation.mutate()}
+              disabled={!selectedPost || hasOpenStocktake || openMutation.isPending}
+              data-testid="button-open-stocktake"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {openMutation.isPending ? "Starten..." : "Nieuwe telling starten"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {selectedPost && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardPen className="w-5 h-5 text-medical-blue" />
+                Tellingen
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-slate-600">Laden...</p>
+              ) : stocktakes.length === 0 ? (
+                <p className="text-slate-600">Nog geen tellingen voor deze post.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Gestart</TableHead>
+                      <TableHead>Door</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Afgesloten</TableHead>
+                      <TableHead>Correcties</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stocktakes.map(stocktake => (
+                      <TableRow key={stocktake.id} data-testid={`row-stocktake-${stocktake.id}`}>
+                        <TableCell>{formatDateTime(stocktake.openedAt)}</TableCell>
+                        <TableCell>{stocktake.openedByName}</TableCell>
+                        <TableCell>
+                          <Badge className={stocktakeStatusLabels[stocktake.status]?.badge}>
+                            {stocktakeStatusLabels[stocktake.status]?.label ?? stocktake.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {formatDateTime(stocktake.closedAt)}
+                          {stocktake.closedByName && <span className="text-slate-500"> · {stocktake.closedByName}</span>}
+                        </TableCell>
+                        <TableCell>{stocktake.correctionCount ?? "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <Link href={`/inventarisatie/${stocktake.id}`}>
+                            <Button variant="outline" size="sm" data-testid={`button-view-stocktake-${stocktake.id}`}>
+                              {stocktake.status === "open" ? "Verder tellen" : "Rapport"}
+                            </Button>
+                          </Link>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
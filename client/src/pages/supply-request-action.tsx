@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface ActionPreview {
+  action: "ontvangen" | "aangevuld" | "niet-leverbaar";
+  itemName: string | null;
+  ambulancePostName: string | null;
+  isOpen: boolean;
+}
+
+interface ActionResult {
+  message: string;
+  itemName?: string;
+  ambulancePostName?: string | null;
+}
+
+const actionLabels: Record<ActionPreview["action"], { question: string; button: string }> = {
+  "ontvangen": { question: "Wil je bevestigen dat je dit aanvulverzoek hebt ontvangen?", button: "Ontvangst bevestigen" },
+  "aangevuld": { question: "Wil je melden dat dit item is aangevuld?", button: "Aangevuld melden" },
+  "niet-leverbaar": { question: "Wil je melden dat dit item niet leverbaar is?", button: "Niet leverbaar melden" },
+};
+
+const readJson = async (response: Response) =>
+  response.json().catch(() => ({ message: "Er is iets misgegaan. Probeer het later opnieuw." }));
+
+// Public page behind the links in the restock email - no login, the token in the url is the proof
+export default function SupplyRequestAction() {
+  const { token } = useParams<{ token: string }>();
+  const actionUrl = `/api/public/supply-request-actions/${encodeURIComponent(token)}`;
+  const [preview, setPreview] = useState<ActionPreview | null>(null);
+  const [result, setResult] = useState<ActionResult | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Opening the link only shows the request, so mail scanners and link previews change nothing
+  useEffect(() => {
+    fetch(actionUrl)
+      .then(async response => {
+        const data = await readJson(response);
+        if (response.ok) {
+          setPreview(data);
+        } else {
+          setFailed(true);
+          setResult(data);
+        }
+      })
+      .catch(() => {
+        setFailed(true);
+        setResult({ message: "Er is iets misgegaan. Controleer je verbinding en probeer het opnieuw." });
+      });
+  }, [actionUrl]);
+
+  const confirmAction = () => {
+    setIsSubmitting(true);
+    fetch(actionUrl, { method: "POST" })
+      .then(async response => {
+        const data = await readJson(response);
+        setFailed(!response.ok);
+        setResult(data);
+      })
+      .catch(() => {
+        setFailed(true);
+        setResult({ message: "Er is iets misgegaan. Controleer je verbinding en probeer het opnieuw." });
+      })
+      .finally(() => setIsSubmitting(false));
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-medical-light">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          {result ? (
+            <>
+              <div className="flex items-center mb-4 gap-2">
+                {failed ? (
+                  <AlertCircle className="h-8 w-8 text-red-500" />
+                ) : (
+                  <CheckCircle className="h-8 w-8 text-green-500" />
+                )}
+                <h1 className="text-xl font-semibold text-slate-900">
+                  {failed ? "Niet gelukt" : "Aanvulverzoek bijgewerkt"}
+                </h1>
+              </div>
+              <p className="text-sm text-slate-700" data-testid="text-supply-request-action-result">{result.message}</p>
+              {result.ambulancePostName && (
+                <p className="mt-2 text-sm text-slate-500">Post: {result.ambulancePostName}</p>
+              )}
+              <p className="mt-6 text-xs text-slate-400">Je kunt dit venster nu sluiten.</p>
+            </>
+          ) : preview ? (
+            <>
+              <h1 className="text-xl font-semibold text-slate-900 mb-2">Aanvulverzoek</h1>
+              <p className="text-sm text-slate-700">Item: <span className="font-medium">{preview.itemName ?? "Onbekend item"}</span></p>
+              {preview.ambulancePostName && (
+                <p className="text-sm text-slate-500">Post: {preview.ambulancePostName}</p>
+              )}
+              {preview.isOpen ? (
+                <>
+                  <p className="mt-4 text-sm text-slate-700">{actionLabels[preview.action].question}</p>
+                  <Button
+                    className="mt-4 w-full"
+                    onClick={confirmAction}
+                    disabled={isSubmitting}
+                    data-testid="button-confirm-supply-request-action"
+                  >
+                    {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {actionLabels[preview.action].button}
+                  </Button>
+                </>
+              ) : (
+                <p className="mt-4 text-sm text-slate-700" data-testid="text-supply-request-action-closed">
+                  Dit aanvulverzoek is al afgehandeld. Je kunt dit venster sluiten.
+                </p>
+              )}
+            </>
+          ) : (
+            <div className="flex items-center gap-3 text-slate-600">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Aanvulverzoek ophalen...</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardList, Check, PackageCheck, PackageOpen, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { supplyRequestTransitions, type AmbulancePost, type OpenSupplyRequest, type PostContact, type SupplyRequestStatus } from "@shared/schema";
+
+const ALL = "alle";
+
+const statusInfo: Record<SupplyRequestStatus, { label: string; badge: string }> = {
+  "sent": { label: "Verstuurd", badge: "bg-blue-500 text-white" },
+  "acknowledged": { label: "Bevestigd", badge: "bg-indigo-500 text-white" },
+  "partially-delivered": { label: "Deels geleverd", badge: "bg-amber-500 text-white" },
+  "delivered": { label: "Geleverd", badge: "bg-green-500 text-white" },
+  "cancelled": { label: "Geannuleerd", badge: "bg-slate-400 text-white" },
+};
+
+// Button per target status, with the endpoint that performs the transition
+const transitionActions: { status: SupplyRequestStatus; action: string; label: string; icon: typeof Check; askNote?: string }[] = [
+  { status: "acknowledged", action: "acknowledge", label: "Bevestigen", icon: Check },
+  { status: "partially-delivered", action: "partial-delivery", label: "Deels geleverd", icon: PackageOpen, askNote: "Wat is er (nog niet) geleverd? (optioneel)" },
+  { status: "delivered", action: "deliver", label: "Geleverd", icon: PackageCheck },
+  { status: "cancelled", action: "cancel", label: "Annuleren", icon: X, askNote: "Reden van annuleren (optioneel)" },
+];
+
+const formatDateTime = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString('nl-NL', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : "-";
+
+// Most recent step after sending, e.g. "Bevestigd door jan"
+const getLastStep = (request: OpenSupplyRequest) => {
+  if (request.partiallyDeliveredAt) {
+    return `Deels geleverd door ${request.partiallyDeliveredBy} op ${formatDateTime(request.partiallyDeliveredAt)}`;
+  }
+  if (request.acknowledgedAt) {
+    return `Bevestigd door ${request.acknowledgedBy} op ${formatDateTime(request.acknowledgedAt)}`;
+  }
+  return null;
+};
+
+export default function SupplyRequestsOverview() {
+  const { toast } = useToast();
+  const { canManagePost } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedPost, setSelectedPost] = useState(ALL);
+  const [selectedContact, setSelectedContact] = useState(ALL);
+
+  const { data: requests = [], isLoading } = useQuery<OpenSupplyRequest[]>({
+    // Under the '/api/supply-requests' prefix so every supply request change refreshes the list
+    queryKey: ['/api/supply-requests', 'open', selectedPost, selectedContact],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (selectedPost !== ALL) params.append("ambulancePost", selectedPost);
+      if (selectedContact !== ALL) params.append("contactPerson", selectedContact);
+      const response = await fetch(`/api/supply-requests/open?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch open supply requests");
+      return response.json();
+    },
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ['/api/ambulance-posts'],
+  });
+
+  const { data: postContacts = [] } = useQuery<PostContact[]>({
+    queryKey: ['/api/post-contacts'],
+  });
+
+  const contactsForPost = selectedPost === ALL
+    ? postContacts
+    : postContacts.filter(contact => contact.ambulancePostId === selectedPost);
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ requestId, action, note }: { requestId: string; action: string; note?: string }) => {
+      const response = await apiRequest("POST", `/api/supply-requests/${requestId}/${action}`, note ? { note } : {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supply-requests'] });
+      toast({
+        title: "Aanvulverzoek bijgewerkt",
+        description: "De status van het aanvulverzoek is aangepast",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout bij bijwerken",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTransition = (request: OpenSupplyRequest, action: (typeof transitionActions)[number]) => {
+    let note: string | undefined;
+    if (action.askNote) {
+      const answer = prompt(action.askNote);
+      if (answer === null) return;
+      note = answer.trim() || undefined;
+    }
+    transitionMutation.mutate({ requestId: request.id, action: action.action, note });
+  };
+
+  const handlePostChange = (postId: string) => {
+    setSelectedPost(postId);
+    setSelectedContact(ALL);
+  };
+
+  return (
+    <div className="min-h-screen bg-medical-light">
+      {/* Header met navigatie terug */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <Link href="/" className="mr-4">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Terug naar Inventaris
+              </Button>
+            </Link>
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold text-slate-900">Openstaande Aanvulverzoeken</h1>
+              <p className="text-sm text-slate-500">Verzoeken die nog niet volledig geleverd of geannuleerd zijn</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardList className="w-5 h-5 text-medical-blue" />
+                Aanvulverzoeken ({requests.length})
+              </CardTitle>
+              <div className="flex gap-2">
+                <Select value={selectedPost} onValueChange={handlePostChange}>
+                  <SelectTrigger className="w-44" data-testid="select-requests-post">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle posten</SelectItem>
+                    {ambulancePosts.map(post => (
+                      <SelectItem key={post.id} value={post.id}>{post.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={selectedContact} onValueChange={setSelectedContact}>
+                  <SelectTrigger className="w-44" data-testid="select-requests-contact">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Alle contactpersonen</SelectItem>
+                    {contactsForPost.map(contact => (
+                      <SelectItem key={contact.id} value={contact.id}>{contact.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-slate-600">Laden...</p>
+            ) : requests.length === 0 ? (
+              <div className="text-center py-8">
+                <PackageCheck className="w-12 h-12 text-green-500 mx-auto mb-4" />
+                <p className="text-slate-600">Er staan geen aanvulverzoeken open.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Locatie</TableHead>
+                    <TableHead>Contactpersoon</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Verstuurd</TableHead>
+                    <TableHead>Acties</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map(request => {
+                    const status = request.status as SupplyRequestStatus;
+                    const allowed = supplyRequestTransitions[status] ?? [];
+                    const lastStep = getLastStep(request);
+
+                    return (
+                      <TableRow key={request.id} data-testid={`row-supply-request-${request.id}`}>
+                        <TableCell className="font-medium">{request.itemName}</TableCell>
+                        <TableCell className="text-sm">
+                          <div>{request.ambulancePostName}</div>
+                          <div className="text-slate-500">
+                            {request.cabinetName}{request.drawer ? ` · ${request.drawer}` : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{request.contactPersonName ?? "-"}</div>
+                          {request.contactPersonEmail && (
+                            <div className="text-slate-500">{request.contactPersonEmail}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={statusInfo[status]?.badge}>{statusInfo[status]?.label ?? request.status}</Badge>
+                          {lastStep && <div className="text-xs text-slate-500 mt-1">{lastStep}</div>}
+                          {request.statusNote && <div className="text-xs text-slate-500 italic">{request.statusNote}</div>}
+                        </TableCell>
+                        <TableCell className="text-sm text-slate-600">{formatDateTime(request.sentAt)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {transitionActions
+                              .filter(action => canManagePost(request.ambulancePostId) && allowed.includes(action.status))
+                              .map(action => {
+                                const Icon = action.icon;
+                                return (
+                                  <Button
+                                    key={action.action}
+                                    variant={action.status === "cancelled" ? "ghost" : "outline"}
+                                    size="sm"
+                                    onClick={() => handleTransition(request, action)}
+                                    disabled={transitionMutation.isPending}
+                                    className={`text-xs h-7 px-2 ${action.status === "cancelled" ? "text-red-600 hover:text-red-700 hover:bg-red-50" : ""}`}
+                                    data-testid={`button-${action.action}-${request.id}`}
+                                  >
+                                    <Icon className="w-3 h-3 mr-1" />
+                                    {action.label}
+                                  </Button>
+                                );
+                              })}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
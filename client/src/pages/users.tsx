@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Plus, Pencil, Trash2, UserCog } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { userRoles, type AmbulancePost, type PublicUser, type UserRole } from "@shared/schema";
+
+const roleLabels: Record<UserRole, string> = {
+  "viewer": "Ambulancepersoneel",
+  "post-coordinator": "Postcoördinator",
+  "administrator": "Beheerder",
+};
+
+const userFormSchema = z.object({
+  username: z.string().min(1, "Gebruikersnaam is verplicht"),
+  password: z.string(),
+  role: z.enum(userRoles),
+  ambulancePostIds: z.array(z.string()),
+});
+
+type UserForm = z.infer<typeof userFormSchema>;
+
+const emptyForm: UserForm = {
+  username: "",
+  password: "",
+  role: "viewer",
+  ambulancePostIds: [],
+};
+
+export default function Users() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: ambulancePosts = [] } = useQuery<AmbulancePost[]>({
+    queryKey: ["/api/ambulance-posts"],
+  });
+
+  const form = useForm<UserForm>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: UserForm) => {
+      if (editingUser) {
+        const response = await apiRequest("PATCH", `/api/users/${editingUser.id}`, data);
+        return response.json();
+      }
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsDialogOpen(false);
+      setEditingUser(null);
+      form.reset(emptyForm);
+      toast({
+        title: "Succes",
+        description: editingUser ? "Gebruiker bijgewerkt" : "Gebruiker aangemaakt",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Succes",
+        description: "Gebruiker verwijderd",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingUser(null);
+    form.reset(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (user: PublicUser) => {
+    setEditingUser(user);
+    form.reset({
+      username: user.username,
+      password: "",
+      role: user.role as UserRole,
+      ambulancePostIds: user.ambulancePostIds,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (user: PublicUser) => {
+    if (confirm(`Weet je zeker dat je gebruiker "${user.username}" wilt verwijderen?`)) {
+      deleteUserMutation.mutate(user.id);
+    }
+  };
+
+  const handleSubmit = (data: UserForm) => {
+    if (!editingUser && !data.password) {
+      form.setError("password", { message: "Wachtwoord is verplicht voor een nieuwe gebruiker" });
+      return;
+    }
+    saveUserMutation.mutate(data);
+  };
+
+  const getPostName = (postId: string) =>
+    ambulancePosts.find(post => post.id === postId)?.name || postId;
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex items-center gap-4 mb-6">
+        <Button variant="outline" size="icon" asChild data-testid="button-back">
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold text-gray-900">Gebruikers Beheer</h1>
+        <div className="ml-auto">
+          <Button onClick={openCreateDialog} data-testid="button-add-user">
+            <Plus className="h-4 w-4 mr-2" />
+            Nieuwe Gebruiker
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="text-center py-8">Laden...</div>
+          ) : users.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16">
+              <UserCog className="h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">Er zijn nog geen gebruikers.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Gebruikersnaam</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead>Posten</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === "administrator" ? "default" : "outline"}>
+                        {roleLabels[user.role as UserRole] || user.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {user.role === "administrator"
+                        ? "Alle posten"
+                        : user.ambulancePostIds.map(getPostName).join(", ") || "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(user)}
+                          data-testid={`button-edit-user-${user.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {user.id !== currentUser?.id && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(user)}
+                            disabled={deleteUserMutation.isPending}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            data-testid={`button-delete-user-${user.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? "Gebruiker Bewerken" : "Nieuwe Gebruiker"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gebruikersnaam</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-user-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Wachtwoord</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={editingUser ? "Leeg laten om niet te wijzigen" : ""}
+                        {...field}
+                        data-testid="input-user-password"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rol</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-user-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {userRoles.map(role => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.watch("role") !== "administrator" && (
+                <FormField
+                  control={form.control}
+                  name="ambulancePostIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Gekoppelde posten</FormLabel>
+                      <div className="space-y-2">
+                        {ambulancePosts.map(post => (
+                          <label key={post.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(post.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, post.id]
+                                    : field.value.filter(id => id !== post.id)
+                                )
+                              }
+                              data-testid={`checkbox-user-post-${post.id}`}
+                            />
+                            {post.name}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex gap-2 pt-4">
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={saveUserMutation.isPending}
+                  data-testid="button-submit-user"
+                >
+                  {editingUser ? "Bijwerken" : "Aanmaken"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Annuleren
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
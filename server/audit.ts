@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+
+export interface AuditActor {
+  actorId: string | null;
+  actorName: string;
+}
+
+const SYSTEM_ACTOR: AuditActor = { actorId: null, actorName: "systeem" };
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+// Makes the logged in user available to DatabaseStorage for the rest of the request
+export function auditContext(req: Request, _res: Response, next: NextFunction) {
+  const actor = req.user
+    ? { actorId: req.user.id, actorName: req.user.username }
+    : SYSTEM_ACTOR;
+  actorContext.run(actor, next);
+}
+
+// Run work outside a request (scheduled jobs, public links) under a named actor
+export function runAsActor<T>(actor: AuditActor, fn: () => Promise<T>): Promise<T> {
+  return actorContext.run(actor, fn);
+}
+
+export function getCurrentActor(): AuditActor {
+  return actorContext.getStore() ?? SYSTEM_ACTOR;
+}
+
+type AuditRecord = Record<string, unknown>;
+
+// Fields that change on every write and only add noise to the diff
+const IGNORED_FIELDS = ["updatedAt"];
+
+// Keep only the fields that actually changed between two versions of a record
+export function diffRecords(before: AuditRecord, after: AuditRecord) {
+  const changedBefore: AuditRecord = {};
+  const changedAfter: AuditRecord = {};
+
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
@@ -0,0 +1,67 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import type { CabinetLocation, User } from "@shared/schema";
+import { storage } from "./storage";
+import { requireCabinetAccess } from "./auth";
+
+const user = (role: string): User => ({
+  id: `${role}-1`,
+  username: role,
+  password: "",
+  role,
+  createdAt: new Date(),
+});
+
+// Cabinet "shared" stands at post-a and post-b, "own" only at post-a, "unplaced" nowhere
+const cabinetPosts: Record<string, string[]> = {
+  shared: ["post-a", "post-b"],
+  own: ["post-a"],
+  unplaced: [],
+};
+
+// Runs the guard and reports the status it answered with, or "next" when it let the request through
+async function runGuard(currentUser: User, cabinetId: string): Promise<number | "next"> {
+  let status: number | "next" | undefined;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  const req = { user: currentUser, params: { id: cabinetId } } as unknown as Request;
+  await requireCabinetAccess(req => req.params.id)(req, res, () => { status = "next"; });
+  return status!;
+}
+
+describe("requireCabinetAccess", () => {
+  before(() => {
+    mock.method(storage, "getUserPostIds", async () => ["post-a"]);
+    mock.method(storage, "getCabinetLocationsByCabinet", async (cabinetId: string) =>
+      cabinetPosts[cabinetId].map(ambulancePostId => ({ cabinetId, ambulancePostId } as CabinetLocation)));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it("lets a coordinator change a cabinet that only stands at their own posts", async () => {
+    assert.equal(await runGuard(user("post-coordinator"), "own"), "next");
+  });
+
+  it("refuses a coordinator a cabinet that also stands at another post", async () => {
+    assert.equal(await runGuard(user("post-coordinator"), "shared"), 403);
+  });
+
+  it("leaves unplaced cabinets to administrators", async () => {
+    assert.equal(await runGuard(user("post-coordinator"), "unplaced"), 403);
+    assert.equal(await runGuard(user("administrator"), "unplaced"), "next");
+  });
+
+  it("lets administrators change shared cabinets", async () => {
+    assert.equal(await runGuard(user("administrator"), "shared"), "next");
+  });
+});
@@ -0,0 +1,237 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { hasRole, type User as SelectUser, type PublicUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Routes under /api that can be reached without an active session
+const PUBLIC_API_PATHS = ["/login", "/logout", "/user"];
+// Routes that check their own signed token instead of a session
+const PUBLIC_API_PREFIXES = ["/public/"];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export async function toPublicUser(user: SelectUser): Promise<PublicUser> {
+  const { password, ...publicUser } = user;
+  const ambulancePostIds = await storage.getUserPostIds(user.id);
+  return { ...publicUser, ambulancePostIds };
+}
+
+// Guard for every /api route - returns 401 when no user is logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_API_PATHS.includes(req.path) || PUBLIC_API_PREFIXES.some(prefix => req.path.startsWith(prefix)) || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Niet ingelogd" });
+}
+
+// Guard for routes that need at least the given role
+export function requireRole(minimum: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, minimum)) {
+      return res.status(403).json({ message: "Onvoldoende rechten voor deze actie" });
+    }
+    next();
+  };
+}
+
+type PostResolver = (req: Request) => Promise<string | null | undefined> | string | null | undefined;
+
+// Guard for post-bound routes: administrators may manage every post,
+// post coordinators only the posts they are assigned to
+export function requirePostAccess(resolvePostId: PostResolver) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (hasRole(req.user, "administrator")) {
+        return next();
+      }
+      if (!req.user || !hasRole(req.user, "post-coordinator")) {
+        return res.status(403).json({ message: "Onvoldoende rechten voor deze actie" });
+      }
+
+      const ambulancePostId = await resolvePostId(req);
+      if (!ambulancePostId) {
+        // Let the route itself answer with 404/400 for unknown records
+        return next();
+      }
+
+      const assignedPostIds = await storage.getUserPostIds(req.user.id);
+      if (!assignedPostIds.includes(ambulancePostId)) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan deze ambulancepost" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Posts the user may change - null for administrators, who may change every post
+export async function getManagedPostIds(user: SelectUser | undefined): Promise<string[] | null> {
+  if (hasRole(user, "administrator")) return null;
+  if (!user || !hasRole(user, "post-coordinator")) return [];
+  return await storage.getUserPostIds(user.id);
+}
+
+// Cabinets are shared between posts - coordinators may only change a cabinet that is
+// placed at their own posts and nowhere else, unplaced cabinets are for administrators
+export async function canManageCabinet(user: SelectUser | undefined, cabinetId: string): Promise<boolean> {
+  const managedPostIds = await getManagedPostIds(user);
+  if (!managedPostIds) return true;
+  const cabinetLocations = await storage.getCabinetLocationsByCabinet(cabinetId);
+  return cabinetLocations.length > 0 && cabinetLocations.every(location => managedPostIds.includes(location.ambulancePostId));
+}
+
+type CabinetResolver = (req: Request) => Promise<string | null | undefined> | string | null | undefined;
+
+// Guard for cabinet-bound routes, see canManageCabinet
+export function requireCabinetAccess(resolveCabinetId: CabinetResolver) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const cabinetId = await resolveCabinetId(req);
+      if (!cabinetId) {
+        // Let the route itself answer with 404/400 for unknown records
+        return next();
+      }
+      if (!(await canManageCabinet(req.user, cabinetId))) {
+        return res.status(403).json({ message: "Deze kast staat ook bij posten waaraan je niet gekoppeld bent" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Create the first account from ADMIN_USERNAME / ADMIN_PASSWORD, or make sure it is an administrator
+async function seedInitialUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  // Accounts from before roles existed came in as viewer - the seeded account stays administrator
+  const existingUser = await storage.getUserByUsername(username);
+  if (existingUser) {
+    if (existingUser.role !== "administrator") {
+      await storage.updateUser(existingUser.id, { role: "administrator" });
+      console.log(`Gebruiker ${username} is beheerder gemaakt`);
+    }
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    role: "administrator",
+  });
+  console.log(`Initiële gebruiker ${username} aangemaakt`);
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to enable login sessions.");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 12 * 60 * 60 * 1000, // 12 hours - one shift
+    },
+  };
+
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Ongeldige gebruikersnaam of wachtwoord" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        toPublicUser(user).then((publicUser) => res.json(publicUser), next);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await toPublicUser(req.user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use("/api", requireAuth);
+
+  seedInitialUser().catch((error) => {
+    console.error("Error seeding initial user:", error);
+  });
+}
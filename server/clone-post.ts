@@ -0,0 +1,116 @@
+import type { ClonePostPlan, ClonePostRequest, ItemLocation, PostContact } from "@shared/schema";
+import { storage } from "./storage";
+
+const locationKey = (location: Pick<ItemLocation, "itemId" | "cabinet" | "drawer">) =>
+  `${location.itemId}|${location.cabinet}|${location.drawer ?? ""}`;
+
+// Counted locations start full - at the max, or just above the par level without one
+function getStartQuantity(location: ItemLocation): number | null {
+  if (location.currentQuantity == null || location.minQuantity == null) return location.currentQuantity;
+  return location.maxQuantity ?? location.minQuantity + 1;
+}
+
+// Explicit mapping first, otherwise the target contact with the same email address
+function mapContact(contactId: string | null, request: ClonePostRequest, sourceContacts: PostContact[], targetContacts: PostContact[]): string | null {
+  if (!contactId) return null;
+  if (contactId in request.contactMapping) return request.contactMapping[contactId];
+  const source = sourceContacts.find(contact => contact.id === contactId);
+  return targetContacts.find(contact => source && contact.email.toLowerCase() === source.email.toLowerCase())?.id ?? null;
+}
+
+// Plan the copy from the source post, and carry it out unless it is a dry run
+export async function clonePost(targetPostId: string, request: ClonePostRequest): Promise<ClonePostPlan> {
+  if (request.sourcePostId === targetPostId) {
+    throw new Error("Bron- en doelpost moeten verschillen");
+  }
+  const [sourcePost, targetPost] = await Promise.all([
+    storage.getAmbulancePost(request.sourcePostId),
+    storage.getAmbulancePost(targetPostId),
+  ]);
+  if (!sourcePost || !targetPost) {
+    throw new Error("Ambulancepost niet gevonden");
+  }
+
+  const [sourceCabinets, targetCabinets, sourceOrder, targetOrder, sourceLocations, targetLocations, sourceContacts, targetContacts, items, cabinets] = await Promise.all([
+    storage.getCabinetLocationsByPost(sourcePost.id),
+    storage.getCabinetLocationsByPost(targetPost.id),
+    storage.getPostCabinetOrder(sourcePost.id),
+    storage.getPostCabinetOrder(targetPost.id),
+    storage.getItemLocationsByPost(sourcePost.id),
+    storage.getItemLocationsByPost(targetPost.id),
+    storage.getPostContactsByPost(sourcePost.id),
+    storage.getPostContactsByPost(targetPost.id),
+    storage.getMedicalItems(),
+    storage.getCabinets(),
+  ]);
+
+  for (const targetContactId of Object.values(request.contactMapping)) {
+    if (targetContactId && !targetContacts.some(contact => contact.id === targetContactId)) {
+      throw new Error("Een gekozen contactpersoon hoort niet bij de doelpost");
+    }
+  }
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const cabinetName = (cabinetId: string) => cabinets.find(cabinet => cabinet.id === cabinetId)?.name ?? `Kast ${cabinetId}`;
+  const contactName = (contactId: string | null) =>
+    [...sourceContacts, ...targetContacts].find(contact => contact.id === contactId)?.name ?? null;
+  const existingLocations = new Set(targetLocations.map(locationKey));
+
+  // Discontinued items are not carried over to a new post
+  const locationsToCopy = sourceLocations.filter(location => {
+    const item = itemsById.get(location.itemId);
+    return item && !item.isDiscontinued;
+  });
+
+  const plan: ClonePostPlan = {
+    sourcePostId: sourcePost.id,
+    targetPostId: targetPost.id,
+    cabinetLocations: sourceCabinets.map(cabinetLocation => ({
+      cabinetId: cabinetLocation.cabinetId,
+      cabinetName: cabinetName(cabinetLocation.cabinetId),
+      specificLocation: cabinetLocation.specificLocation,
+      exists: targetCabinets.some(existing => existing.cabinetId === cabinetLocation.cabinetId),
+    })),
+    copiesCabinetOrder: sourceOrder.length > 0 && targetOrder.length === 0,
+    itemLocations: locationsToCopy.map(location => ({
+      sourceLocationId: location.id,
+      itemName: itemsById.get(location.itemId)!.name,
+      cabinetName: cabinetName(location.cabinet),
+      drawer: location.drawer,
+      contactPersonName: contactName(mapContact(location.contactPersonId, request, sourceContacts, targetContacts)),
+      currentQuantity: getStartQuantity(location),
+      exists: existingLocations.has(locationKey(location)),
+    })),
+    createdCount: 0,
+  };
+
+  if (request.dryRun) return plan;
+
+  plan.createdCount = await storage.copyPostSetup(targetPost.id, {
+    cabinetLocations: sourceCabinets
+      .filter(cabinetLocation => !targetCabinets.some(existing => existing.cabinetId === cabinetLocation.cabinetId))
+      .map(cabinetLocation => ({
+        cabinetId: cabinetLocation.cabinetId,
+        ambulancePostId: targetPost.id,
+        specificLocation: cabinetLocation.specificLocation,
+      })),
+    cabinetOrder: plan.copiesCabinetOrder ? sourceOrder.map(order => order.cabinetId) : undefined,
+    itemLocations: locationsToCopy
+      .filter(location => !existingLocations.has(locationKey(location)))
+      .map(location => ({
+        itemId: location.itemId,
+        ambulancePostId: targetPost.id,
+        cabinet: location.cabinet,
+        drawer: location.drawer,
+        drawerId: location.drawerId,
+        contactPersonId: mapContact(location.contactPersonId, request, sourceContacts, targetContacts),
+        stockStatus: "op-voorraad",
+        isLowStock: false,
+        currentQuantity: getStartQuantity(location),
+        minQuantity: location.minQuantity,
+        maxQuantity: location.maxQuantity,
+      })),
+  });
+
+  return plan;
+}
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Drawer } from "@shared/schema";
+import { matchDrawer } from "./drawer-migration";
+
+const drawer = (id: string, drawerNumber: number, name: string, position = "midden"): Drawer =>
+  ({ id, cabinetId: "A", name, position, drawerNumber, description: null });
+
+const cabinetDrawers = [
+  drawer("d1", 1, "Lade 1", "boven"),
+  drawer("d2", 2, "Lade 2"),
+  drawer("d3", 3, "Verband"),
+  drawer("d4l", 4, "Lade 4 links", "links"),
+  drawer("d4r", 4, "Lade 4 rechts", "rechts"),
+];
+
+describe("matchDrawer", () => {
+  it("matches on the drawer name, ignoring case and spacing", () => {
+    assert.equal(matchDrawer("  verband ", cabinetDrawers)?.id, "d3");
+  });
+
+  it("matches on a number in the text", () => {
+    assert.equal(matchDrawer("la 2", cabinetDrawers)?.id, "d2");
+    assert.equal(matchDrawer("3de la van boven", cabinetDrawers)?.id, "d3");
+  });
+
+  it("matches on a written out ordinal", () => {
+    assert.equal(matchDrawer("eerste lade", cabinetDrawers)?.id, "d1");
+  });
+
+  it("uses the position to choose between drawers that share a number", () => {
+    assert.equal(matchDrawer("4 rechts", cabinetDrawers)?.id, "d4r");
+    assert.equal(matchDrawer("la 4", cabinetDrawers), null);
+  });
+
+  it("matches on position alone when only one drawer has it", () => {
+    assert.equal(matchDrawer("bovenin", cabinetDrawers)?.id, "d1");
+  });
+
+  it("leaves text that fits no drawer or several drawers unmatched", () => {
+    assert.equal(matchDrawer("la 9", cabinetDrawers), null);
+    assert.equal(matchDrawer("achterin", cabinetDrawers), null);
+    assert.equal(matchDrawer("la 1", []), null);
+  });
+});
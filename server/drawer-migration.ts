@@ -0,0 +1,99 @@
+import type { Drawer, DrawerMigrationGroup, DrawerMigrationStatus, DrawerResolution, ItemLocation } from "@shared/schema";
+import { storage } from "./storage";
+
+const ordinals = ["eerste", "tweede", "derde", "vierde", "vijfde", "zesde", "zevende", "achtste", "negende", "tiende"];
+
+const normalizeDrawerText = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Drawer number in free text: "3", "la 3", "3de la van boven", "derde lade"
+function parseDrawerNumber(text: string): number | null {
+  const digits = text.match(/\d+/);
+  if (digits) return parseInt(digits[0]);
+  const index = ordinals.findIndex(word => text.includes(word));
+  return index >= 0 ? index + 1 : null;
+}
+
+// The drawer a free-text label refers to - only when exactly one drawer of the cabinet fits
+export function matchDrawer(drawerText: string, cabinetDrawers: Drawer[]): Drawer | null {
+  const text = normalizeDrawerText(drawerText);
+  const byName = cabinetDrawers.filter(drawer => normalizeDrawerText(drawer.name) === text);
+  if (byName.length === 1) return byName[0];
+
+  const number = parseDrawerNumber(text);
+  let candidates = number != null
+    ? cabinetDrawers.filter(drawer => drawer.drawerNumber === number)
+    : cabinetDrawers;
+  // "boven", "links" etc. in the text narrow down drawers that share a number
+  const byPosition = candidates.filter(drawer => text.includes(drawer.position));
+  if (byPosition.length > 0 && (number == null || candidates.length > 1)) candidates = byPosition;
+  if (number == null && byPosition.length === 0) return null;
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+// Locations with a free-text drawer and no structured drawer yet
+const isUnlinked = (location: ItemLocation) => !location.drawerId && !!location.drawer?.trim();
+
+export async function getDrawerMigrationStatus(): Promise<DrawerMigrationStatus> {
+  const [locations, drawers, cabinets, items] = await Promise.all([
+    storage.getItemLocations(),
+    storage.getDrawers(),
+    storage.getCabinets(),
+    storage.getMedicalItems(),
+  ]);
+  const itemNames = new Map(items.map(item => [item.id, item.name]));
+
+  // One group per cabinet and drawer text, so a label used at several posts is resolved once
+  const groups = new Map<string, DrawerMigrationGroup>();
+  for (const location of locations.filter(isUnlinked)) {
+    const key = `${location.cabinet}|${normalizeDrawerText(location.drawer!)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        cabinet: location.cabinet,
+        cabinetName: cabinets.find(cabinet => cabinet.id === location.cabinet)?.name ?? `Kast ${location.cabinet}`,
+        drawerText: location.drawer!.trim(),
+        locationCount: 0,
+        itemNames: [],
+        suggestedDrawerId: matchDrawer(location.drawer!, drawers.filter(drawer => drawer.cabinetId === location.cabinet))?.id ?? null,
+      };
+      groups.set(key, group);
+    }
+    group.locationCount++;
+    const itemName = itemNames.get(location.itemId);
+    if (itemName && !group.itemNames.includes(itemName)) group.itemNames.push(itemName);
+  }
+
+  return {
+    linkedCount: locations.filter(location => location.drawerId).length,
+    groups: Array.from(groups.values()).sort((a, b) =>
+      a.cabinetName.localeCompare(b.cabinetName, "nl") || a.drawerText.localeCompare(b.drawerText, "nl", { numeric: true })
+    ),
+  };
+}
+
+// Link every unlinked location of the cabinet with this drawer text - the label becomes the drawer's name
+export async function resolveDrawerText(resolution: DrawerResolution): Promise<number> {
+  const drawer = await storage.getDrawer(resolution.drawerId);
+  if (!drawer || drawer.cabinetId !== resolution.cabinet) {
+    throw new Error("De gekozen lade hoort niet bij deze kast");
+  }
+  const text = normalizeDrawerText(resolution.drawerText);
+  const locations = (await storage.getItemLocations()).filter(location =>
+    isUnlinked(location) && location.cabinet === resolution.cabinet && normalizeDrawerText(location.drawer!) === text
+  );
+  for (const location of locations) {
+    await storage.updateItemLocation(location.id, { drawerId: drawer.id });
+  }
+  return locations.length;
+}
+
+// Apply every unambiguous match in one go, the rest stays for manual resolution
+export async function applyDrawerMatches(): Promise<number> {
+  const status = await getDrawerMigrationStatus();
+  let linked = 0;
+  for (const group of status.groups) {
+    if (!group.suggestedDrawerId) continue;
+    linked += await resolveDrawerText({ cabinet: group.cabinet, drawerText: group.drawerText, drawerId: group.suggestedDrawerId });
+  }
+  return linked;
+}
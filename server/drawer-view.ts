@@ -0,0 +1,92 @@
+import type { DrawerView, DrawerViewItem, ItemLocation, MedicalItem, SupplyRequest } from "@shared/schema";
+import { storage } from "./storage";
+
+// A drawer a QR label points at - structured drawers by id, so a rename keeps the label working
+export type DrawerLabelTarget = { name: string; drawerId: string | null };
+
+// Page a QR label opens - without a drawer the label covers the whole cabinet
+export function getDrawerViewUrl(baseUrl: string, ambulancePostId: string, cabinetId: string, drawer?: DrawerLabelTarget | null): string {
+  const url = `${baseUrl}/lade/${encodeURIComponent(ambulancePostId)}/${encodeURIComponent(cabinetId)}`;
+  if (!drawer) return url;
+  return drawer.drawerId
+    ? `${url}?ladeId=${encodeURIComponent(drawer.drawerId)}`
+    : `${url}?lade=${encodeURIComponent(drawer.name)}`;
+}
+
+// Drawers of a cabinet at a post: the structured drawers in number order,
+// then free-text drawers of locations that are not linked yet
+export async function getCabinetDrawerLabels(ambulancePostId: string, cabinetId: string): Promise<DrawerLabelTarget[]> {
+  const [cabinetDrawers, locations] = await Promise.all([
+    storage.getDrawersByCabinet(cabinetId),
+    storage.getItemLocationsByPost(ambulancePostId),
+  ]);
+  const legacyNames = new Set(locations
+    .filter(location => location.cabinet === cabinetId && location.drawer && !location.drawerId)
+    .map(location => location.drawer!));
+  return [
+    ...cabinetDrawers.map(drawer => ({ name: drawer.name, drawerId: drawer.id })),
+    ...Array.from(legacyNames)
+      .sort((a, b) => a.localeCompare(b, "nl", { numeric: true }))
+      .map(name => ({ name, drawerId: null })),
+  ];
+}
+
+export function toDrawerViewItem(location: ItemLocation, item: MedicalItem, openRequests: SupplyRequest[]): DrawerViewItem {
+  return {
+    locationId: location.id,
+    itemId: item.id,
+    itemName: item.name,
+    category: item.category,
+    photoUrl: item.photoUrl,
+    drawer: location.drawer,
+    stockStatus: location.stockStatus,
+    currentQuantity: location.currentQuantity,
+    minQuantity: location.minQuantity,
+    hasContactPerson: !!location.contactPersonId,
+    openSupplyRequestId: openRequests.find(request => request.locationId === location.id)?.id ?? null,
+  };
+}
+
+// Drawers first, items by name within a drawer
+export function compareDrawerViewItems(a: DrawerViewItem, b: DrawerViewItem): number {
+  return (a.drawer ?? "").localeCompare(b.drawer ?? "", "nl", { numeric: true }) || a.itemName.localeCompare(b.itemName, "nl");
+}
+
+// Pass drawerId for structured drawers, or the drawer name for labels printed before drawers had ids
+export async function getDrawerView(ambulancePostId: string, cabinetId: string, filter: { drawerId?: string | null; drawer?: string | null } = {}): Promise<DrawerView | undefined> {
+  const [ambulancePost, cabinet, structuredDrawer, locations, items, openRequests] = await Promise.all([
+    storage.getAmbulancePost(ambulancePostId),
+    storage.getCabinet(cabinetId),
+    filter.drawerId ? storage.getDrawer(filter.drawerId) : undefined,
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getMedicalItems(),
+    storage.getOpenSupplyRequests({ ambulancePostId }),
+  ]);
+  if (!ambulancePost || !cabinet) return undefined;
+  if (filter.drawerId && structuredDrawer?.cabinetId !== cabinet.id) return undefined;
+
+  const drawer = structuredDrawer?.name ?? filter.drawer ?? null;
+  const inDrawer = (location: ItemLocation) => structuredDrawer
+    ? location.drawerId === structuredDrawer.id
+    : !drawer || location.drawer === drawer;
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const viewItems = locations
+    .filter(location => location.cabinet === cabinet.id && inDrawer(location))
+    .flatMap(location => {
+      const item = itemsById.get(location.itemId);
+      if (!item || item.isDiscontinued) return [];
+      return [toDrawerViewItem(location, item, openRequests)];
+    })
+    .sort(compareDrawerViewItems);
+
+  return {
+    ambulancePostId: ambulancePost.id,
+    ambulancePostName: ambulancePost.name,
+    cabinetId: cabinet.id,
+    cabinetName: cabinet.name,
+    cabinetColor: cabinet.color,
+    drawer,
+    items: viewItems,
+  };
+}
@@ -0,0 +1,41 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decryptSecret, encryptSecret, isEncryptedSecret } from "./email-credentials";
+
+describe("email secret encryption", () => {
+  before(() => {
+    process.env.EMAIL_ENCRYPTION_KEY = "test-encryption-key";
+  });
+
+  it("decrypts what it encrypted", () => {
+    const encrypted = encryptSecret("smtp-wachtwoord");
+    assert.ok(isEncryptedSecret(encrypted));
+    assert.ok(!encrypted.includes("smtp-wachtwoord"));
+    assert.equal(decryptSecret(encrypted), "smtp-wachtwoord");
+  });
+
+  it("uses a fresh iv for every value", () => {
+    assert.notEqual(encryptSecret("smtp-wachtwoord"), encryptSecret("smtp-wachtwoord"));
+  });
+
+  it("returns values from before encryption unchanged", () => {
+    assert.equal(isEncryptedSecret("plain-password"), false);
+    assert.equal(decryptSecret("plain-password"), "plain-password");
+  });
+
+  it("refuses a value that was tampered with", () => {
+    const encrypted = encryptSecret("smtp-wachtwoord");
+    const tampered = encrypted.slice(0, -2) + (encrypted.endsWith("A") ? "BB" : "AA");
+    assert.throws(() => decryptSecret(tampered));
+  });
+
+  it("refuses a value encrypted with another key", () => {
+    const encrypted = encryptSecret("smtp-wachtwoord");
+    process.env.EMAIL_ENCRYPTION_KEY = "other-encryption-key";
+    try {
+      assert.throws(() => decryptSecret(encrypted));
+    } finally {
+      process.env.EMAIL_ENCRYPTION_KEY = "test-encryption-key";
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { EmailConfig, PublicEmailConfig } from "@shared/schema";
+
+// Stored as enc:v1:<iv>:<auth tag>:<ciphertext> - values without the prefix are from before encryption
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+function getKey(): Buffer {
+  if (!process.env.EMAIL_ENCRYPTION_KEY) {
+    throw new Error("EMAIL_ENCRYPTION_KEY must be set to store SMTP passwords.");
+  }
+  // Any passphrase works - hashed to the 32 bytes AES-256 needs
+  return createHash("sha256").update(process.env.EMAIL_ENCRYPTION_KEY).digest();
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(plainText: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64url")).join(":");
+}
+
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const [iv, authTag, encrypted] = value.slice(ENCRYPTED_PREFIX.length).split(":").map(part => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// What the API returns - secrets never leave the server, only whether they are set
+export function toPublicEmailConfig(config: EmailConfig): PublicEmailConfig {
+  const { smtpPassword, graphClientSecret, ...publicConfig } = config;
+  return { ...publicConfig, hasPassword: !!smtpPassword, hasClientSecret: !!graphClientSecret };
+}
@@ -0,0 +1,219 @@
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { EmailOutboxEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { graphConfig } from "./test-fixtures";
+
+const MINUTE = 60 * 1000;
+
+type EmailQueue = typeof import("./email-queue");
+
+// Stands in for the mail server - the queue sends through a Microsoft Graph profile pointed at it
+let server: Server;
+let sentMessages: string[] = [];
+let failSends = false;
+let queue: EmailQueue;
+
+// In-memory outbox behind the storage methods the queue uses
+let outbox: EmailOutboxEntry[] = [];
+
+const outboxEntry = (overrides: Partial<EmailOutboxEntry> = {}): EmailOutboxEntry => ({
+  id: `email-${outbox.length + 1}`,
+  recipient: "post@example.org",
+  fromEmail: "inventaris@example.org",
+  subject: "Aanvulverzoek",
+  html: "<p>Graag aanvullen</p>",
+  ambulancePostId: null,
+  inlineImages: [],
+  status: "pending",
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: new Date(Date.now() - MINUTE),
+  sentAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const findEntry = (id: string) => outbox.find(entry => entry.id === id)!;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      if (req.url?.endsWith("/oauth2/v2.0/token")) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ access_token: "token-1", expires_in: 3600 }));
+        return;
+      }
+      if (failSends) {
+        res.writeHead(503, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Mailserver onbereikbaar" } }));
+        return;
+      }
+      sentMessages.push(Buffer.from(body, "base64").toString());
+      res.writeHead(202);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  // The Graph endpoints are read when the email module loads, so the queue is imported after the stub is up
+  process.env.MS_GRAPH_AUTHORITY_URL = `http://127.0.0.1:${port}`;
+  process.env.MS_GRAPH_API_URL = `http://127.0.0.1:${port}`;
+  queue = await import("./email-queue");
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("getRetryDelay", () => {
+  it("doubles the delay after every failed attempt", () => {
+    assert.deepEqual([1, 2, 3, 4].map(queue.getRetryDelay), [1 * MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+  });
+
+  it("caps the delay at six hours", () => {
+    assert.equal(queue.getRetryDelay(9), 256 * MINUTE);
+    assert.equal(queue.getRetryDelay(10), 6 * 60 * MINUTE);
+    assert.equal(queue.getRetryDelay(20), 6 * 60 * MINUTE);
+  });
+});
+
+describe("removeMissingImages", () => {
+  it("drops only the images whose photo could not be loaded", () => {
+    const html = '<p>Item</p><img src="cid:item-photo" alt="foto"><img src="cid:logo">';
+    assert.equal(queue.removeMissingImages(html, ["item-photo"]), '<p>Item</p><img src="cid:logo">');
+  });
+
+  it("treats the cid as text, not as a pattern", () => {
+    const html = '<img src="cid:item.photo"><img src="cid:itemXphoto">';
+    assert.equal(queue.removeMissingImages(html, ["item.photo"]), '<img src="cid:itemXphoto">');
+  });
+});
+
+describe("drainEmailQueue", () => {
+  before(async () => {
+    mock.method(storage, "getDefaultEmailConfig", async () => graphConfig());
+    mock.method(storage, "claimDueEmails", async (limit: number) => {
+      const due = outbox
+        .filter(entry => entry.status === "pending" && entry.nextAttemptAt <= new Date())
+        .slice(0, limit);
+      for (const entry of due) Object.assign(entry, { status: "sending", updatedAt: new Date() });
+      return due.map(entry => ({ ...entry }));
+    });
+    mock.method(storage, "markEmailSent", async (id: string) => {
+      const entry = findEntry(id);
+      Object.assign(entry, { status: "sent", sentAt: new Date(), lastError: null, attempts: entry.attempts + 1 });
+    });
+    mock.method(storage, "markEmailFailed", async (id: string, error: string, nextAttemptAt: Date | null) => {
+      const entry = findEntry(id);
+      Object.assign(entry, {
+        status: nextAttemptAt ? "pending" : "failed",
+        lastError: error,
+        attempts: entry.attempts + 1,
+        ...(nextAttemptAt && { nextAttemptAt }),
+      });
+    });
+    mock.method(storage, "releaseStaleEmails", async (claimedBefore: Date) => {
+      const stale = outbox.filter(entry => entry.status === "sending" && entry.updatedAt! <= claimedBefore);
+      for (const entry of stale) entry.status = "pending";
+      return stale.length;
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    outbox = [];
+    sentMessages = [];
+    failSends = false;
+  });
+
+  it("sends every due email and leaves later ones in the queue", async () => {
+    outbox.push(outboxEntry({ id: "due-1" }), outboxEntry({ id: "due-2" }));
+    outbox.push(outboxEntry({ id: "later", nextAttemptAt: new Date(Date.now() + 5 * MINUTE) }));
+
+    await queue.drainEmailQueue();
+
+    assert.equal(findEntry("due-1").status, "sent");
+    assert.equal(findEntry("due-2").status, "sent");
+    assert.equal(findEntry("later").status, "pending");
+    assert.equal(sentMessages.length, 2);
+  });
+
+  it("keeps claiming batches until nothing is due", async () => {
+    for (let i = 0; i < 25; i++) outbox.push(outboxEntry());
+
+    await queue.drainEmailQueue();
+
+    assert.ok(outbox.every(entry => entry.status === "sent"));
+    assert.equal(sentMessages.length, 25);
+  });
+
+  it("schedules a retry after a failed send", async () => {
+    failSends = true;
+    outbox.push(outboxEntry({ id: "retry", attempts: 2 }));
+
+    const before = Date.now();
+    await queue.drainEmailQueue();
+
+    const entry = findEntry("retry");
+    assert.equal(entry.status, "pending");
+    assert.equal(entry.attempts, 3);
+    assert.match(entry.lastError ?? "", /Mailserver onbereikbaar/);
+    const delay = entry.nextAttemptAt.getTime() - before;
+    assert.ok(delay >= queue.getRetryDelay(3) && delay < queue.getRetryDelay(3) + MINUTE);
+  });
+
+  it("gives up after the last attempt", async () => {
+    failSends = true;
+    outbox.push(outboxEntry({ id: "almost", attempts: 6 }), outboxEntry({ id: "last", attempts: 7 }));
+
+    await queue.drainEmailQueue();
+
+    assert.equal(findEntry("almost").status, "pending");
+    assert.equal(findEntry("last").status, "failed");
+    assert.equal(findEntry("last").attempts, 8);
+  });
+
+  it("sends emails again that a stopped worker left claimed", async () => {
+    outbox.push(outboxEntry({ id: "stale", status: "sending", updatedAt: new Date(Date.now() - 11 * MINUTE) }));
+    outbox.push(outboxEntry({ id: "busy", status: "sending", updatedAt: new Date(Date.now() - MINUTE) }));
+
+    await queue.drainEmailQueue();
+
+    assert.equal(findEntry("stale").status, "sent");
+    assert.equal(findEntry("busy").status, "sending");
+  });
+
+  it("keeps sending the rest of the batch when one email throws", async () => {
+    const markEmailSent = mock.method(storage, "markEmailSent");
+    markEmailSent.mock.mockImplementationOnce(async () => { throw new Error("Verbinding met database verbroken"); });
+    outbox.push(outboxEntry({ id: "broken" }), outboxEntry({ id: "next" }));
+
+    await queue.drainEmailQueue();
+
+    assert.equal(findEntry("broken").status, "pending");
+    assert.equal(findEntry("broken").attempts, 1);
+    assert.match(findEntry("broken").lastError ?? "", /Verbinding met database verbroken/);
+    assert.equal(findEntry("next").status, "sent");
+  });
+
+  it("sends the email without photos that could not be loaded", async () => {
+    outbox.push(outboxEntry({
+      html: '<p>Graag aanvullen</p><img src="cid:item-photo">',
+      inlineImages: [{ cid: "item-photo", objectPath: "/niet-in-object-storage/foto.png" }],
+    }));
+
+    await queue.drainEmailQueue();
+
+    assert.equal(sentMessages.length, 1);
+    assert.ok(sentMessages[0].includes("<p>Graag aanvullen</p>"));
+    assert.ok(!sentMessages[0].includes("cid:item-photo"));
+  });
+});
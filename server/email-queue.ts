@@ -0,0 +1,144 @@
+import type { EmailInlineImage, EmailOutboxEntry, InsertEmailOutbox, InsertSupplyRequest, SupplyRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { deliverEmail, type EmailAttachment } from "./email";
+import { ObjectStorageService } from "./objectStorage";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 10;
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// A worker that has not finished an email after this long is assumed to have stopped
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+let isDraining = false;
+
+export interface QueuedEmail {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  ambulancePostId?: string | null; // the post decides which SMTP profile sends the email
+  inlineImages?: EmailInlineImage[];
+}
+
+// 1, 2, 4, 8 ... minutes after each failed attempt, capped at a few hours
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+function toOutboxEntry(email: QueuedEmail): InsertEmailOutbox {
+  return {
+    recipient: email.to,
+    fromEmail: email.from,
+    subject: email.subject,
+    html: email.html,
+    ambulancePostId: email.ambulancePostId ?? null,
+    inlineImages: email.inlineImages ?? [],
+  };
+}
+
+// Store the email in the outbox - the worker sends it, so a slow or unreachable mail server never fails the request
+export async function enqueueEmail(email: QueuedEmail): Promise<EmailOutboxEntry> {
+  const entry = await storage.enqueueEmail(toOutboxEntry(email));
+  void drainEmailQueue();
+  return entry;
+}
+
+// Store supply requests together with the email announcing them - neither is saved without the other
+export async function enqueueSupplyRequestEmail(email: QueuedEmail, requests: (InsertSupplyRequest & { id: string })[]): Promise<SupplyRequest[]> {
+  const created = await storage.createSupplyRequestsWithEmail(requests, toOutboxEntry(email));
+  void drainEmailQueue();
+  return created;
+}
+
+// Photos are fetched at send time so the outbox only keeps their paths - a missing photo does not hold the email back
+async function loadInlineImages(images: EmailInlineImage[]): Promise<EmailAttachment[]> {
+  const attachments: EmailAttachment[] = [];
+  for (const image of images) {
+    try {
+      const file = await new ObjectStorageService().getObjectEntityFile(image.objectPath);
+      const [[content], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+      const contentType = metadata.contentType || "application/octet-stream";
+      attachments.push({
+        cid: image.cid,
+        filename: `${image.cid}.${contentType.split("/")[1] ?? "bin"}`,
+        contentType,
+        content,
+      });
+    } catch (error) {
+      console.error(`Inline image ${image.objectPath} could not be loaded:`, error);
+    }
+  }
+  return attachments;
+}
+
+// Drop the <img> tags of inline images that could not be loaded, so recipients see no broken image
+export function removeMissingImages(html: string, missingCids: string[]): string {
+  return missingCids.reduce((result, cid) => {
+    const escapedCid = cid.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return result.replace(new RegExp(`<img[^>]*src="cid:${escapedCid}"[^>]*>`, "g"), "");
+  }, html);
+}
+
+async function sendQueuedEmail(entry: EmailOutboxEntry) {
+  const attachments = await loadInlineImages(entry.inlineImages);
+  const missingCids = entry.inlineImages
+    .filter(image => !attachments.some(attachment => attachment.cid === image.cid))
+    .map(image => image.cid);
+
+  const result = await deliverEmail({
+    to: entry.recipient,
+    from: entry.fromEmail,
+    subject: entry.subject,
+    html: removeMissingImages(entry.html, missingCids),
+    ambulancePostId: entry.ambulancePostId,
+    attachments,
+  });
+
+  if (result.sent) {
+    await storage.markEmailSent(entry.id);
+    return;
+  }
+
+  await scheduleRetry(entry, result.error ?? "Onbekende fout");
+}
+
+async function scheduleRetry(entry: EmailOutboxEntry, error: string) {
+  const attempts = entry.attempts + 1;
+  const nextAttemptAt = attempts < MAX_ATTEMPTS ? new Date(Date.now() + getRetryDelay(attempts)) : null;
+  await storage.markEmailFailed(entry.id, error, nextAttemptAt);
+  console.error(`Email to ${entry.recipient} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${error}`);
+}
+
+// Send everything that is due, a batch at a time
+export async function drainEmailQueue() {
+  if (isDraining) return;
+  isDraining = true;
+  try {
+    await storage.releaseStaleEmails(new Date(Date.now() - STALE_CLAIM_MS));
+    let batch = await storage.claimDueEmails(BATCH_SIZE);
+    while (batch.length > 0) {
+      for (const entry of batch) {
+        // An error while sending one email counts as a failed attempt for that email only
+        try {
+          await sendQueuedEmail(entry);
+        } catch (error) {
+          await scheduleRetry(entry, error instanceof Error ? error.message : String(error))
+            .catch(markError => console.error(`Email ${entry.id} could not be marked as failed:`, markError));
+        }
+      }
+      batch = await storage.claimDueEmails(BATCH_SIZE);
+    }
+  } catch (error) {
+    console.error("Error draining email queue:", error);
+  } finally {
+    isDraining = false;
+  }
+}
+
+// Outbox worker inside the web process - picks up new emails and retries failed ones
+export function startEmailQueueWorker() {
+  setInterval(drainEmailQueue, POLL_INTERVAL_MS).unref();
+  void drainEmailQueue();
+}
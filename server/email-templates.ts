@@ -0,0 +1,202 @@
+import { emailTemplateKeys, type EmailTemplateKey, type EmailTemplateView, type InsertEmailTemplate } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  escapeHtml,
+  renderActionButtons,
+  renderExpiryTableHTML,
+  renderItemDetailsHTML,
+  wrapEmailLayout,
+  ITEM_PHOTO_CID,
+  type EmailItemData,
+} from "./email";
+import type { SupplyRequestActionLinks } from "./supply-request-links";
+
+// Placeholder name (without braces) to value - missing placeholders stay visible in the email
+export type EmailTemplateValues = Record<string, string | null | undefined>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+interface DefaultEmailTemplate extends InsertEmailTemplate {
+  name: string;
+  title: string;
+  headerColor: string;
+}
+
+const SIGNATURE = `
+<p>Met vriendelijke groet,<br>
+Het Medische Inventaris Systeem</p>`;
+
+export const defaultEmailTemplates: Record<EmailTemplateKey, DefaultEmailTemplate> = {
+  "restock": {
+    name: "Aanvulverzoek",
+    title: "Medische Inventaris - Aanvulverzoek",
+    headerColor: "#4a90e2",
+    subject: "📦 Aanvulverzoek: {{item.name}} - {{post}}",
+    body: `<p>Beste {{contact.name}},</p>
+<p>De volgende medische items hebben aanvulling nodig:</p>
+{{items}}
+<p>Zou je dit kunnen aanvullen wanneer het uitkomt? Bedankt voor je medewerking!</p>
+{{actions}}${SIGNATURE}`,
+  },
+  "out-of-stock": {
+    name: "Urgent - item is OP",
+    title: "Medische Inventaris - Item is OP",
+    headerColor: "#dc2626",
+    subject: "🚨 URGENT: {{item.name}} - OP",
+    body: `<p>Beste {{contact.name}},</p>
+<p><strong>{{item.name}}</strong> is op en moet zo snel mogelijk worden aangevuld:</p>
+{{items}}
+<p>Wil je dit met voorrang oppakken? Bedankt voor je medewerking!</p>
+{{actions}}${SIGNATURE}`,
+  },
+  "expiry-warning": {
+    name: "Vervaldatum waarschuwing",
+    title: "Medische Inventaris - Vervaldatum Waarschuwing",
+    headerColor: "#d97706",
+    subject: "⏰ Vervaldatum waarschuwing: {{item.name}} - {{post}}",
+    body: `<p>Beste {{contact.name}},</p>
+<p>De volgende items op <strong>{{post}}</strong> zijn verlopen of verlopen binnenkort:</p>
+{{items}}
+<p>Wil je deze items controleren en op tijd vervangen? Bedankt voor je medewerking!</p>${SIGNATURE}`,
+  },
+  "test": {
+    name: "Test email",
+    title: "🏥 Test Email - Medische Inventaris",
+    headerColor: "#2563eb",
+    subject: "🧪 Test Email - Medische Inventaris Configuratie",
+    body: `<h2>Email Configuratie Test Succesvol</h2>
+
+<div class="success-box">
+  <strong>✅ Gefeliciteerd!</strong> Je email configuratie werkt correct.
+</div>
+
+<p>Deze test email bevestigt dat:</p>
+<ul>
+  <li>Je SMTP server configuratie correct is</li>
+  <li>Authenticatie gegevens kloppen</li>
+  <li>Email verzending functioneert naar verwachting</li>
+</ul>
+
+<p>Je kunt nu voorraad waarschuwingen en andere automatische emails verwachten van het medische inventaris systeem.</p>`,
+  },
+};
+
+// These placeholders are HTML fragments built by the server, everything else is escaped free text
+const HTML_PLACEHOLDERS = new Set(["items", "actions"]);
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return emailTemplateKeys.includes(key as EmailTemplateKey);
+}
+
+function fillPlaceholders(text: string, values: EmailTemplateValues, escape: boolean): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => {
+    if (!(name in values)) return match;
+    const value = values[name] ?? "";
+    return escape && !HTML_PLACEHOLDERS.has(name) ? escapeHtml(value) : value;
+  });
+}
+
+// Render a subject and body - used for sending with the stored template and for previewing unsaved edits
+export function renderEmailTemplate(key: EmailTemplateKey, template: InsertEmailTemplate, values: EmailTemplateValues): RenderedEmail {
+  const { title, headerColor } = defaultEmailTemplates[key];
+  const allValues: EmailTemplateValues = {
+    "contact.name": "collega",
+    "date": new Date().toLocaleDateString("nl-NL"),
+    "items": "",
+    "actions": "",
+    ...values,
+  };
+  return {
+    subject: fillPlaceholders(template.subject, allValues, false),
+    html: wrapEmailLayout(title, headerColor, fillPlaceholders(template.body, allValues, true)),
+  };
+}
+
+export async function renderEmail(key: EmailTemplateKey, values: EmailTemplateValues): Promise<RenderedEmail> {
+  const stored = await storage.getEmailTemplate(key);
+  return renderEmailTemplate(key, stored ?? defaultEmailTemplates[key], values);
+}
+
+export async function getEmailTemplateViews(): Promise<EmailTemplateView[]> {
+  const stored = await storage.getEmailTemplates();
+  return emailTemplateKeys.map(key => {
+    const custom = stored.find(template => template.key === key);
+    const fallback = defaultEmailTemplates[key];
+    return {
+      key,
+      name: fallback.name,
+      subject: custom?.subject ?? fallback.subject,
+      body: custom?.body ?? fallback.body,
+      isCustom: !!custom,
+    };
+  });
+}
+
+// Values for an email about one item at one location
+export function getItemEmailValues(item: EmailItemData, cabinetName: string, status: string, actionLinks?: SupplyRequestActionLinks): EmailTemplateValues {
+  return {
+    "item.name": item.name,
+    "item.description": item.description,
+    "item.category": item.category,
+    "item.expiryDate": item.expiryDate ? new Date(item.expiryDate).toLocaleDateString("nl-NL") : "",
+    "cabinet": cabinetName,
+    "drawer": item.drawer,
+    "post": item.ambulancePost,
+    "status": status,
+    "items": renderItemDetailsHTML({ ...item, photoSrc: item.photoSrc ?? (item.photoUrl ? `cid:${ITEM_PHOTO_CID}` : null) }, cabinetName),
+    "actions": actionLinks ? `
+<p>Laat met één klik weten hoe het ervoor staat:</p>
+<p>${renderActionButtons(actionLinks)}
+</p>` : "",
+  };
+}
+
+// Fill the preview with a real item - the chosen one, otherwise the first item that has a location
+export async function getPreviewValues(key: EmailTemplateKey, itemId?: string): Promise<EmailTemplateValues> {
+  if (key === "test") return {};
+
+  const items = await storage.getMedicalItems();
+  const locations = itemId ? await storage.getItemLocationsByItem(itemId) : await storage.getItemLocations();
+  const item = items.find(candidate => candidate.id === (itemId ?? locations[0]?.itemId)) ?? items[0];
+  if (!item) return {};
+
+  const location = locations.find(candidate => candidate.itemId === item.id);
+  const [cabinet, ambulancePost, contact, lotExpiries] = await Promise.all([
+    location ? storage.getCabinet(location.cabinet) : undefined,
+    location ? storage.getAmbulancePost(location.ambulancePostId) : undefined,
+    location?.contactPersonId ? storage.getPostContact(location.contactPersonId) : undefined,
+    location ? storage.getEarliestLotExpiries(location.ambulancePostId) : Promise.resolve({} as Record<string, string>),
+  ]);
+
+  const cabinetName = cabinet?.name ?? (location ? `Kast ${location.cabinet}` : "Onbekende locatie");
+  const expiryDate = lotExpiries[item.id] ?? item.expiryDate;
+  const values = getItemEmailValues(
+    // The preview has no attachments, so the photo is shown straight from object storage
+    { ...item, expiryDate, drawer: location?.drawer, ambulancePost: ambulancePost?.name, photoSrc: item.photoUrl },
+    cabinetName,
+    key === "out-of-stock" ? "OP" : "Bijna op",
+    // Sample links - the preview must not create real action tokens
+    { received: "#", restocked: "#", unavailable: "#" },
+  );
+  if (contact) values["contact.name"] = contact.name;
+
+  if (key === "expiry-warning") {
+    const daysUntilExpiry = expiryDate
+      ? Math.round((new Date(expiryDate).getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+      : 30;
+    values["items"] = renderExpiryTableHTML([{
+      itemName: item.name,
+      cabinetName,
+      drawer: location?.drawer ?? null,
+      lotNumber: null,
+      expiryDate: expiryDate ?? new Date().toISOString().slice(0, 10),
+      daysUntilExpiry,
+    }]);
+    values["actions"] = "";
+  }
+
+  return values;
+}
@@ -0,0 +1,115 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { graphConfig } from "./test-fixtures";
+
+type StubRequest = { method?: string; url?: string; headers: Record<string, string | string[] | undefined>; body: string };
+
+// Stands in for both the Microsoft login endpoint and the Graph API
+let server: Server;
+let requests: StubRequest[] = [];
+let issuedTokens = 0;
+let createGraphTransport: typeof import("./email").createGraphTransport;
+
+const email = {
+  to: "post@example.org",
+  from: "inventaris@example.org",
+  subject: "Aanvulverzoek",
+  html: '<p>Graag aanvullen</p><img src="cid:item-photo">',
+  text: "Graag aanvullen",
+  attachments: [{ cid: "item-photo", filename: "item-photo.png", contentType: "image/png", content: Buffer.from("png") }],
+};
+
+describe("Microsoft Graph transport", () => {
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => { body += chunk; });
+      req.on("end", () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        if (req.url?.endsWith("/oauth2/v2.0/token")) {
+          issuedTokens++;
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ access_token: `token-${issuedTokens}`, expires_in: 3600 }));
+          return;
+        }
+        // Never answers, like a Graph endpoint that hangs
+        if (req.url?.includes("traag")) return;
+        if (req.url?.endsWith("/sendMail")) {
+          res.writeHead(202);
+          res.end();
+          return;
+        }
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Onbekend pad" } }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // The endpoints are read when the module loads, so it is imported after the stub is up
+    process.env.MS_GRAPH_AUTHORITY_URL = `http://127.0.0.1:${port}`;
+    process.env.MS_GRAPH_API_URL = `http://127.0.0.1:${port}`;
+    process.env.MS_GRAPH_TIMEOUT_MS = "500";
+    ({ createGraphTransport } = await import("./email"));
+  });
+
+  after(() => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it("requests a token and sends the email with inline attachments", async () => {
+    await createGraphTransport(graphConfig({ graphTenantId: "tenant-send" })).send(email);
+
+    const [tokenRequest, sendRequest] = requests;
+    assert.equal(tokenRequest.url, "/tenant-send/oauth2/v2.0/token");
+    const form = new URLSearchParams(tokenRequest.body);
+    assert.equal(form.get("client_id"), "client-1");
+    assert.equal(form.get("client_secret"), "secret-1");
+    assert.equal(form.get("grant_type"), "client_credentials");
+
+    assert.equal(sendRequest.url, "/v1.0/users/inventaris%40example.org/sendMail");
+    assert.equal(sendRequest.headers.authorization, `Bearer token-${issuedTokens}`);
+    assert.equal(sendRequest.headers["content-type"], "text/plain");
+    const mime = Buffer.from(sendRequest.body, "base64").toString();
+    assert.match(mime, /^Subject: Aanvulverzoek$/m);
+    assert.match(mime, /^To: post@example.org$/m);
+    assert.match(mime, /multipart\/alternative/);
+    assert.match(mime, /Content-Type: text\/plain[\s\S]*Graag aanvullen/);
+    assert.match(mime, /^Content-ID: <item-photo>$/m);
+    assert.ok(mime.includes(Buffer.from("png").toString("base64")));
+  });
+
+  it("gives up on a Graph endpoint that does not answer", async () => {
+    const started = Date.now();
+    await assert.rejects(
+      createGraphTransport(graphConfig({ graphTenantId: "tenant-hang" })).send({ ...email, from: "traag@example.org" }),
+      /geen antwoord/,
+    );
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  it("reuses the token for the same credentials", async () => {
+    const config = graphConfig({ graphTenantId: "tenant-cache" });
+    await createGraphTransport(config).send(email);
+    await createGraphTransport(config).send(email);
+
+    assert.equal(requests.filter(request => request.url?.endsWith("/token")).length, 1);
+    assert.equal(requests.filter(request => request.url?.endsWith("/sendMail")).length, 2);
+  });
+
+  it("requests a new token after the client secret changed", async () => {
+    await createGraphTransport(graphConfig({ graphTenantId: "tenant-rotate" })).send(email);
+    await createGraphTransport(graphConfig({ graphTenantId: "tenant-rotate", graphClientSecret: "secret-2" })).send(email);
+
+    const tokenRequests = requests.filter(request => request.url?.endsWith("/token"));
+    assert.equal(tokenRequests.length, 2);
+    assert.equal(new URLSearchParams(tokenRequests[1].body).get("client_secret"), "secret-2");
+  });
+});
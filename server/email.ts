@@ -1,162 +1,523 @@
+import { createHash } from 'crypto';
 import sgMail from '@sendgrid/mail';
 import nodemailer from 'nodemailer';
-import type { MedicalItem, EmailConfig } from '@shared/schema';
+import type { MedicalItem, EmailConfig, EmailInlineImage } from '@shared/schema';
 import { storage } from './storage';
+import type { SupplyRequestActionLinks } from './supply-request-links';
 
 if (process.env.SENDGRID_API_KEY) {
   sgMail.setApiKey(process.env.SENDGRID_API_KEY);
 }
 
-interface EmailParams {
+// File embedded in the HTML through <img src="cid:...">
+export interface EmailAttachment {
+  cid: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailParams {
   to: string;
   from: string;
   subject: string;
   html: string;
+  text?: string; // generated from the HTML when left out
+  attachments?: EmailAttachment[];
+  ambulancePostId?: string | null; // the post's profile and reply-to are used when no config is given
+  replyTo?: string;
   config?: EmailConfig;
 }
 
+export interface EmailSender {
+  config?: EmailConfig;
+  replyTo?: string;
+}
+
+// The SMTP profile chosen for the post, otherwise the default profile
+export async function resolveEmailSender(ambulancePostId?: string | null): Promise<EmailSender> {
+  const post = ambulancePostId ? await storage.getAmbulancePost(ambulancePostId) : undefined;
+  const postConfig = post?.emailConfigId ? await storage.getEmailConfig(post.emailConfigId) : undefined;
+  return {
+    config: postConfig ?? await storage.getDefaultEmailConfig(),
+    replyTo: post?.replyToEmail || undefined,
+  };
+}
+
+export interface EmailDeliveryResult {
+  sent: boolean;
+  error: string | null;
+}
+
+// Send right away - used by the outbox worker and the SMTP test, routes enqueue via the email queue
 export async function sendEmail(params: EmailParams): Promise<boolean> {
-  // Use provided config or get from database
-  let emailConfig = params.config;
-  if (!emailConfig) {
-    try {
-      emailConfig = await storage.getEmailConfig();
-      console.log('Email config opgehaald uit database');
-    } catch (error) {
-      console.log('Geen email configuratie gevonden in database');
-    }
-  } else {
-    console.log('Email config gebruikt uit request parameters');
+  return (await deliverEmail(params)).sent;
+}
+
+// Plain-text version of an email for clients that strip HTML - links keep their address
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => `${label.trim()}: ${href}`)
+    .replace(/<img[^>]*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/td>\s*<td[^>]*>/gi, ' | ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Ready-to-send email - the same for every transport
+export interface OutgoingEmail {
+  to: string;
+  from: string;
+  fromName?: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+// A way of delivering email - send throws with a readable message when delivery fails
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<void>;
+  verify?(): Promise<void>;
+}
+
+// multipart/alternative with the text part, inline images as multipart/related
+function toMimeMessage(email: OutgoingEmail) {
+  return {
+    from: `${email.fromName || 'Medische Inventaris'} <${email.from}>`,
+    to: email.to,
+    replyTo: email.replyTo,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    attachments: email.attachments.map(attachment => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.contentType,
+      cid: attachment.cid,
+    })),
+  };
+}
+
+export function createSmtpTransport(emailConfig: EmailConfig): EmailTransport {
+  console.log(`Sending email via SMTP: ${emailConfig.smtpHost}:${emailConfig.smtpPort}`);
+  console.log(`Using SMTP user: ${emailConfig.smtpUser}`);
+  console.log(`SMTP secure mode: ${emailConfig.smtpPort === 465 ? 'SSL' : 'STARTTLS'}`);
+
+  // Try different authentication methods for Exchange compatibility
+  const transportConfig: any = {
+    host: emailConfig.smtpHost,
+    port: emailConfig.smtpPort,
+    secure: emailConfig.smtpPort === 465, // true for 465, false for other ports
+    tls: {
+      // Accept self-signed certificates and hostname mismatches (common for Exchange)
+      rejectUnauthorized: false,
+      ciphers: 'ALL',
+      minVersion: 'TLSv1'
+    },
+    connectionTimeout: 10000, // 10 seconds
+    greetingTimeout: 5000, // 5 seconds  
+    socketTimeout: 10000, // 10 seconds
+    debug: false, // Disable debug logging to prevent password leaks
+    logger: false
+  };
+
+  // Force STARTTLS for port 587
+  if (emailConfig.smtpPort === 587) {
+    transportConfig.requireTLS = true;
   }
 
-  // Use configured SMTP if available
-  if (emailConfig && emailConfig.smtpHost && emailConfig.smtpPort && emailConfig.smtpUser && emailConfig.smtpPassword) {
-    try {
-      console.log(`Sending email via SMTP: ${emailConfig.smtpHost}:${emailConfig.smtpPort}`);
-      console.log(`Using SMTP user: ${emailConfig.smtpUser}`);
-      console.log(`SMTP secure mode: ${emailConfig.smtpPort === 465 ? 'SSL' : 'STARTTLS'}`);
-      
-      // Try different authentication methods for Exchange compatibility
-      const transportConfig: any = {
-        host: emailConfig.smtpHost,
-        port: emailConfig.smtpPort,
-        secure: emailConfig.smtpPort === 465, // true for 465, false for other ports
-        tls: {
-          // Accept self-signed certificates and hostname mismatches (common for Exchange)
-          rejectUnauthorized: false,
-          ciphers: 'ALL',
-          minVersion: 'TLSv1'
-        },
-        connectionTimeout: 10000, // 10 seconds
-        greetingTimeout: 5000, // 5 seconds  
-        socketTimeout: 10000, // 10 seconds
-        debug: false, // Disable debug logging to prevent password leaks
-        logger: false
+  // Try different auth methods for Exchange
+  if (emailConfig.smtpUser && emailConfig.smtpPassword) {
+    // For Exchange servers, try multiple authentication methods
+    if (emailConfig.smtpHost && emailConfig.smtpHost.toLowerCase().includes('exchange')) {
+      // Exchange specific auth
+      transportConfig.auth = {
+        user: emailConfig.smtpUser,
+        pass: emailConfig.smtpPassword,
+        type: 'login'
       };
+    } else {
+      // Generic SMTP with multiple fallback methods - Microsoft 365 without SMTP AUTH needs the Graph provider
+      transportConfig.auth = {
+        user: emailConfig.smtpUser,
+        pass: emailConfig.smtpPassword
+      };
+      // Try LOGIN first, then PLAIN
+      transportConfig.authMethods = ['LOGIN', 'PLAIN'];
+    }
+  }
 
-      // Force STARTTLS for port 587
-      if (emailConfig.smtpPort === 587) {
-        transportConfig.requireTLS = true;
-      }
+  const transporter = nodemailer.createTransport(transportConfig);
+
+  return {
+    name: 'SMTP',
+    async send(email) {
+      try {
+        await transporter.sendMail(toMimeMessage(email));
+      } catch (error: any) {
+        console.error('SMTP email fout:', error);
 
-      // Try different auth methods for Exchange
-      if (emailConfig.smtpUser && emailConfig.smtpPassword) {
-        // For Exchange servers, try multiple authentication methods
-        if (emailConfig.smtpHost && emailConfig.smtpHost.toLowerCase().includes('exchange')) {
-          // Exchange specific auth
-          transportConfig.auth = {
-            user: emailConfig.smtpUser,
-            pass: emailConfig.smtpPassword,
-            type: 'login'
-          };
-        } else if (emailConfig.smtpHost && emailConfig.smtpHost.toLowerCase().includes('outlook')) {
-          // Outlook specific auth
-          transportConfig.auth = {
-            user: emailConfig.smtpUser,
-            pass: emailConfig.smtpPassword,
-            type: 'oauth2'
-          };
-        } else {
-          // Generic SMTP with multiple fallback methods
-          transportConfig.auth = {
-            user: emailConfig.smtpUser,
-            pass: emailConfig.smtpPassword
-          };
-          // Try LOGIN first, then PLAIN
-          transportConfig.authMethods = ['LOGIN', 'PLAIN', 'XOAUTH2'];
+        // Provide specific error messages for common issues
+        if (error.code === 'EAUTH') {
+          if (emailConfig.smtpHost && emailConfig.smtpHost.includes('gmail')) {
+            console.error('SMTP Authenticatie gefaald. Voor Gmail gebruik een App-specifiek wachtwoord.');
+            console.error('Zie: https://support.google.com/accounts/answer/185833');
+          } else {
+            console.error('SMTP Authenticatie gefaald. Controleer gebruikersnaam en wachtwoord.');
+            console.error('Voor Exchange: gebruik je volledige email adres als gebruikersnaam.');
+            console.error('Voor Exchange: controleer of SMTP auth is ingeschakeld.');
+          }
+        } else if (error.code === 'ECONNECTION') {
+          console.error('Kan geen verbinding maken met SMTP server. Controleer host en poort.');
+        } else if (error.code === 'ETIMEDOUT') {
+          console.error('SMTP verbinding time-out. Controleer internet verbinding en firewall.');
+        } else if (error.code === 'ESOCKET' && error.reason && error.reason.includes('altnames')) {
+          console.error('TLS certificaat hostname mismatch. Dit is normaal bij bedrijfsmail servers.');
+          console.error('TLS verificatie is uitgeschakeld voor compatibiliteit.');
         }
+
+        throw new Error(`SMTP: ${error.message || error.code || 'onbekende fout'}`);
       }
+    },
+  };
+}
 
-      const transporter = nodemailer.createTransport(transportConfig);
+export function createSendGridTransport(): EmailTransport {
+  return {
+    name: 'SendGrid',
+    async send(email) {
+      try {
+        await sgMail.send({
+          to: email.to,
+          from: email.from,
+          replyTo: email.replyTo,
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+          attachments: email.attachments.map(attachment => ({
+            filename: attachment.filename,
+            content: attachment.content.toString('base64'),
+            type: attachment.contentType,
+            disposition: 'inline',
+            content_id: attachment.cid,
+          })),
+        });
+      } catch (error: any) {
+        console.error('SendGrid email fout:', error);
+        throw new Error(`SendGrid: ${error.message || 'onbekende fout'}`);
+      }
+    },
+  };
+}
 
-      const fromEmail = emailConfig.fromEmail || params.from;
-      const fromName = emailConfig.fromName || 'Medische Inventaris';
+// Overridable so the Graph transport can be pointed at a local mock server
+const GRAPH_AUTHORITY_URL = (process.env.MS_GRAPH_AUTHORITY_URL || 'https://login.microsoftonline.com').replace(/\/$/, '');
+const GRAPH_API_URL = (process.env.MS_GRAPH_API_URL || 'https://graph.microsoft.com').replace(/\/$/, '');
+// Tokens are valid for about an hour - renewed a minute before they expire
+const GRAPH_TOKEN_MARGIN_MS = 60 * 1000;
+// A Graph call that hangs would hold up the whole email queue
+const GRAPH_TIMEOUT_MS = Number(process.env.MS_GRAPH_TIMEOUT_MS) || 30 * 1000;
 
-      const mailOptions = {
-        from: `${fromName} <${fromEmail}>`,
-        to: params.to,
-        subject: params.subject,
-        html: params.html,
-      };
+async function fetchGraph(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(GRAPH_TIMEOUT_MS) });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`Microsoft Graph: geen antwoord binnen ${Math.round(GRAPH_TIMEOUT_MS / 1000)} seconden`);
+    }
+    throw error;
+  }
+}
 
-      await transporter.sendMail(mailOptions);
-      console.log(`Email succesvol verzonden naar ${params.to} via SMTP`);
-      return true;
-    } catch (error: any) {
-      console.error('SMTP email fout:', error);
-      
-      // Provide specific error messages for common issues
-      if (error.code === 'EAUTH') {
-        if (emailConfig.smtpHost && emailConfig.smtpHost.includes('gmail')) {
-          console.error('SMTP Authenticatie gefaald. Voor Gmail gebruik een App-specifiek wachtwoord.');
-          console.error('Zie: https://support.google.com/accounts/answer/185833');
-        } else {
-          console.error('SMTP Authenticatie gefaald. Controleer gebruikersnaam en wachtwoord.');
-          console.error('Voor Exchange: gebruik je volledige email adres als gebruikersnaam.');
-          console.error('Voor Exchange: controleer of SMTP auth is ingeschakeld.');
-        }
-      } else if (error.code === 'ECONNECTION') {
-        console.error('Kan geen verbinding maken met SMTP server. Controleer host en poort.');
-      } else if (error.code === 'ETIMEDOUT') {
-        console.error('SMTP verbinding time-out. Controleer internet verbinding en firewall.');
-      } else if (error.code === 'ESOCKET' && error.reason && error.reason.includes('altnames')) {
-        console.error('TLS certificaat hostname mismatch. Dit is normaal bij bedrijfsmail servers.');
-        console.error('TLS verificatie is uitgeschakeld voor compatibiliteit.');
+const graphTokens = new Map<string, { token: string; expiresAt: number }>();
+
+// A new client secret must not reuse the token of the old one - the key holds a hash, never the secret itself
+function getGraphTokenCacheKey(emailConfig: EmailConfig): string {
+  const secretHash = createHash('sha256').update(emailConfig.graphClientSecret ?? '').digest('hex');
+  return `${emailConfig.graphTenantId}:${emailConfig.graphClientId}:${secretHash}`;
+}
+
+async function getGraphAccessToken(emailConfig: EmailConfig): Promise<string> {
+  const cacheKey = getGraphTokenCacheKey(emailConfig);
+  const cached = graphTokens.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.token;
+
+  // OAuth2 client credentials - the app registration needs the Mail.Send application permission
+  const response = await fetchGraph(`${GRAPH_AUTHORITY_URL}/${encodeURIComponent(emailConfig.graphTenantId ?? '')}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: emailConfig.graphClientId ?? '',
+      client_secret: emailConfig.graphClientSecret ?? '',
+      scope: `${GRAPH_API_URL}/.default`,
+      grant_type: 'client_credentials',
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Microsoft Graph token: ${data.error_description || data.error || response.statusText}`);
+  }
+
+  graphTokens.set(cacheKey, {
+    token: data.access_token,
+    expiresAt: Date.now() + Number(data.expires_in ?? 3600) * 1000 - GRAPH_TOKEN_MARGIN_MS,
+  });
+  return data.access_token;
+}
+
+// Builds the MIME message without sending it
+const mimeComposer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+export function createGraphTransport(emailConfig: EmailConfig): EmailTransport {
+  return {
+    name: 'Microsoft Graph',
+    async verify() {
+      await getGraphAccessToken(emailConfig);
+    },
+    async send(email) {
+      const token = await getGraphAccessToken(emailConfig);
+      // Graph's JSON message takes a single body - sent as MIME the text part and inline images come along.
+      // MIME messages always end up in the sender's Sent Items
+      const { message } = await mimeComposer.sendMail(toMimeMessage(email));
+      const response = await fetchGraph(`${GRAPH_API_URL}/v1.0/users/${encodeURIComponent(email.from)}/sendMail`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'text/plain',
+        },
+        body: message.toString('base64'),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        // An expired or revoked token is fetched again on the next attempt
+        if (response.status === 401) graphTokens.delete(getGraphTokenCacheKey(emailConfig));
+        throw new Error(`Microsoft Graph: ${data.error?.message || response.statusText}`);
       }
-      
-      return false;
-    }
+    },
+  };
+}
+
+// Whether the profile has what its provider needs to send
+export function isEmailConfigComplete(emailConfig: Partial<EmailConfig> | undefined): emailConfig is EmailConfig {
+  if (!emailConfig) return false;
+  if (emailConfig.provider === 'graph') {
+    return !!(emailConfig.graphTenantId && emailConfig.graphClientId && emailConfig.graphClientSecret && emailConfig.fromEmail);
   }
+  return !!(emailConfig.smtpHost && emailConfig.smtpPort && emailConfig.smtpUser && emailConfig.smtpPassword);
+}
 
-  // Fallback to SendGrid if configured
+// The profile's own provider, SendGrid as fallback when no profile is usable
+export function getEmailTransport(emailConfig: EmailConfig | undefined): EmailTransport | null {
+  if (isEmailConfigComplete(emailConfig)) {
+    return emailConfig.provider === 'graph' ? createGraphTransport(emailConfig) : createSmtpTransport(emailConfig);
+  }
   if (process.env.SENDGRID_API_KEY) {
+    return createSendGridTransport();
+  }
+  return null;
+}
+
+export async function deliverEmail(params: EmailParams): Promise<EmailDeliveryResult> {
+  // Use provided config or the profile of the post from the database
+  let emailConfig = params.config;
+  let replyTo = params.replyTo;
+  if (!emailConfig) {
     try {
-      await sgMail.send(params);
-      console.log(`Email succesvol verzonden naar ${params.to} via SendGrid`);
-      return true;
+      const sender = await resolveEmailSender(params.ambulancePostId);
+      emailConfig = sender.config;
+      replyTo = replyTo ?? sender.replyTo;
+      console.log(`Email config opgehaald uit database${emailConfig ? ` (profiel ${emailConfig.name})` : ''}`);
     } catch (error) {
-      console.error('SendGrid email fout:', error);
-      return false;
+      console.log('Geen email configuratie gevonden in database');
     }
+  } else {
+    console.log('Email config gebruikt uit request parameters');
   }
 
-  // If no email configuration is available, log the attempt
-  console.log('Geen email configuratie beschikbaar - email zou verzonden worden naar:', params.to);
-  console.log('Onderwerp:', params.subject);
-  console.log('Configureer SMTP instellingen in de Email Instellingen pagina of stel SENDGRID_API_KEY environment variable in');
-  return false; // Return false to indicate email was not actually sent
+  const transport = getEmailTransport(emailConfig);
+  if (!transport) {
+    // If no email configuration is available, log the attempt
+    console.log('Geen email configuratie beschikbaar - email zou verzonden worden naar:', params.to);
+    console.log('Onderwerp:', params.subject);
+    console.log('Configureer een email profiel in de Email Instellingen pagina of stel SENDGRID_API_KEY environment variable in');
+    return { sent: false, error: 'Geen email configuratie beschikbaar' }; // Email was not actually sent
+  }
+
+  const useProfile = transport.name !== 'SendGrid' && emailConfig;
+  try {
+    await transport.send({
+      to: params.to,
+      from: useProfile ? emailConfig!.fromEmail || params.from : params.from,
+      fromName: useProfile ? emailConfig!.fromName : undefined,
+      replyTo,
+      subject: params.subject,
+      html: params.html,
+      text: params.text ?? htmlToText(params.html),
+      attachments: params.attachments ?? [],
+    });
+    console.log(`Email succesvol verzonden naar ${params.to} via ${transport.name}`);
+    return { sent: true, error: null };
+  } catch (error: any) {
+    return { sent: false, error: error.message || 'Onbekende fout' };
+  }
 }
 
-interface EmailItemData {
+export interface EmailItemData {
   name: string;
   description?: string | null;
   category: string;
   expiryDate?: string | null;
-  drawer?: string;
+  drawer?: string | null;
   ambulancePost?: string;
+  photoUrl?: string | null;
+  photoSrc?: string | null; // where the <img> points - cid: in sent emails, the object url in previews
 }
 
-export function generateRestockEmailHTML(item: EmailItemData, cabinetName: string, status: string = "Bijna op"): string {
+export const ITEM_PHOTO_CID = 'item-photo';
+
+// Inline image for the item photo, if the item has one
+export function getItemPhotoImages(item: { photoUrl?: string | null }): EmailInlineImage[] {
+  return item.photoUrl ? [{ cid: ITEM_PHOTO_CID, objectPath: item.photoUrl }] : [];
+}
+
+// Values that end up in the HTML are escaped - names and descriptions are free text
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('nl-NL');
+
+export function renderActionButtons(links: SupplyRequestActionLinks): string {
+  return `
+          <a href="${links.received}" class="action action-received">Ontvangen</a>
+          <a href="${links.restocked}" class="action action-restocked">Aangevuld</a>
+          <a href="${links.unavailable}" class="action action-unavailable">Niet leverbaar</a>`;
+}
+
+// Detail block for a single item - the {{items}} placeholder of the restock templates
+export function renderItemDetailsHTML(item: EmailItemData, cabinetName: string): string {
+  return `
+        <div class="item-details">
+          <h3>Item informatie</h3>
+          <p><strong>Artikel:</strong> ${escapeHtml(item.name)}</p>
+          ${item.description ? `<p><strong>Beschrijving:</strong> ${escapeHtml(item.description)}</p>` : ''}
+          <p><strong>Categorie:</strong> ${escapeHtml(item.category)}</p>
+          <p><strong>Locatie:</strong> ${escapeHtml(cabinetName)}</p>
+          ${item.drawer ? `<p><strong>Lade:</strong> ${escapeHtml(item.drawer)}</p>` : ''}
+          ${item.ambulancePost ? `<p><strong>Ambulancepost:</strong> ${escapeHtml(item.ambulancePost)}</p>` : ''}
+          ${item.expiryDate ? `<p><strong>Vervaldatum:</strong> ${formatDate(item.expiryDate)}</p>` : ''}
+          ${item.photoSrc ? `<img src="${escapeHtml(item.photoSrc)}" alt="Foto van ${escapeHtml(item.name)}" class="item-photo">` : ''}
+        </div>`;
+}
+
+export interface RestockBatchLine {
+  itemName: string;
+  category: string;
+  cabinetName: string;
+  drawer: string | null;
+  status: string;
+  expiryDate?: string | null;
+  actionLinks?: SupplyRequestActionLinks;
+}
+
+// Table with several items, each with its own acknowledgement links
+export function renderRestockTableHTML(lines: RestockBatchLine[]): string {
+  const rows = lines.map(line => `
+          <tr>
+            <td>${escapeHtml(line.itemName)}</td>
+            <td>${escapeHtml(line.category)}</td>
+            <td>${escapeHtml(line.cabinetName)}</td>
+            <td>${line.drawer ? escapeHtml(line.drawer) : '-'}</td>
+            <td class="${line.status === 'OP' ? 'empty' : 'low'}">${line.status}</td>
+            <td>${line.expiryDate ? formatDate(line.expiryDate) : '-'}</td>
+          </tr>${line.actionLinks ? `
+          <tr>
+            <td colspan="6" class="actions">${renderActionButtons(line.actionLinks)}
+            </td>
+          </tr>` : ''}`).join('');
+
+  return `
+        <table>
+          <thead>
+            <tr>
+              <th>Artikel</th>
+              <th>Categorie</th>
+              <th>Kast</th>
+              <th>Lade</th>
+              <th>Status</th>
+              <th>Vervaldatum</th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>`;
+}
+
+export interface ExpiryDigestLine {
+  itemName: string;
+  cabinetName: string;
+  drawer: string | null;
+  lotNumber: string | null;
+  expiryDate: string;
+  daysUntilExpiry: number;
+}
+
+export function renderExpiryTableHTML(lines: ExpiryDigestLine[]): string {
+  const rows = lines.map(line => {
+    const expired = line.daysUntilExpiry < 0;
+    const remaining = expired
+      ? 'Verlopen'
+      : line.daysUntilExpiry === 0 ? 'Vandaag' : `Nog ${line.daysUntilExpiry} dagen`;
+    return `
+          <tr>
+            <td>${escapeHtml(line.itemName)}</td>
+            <td>${escapeHtml(line.cabinetName)}${line.drawer ? ` - ${escapeHtml(line.drawer)}` : ''}</td>
+            <td>${line.lotNumber ? escapeHtml(line.lotNumber) : '-'}</td>
+            <td>${formatDate(line.expiryDate)}</td>
+            <td class="${expired ? 'expired' : line.daysUntilExpiry <= 7 ? 'soon' : ''}">${remaining}</td>
+          </tr>`;
+  }).join('');
+
+  return `
+        <table>
+          <thead>
+            <tr>
+              <th>Artikel</th>
+              <th>Locatie</th>
+              <th>Lot</th>
+              <th>Vervaldatum</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>`;
+}
+
+// Shared frame around every template body - header, styles and footer stay in code
+export function wrapEmailLayout(title: string, headerColor: string, body: string): string {
   return `
     <!DOCTYPE html>
     <html>
@@ -164,39 +525,31 @@ export function generateRestockEmailHTML(item: EmailItemData, cabinetName: strin
       <meta charset="utf-8">
       <style>
         body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .header { background-color: #4a90e2; color: white; padding: 20px; text-align: center; }
-        .content { padding: 20px; max-width: 600px; }
-        .item-details { background-color: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #4a90e2; }
+        .header { background-color: ${headerColor}; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; max-width: 700px; }
+        .item-details { background-color: #f8fafc; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid ${headerColor}; }
+        .item-photo { display: block; max-width: 240px; max-height: 240px; margin-top: 10px; border-radius: 6px; }
+        .success-box { background-color: #f0f9ff; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0; }
+        table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e2e8f0; font-size: 14px; }
+        th { background-color: #f8fafc; }
+        td.actions { border-bottom: 2px solid #e2e8f0; padding-top: 0; }
+        .expired, .empty { color: #dc2626; font-weight: bold; }
+        .soon, .low { color: #d97706; font-weight: bold; }
+        .action { display: inline-block; padding: 6px 12px; margin: 2px 4px 2px 0; border-radius: 6px; color: white !important; text-decoration: none; font-size: 13px; }
+        .action-received { background-color: #4a90e2; }
+        .action-restocked { background-color: #16a34a; }
+        .action-unavailable { background-color: #dc2626; }
         .footer { background-color: #f1f5f9; padding: 15px; text-align: center; color: #64748b; font-size: 14px; }
-        .greeting { margin-bottom: 20px; }
       </style>
     </head>
     <body>
       <div class="header">
-        <h1>Medische Inventaris - Aanvulverzoek</h1>
+        <h1>${title}</h1>
       </div>
       
       <div class="content">
-        <div class="greeting">
-          <p>Beste collega,</p>
-          <p>Het volgende medische item heeft aanvulling nodig:</p>
-        </div>
-        
-        <div class="item-details">
-          <h3>Item informatie</h3>
-          <p><strong>Artikel:</strong> ${item.name}</p>
-          ${item.description ? `<p><strong>Beschrijving:</strong> ${item.description}</p>` : ''}
-          <p><strong>Categorie:</strong> ${item.category}</p>
-          <p><strong>Locatie:</strong> ${cabinetName}</p>
-          ${item.drawer ? `<p><strong>Lade:</strong> ${item.drawer}</p>` : ''}
-          ${item.ambulancePost ? `<p><strong>Ambulancepost:</strong> ${item.ambulancePost}</p>` : ''}
-          ${item.expiryDate ? `<p><strong>Vervaldatum:</strong> ${new Date(item.expiryDate).toLocaleDateString('nl-NL')}</p>` : ''}
-        </div>
-        
-        <p>Zou je dit item kunnen aanvullen wanneer het uitkomt? Bedankt voor je medewerking!</p>
-        
-        <p>Met vriendelijke groet,<br>
-        Het Medische Inventaris Systeem</p>
+${body}
       </div>
       
       <div class="footer">
@@ -205,4 +558,4 @@ export function generateRestockEmailHTML(item: EmailItemData, cabinetName: strin
     </body>
     </html>
   `;
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import type { ExpiryEntry, PostContact } from "@shared/schema";
+import { storage } from "./storage";
+import { renderExpiryTableHTML } from "./email";
+import { enqueueEmail } from "./email-queue";
+import { renderEmail } from "./email-templates";
+import { getExpiryEntries, localDateString, localTimeString } from "./expiry";
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+let isRunning = false;
+
+export interface ExpiryWarningRunResult {
+  digestsQueued: number;
+  warningsQueued: number;
+}
+
+// Smallest configured window the entry falls in - 0 stands for "already expired"
+function getWarningWindow(entry: ExpiryEntry, windowDays: number[]): number | null {
+  if (entry.daysUntilExpiry < 0) return 0;
+  const windows = [...windowDays].sort((a, b) => a - b);
+  return windows.find(days => entry.daysUntilExpiry <= days) ?? null;
+}
+
+// One key per lot/location, expiry date and window, so each warning goes out once per recipient
+function getNotificationKey(entry: ExpiryEntry, window: number): string {
+  return `expiry:${entry.lotId ?? entry.locationId}:${entry.expiryDate}:${window}`;
+}
+
+// Send one digest per contact with everything that newly entered a warning window
+export async function runExpiryWarnings(): Promise<ExpiryWarningRunResult> {
+  const result: ExpiryWarningRunResult = { digestsQueued: 0, warningsQueued: 0 };
+  const settings = await storage.getExpiryWarningSettings();
+  const [entries, contacts, posts] = await Promise.all([
+    getExpiryEntries(),
+    storage.getPostContacts(),
+    storage.getAmbulancePosts(),
+  ]);
+
+  const activeContacts = contacts.filter(contact => contact.isActive !== false);
+  const digests = new Map<string, { contact: PostContact; entries: { entry: ExpiryEntry; key: string }[] }>();
+
+  for (const entry of entries) {
+    const window = getWarningWindow(entry, settings.windowDays);
+    if (window === null) continue;
+
+    // The contact of the location gets the warning, otherwise every active contact of the post
+    const recipients = entry.contactPersonId
+      ? activeContacts.filter(contact => contact.id === entry.contactPersonId)
+      : activeContacts.filter(contact => contact.ambulancePostId === entry.ambulancePostId);
+
+    for (const contact of recipients) {
+      const digest = digests.get(contact.id) ?? { contact, entries: [] };
+      digest.entries.push({ entry, key: getNotificationKey(entry, window) });
+      digests.set(contact.id, digest);
+    }
+  }
+
+  for (const { contact, entries: digestEntries } of Array.from(digests.values())) {
+    const alreadySent = new Set(await storage.getNotificationKeysForRecipient(contact.email));
+    const newEntries = digestEntries.filter(({ key }) => !alreadySent.has(key));
+    if (newEntries.length === 0) continue;
+
+    const postName = posts.find(post => post.id === contact.ambulancePostId)?.name ?? "je post";
+    const email = await renderEmail("expiry-warning", {
+      "item.name": `${newEntries.length} item(s)`,
+      "post": postName,
+      "contact.name": contact.name,
+      "items": renderExpiryTableHTML(newEntries.map(({ entry }) => entry)),
+    });
+    // The outbox retries failed sends, so the warnings count as handled once queued
+    await enqueueEmail({
+      to: contact.email,
+      from: "inventaris@ziekenhuis.nl",
+      subject: email.subject,
+      html: email.html,
+      ambulancePostId: contact.ambulancePostId,
+    });
+
+    for (const { entry, key } of newEntries) {
+      await storage.createEmailNotification({
+        itemId: entry.itemId,
+        recipientEmail: contact.email,
+        department: contact.department || "Vervaldatum waarschuwing",
+        notificationKey: key,
+      });
+    }
+    result.digestsQueued++;
+    result.warningsQueued += newEntries.length;
+  }
+
+  return result;
+}
+
+async function checkSchedule() {
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const settings = await storage.getExpiryWarningSettings();
+    const today = localDateString();
+    if (!settings.enabled || settings.lastRunDate === today || localTimeString() < settings.sendTime) {
+      return;
+    }
+
+    // Claim the day first so a failing run is not retried every few minutes
+    if (!(await storage.claimExpiryWarningRun(today))) return;
+    const result = await runExpiryWarnings();
+    console.log(`Expiry warnings: ${result.digestsQueued} digest(s) queued with ${result.warningsQueued} warning(s)`);
+  } catch (error) {
+    console.error("Error running expiry warnings:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+// Daily expiry digest inside the web process - checks every few minutes whether the send time has passed
+export function startExpiryWarningScheduler() {
+  setInterval(checkSchedule, CHECK_INTERVAL_MS).unref();
+  void checkSchedule();
+}
@@ -0,0 +1,99 @@
+import type { ExpiryEntry, ExpiryGroup, ItemLot } from "@shared/schema";
+import { storage } from "./storage";
+
+// Expiry dates are calendar dates for the Dutch posts, independent of the server time zone
+const TIME_ZONE = "Europe/Amsterdam";
+
+// Today's date as YYYY-MM-DD in Dutch time
+export function localDateString(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat("sv-SE", { timeZone: TIME_ZONE }).format(date);
+}
+
+// Current time as HH:MM in Dutch time
+export function localTimeString(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat("nl-NL", { timeZone: TIME_ZONE, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(date);
+}
+
+// Overview buckets: expired, within a week, within a month, later
+export function getExpiryGroup(daysUntilExpiry: number): ExpiryGroup {
+  if (daysUntilExpiry < 0) return "verlopen";
+  if (daysUntilExpiry <= 7) return "deze-week";
+  if (daysUntilExpiry <= 31) return "deze-maand";
+  return "later";
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+function expiryTiming(today: string, expiryDate: string) {
+  const daysUntilExpiry = daysBetween(today, expiryDate);
+  return { daysUntilExpiry, group: getExpiryGroup(daysUntilExpiry) };
+}
+
+// Every lot (or item expiry for locations without lots), ordered by expiry date
+export async function getExpiryEntries(): Promise<ExpiryEntry[]> {
+  const [items, locations, lots, posts, cabinets] = await Promise.all([
+    storage.getMedicalItems(),
+    storage.getItemLocations(),
+    storage.getAllLots(),
+    storage.getAmbulancePosts(),
+    storage.getCabinets(),
+  ]);
+
+  const today = localDateString();
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const postNames = new Map(posts.map(post => [post.id, post.name]));
+  const cabinetNames = new Map(cabinets.map(cabinet => [cabinet.id, cabinet.name]));
+  const lotsByLocation = new Map<string, ItemLot[]>();
+  for (const lot of lots) {
+    const locationLots = lotsByLocation.get(lot.locationId);
+    if (locationLots) locationLots.push(lot);
+    else lotsByLocation.set(lot.locationId, [lot]);
+  }
+
+  const entries: ExpiryEntry[] = [];
+  for (const location of locations) {
+    // Discontinued items are left out, as in the other overviews
+    const item = itemsById.get(location.itemId);
+    if (!item || item.isDiscontinued) continue;
+
+    const base = {
+      itemId: item.id,
+      itemName: item.name,
+      category: item.category,
+      locationId: location.id,
+      ambulancePostId: location.ambulancePostId,
+      ambulancePostName: postNames.get(location.ambulancePostId) ?? "Onbekende post",
+      cabinetId: location.cabinet,
+      cabinetName: cabinetNames.get(location.cabinet) ?? `Kast ${location.cabinet}`,
+      drawer: location.drawer,
+      contactPersonId: location.contactPersonId,
+    };
+
+    const locationLots = lotsByLocation.get(location.id) ?? [];
+    if (locationLots.length > 0) {
+      for (const lot of locationLots) {
+        entries.push({
+          ...base,
+          lotId: lot.id,
+          lotNumber: lot.lotNumber,
+          quantity: lot.quantity,
+          expiryDate: lot.expiryDate,
+          ...expiryTiming(today, lot.expiryDate),
+        });
+      }
+    } else if (item.expiryDate) {
+      entries.push({
+        ...base,
+        lotId: null,
+        lotNumber: null,
+        quantity: location.currentQuantity,
+        expiryDate: item.expiryDate,
+        ...expiryTiming(today, item.expiryDate),
+      });
+    }
+  }
+
+  return entries.sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.itemName.localeCompare(b.itemName));
+}
@@ -2,6 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import compression from "compression";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startExpiryWarningScheduler } from "./expiry-warnings";
+import { startEmailQueueWorker } from "./email-queue";
+import { storage } from "./storage";
 
 const app = express();
 
@@ -99,5 +102,11 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startExpiryWarningScheduler();
+    startEmailQueueWorker();
+    // Encrypt SMTP passwords that were saved before encryption existed
+    storage.encryptPlaintextEmailPasswords()
+      .then(count => count > 0 && log(`${count} SMTP wachtwoord(en) versleuteld`))
+      .catch(error => console.error("Could not encrypt stored SMTP passwords:", error));
   });
 })();
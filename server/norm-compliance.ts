@@ -0,0 +1,92 @@
+import { isQuantityTracked, normComplianceStatuses, type ItemLocation, type MedicalItem, type NormCompliance, type NormComplianceStatus, type NormListItem, type NormListWithItems } from "@shared/schema";
+import { storage } from "./storage";
+
+export async function getNormListsWithItems(): Promise<NormListWithItems[]> {
+  const [lists, items, assignments] = await Promise.all([
+    storage.getNormLists(),
+    storage.getNormListItems(),
+    storage.getPostNormLists(),
+  ]);
+  return lists.map(list => ({
+    ...list,
+    items: items.filter(item => item.normListId === list.id),
+    ambulancePostIds: assignments.filter(assignment => assignment.normListId === list.id).map(assignment => assignment.ambulancePostId),
+  }));
+}
+
+// A norm item without cabinet or drawer is met by the item anywhere on the post
+const matchesNormItem = (normItem: NormListItem) => (location: ItemLocation) =>
+  location.itemId === normItem.itemId
+  && (!normItem.cabinet || location.cabinet === normItem.cabinet)
+  && (!normItem.drawer || location.drawer === normItem.drawer);
+
+function getComplianceStatus(normItem: NormListItem, item: MedicalItem, locations: ItemLocation[], currentQuantity: number | null): NormComplianceStatus {
+  if (item.isDiscontinued) return "uit-assortiment";
+  if (locations.length === 0) return "ontbreekt";
+  if (locations.every(location => location.stockStatus === "niet-meer-aanwezig")) return "niet-meer-aanwezig";
+  // The minimum can only be checked when the locations are counted
+  if (normItem.minQuantity != null && currentQuantity != null && currentQuantity < normItem.minQuantity) return "te-weinig";
+  return "ok";
+}
+
+// Per post: every item its norm lists require, with what is wrong about it
+export async function getNormCompliance(ambulancePostIds: string[]): Promise<NormCompliance[]> {
+  const [posts, lists, locations, items, cabinets] = await Promise.all([
+    storage.getAmbulancePosts(),
+    getNormListsWithItems(),
+    storage.getItemLocations(),
+    storage.getMedicalItems(),
+    storage.getCabinets(),
+  ]);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  return posts
+    .filter(post => ambulancePostIds.includes(post.id))
+    .map(post => {
+      const postLists = lists.filter(list => list.ambulancePostIds.includes(post.id));
+      const postLocations = locations.filter(location => location.ambulancePostId === post.id);
+
+      const lines = postLists.flatMap(list => list.items.flatMap(normItem => {
+        const item = itemsById.get(normItem.itemId);
+        if (!item) return [];
+
+        const matching = postLocations.filter(matchesNormItem(normItem));
+        const counted = matching.filter(location => isQuantityTracked(location));
+        const currentQuantity = counted.length > 0
+          ? counted.reduce((total, location) => total + location.currentQuantity!, 0)
+          : null;
+        const replacement = item.replacementItemId ? itemsById.get(item.replacementItemId) : undefined;
+
+        return [{
+          normListId: list.id,
+          normListName: list.name,
+          normItemId: normItem.id,
+          itemId: item.id,
+          itemName: item.name,
+          category: item.category,
+          cabinet: normItem.cabinet,
+          cabinetName: normItem.cabinet ? cabinets.find(cabinet => cabinet.id === normItem.cabinet)?.name ?? `Kast ${normItem.cabinet}` : null,
+          drawer: normItem.drawer,
+          minQuantity: normItem.minQuantity,
+          currentQuantity,
+          locationCount: matching.length,
+          status: getComplianceStatus(normItem, item, matching, currentQuantity),
+          replacementItemName: replacement?.name ?? null,
+        }];
+      }));
+
+      // Problems first, in the order of the status list, then by name
+      lines.sort((a, b) =>
+        (a.status === "ok" ? 1 : 0) - (b.status === "ok" ? 1 : 0)
+        || normComplianceStatuses.indexOf(a.status) - normComplianceStatuses.indexOf(b.status)
+        || a.itemName.localeCompare(b.itemName, "nl")
+      );
+
+      return {
+        ambulancePostId: post.id,
+        ambulancePostName: post.name,
+        normListNames: postLists.map(list => list.name),
+        lines,
+      };
+    });
+}
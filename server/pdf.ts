@@ -0,0 +1,258 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { getCabinetColorHex, type PickListLine } from "@shared/schema";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { getPickList } from "./pick-list";
+import { getCabinetDrawerLabels, getDrawerViewUrl } from "./drawer-view";
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+const MARGIN = 40;
+const PHOTO_SIZE = 40;
+const ROW_HEIGHT = 48;
+
+// Collect the streamed PDF into one buffer for the response
+async function renderToBuffer(draw: (doc: Doc) => Promise<void> | void): Promise<Buffer> {
+  // Pages stay buffered so the footer with page numbers can be added at the end
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+  await draw(doc);
+  doc.end();
+  return finished;
+}
+
+// Item photo from object storage - missing photos leave an empty frame
+async function loadPhoto(photoUrl: string | null): Promise<Buffer | null> {
+  if (!photoUrl) return null;
+  try {
+    const file = await new ObjectStorageService().getObjectEntityFile(photoUrl);
+    const [content] = await file.download();
+    return content;
+  } catch (error) {
+    console.error(`Photo ${photoUrl} could not be loaded for PDF:`, error);
+    return null;
+  }
+}
+
+// Dark text on light cabinet colours, white on the rest
+function getTextColor(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map(index => parseInt(hex.slice(index, index + 2), 16));
+  return (r * 299 + g * 587 + b * 114) / 1000 > 160 ? "#1E293B" : "#FFFFFF";
+}
+
+function ensureSpace(doc: Doc, height: number, onNewPage: () => void) {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+    onNewPage();
+  }
+}
+
+function drawFooter(doc: Doc, text: string) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // The footer sits in the bottom margin - without this pdfkit would start a new page for it
+    doc.page.margins.bottom = 0;
+    doc.fontSize(8).fillColor("#64748B").text(
+      `${text} · pagina ${index + 1} van ${range.count}`,
+      MARGIN,
+      doc.page.height - MARGIN + 10,
+      { width: doc.page.width - MARGIN * 2, align: "center", lineBreak: false },
+    );
+  }
+}
+
+const generatedOn = () => `Gegenereerd op ${new Date().toLocaleDateString("nl-NL")}`;
+
+// Content sheet for a cabinet door: every item of one post in that cabinet, drawer by drawer
+export async function renderCabinetSheetPdf(ambulancePostId: string, cabinetId: string): Promise<Buffer | undefined> {
+  const [ambulancePost, cabinet, locations, items, cabinetLocations] = await Promise.all([
+    storage.getAmbulancePost(ambulancePostId),
+    storage.getCabinet(cabinetId),
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getMedicalItems(),
+    storage.getCabinetLocationsByPost(ambulancePostId),
+  ]);
+  if (!ambulancePost || !cabinet) return undefined;
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const drawers = new Map<string, { name: string; photoUrl: string | null; category: string; description: string | null }[]>();
+  for (const location of locations) {
+    const item = itemsById.get(location.itemId);
+    if (location.cabinet !== cabinet.id || !item || item.isDiscontinued) continue;
+    const drawer = location.drawer || "Zonder lade";
+    drawers.set(drawer, [...(drawers.get(drawer) ?? []), item]);
+  }
+  const drawerNames = Array.from(drawers.keys()).sort((a, b) => a.localeCompare(b, "nl", { numeric: true }));
+
+  const photoUrls = Array.from(new Set(Array.from(drawers.values()).flat().map(item => item.photoUrl).filter((url): url is string => !!url)));
+  const photos = new Map(await Promise.all(photoUrls.map(async url => [url, await loadPhoto(url)] as const)));
+
+  const color = getCabinetColorHex(cabinet.color);
+  const textColor = getTextColor(color);
+  const specificLocation = cabinetLocations.find(location => location.cabinetId === cabinet.id)?.specificLocation;
+
+  return renderToBuffer(doc => {
+    const width = doc.page.width - MARGIN * 2;
+
+    const drawHeader = (continued: boolean) => {
+      const height = continued ? 36 : 80;
+      doc.rect(MARGIN, MARGIN, width, height).fill(color);
+      doc.fillColor(textColor).font("Helvetica-Bold");
+      if (continued) {
+        doc.fontSize(14).text(`${cabinet.abbreviation}  ${cabinet.name} (vervolg)`, MARGIN + 12, MARGIN + 11, { width: width - 24 });
+      } else {
+        doc.fontSize(36).text(cabinet.abbreviation, MARGIN + 12, MARGIN + 18, { width: 90 });
+        doc.fontSize(20).text(cabinet.name, MARGIN + 110, MARGIN + 16, { width: width - 122 });
+        doc.font("Helvetica").fontSize(11).text(
+          [ambulancePost.name, specificLocation].filter(Boolean).join(" · "),
+          MARGIN + 110,
+          MARGIN + 46,
+          { width: width - 122 },
+        );
+      }
+      doc.fillColor("#000000").font("Helvetica");
+      doc.y = MARGIN + height + 16;
+    };
+
+    drawHeader(false);
+    if (drawerNames.length === 0) {
+      doc.fontSize(12).fillColor("#64748B").text("Deze kast heeft geen items op deze post.", MARGIN, doc.y);
+    }
+
+    for (const drawerName of drawerNames) {
+      // Keep the drawer heading together with its first item
+      ensureSpace(doc, 26 + ROW_HEIGHT, () => drawHeader(true));
+      doc.rect(MARGIN, doc.y, width, 22).fill("#F1F5F9");
+      doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(12).text(drawerName, MARGIN + 8, doc.y + 6, { width: width - 16 });
+      doc.y += 10;
+
+      const drawerItems = drawers.get(drawerName)!.sort((a, b) => a.name.localeCompare(b.name, "nl"));
+      for (const item of drawerItems) {
+        ensureSpace(doc, ROW_HEIGHT, () => drawHeader(true));
+        const top = doc.y;
+        const photo = item.photoUrl ? photos.get(item.photoUrl) : null;
+        doc.rect(MARGIN, top, PHOTO_SIZE, PHOTO_SIZE).lineWidth(0.5).stroke("#CBD5E1");
+        if (photo) {
+          try {
+            doc.image(photo, MARGIN, top, { fit: [PHOTO_SIZE, PHOTO_SIZE], align: "center", valign: "center" });
+          } catch {
+            // Only JPEG and PNG can be embedded - other formats keep the empty frame
+          }
+        }
+        doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(11)
+          .text(item.name, MARGIN + PHOTO_SIZE + 10, top + 6, { width: width - PHOTO_SIZE - 10, lineBreak: false, ellipsis: true });
+        doc.fillColor("#64748B").font("Helvetica").fontSize(9)
+          .text([item.category, item.description].filter(Boolean).join(" · "), MARGIN + PHOTO_SIZE + 10, top + 22, { width: width - PHOTO_SIZE - 10, lineBreak: false, ellipsis: true });
+        doc.y = top + ROW_HEIGHT;
+      }
+      doc.y += 6;
+    }
+
+    drawFooter(doc, `${ambulancePost.name} · ${cabinet.name} · ${generatedOn()}`);
+  });
+}
+
+function drawPickListLine(doc: Doc, line: PickListLine, width: number) {
+  const top = doc.y;
+  // Square to tick off with a pen
+  doc.rect(MARGIN, top + 2, 12, 12).lineWidth(1).stroke("#334155");
+  doc.fillColor("#334155").font("Helvetica").fontSize(10).text(line.storeLocation ?? "-", MARGIN + 22, top + 3, { width: 60, lineBreak: false, ellipsis: true });
+  doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(11)
+    .text(`${line.itemName} – ${line.postCount} ${line.postCount === 1 ? "post" : "posten"}`, MARGIN + 90, top + 2, { width: width - 150, lineBreak: false, ellipsis: true });
+  doc.font("Helvetica").text(line.quantityNeeded !== null ? `${line.quantityNeeded}x` : "", MARGIN + width - 50, top + 2, { width: 50, align: "right" });
+
+  doc.fillColor("#64748B").fontSize(9);
+  let y = top + 18;
+  for (const location of line.locations) {
+    const status = location.stockStatus === "niet-meer-aanwezig" ? "OP" : "bijna op";
+    const quantity = location.quantityNeeded !== null ? ` · ${location.quantityNeeded} stuks` : "";
+    doc.text(
+      `${location.ambulancePostName} · ${location.cabinetName}${location.drawer ? ` · ${location.drawer}` : ""} · ${status}${quantity}`,
+      MARGIN + 90,
+      y,
+      { width: width - 90, lineBreak: false, ellipsis: true },
+    );
+    y += 12;
+  }
+  doc.moveTo(MARGIN, y + 4).lineTo(MARGIN + width, y + 4).lineWidth(0.5).stroke("#E2E8F0");
+  doc.y = y + 10;
+}
+
+// Printable version of the pick list page, in the same walking order
+export async function renderPickListPdf(ambulancePostIds: string[]): Promise<Buffer> {
+  const [lines, posts] = await Promise.all([getPickList(ambulancePostIds), storage.getAmbulancePosts()]);
+  const postNames = posts.filter(post => ambulancePostIds.includes(post.id)).map(post => post.name);
+
+  return renderToBuffer(doc => {
+    const width = doc.page.width - MARGIN * 2;
+
+    doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(20).text("Picklijst", MARGIN, MARGIN);
+    doc.font("Helvetica").fontSize(11).fillColor("#475569").text(`Voor: ${postNames.join(", ")}`, { width });
+    doc.moveDown();
+
+    if (lines.length === 0) {
+      doc.fontSize(12).text("Niets aan te vullen voor de gekozen posten.");
+    }
+    for (const line of lines) {
+      ensureSpace(doc, 24 + line.locations.length * 12, () => { doc.y = MARGIN; });
+      drawPickListLine(doc, line, width);
+    }
+
+    drawFooter(doc, `Picklijst · ${generatedOn()}`);
+  });
+}
+
+const LABEL_WIDTH = 250;
+const LABEL_HEIGHT = 170;
+const LABEL_GAP = 15;
+const QR_SIZE = 110;
+
+// Sticker sheet for one cabinet at a post: a label for the whole cabinet and one per drawer
+export async function renderDrawerLabelsPdf(ambulancePostId: string, cabinetId: string, baseUrl: string): Promise<Buffer | undefined> {
+  const [ambulancePost, cabinet, drawerLabels] = await Promise.all([
+    storage.getAmbulancePost(ambulancePostId),
+    storage.getCabinet(cabinetId),
+    getCabinetDrawerLabels(ambulancePostId, cabinetId),
+  ]);
+  if (!ambulancePost || !cabinet) return undefined;
+
+  const labels = await Promise.all([null, ...drawerLabels].map(async drawer => ({
+    title: drawer?.name ?? "Hele kast",
+    qr: await QRCode.toBuffer(getDrawerViewUrl(baseUrl, ambulancePost.id, cabinet.id, drawer), { margin: 1, width: 330 }),
+  })));
+
+  const color = getCabinetColorHex(cabinet.color);
+  const textColor = getTextColor(color);
+
+  return renderToBuffer(doc => {
+    const columns = Math.floor((doc.page.width - MARGIN * 2 + LABEL_GAP) / (LABEL_WIDTH + LABEL_GAP));
+    const rows = Math.floor((doc.page.height - MARGIN * 2 + LABEL_GAP) / (LABEL_HEIGHT + LABEL_GAP));
+
+    labels.forEach((label, index) => {
+      const position = index % (columns * rows);
+      if (index > 0 && position === 0) doc.addPage();
+      const x = MARGIN + (position % columns) * (LABEL_WIDTH + LABEL_GAP);
+      const y = MARGIN + Math.floor(position / columns) * (LABEL_HEIGHT + LABEL_GAP);
+
+      // Dashed outline to cut along
+      doc.rect(x, y, LABEL_WIDTH, LABEL_HEIGHT).lineWidth(0.5).dash(3, { space: 3 }).stroke("#94A3B8").undash();
+      doc.rect(x, y, LABEL_WIDTH, 30).fill(color);
+      doc.fillColor(textColor).font("Helvetica-Bold").fontSize(13)
+        .text(`${cabinet.abbreviation}  ${cabinet.name}`, x + 10, y + 9, { width: LABEL_WIDTH - 20, lineBreak: false, ellipsis: true });
+
+      doc.image(label.qr, x + 10, y + 42, { width: QR_SIZE, height: QR_SIZE });
+      const textX = x + QR_SIZE + 20;
+      const textWidth = LABEL_WIDTH - QR_SIZE - 30;
+      doc.fillColor("#0F172A").font("Helvetica-Bold").fontSize(16).text(label.title, textX, y + 46, { width: textWidth, height: 58, ellipsis: true });
+      doc.fillColor("#475569").font("Helvetica").fontSize(9).text(ambulancePost.name, textX, y + 108, { width: textWidth, lineBreak: false, ellipsis: true });
+      doc.text("Scan om te melden wat bijna op of op is", textX, y + 122, { width: textWidth });
+    });
+  });
+}
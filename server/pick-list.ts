@@ -0,0 +1,89 @@
+import { isQuantityTracked, type ItemLocation, type PickListLine } from "@shared/schema";
+import { storage } from "./storage";
+import { restockLocation } from "./supply-requests";
+
+const needsPicking = (location: ItemLocation) =>
+  location.isLowStock || location.stockStatus === "bijna-op" || location.stockStatus === "niet-meer-aanwezig";
+
+// Same target as restockLocation: the max, or just above the par level without one
+function getQuantityNeeded(location: ItemLocation): number | null {
+  if (!isQuantityTracked(location)) return null;
+  const target = location.maxQuantity ?? location.minQuantity! + 1;
+  return Math.max(target - location.currentQuantity!, 0);
+}
+
+// Store locations like "A-2" and "A-10" sort as a person reads them, items without one go last
+function compareStoreLocation(a: string | null, b: string | null): number {
+  if (a && b) return a.localeCompare(b, "nl", { numeric: true });
+  return a ? -1 : b ? 1 : 0;
+}
+
+// Every low or out location of the given posts, grouped per item
+export async function getPickList(ambulancePostIds: string[]): Promise<PickListLine[]> {
+  const [items, locations, openRequests, posts, cabinets] = await Promise.all([
+    storage.getMedicalItems(),
+    storage.getItemLocations(),
+    storage.getOpenSupplyRequests(),
+    storage.getAmbulancePosts(),
+    storage.getCabinets(),
+  ]);
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const lines = new Map<string, PickListLine>();
+
+  for (const location of locations) {
+    if (!ambulancePostIds.includes(location.ambulancePostId) || !needsPicking(location)) continue;
+    const item = itemsById.get(location.itemId);
+    // Discontinued items are not restocked - the replacement item is
+    if (!item || item.isDiscontinued) continue;
+
+    const line = lines.get(item.id) ?? {
+      itemId: item.id,
+      itemName: item.name,
+      category: item.category,
+      storeLocation: item.storeLocation,
+      photoUrl: item.photoUrl,
+      postCount: 0,
+      quantityNeeded: null,
+      locations: [],
+    };
+
+    const quantityNeeded = getQuantityNeeded(location);
+    const cabinet = cabinets.find(candidate => candidate.id === location.cabinet);
+    line.locations.push({
+      locationId: location.id,
+      ambulancePostId: location.ambulancePostId,
+      ambulancePostName: posts.find(post => post.id === location.ambulancePostId)?.name ?? "Onbekende post",
+      cabinetName: cabinet?.name ?? `Kast ${location.cabinet}`,
+      drawer: location.drawer,
+      stockStatus: location.stockStatus,
+      quantityNeeded,
+      supplyRequestId: openRequests.find(request => request.locationId === location.id)?.id ?? null,
+    });
+    if (quantityNeeded !== null) {
+      line.quantityNeeded = (line.quantityNeeded ?? 0) + quantityNeeded;
+    }
+    lines.set(item.id, line);
+  }
+
+  const pickList = Array.from(lines.values());
+  for (const line of pickList) {
+    line.postCount = new Set(line.locations.map(location => location.ambulancePostId)).size;
+    line.locations.sort((a, b) => a.ambulancePostName.localeCompare(b.ambulancePostName, "nl"));
+  }
+  return pickList.sort((a, b) =>
+    compareStoreLocation(a.storeLocation, b.storeLocation) || a.itemName.localeCompare(b.itemName, "nl")
+  );
+}
+
+// Picked locations are back in stock - their open supply requests count as delivered
+export async function completePickList(locationIds: string[]): Promise<number> {
+  let restocked = 0;
+  for (const locationId of locationIds) {
+    const location = await storage.getItemLocation(locationId);
+    if (!location) continue;
+    await restockLocation(location);
+    restocked++;
+  }
+  return restocked;
+}
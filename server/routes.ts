@@ -1,12 +1,54 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertMedicalItemSchema, insertEmailNotificationSchema, insertCabinetSchema, insertEmailConfigSchema, insertAmbulancePostSchema, insertItemLocationSchema, insertPostContactSchema, insertCategorySchema, insertCabinetLocationSchema } from "@shared/schema";
-import { sendEmail, generateRestockEmailHTML } from "./email";
+import { storage, OpenSupplyRequestExistsError } from "./storage";
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import { insertUserSchema, insertMedicalItemSchema, insertEmailNotificationSchema, insertCabinetSchema, insertEmailConfigSchema, insertAmbulancePostSchema, insertItemLocationSchema, insertPostContactSchema, insertCategorySchema, insertCabinetLocationSchema, isQuantityTracked, isOpenSupplyRequest, insertItemLotSchema, insertExpiryWarningSettingsSchema, insertEmailTemplateSchema, supplyRequestTransitions, type SupplyRequestStatus, type OpenSupplyRequest, shiftCheckSubmissionSchema, updateStocktakeLineSchema, stocktakeFindSchema, insertNormListSchema, insertNormListItemSchema, clonePostSchema, type User, type ItemLocation, type EmailConfig, insertDrawerSchema, drawerResolutionSchema } from "@shared/schema";
+import { sendEmail, getItemPhotoImages, createGraphTransport, isEmailConfigComplete } from "./email";
+import { enqueueEmail, enqueueSupplyRequestEmail, drainEmailQueue } from "./email-queue";
+import { renderEmail, renderEmailTemplate, getEmailTemplateViews, getItemEmailValues, getPreviewValues, isEmailTemplateKey } from "./email-templates";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { getCachedAmbulancePosts, getCachedCabinets, getCachedPostContacts, getCachedCabinetOrderByPost, clearPerformanceCache } from "./performance";
+import { setupAuth, requireRole, requirePostAccess, requireCabinetAccess, getManagedPostIds, hashPassword, toPublicUser } from "./auth";
+import { auditContext } from "./audit";
+import { runExpiryWarnings } from "./expiry-warnings";
+import { sendBatchedSupplyRequests, restockLocation, handleSupplyRequestLinkAction } from "./supply-requests";
+import { getSupplyRequestActionLinks, getAppBaseUrl, verifySupplyRequestToken } from "./supply-request-links";
+import { getExpiryEntries, localDateString } from "./expiry";
+import { getPickList, completePickList } from "./pick-list";
+import { renderCabinetSheetPdf, renderPickListPdf, renderDrawerLabelsPdf } from "./pdf";
+import { getDrawerView } from "./drawer-view";
+import { getShiftCheckDrawers, submitShiftCheck, ShiftCheckValidationError } from "./shift-checks";
+import { openStocktake, getStocktakeView, countStocktakeLine, addStocktakeFind, closeStocktake } from "./stocktakes";
+import { getNormListsWithItems, getNormCompliance } from "./norm-compliance";
+import { clonePost } from "./clone-post";
+import { getDrawerMigrationStatus, applyDrawerMatches, resolveDrawerText } from "./drawer-migration";
+import { toPublicEmailConfig } from "./email-credentials";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Login sessions - every /api route below requires an authenticated user
+  setupAuth(app);
+  // Attribute every storage mutation in this request to the logged in user
+  app.use("/api", auditContext);
+
+  // Item-wide stock actions only touch the locations at the caller's own posts
+  const getManagedItemLocations = async (user: User | undefined, itemId: string) => {
+    const [locations, managedPostIds] = await Promise.all([storage.getItemLocationsByItem(itemId), getManagedPostIds(user)]);
+    return managedPostIds ? locations.filter(location => managedPostIds.includes(location.ambulancePostId)) : locations;
+  };
+
+  // Set the status on the manual-status locations - counted locations follow their count.
+  // Returns only the locations whose stored status actually changed
+  const setManualStockStatus = async (locations: ItemLocation[], stockStatus: string) => {
+    const changed: ItemLocation[] = [];
+    for (const location of locations) {
+      if (isQuantityTracked(location) || location.stockStatus === stockStatus) continue;
+      const updated = await storage.updateItemLocation(location.id, { isLowStock: true, stockStatus });
+      if (updated && updated.stockStatus !== location.stockStatus) changed.push(updated);
+    }
+    return changed;
+  };
+
   // Get all medical items with locations - optimized for performance
   app.get("/api/medical-items", async (req, res) => {
     try {
@@ -114,9 +156,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create medical item with multiple locations
-  app.post("/api/medical-items", async (req, res) => {
+  app.post("/api/medical-items", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { locations, isLowStock, stockStatus, ...itemData } = req.body;
+
+      // Coordinators only place items at their own posts
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds && Array.isArray(locations) && locations.some((location: { ambulancePostId?: string }) => !managedPostIds.includes(location.ambulancePostId ?? ""))) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan deze ambulancepost" });
+      }
       
       // Validate medical item data
       const validatedItemData = insertMedicalItemSchema.parse(itemData);
@@ -133,9 +181,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             ambulancePostId: location.ambulancePostId,
             cabinet: location.cabinet,
             drawer: location.drawer || null,
+            drawerId: location.drawerId || null,
             contactPersonId: location.contactPersonId || null,
             isLowStock: isLowStock || false,
-            stockStatus: stockStatus || "op-voorraad"
+            stockStatus: stockStatus || "op-voorraad",
+            currentQuantity: location.currentQuantity ?? null,
+            minQuantity: location.minQuantity ?? null,
+            maxQuantity: location.maxQuantity ?? null
           };
           
           const validatedLocationData = insertItemLocationSchema.parse(locationData);
@@ -162,7 +214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update medical item and locations
-  app.patch("/api/medical-items/:id", async (req, res) => {
+  app.patch("/api/medical-items/:id", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { locations, ...itemData } = req.body;
       
@@ -171,6 +223,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedItem) {
         return res.status(404).json({ message: "Medical item not found" });
       }
+
+      // Coordinators only add, change or remove locations at their own posts - the rest is left as is
+      const managedPostIds = await getManagedPostIds(req.user);
+      const canManage = (ambulancePostId: string) => !managedPostIds || managedPostIds.includes(ambulancePostId);
+      const existingLocations = await storage.getItemLocationsByItem(req.params.id);
+      if (Array.isArray(locations)) {
+        for (const locationData of locations) {
+          if (!locationData.ambulancePostId || !locationData.cabinet) continue;
+          const existingLocation = existingLocations.find(location => location.id === locationData.id);
+          const untouchedForeign = existingLocation && !canManage(existingLocation.ambulancePostId)
+            && existingLocation.ambulancePostId === locationData.ambulancePostId;
+          if (!untouchedForeign && (!canManage(locationData.ambulancePostId) || (existingLocation && !canManage(existingLocation.ambulancePostId)))) {
+            return res.status(403).json({ message: "Je bent niet gekoppeld aan deze ambulancepost" });
+          }
+        }
+      }
       
       // Update the medical item only if there are meaningful fields to update
       const meaningfulFields = Object.entries(itemData).filter(([key, value]) => {
@@ -187,25 +255,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Handle locations update if provided
       let updatedLocations = [];
       if (locations && Array.isArray(locations)) {
-        // Delete existing locations for this item
-        await storage.deleteItemLocationsByItemId(req.params.id);
+        // Existing locations are updated in place so their status history stays attached
+        const keptLocationIds = new Set<string>();
         
-        // Create new locations
         for (const locationData of locations) {
-          if (locationData.ambulancePostId && locationData.cabinet) {
+          const foreignLocation = existingLocations.find(location => location.id === locationData.id && !canManage(location.ambulancePostId));
+          if (foreignLocation) {
+            keptLocationIds.add(foreignLocation.id);
+            updatedLocations.push(foreignLocation);
+          } else if (locationData.ambulancePostId && locationData.cabinet) {
+            const stockStatus = locationData.stockStatus || "op-voorraad";
             const newLocationData = {
               itemId: req.params.id,
               ambulancePostId: locationData.ambulancePostId,
               cabinet: locationData.cabinet,
               drawer: locationData.drawer || null,
+              drawerId: locationData.drawerId || null,
               contactPersonId: locationData.contactPersonId || null,
-              isLowStock: false,
-              stockStatus: itemData.stockStatus || "op-voorraad"
+              isLowStock: stockStatus === 'bijna-op' || stockStatus === 'niet-meer-aanwezig',
+              stockStatus,
+              currentQuantity: locationData.currentQuantity ?? null,
+              minQuantity: locationData.minQuantity ?? null,
+              maxQuantity: locationData.maxQuantity ?? null
             };
             
             const validatedLocationData = insertItemLocationSchema.parse(newLocationData);
-            const createdLocation = await storage.createItemLocation(validatedLocationData);
-            updatedLocations.push(createdLocation);
+            const existingLocation = existingLocations.find(location => location.id === locationData.id);
+            if (existingLocation) {
+              keptLocationIds.add(existingLocation.id);
+              const savedLocation = await storage.updateItemLocation(existingLocation.id, validatedLocationData);
+              if (savedLocation) updatedLocations.push(savedLocation);
+            } else {
+              const createdLocation = await storage.createItemLocation(validatedLocationData);
+              updatedLocations.push(createdLocation);
+            }
+          }
+        }
+        
+        // Remove locations that were taken out in the dialog
+        for (const location of existingLocations) {
+          if (!keptLocationIds.has(location.id) && canManage(location.ambulancePostId)) {
+            await storage.deleteItemLocation(location.id);
           }
         }
       }
@@ -228,7 +318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete medical item
-  app.delete("/api/medical-items/:id", async (req, res) => {
+  app.delete("/api/medical-items/:id", requireRole("administrator"), async (req, res) => {
     try {
       const success = await storage.deleteMedicalItem(req.params.id);
       if (!success) {
@@ -311,8 +401,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/cabinets", async (req, res) => {
+  // ambulancePostIds names the posts the cabinet is placed at next - coordinators only place cabinets at their own posts
+  app.post("/api/cabinets", requireRole("post-coordinator"), async (req, res) => {
     try {
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds) {
+        const postIds: unknown[] = Array.isArray(req.body?.ambulancePostIds) ? req.body.ambulancePostIds : [];
+        if (postIds.length === 0 || postIds.some(postId => typeof postId !== "string" || !managedPostIds.includes(postId))) {
+          return res.status(403).json({ message: "Je kunt alleen kasten aanmaken voor posten waaraan je gekoppeld bent" });
+        }
+      }
       const validatedData = insertCabinetSchema.parse(req.body);
       const cabinet = await storage.createCabinet(validatedData);
       // Clear cache when data is modified
@@ -327,7 +425,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/cabinets/:id", async (req, res) => {
+  app.patch("/api/cabinets/:id", requireRole("post-coordinator"), requireCabinetAccess(req => req.params.id), async (req, res) => {
     try {
       const partialData = insertCabinetSchema.partial().parse(req.body);
       const cabinet = await storage.updateCabinet(req.params.id, partialData);
@@ -344,7 +442,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/cabinets/:id", async (req, res) => {
+  app.delete("/api/cabinets/:id", requireRole("administrator"), async (req, res) => {
     try {
       const success = await storage.deleteCabinet(req.params.id);
       if (!success) {
@@ -388,7 +486,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/cabinet-locations", async (req, res) => {
+  app.post("/api/cabinet-locations", requirePostAccess(req => req.body.ambulancePostId), async (req, res) => {
     try {
       const validatedData = insertCabinetLocationSchema.parse(req.body);
       const location = await storage.createCabinetLocation(validatedData);
@@ -402,7 +500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/cabinet-locations/:id", async (req, res) => {
+  app.delete("/api/cabinet-locations/:id", requireRole("administrator"), requirePostAccess(async req => (await storage.getCabinetLocation(req.params.id))?.ambulancePostId), async (req, res) => {
     try {
       const success = await storage.deleteCabinetLocation(req.params.id);
       if (!success) {
@@ -437,8 +535,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/cabinets/:cabinetId/drawers", requireRole("post-coordinator"), requireCabinetAccess(async req => (await storage.getCabinet(req.params.cabinetId))?.id), async (req, res) => {
+    try {
+      if (!(await storage.getCabinet(req.params.cabinetId))) {
+        return res.status(404).json({ message: "Kast niet gevonden" });
+      }
+      const parsed = insertDrawerSchema.safeParse({ ...req.body, cabinetId: req.params.cabinetId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige lade" });
+      }
+      res.status(201).json(await storage.createDrawer(parsed.data));
+    } catch (error) {
+      console.error("Error creating drawer:", error);
+      res.status(500).json({ message: "Failed to create drawer" });
+    }
+  });
+
+  // Renaming a drawer also renames the drawer label of the locations linked to it
+  app.patch("/api/drawers/:id", requireRole("post-coordinator"), requireCabinetAccess(async req => (await storage.getDrawer(req.params.id))?.cabinetId), async (req, res) => {
+    try {
+      const parsed = insertDrawerSchema.omit({ cabinetId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige lade" });
+      }
+      const drawer = await storage.updateDrawer(req.params.id, parsed.data);
+      if (!drawer) {
+        return res.status(404).json({ message: "Lade niet gevonden" });
+      }
+      res.json(drawer);
+    } catch (error) {
+      console.error("Error updating drawer:", error);
+      res.status(500).json({ message: "Failed to update drawer" });
+    }
+  });
+
+  // Linked locations keep their drawer label as free text
+  app.delete("/api/drawers/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const success = await storage.deleteDrawer(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Lade niet gevonden" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting drawer:", error);
+      res.status(500).json({ message: "Failed to delete drawer" });
+    }
+  });
+
+  // Linking free-text drawers of item locations to structured drawers
+  app.get("/api/drawer-migration", requireRole("administrator"), async (req, res) => {
+    try {
+      res.json(await getDrawerMigrationStatus());
+    } catch (error) {
+      console.error("Error fetching drawer migration status:", error);
+      res.status(500).json({ message: "Failed to fetch drawer migration status" });
+    }
+  });
+
+  app.post("/api/drawer-migration/auto", requireRole("administrator"), async (req, res) => {
+    try {
+      const linkedCount = await applyDrawerMatches();
+      res.json({ linkedCount, status: await getDrawerMigrationStatus() });
+    } catch (error) {
+      console.error("Error applying drawer matches:", error);
+      res.status(500).json({ message: "Failed to apply drawer matches" });
+    }
+  });
+
+  app.post("/api/drawer-migration/resolve", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = drawerResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige invoer" });
+      }
+      const linkedCount = await resolveDrawerText(parsed.data);
+      res.json({ linkedCount, status: await getDrawerMigrationStatus() });
+    } catch (error) {
+      console.error("Error resolving drawer:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to resolve drawer" });
+      }
+    }
+  });
+
   // Send email notification
-  app.post("/api/notifications/email", async (req, res) => {
+  app.post("/api/notifications/email", requireRole("post-coordinator"), async (req, res) => {
     try {
       const validatedData = insertEmailNotificationSchema.parse(req.body);
       const notification = await storage.createEmailNotification(validatedData);
@@ -462,7 +646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send warning email for low stock item
-  app.post("/api/send-warning-email/:itemId", async (req, res) => {
+  app.post("/api/send-warning-email/:itemId", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { itemId } = req.params;
       const item = await storage.getMedicalItem(itemId);
@@ -476,40 +660,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get item locations to find cabinet
-      const itemLocations = await storage.getItemLocationsByItem(itemId);
+      const itemLocations = await getManagedItemLocations(req.user, itemId);
+      if (itemLocations.length === 0) {
+        return res.status(403).json({ message: "Dit item ligt niet op een post waaraan je gekoppeld bent" });
+      }
       const firstLocation = itemLocations[0];
       const cabinet = firstLocation ? await storage.getCabinet(firstLocation.cabinet) : null;
       const cabinetName = cabinet ? cabinet.name : firstLocation ? `Kast ${firstLocation.cabinet}` : "Onbekende locatie";
+      const ambulancePost = firstLocation ? await storage.getAmbulancePost(firstLocation.ambulancePostId) : undefined;
 
-      // Generate email HTML
-      const emailHTML = generateRestockEmailHTML(item, cabinetName);
+      // Render the restock template
+      const email = await renderEmail("restock", getItemEmailValues(
+        { ...item, drawer: firstLocation?.drawer, ambulancePost: ambulancePost?.name },
+        cabinetName,
+        "Bijna op"
+      ));
 
-      // Send email
-      const success = await sendEmail({
+      // Queue email - the outbox retries until the mail server accepts it
+      await enqueueEmail({
         to: item.alertEmail,
         from: "inventaris@ziekenhuis.nl", // Default sender
-        subject: `🚨 Voorraad Waarschuwing: ${item.name} - Bijna Uitgeput`,
-        html: emailHTML
+        subject: email.subject,
+        html: email.html,
+        ambulancePostId: firstLocation?.ambulancePostId,
+        inlineImages: getItemPhotoImages(item)
       });
 
-      if (success) {
-        // Record the email notification
-        await storage.createEmailNotification({
-          itemId: item.id,
-          recipientEmail: item.alertEmail!,
-          department: "Automatische waarschuwing"
-        });
-        
-        res.json({ 
-          success: true, 
-          message: `Waarschuwing email verzonden naar ${item.alertEmail}` 
-        });
-      } else {
-        res.status(500).json({ 
-          success: false, 
-          message: "Fout bij het verzenden van de email" 
-        });
-      }
+      // Record the email notification
+      await storage.createEmailNotification({
+        itemId: item.id,
+        recipientEmail: item.alertEmail!,
+        department: "Automatische waarschuwing"
+      });
+
+      res.json({ 
+        success: true, 
+        message: `Waarschuwing email wordt verzonden naar ${item.alertEmail}` 
+      });
     } catch (error) {
       console.error("Email send error:", error);
       res.status(500).json({ message: "Fout bij het verzenden van waarschuwing email" });
@@ -517,7 +704,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark item as out of stock and send email
-  app.post("/api/items/:itemId/mark-out-of-stock", async (req, res) => {
+  app.post("/api/items/:itemId/mark-out-of-stock", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { itemId } = req.params;
       const item = await storage.getMedicalItem(itemId);
@@ -531,51 +718,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get item locations to find cabinet and update status
-      const itemLocations = await storage.getItemLocationsByItem(itemId);
+      const itemLocations = await getManagedItemLocations(req.user, itemId);
+      if (itemLocations.length === 0) {
+        return res.status(403).json({ message: "Dit item ligt niet op een post waaraan je gekoppeld bent" });
+      }
       
-      // Update all locations to be out of stock
-      for (const location of itemLocations) {
-        await storage.updateItemLocation(location.id, { 
-          isLowStock: true, 
-          stockStatus: "niet-meer-aanwezig" 
+      if (itemLocations.every(location => isQuantityTracked(location))) {
+        return res.status(400).json({ message: "Dit item wordt geteld - pas het aantal aan in plaats van de status" });
+      }
+
+      // Only a status that really changed is worth an email
+      const changedLocations = await setManualStockStatus(itemLocations, "niet-meer-aanwezig");
+      if (changedLocations.length === 0) {
+        return res.json({
+          success: true,
+          message: "Item stond al op OP, er is geen email verzonden",
+          itemName: item.name
         });
       }
 
-      const firstLocation = itemLocations[0];
+      const firstLocation = changedLocations[0];
       const cabinet = firstLocation ? await storage.getCabinet(firstLocation.cabinet) : null;
       const cabinetName = cabinet ? cabinet.name : firstLocation ? `Kast ${firstLocation.cabinet}` : "Onbekende locatie";
+      const ambulancePost = firstLocation ? await storage.getAmbulancePost(firstLocation.ambulancePostId) : undefined;
 
-      // Generate email HTML
-      const emailHTML = generateRestockEmailHTML(item, cabinetName, "OP");
+      // Render the out-of-stock template
+      const email = await renderEmail("out-of-stock", getItemEmailValues(
+        { ...item, drawer: firstLocation?.drawer, ambulancePost: ambulancePost?.name },
+        cabinetName,
+        "OP"
+      ));
 
-      // Send email
-      const success = await sendEmail({
+      // Queue email - the outbox retries until the mail server accepts it
+      await enqueueEmail({
         to: item.alertEmail,
         from: "inventaris@ziekenhuis.nl",
-        subject: `🚨 URGENT: ${item.name} - OP`,
-        html: emailHTML
+        subject: email.subject,
+        html: email.html,
+        ambulancePostId: firstLocation?.ambulancePostId,
+        inlineImages: getItemPhotoImages(item)
       });
 
-      if (success) {
-        // Record the email notification
-        await storage.createEmailNotification({
-          itemId: item.id,
-          recipientEmail: item.alertEmail!,
-          department: "Urgent voorraad melding"
-        });
-        
-        res.json({ 
-          success: true, 
-          message: "Email verzonden voor item dat OP is",
-          itemName: item.name,
-          recipient: item.alertEmail
-        });
-      } else {
-        res.status(500).json({ 
-          success: false, 
-          message: "Fout bij het verzenden van de email" 
-        });
-      }
+      // Record the email notification
+      await storage.createEmailNotification({
+        itemId: item.id,
+        recipientEmail: item.alertEmail!,
+        department: "Urgent voorraad melding"
+      });
+
+      res.json({ 
+        success: true, 
+        message: "Email wordt verzonden voor item dat OP is",
+        itemName: item.name,
+        recipient: item.alertEmail
+      });
     } catch (error) {
       console.error("Mark out of stock error:", error);
       res.status(500).json({ message: "Fout bij het markeren als OP" });
@@ -583,7 +779,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Mark item as low stock and send email
-  app.post("/api/items/:itemId/mark-low-stock", async (req, res) => {
+  app.post("/api/items/:itemId/mark-low-stock", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { itemId } = req.params;
       const item = await storage.getMedicalItem(itemId);
@@ -597,51 +793,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get item locations to find cabinet and update status
-      const itemLocations = await storage.getItemLocationsByItem(itemId);
+      const itemLocations = await getManagedItemLocations(req.user, itemId);
+      if (itemLocations.length === 0) {
+        return res.status(403).json({ message: "Dit item ligt niet op een post waaraan je gekoppeld bent" });
+      }
       
-      // Update all locations to be low stock
-      for (const location of itemLocations) {
-        await storage.updateItemLocation(location.id, { 
-          isLowStock: true, 
-          stockStatus: "bijna-op" 
+      if (itemLocations.every(location => isQuantityTracked(location))) {
+        return res.status(400).json({ message: "Dit item wordt geteld - pas het aantal aan in plaats van de status" });
+      }
+
+      // Only a status that really changed is worth an email
+      const changedLocations = await setManualStockStatus(itemLocations, "bijna-op");
+      if (changedLocations.length === 0) {
+        return res.json({
+          success: true,
+          message: "Item stond al op bijna op, er is geen email verzonden",
+          itemName: item.name
         });
       }
 
-      const firstLocation = itemLocations[0];
+      const firstLocation = changedLocations[0];
       const cabinet = firstLocation ? await storage.getCabinet(firstLocation.cabinet) : null;
       const cabinetName = cabinet ? cabinet.name : firstLocation ? `Kast ${firstLocation.cabinet}` : "Onbekende locatie";
+      const ambulancePost = firstLocation ? await storage.getAmbulancePost(firstLocation.ambulancePostId) : undefined;
 
-      // Generate email HTML
-      const emailHTML = generateRestockEmailHTML(item, cabinetName, "Bijna op");
+      // Render the restock template
+      const email = await renderEmail("restock", getItemEmailValues(
+        { ...item, drawer: firstLocation?.drawer, ambulancePost: ambulancePost?.name },
+        cabinetName,
+        "Bijna op"
+      ));
 
-      // Send email
-      const success = await sendEmail({
+      // Queue email - the outbox retries until the mail server accepts it
+      await enqueueEmail({
         to: item.alertEmail,
         from: "inventaris@ziekenhuis.nl",
-        subject: `⚠️ Voorraad Waarschuwing: ${item.name} - Bijna op`,
-        html: emailHTML
+        subject: email.subject,
+        html: email.html,
+        ambulancePostId: firstLocation?.ambulancePostId,
+        inlineImages: getItemPhotoImages(item)
       });
 
-      if (success) {
-        // Record the email notification
-        await storage.createEmailNotification({
-          itemId: item.id,
-          recipientEmail: item.alertEmail!,
-          department: "Bijna op melding"
-        });
-        
-        res.json({ 
-          success: true, 
-          message: "Email verzonden voor item dat bijna op is",
-          itemName: item.name,
-          recipient: item.alertEmail
-        });
-      } else {
-        res.status(500).json({ 
-          success: false, 
-          message: "Fout bij het verzenden van de email" 
-        });
-      }
+      // Record the email notification
+      await storage.createEmailNotification({
+        itemId: item.id,
+        recipientEmail: item.alertEmail!,
+        department: "Bijna op melding"
+      });
+
+      res.json({ 
+        success: true, 
+        message: "Email wordt verzonden voor item dat bijna op is",
+        itemName: item.name,
+        recipient: item.alertEmail
+      });
     } catch (error) {
       console.error("Mark low stock error:", error);
       res.status(500).json({ message: "Fout bij het markeren als bijna op" });
@@ -700,7 +905,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset item stock status
-  app.post("/api/items/:itemId/reset-stock", async (req, res) => {
+  app.post("/api/items/:itemId/reset-stock", requireRole("post-coordinator"), async (req, res) => {
     try {
       const { itemId } = req.params;
       const item = await storage.getMedicalItem(itemId);
@@ -709,15 +914,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Item niet gevonden" });
       }
 
-      // Reset stock status for all locations of this item
-      const itemLocations = await storage.getItemLocationsByItem(itemId);
+      // Reset stock status for all locations of this item at the caller's posts
+      const itemLocations = await getManagedItemLocations(req.user, itemId);
+      if (itemLocations.length === 0) {
+        return res.status(403).json({ message: "Dit item ligt niet op een post waaraan je gekoppeld bent" });
+      }
       for (const location of itemLocations) {
-        await storage.updateItemLocation(location.id, { 
-          isLowStock: false, 
-          stockStatus: "op-voorraad" 
-        });
-        // Also delete any supply requests for this location
-        await storage.deleteSupplyRequestsByLocation(location.id);
+        await restockLocation(location);
       }
       
       res.json({ 
@@ -749,7 +952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get upload URL for photos
-  app.post("/api/objects/upload", async (req, res) => {
+  app.post("/api/objects/upload", requireRole("post-coordinator"), async (req, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
@@ -761,7 +964,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Convert photo URL to object path
-  app.post("/api/medical-items/convert-photo-url", async (req, res) => {
+  app.post("/api/medical-items/convert-photo-url", requireRole("post-coordinator"), async (req, res) => {
     if (!req.body.photoUrl) {
       return res.status(400).json({ error: "photoUrl is required" });
     }
@@ -778,7 +981,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update item photo after upload
-  app.put("/api/medical-items/:id/photo", async (req, res) => {
+  app.put("/api/medical-items/:id/photo", requireRole("post-coordinator"), async (req, res) => {
     if (!req.body.photoURL) {
       return res.status(400).json({ error: "photoURL is required" });
     }
@@ -819,30 +1022,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get email configuration
-  app.get("/api/email-config", async (req, res) => {
+  // Email configuration - named SMTP profiles, posts without a profile use the default
+  app.get("/api/email-configs", requireRole("administrator"), async (req, res) => {
     try {
-      const config = await storage.getEmailConfig();
-      if (!config) {
-        res.status(404).json({ message: "Email configuration not found" });
-        return;
-      }
-      res.json(config);
+      const configs = await storage.getEmailConfigs();
+      res.json(configs.map(toPublicEmailConfig));
     } catch (error) {
-      console.error("Error fetching email config:", error);
+      console.error("Error fetching email configs:", error);
       res.status(500).json({ message: "Failed to fetch email configuration" });
     }
   });
 
-  // Save email configuration
-  app.post("/api/email-config", async (req, res) => {
+  app.post("/api/email-configs", requireRole("administrator"), async (req, res) => {
     try {
       const validatedData = insertEmailConfigSchema.parse(req.body);
-      const config = await storage.updateEmailConfig(validatedData);
+      if (validatedData.provider === "graph" ? !validatedData.graphClientSecret : !validatedData.smtpPassword) {
+        return res.status(400).json({ message: validatedData.provider === "graph" ? "Client secret is verplicht" : "SMTP wachtwoord is verplicht" });
+      }
+      const config = await storage.createEmailConfig(validatedData);
       res.status(201).json({
+        success: true,
+        message: "Email profiel aangemaakt",
+        config: toPublicEmailConfig(config)
+      });
+    } catch (error) {
+      console.error("Error creating email config:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to save email configuration" });
+      }
+    }
+  });
+
+  // A blank password or client secret keeps the saved one
+  app.put("/api/email-configs/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const validatedData = insertEmailConfigSchema.parse(req.body);
+      const config = await storage.updateEmailConfig(req.params.id, validatedData);
+      if (!config) {
+        return res.status(404).json({ message: "Email profiel niet gevonden" });
+      }
+      res.json({
         success: true,
         message: "Email configuration saved successfully",
-        config
+        config: toPublicEmailConfig(config)
       });
     } catch (error) {
       console.error("Error saving email config:", error);
@@ -854,15 +1078,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Posts using the profile fall back to the default
+  app.delete("/api/email-configs/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteEmailConfig(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Email profiel niet gevonden" });
+      }
+      res.json({ success: true, message: "Email profiel verwijderd" });
+    } catch (error) {
+      console.error("Error deleting email config:", error);
+      res.status(500).json({ message: "Failed to delete email configuration" });
+    }
+  });
+
+  app.post("/api/email-configs/:id/default", requireRole("administrator"), async (req, res) => {
+    try {
+      const config = await storage.setDefaultEmailConfig(req.params.id);
+      if (!config) {
+        return res.status(404).json({ message: "Email profiel niet gevonden" });
+      }
+      res.json({ success: true, message: `${config.name} is nu het standaard profiel`, config: toPublicEmailConfig(config) });
+    } catch (error) {
+      console.error("Error setting default email config:", error);
+      res.status(500).json({ message: "Failed to update email configuration" });
+    }
+  });
+
+  // The settings form leaves secrets blank to keep the saved ones - fill them in before testing.
+  // A saved secret only goes to the server and account it was saved for, so a test
+  // against another host or tenant cannot be used to read it back
+  const withSavedPassword = async (config: Partial<EmailConfig> | undefined, profileId?: string): Promise<Partial<EmailConfig> | undefined> => {
+    if (!config || !profileId) return config;
+    const saved = await storage.getEmailConfig(profileId);
+    if (!saved) return config;
+    const sameSmtpAccount = config.smtpHost === saved.smtpHost && config.smtpUser === saved.smtpUser;
+    const sameGraphApp = config.graphTenantId === saved.graphTenantId && config.graphClientId === saved.graphClientId;
+    return {
+      ...config,
+      smtpPassword: config.smtpPassword || (sameSmtpAccount ? saved.smtpPassword : config.smtpPassword),
+      graphClientSecret: config.graphClientSecret || (sameGraphApp ? saved.graphClientSecret : config.graphClientSecret),
+    };
+  };
+
   // Test SMTP connection (basic connectivity test)
-  app.post("/api/test-smtp-connection", async (req, res) => {
+  app.post("/api/test-smtp-connection", requireRole("administrator"), async (req, res) => {
     try {
-      const { config } = req.body;
+      const { config, profileId } = req.body;
       
-      let emailConfig = config;
-      if (!emailConfig || !emailConfig.smtpHost) {
+      let emailConfig = await withSavedPassword(config, profileId);
+      if (!emailConfig || !(emailConfig.smtpHost || emailConfig.graphTenantId)) {
         try {
-          emailConfig = await storage.getEmailConfig();
+          emailConfig = await storage.getDefaultEmailConfig();
         } catch (error) {
           return res.status(400).json({
             success: false,
@@ -870,6 +1137,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
       }
+      if (!emailConfig) {
+        return res.status(400).json({
+          success: false,
+          message: "Geen email configuratie gevonden."
+        });
+      }
+
+      // Graph is tested by requesting a token - that checks tenant, client id and secret in one go
+      if (emailConfig.provider === "graph") {
+        if (!isEmailConfigComplete(emailConfig)) {
+          return res.status(400).json({
+            success: false,
+            message: "Onvolledige email configuratie. Vul tenant ID, client ID, client secret en afzender in."
+          });
+        }
+        try {
+          await createGraphTransport(emailConfig).verify?.();
+          res.json({
+            success: true,
+            message: `Microsoft Graph aanmelding gelukt voor tenant ${emailConfig.graphTenantId}`
+          });
+        } catch (error) {
+          res.status(400).json({
+            success: false,
+            message: error instanceof Error ? error.message : "Microsoft Graph aanmelding mislukt"
+          });
+        }
+        return;
+      }
 
       // Simple Gmail test for now
       const isGmail = emailConfig.smtpHost?.toLowerCase().includes('gmail');
@@ -896,9 +1192,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test email functionality
-  app.post("/api/test-email", async (req, res) => {
+  app.post("/api/test-email", requireRole("administrator"), async (req, res) => {
     try {
-      const { testEmail, config } = req.body;
+      const { testEmail, config, profileId } = req.body;
       
       if (!testEmail || !testEmail.includes('@')) {
         return res.status(400).json({ 
@@ -907,55 +1203,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Generate test email HTML
-      const testEmailHTML = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <meta charset="utf-8">
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
-            .content { padding: 20px; }
-            .success-box { background-color: #f0f9ff; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0; }
-            .footer { background-color: #f1f5f9; padding: 15px; text-align: center; color: #64748b; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <h1>🏥 Test Email - Medische Inventaris</h1>
-          </div>
-          
-          <div class="content">
-            <h2>Email Configuratie Test Succesvol</h2>
-            
-            <div class="success-box">
-              <strong>✅ Gefeliciteerd!</strong> Je email configuratie werkt correct.
-            </div>
-            
-            <p>Deze test email bevestigt dat:</p>
-            <ul>
-              <li>Je SMTP server configuratie correct is</li>
-              <li>Authenticatie gegevens kloppen</li>
-              <li>Email verzending functioneert naar verwachting</li>
-            </ul>
-            
-            <p>Je kunt nu voorraad waarschuwingen en andere automatische emails verwachten van het medische inventaris systeem.</p>
-          </div>
-          
-          <div class="footer">
-            <p>Deze test email is verzonden door het Medische Inventaris Systeem</p>
-            <p>Datum: ${new Date().toLocaleDateString('nl-NL')} om ${new Date().toLocaleTimeString('nl-NL')}</p>
-          </div>
-        </body>
-        </html>
-      `;
+      // Render the test template
+      const renderedEmail = await renderEmail("test", {});
 
       // Get current saved email config if no config provided in request
-      let emailConfig = config;
-      if (!emailConfig || !emailConfig.smtpHost) {
+      let emailConfig = await withSavedPassword(config, profileId);
+      if (!emailConfig || !(emailConfig.smtpHost || emailConfig.graphTenantId)) {
         try {
-          emailConfig = await storage.getEmailConfig();
+          emailConfig = await storage.getDefaultEmailConfig();
         } catch (error) {
           return res.status(400).json({
             success: false,
@@ -965,10 +1220,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate required fields
-      if (!emailConfig || !emailConfig.smtpHost || !emailConfig.smtpUser || !emailConfig.smtpPassword) {
+      if (!isEmailConfigComplete(emailConfig)) {
         return res.status(400).json({
           success: false,
-          message: "Onvolledige email configuratie. Vul alle SMTP velden in."
+          message: emailConfig?.provider === "graph"
+            ? "Onvolledige email configuratie. Vul tenant ID, client ID, client secret en afzender in."
+            : "Onvolledige email configuratie. Vul alle SMTP velden in."
         });
       }
 
@@ -979,8 +1236,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const success = await sendEmail({
         to: testEmail,
         from: `${fromName} <${fromEmail}>`,
-        subject: `🧪 Test Email - Medische Inventaris Configuratie`,
-        html: testEmailHTML,
+        subject: renderedEmail.subject,
+        html: renderedEmail.html,
         config: emailConfig
       });
 
@@ -990,11 +1247,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: `Test email succesvol verzonden naar ${testEmail}` 
         });
       } else {
-        // Check if we have email config to provide specific guidance
-        const emailConfig = await storage.getEmailConfig();
+        // Specific guidance for the configuration that was tested
         let errorMessage = "Fout bij het verzenden van de test email.";
         
-        if (emailConfig && emailConfig.smtpHost && emailConfig.smtpHost.includes('gmail')) {
+        if (emailConfig.provider === "graph") {
+          errorMessage += " Controleer of de app registratie de applicatie permissie Mail.Send heeft met admin consent, en of het afzender adres een bestaande mailbox is.";
+        } else if (emailConfig && emailConfig.smtpHost && emailConfig.smtpHost.includes('gmail')) {
           errorMessage += " Voor Gmail gebruik een App-specifiek wachtwoord in plaats van je gewone wachtwoord. Zie Google Account instellingen → Beveiliging → App-wachtwoorden.";
         } else if (emailConfig && emailConfig.smtpHost) {
           errorMessage += " Controleer je SMTP instellingen. Voor Microsoft Exchange: gebruik je volledige email adres als gebruikersnaam en controleer of SMTP authenticatie is ingeschakeld bij je IT-afdeling.";
@@ -1027,7 +1285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ambulance-posts", async (req, res) => {
+  app.post("/api/ambulance-posts", requireRole("administrator"), async (req, res) => {
     try {
       const validatedData = insertAmbulancePostSchema.parse(req.body);
       const post = await storage.createAmbulancePost(validatedData);
@@ -1046,7 +1304,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/ambulance-posts/:id", async (req, res) => {
+  app.put("/api/ambulance-posts/:id", requireRole("administrator"), async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = insertAmbulancePostSchema.partial().parse(req.body);
@@ -1071,7 +1329,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/ambulance-posts/:id", async (req, res) => {
+  app.delete("/api/ambulance-posts/:id", requireRole("administrator"), async (req, res) => {
     try {
       const { id } = req.params;
       const success = await storage.deleteAmbulancePost(id);
@@ -1094,6 +1352,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Copy the layout and inventory of another post - dryRun returns the plan without writing
+  app.post("/api/ambulance-posts/:postId/clone", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = clonePostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige invoer" });
+      }
+      if (!(await storage.getAmbulancePost(req.params.postId))) {
+        return res.status(404).json({ message: "Ambulancepost niet gevonden" });
+      }
+      const plan = await clonePost(req.params.postId, parsed.data);
+      if (!parsed.data.dryRun) clearPerformanceCache();
+      res.json(plan);
+    } catch (error) {
+      console.error("Error cloning ambulance post:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to clone ambulance post" });
+      }
+    }
+  });
+
   // Post contact management routes - cached for performance
   app.get("/api/post-contacts", async (req, res) => {
     try {
@@ -1113,7 +1394,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/post-contacts", async (req, res) => {
+  app.post("/api/post-contacts", requirePostAccess(req => req.body.ambulancePostId), async (req, res) => {
     try {
       const contactData = insertPostContactSchema.parse(req.body);
       const contact = await storage.createPostContact(contactData);
@@ -1124,7 +1405,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/post-contacts/:id", async (req, res) => {
+  app.patch(
+    "/api/post-contacts/:id",
+    requirePostAccess(async req => (await storage.getPostContact(req.params.id))?.ambulancePostId),
+    requirePostAccess(req => req.body.ambulancePostId), // moving a contact needs access to the target post too
+    async (req, res) => {
     try {
       const contactData = insertPostContactSchema.partial().parse(req.body);
       const contact = await storage.updatePostContact(req.params.id, contactData);
@@ -1137,7 +1422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/post-contacts/:id", async (req, res) => {
+  app.delete("/api/post-contacts/:id", requireRole("administrator"), requirePostAccess(async req => (await storage.getPostContact(req.params.id))?.ambulancePostId), async (req, res) => {
     try {
       const success = await storage.deletePostContact(req.params.id);
       if (!success) {
@@ -1179,6 +1464,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Request and action behind an email link token - answers the response itself when the link is unusable
+  const resolveSupplyRequestLink = async (token: string, res: Response) => {
+    const verified = verifySupplyRequestToken(token);
+    if (!verified.valid) {
+      res.status(verified.reason === "expired" ? 410 : 400).json({ 
+        message: verified.reason === "expired" 
+          ? "Deze link is verlopen. Neem contact op met de post." 
+          : "Deze link is ongeldig." 
+      });
+      return undefined;
+    }
+    
+    const request = await storage.getSupplyRequest(verified.requestId);
+    if (!request) {
+      res.status(404).json({ message: "Dit aanvulverzoek bestaat niet meer." });
+      return undefined;
+    }
+    return { request, action: verified.action };
+  };
+
+  // Preview for the email link page - opening a link never changes the request
+  app.get("/api/public/supply-request-actions/:token", async (req, res) => {
+    try {
+      const link = await resolveSupplyRequestLink(req.params.token, res);
+      if (!link) return;
+
+      const { request, action } = link;
+      const [item, ambulancePost] = await Promise.all([
+        storage.getMedicalItem(request.itemId),
+        storage.getAmbulancePost(request.ambulancePostId),
+      ]);
+      res.json({
+        action,
+        itemName: item?.name ?? null,
+        ambulancePostName: ambulancePost?.name ?? null,
+        status: request.status,
+        isOpen: isOpenSupplyRequest(request),
+      });
+    } catch (error) {
+      console.error("Error fetching supply request link:", error);
+      res.status(500).json({ message: "Failed to fetch supply request link" });
+    }
+  });
+
+  app.post("/api/public/supply-request-actions/:token", async (req, res) => {
+    try {
+      const link = await resolveSupplyRequestLink(req.params.token, res);
+      if (!link) return;
+      
+      const { request, action } = link;
+      const result = await handleSupplyRequestLinkAction(request, action);
+      const ambulancePost = await storage.getAmbulancePost(request.ambulancePostId);
+      res.json({
+        message: result.message,
+        itemName: result.itemName,
+        ambulancePostName: ambulancePost?.name ?? null,
+        status: result.request.status,
+      });
+    } catch (error) {
+      console.error("Error handling supply request link:", error);
+      res.status(500).json({ message: "Failed to process supply request link" });
+    }
+  });
+
+  // Open supply requests for the dashboard, filterable by post and contact person
+  app.get("/api/supply-requests/open", async (req, res) => {
+    try {
+      const { ambulancePost, contactPerson } = req.query;
+      const [requests, items, locations, posts, cabinets] = await Promise.all([
+        storage.getOpenSupplyRequests({
+          ambulancePostId: ambulancePost as string | undefined,
+          contactPersonId: contactPerson as string | undefined,
+        }),
+        storage.getMedicalItems(),
+        storage.getItemLocations(),
+        storage.getAmbulancePosts(),
+        storage.getCabinets(),
+      ]);
+      
+      const openRequests: OpenSupplyRequest[] = requests.map(request => {
+        const location = locations.find(loc => loc.id === request.locationId);
+        const cabinet = cabinets.find(c => c.id === location?.cabinet);
+        return {
+          ...request,
+          itemName: items.find(item => item.id === request.itemId)?.name ?? "Onbekend item",
+          ambulancePostName: posts.find(post => post.id === request.ambulancePostId)?.name ?? "Onbekende post",
+          cabinetName: cabinet?.name ?? (location ? `Kast ${location.cabinet}` : "-"),
+          drawer: location?.drawer ?? null,
+          stockStatus: location?.stockStatus ?? "op-voorraad",
+        };
+      });
+      
+      res.json(openRequests);
+    } catch (error) {
+      console.error("Error fetching open supply requests:", error);
+      res.status(500).json({ message: "Failed to fetch open supply requests" });
+    }
+  });
+
+  // Supply request lifecycle - one endpoint per transition
+  const supplyRequestActions: Record<string, SupplyRequestStatus> = {
+    "acknowledge": "acknowledged",
+    "partial-delivery": "partially-delivered",
+    "deliver": "delivered",
+    "cancel": "cancelled",
+  };
+
+  for (const [action, status] of Object.entries(supplyRequestActions)) {
+    app.post(`/api/supply-requests/:id/${action}`, requireRole("post-coordinator"), requirePostAccess(async req => (await storage.getSupplyRequest(req.params.id))?.ambulancePostId), async (req, res) => {
+      try {
+        const parsed = z.object({ note: z.string().trim().max(500).optional() }).safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Notitie mag maximaal 500 tekens zijn" });
+        }
+        
+        const request = await storage.getSupplyRequest(req.params.id);
+        if (!request) {
+          return res.status(404).json({ message: "Supply request not found" });
+        }
+        
+        const currentStatus = request.status as SupplyRequestStatus;
+        if (!supplyRequestTransitions[currentStatus]?.includes(status)) {
+          return res.status(400).json({ 
+            message: `Aanvulverzoek met status "${request.status}" kan niet naar "${status}"` 
+          });
+        }
+        
+        const updated = await storage.transitionSupplyRequest(request.id, request.status, status, parsed.data.note);
+        if (!updated) {
+          return res.status(409).json({ message: "Het aanvulverzoek is intussen door iemand anders bijgewerkt" });
+        }
+        // Delivered means the location is full again
+        if (status === "delivered") {
+          const location = await storage.getItemLocation(request.locationId);
+          if (location) await restockLocation(location);
+        }
+        res.json(updated);
+      } catch (error) {
+        console.error(`Error updating supply request (${action}):`, error);
+        res.status(500).json({ message: "Failed to update supply request" });
+      }
+    });
+  }
+
+  // Stock status history of an item, optionally limited to one post
+  app.get("/api/stock-status-history/:itemId", async (req, res) => {
+    try {
+      const { ambulancePost } = req.query;
+      const history = await storage.getStockStatusHistory(req.params.itemId, ambulancePost as string | undefined);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching stock status history:", error);
+      res.status(500).json({ message: "Failed to fetch stock status history" });
+    }
+  });
+
   // Send supply request email for specific location with contact person
   app.post("/api/supply-request/:locationId", async (req, res) => {
     try {
@@ -1208,6 +1649,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!contactPerson) {
         return res.status(400).json({ message: "Geen contactpersoon gevonden voor deze locatie" });
       }
+
+      // One open request per location - the contact person already has this one
+      const [openRequest] = await storage.getOpenSupplyRequests({ locationId: location.id });
+      if (openRequest) {
+        return res.status(409).json({ message: `Er staat al een open aanvulverzoek voor deze locatie (verstuurd naar ${openRequest.contactPersonName ?? "de contactpersoon"})` });
+      }
       
       console.log(`Supply request sent for item ${item.name} at ${ambulancePost?.name} to ${contactPerson.email}`);
       
@@ -1216,38 +1663,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const cabinetName = cabinet ? cabinet.name : `Kast ${location.cabinet}`;
       
       // Generate email HTML for supply request
+      const lotExpiries = await storage.getEarliestLotExpiries(location.ambulancePostId);
       const emailItemData = {
         name: item.name,
         description: item.description,
         category: item.category,
-        expiryDate: item.expiryDate,
+        expiryDate: lotExpiries[item.id] ?? item.expiryDate,
         drawer: location.drawer || undefined,
-        ambulancePost: ambulancePost?.name
+        ambulancePost: ambulancePost?.name,
+        photoUrl: item.photoUrl
       };
       
-      const emailHTML = generateRestockEmailHTML(
-        emailItemData, 
-        cabinetName, 
-        location.stockStatus === "niet-meer-aanwezig" ? "OP" : "Bijna op"
-      );
+      // The request id is chosen up front so the email can carry its acknowledgement links
+      const requestId = randomUUID();
+      const isOutOfStock = location.stockStatus === "niet-meer-aanwezig";
+      const email = await renderEmail(isOutOfStock ? "out-of-stock" : "restock", {
+        ...getItemEmailValues(
+          emailItemData,
+          cabinetName,
+          isOutOfStock ? "OP" : "Bijna op",
+          getSupplyRequestActionLinks(getAppBaseUrl(req), requestId)
+        ),
+        "contact.name": contactPerson.name,
+      });
       
-      // Send email to contact person
-      const emailSuccess = await sendEmail({
+      // Request and email are stored together - the outbox retries until the mail server accepts it
+      await enqueueSupplyRequestEmail({
         to: contactPerson.email,
         from: "inventaris@ziekenhuis.nl",
-        subject: `📦 Aanvulverzoek: ${item.name} - ${ambulancePost?.name}`,
-        html: emailHTML
-      });
-      
-      if (!emailSuccess) {
-        console.error(`Failed to send email to ${contactPerson.email} for item ${item.name}`);
-        return res.status(500).json({ 
-          message: "Fout bij het verzenden van email. Controleer email instellingen." 
-        });
-      }
-      
-      // Store the supply request in database only if email was sent successfully
-      await storage.createSupplyRequest({
+        subject: email.subject,
+        html: email.html,
+        ambulancePostId: location.ambulancePostId,
+        inlineImages: getItemPhotoImages(item)
+      }, [{
+        id: requestId,
         itemId: item.id,
         locationId: location.id,
         ambulancePostId: location.ambulancePostId,
@@ -1255,28 +1704,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
         contactPersonName: contactPerson.name,
         contactPersonEmail: contactPerson.email,
         status: "sent"
-      });
+      }]);
       
       res.json({ 
-        message: `Email verzonden naar ${contactPerson.name} (${contactPerson.email})`,
+        message: `Email wordt verzonden naar ${contactPerson.name} (${contactPerson.email})`,
         contactPerson: contactPerson.name,
         email: contactPerson.email,
         itemName: item.name,
         location: `${ambulancePost?.name} - Kast ${location.cabinet}`,
-        emailSent: true
+        emailQueued: true
       });
     } catch (error) {
+      // Someone else sent a request for this location in the meantime
+      if (error instanceof OpenSupplyRequestExistsError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error sending supply request:", error);
       res.status(500).json({ message: "Failed to send supply request" });
     }
   });
 
+  // Send all open supply requests of a post - one combined email per contact person
+  app.post("/api/ambulance-posts/:postId/supply-requests/send-all", requireRole("post-coordinator"), requirePostAccess(req => req.params.postId), async (req, res) => {
+    try {
+      const ambulancePost = await storage.getAmbulancePost(req.params.postId);
+      if (!ambulancePost) {
+        return res.status(404).json({ message: "Ambulance post not found" });
+      }
+      
+      const result = await sendBatchedSupplyRequests(ambulancePost.id, getAppBaseUrl(req));
+      
+      const skipped = [
+        result.alreadyRequested > 0 ? `${result.alreadyRequested} al aangevraagd` : null,
+        result.withoutContact > 0 ? `${result.withoutContact} zonder contactpersoon` : null,
+      ].filter(Boolean);
+      
+      res.json({
+        message: `${result.emailsQueued} email(s) worden verzonden voor ${result.requestsCreated} item(s)` +
+          (skipped.length > 0 ? ` (${skipped.join(", ")})` : ""),
+        ...result
+      });
+    } catch (error) {
+      console.error("Error sending batched supply requests:", error);
+      res.status(500).json({ message: "Failed to send supply requests" });
+    }
+  });
+
   // Update item location stock status
   app.patch("/api/item-locations/:locationId/status", async (req, res) => {
     try {
       const { stockStatus } = req.body;
       const isLowStock = stockStatus === 'bijna-op' || stockStatus === 'niet-meer-aanwezig';
       
+      const location = await storage.getItemLocation(req.params.locationId);
+      if (location && isQuantityTracked(location)) {
+        return res.status(400).json({ message: "Deze locatie wordt op aantal bijgehouden - pas het aantal aan in plaats van de status" });
+      }
+      
       const updatedLocation = await storage.updateItemLocation(req.params.locationId, {
         stockStatus,
         isLowStock
@@ -1286,9 +1770,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Item location not found" });
       }
       
-      // If status is set back to "op-voorraad", delete any supply requests for this location
+      // If status is set back to "op-voorraad", close any open supply requests for this location
       if (stockStatus === 'op-voorraad') {
-        await storage.deleteSupplyRequestsByLocation(req.params.locationId);
+        await storage.closeSupplyRequestsByLocation(req.params.locationId);
       }
       
       res.json(updatedLocation);
@@ -1298,6 +1782,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update the counted quantity of an item location - the stock status follows from it
+  app.patch("/api/item-locations/:locationId/quantity", requireRole("post-coordinator"), requirePostAccess(async req => (await storage.getItemLocation(req.params.locationId))?.ambulancePostId), async (req, res) => {
+    try {
+      const parsed = z.object({ currentQuantity: z.number().int().min(0) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Aantal moet een geheel getal van 0 of hoger zijn" });
+      }
+      
+      const location = await storage.getItemLocation(req.params.locationId);
+      if (!location) {
+        return res.status(404).json({ message: "Item location not found" });
+      }
+      if (location.minQuantity == null) {
+        return res.status(400).json({ message: "Stel eerst een minimum aantal in voor deze locatie" });
+      }
+      
+      const updatedLocation = await storage.updateItemLocation(location.id, parsed.data);
+      
+      // Restocked above par - same cleanup as setting the status back to "op-voorraad"
+      if (updatedLocation?.stockStatus === 'op-voorraad' && location.stockStatus !== 'op-voorraad') {
+        await storage.closeSupplyRequestsByLocation(location.id);
+      }
+      
+      res.json(updatedLocation);
+    } catch (error) {
+      console.error("Error updating location quantity:", error);
+      res.status(500).json({ message: "Failed to update location quantity" });
+    }
+  });
+
+  // Lot routes - lots hang under an item location, expiry per lot
+  const resolveLotPost = async (lotId: string) => {
+    const lot = await storage.getLot(lotId);
+    return lot ? (await storage.getItemLocation(lot.locationId))?.ambulancePostId : undefined;
+  };
+
+  app.get("/api/item-locations/:locationId/lots", async (req, res) => {
+    try {
+      const lots = await storage.getLotsByLocation(req.params.locationId);
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching lots:", error);
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  app.get("/api/medical-items/:id/lots", async (req, res) => {
+    try {
+      const lots = await storage.getLotsByItem(req.params.id);
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching lots for item:", error);
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  // Earliest lot expiry per item, for one post or across all posts
+  app.get("/api/lots/effective-expiry", async (req, res) => {
+    try {
+      const { ambulancePost } = req.query;
+      const expiries = await storage.getEarliestLotExpiries(ambulancePost as string | undefined);
+      res.json(expiries);
+    } catch (error) {
+      console.error("Error fetching effective expiry dates:", error);
+      res.status(500).json({ message: "Failed to fetch effective expiry dates" });
+    }
+  });
+
+  app.post(
+    "/api/item-locations/:locationId/lots",
+    requireRole("post-coordinator"),
+    requirePostAccess(async req => (await storage.getItemLocation(req.params.locationId))?.ambulancePostId),
+    async (req, res) => {
+      try {
+        const location = await storage.getItemLocation(req.params.locationId);
+        if (!location) {
+          return res.status(404).json({ message: "Item location not found" });
+        }
+        const lotData = insertItemLotSchema.parse({ ...req.body, locationId: location.id });
+        const lot = await storage.createLot(lotData);
+        res.status(201).json(lot);
+      } catch (error) {
+        console.error("Error creating lot:", error);
+        if (error instanceof Error) {
+          res.status(400).json({ message: error.message });
+        } else {
+          res.status(500).json({ message: "Failed to create lot" });
+        }
+      }
+    }
+  );
+
+  app.patch("/api/lots/:id", requireRole("post-coordinator"), requirePostAccess(req => resolveLotPost(req.params.id)), async (req, res) => {
+    try {
+      const { locationId, ...lotData } = req.body; // lots cannot move between locations
+      const validatedData = insertItemLotSchema.partial().parse(lotData);
+      const lot = await storage.updateLot(req.params.id, validatedData);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot niet gevonden" });
+      }
+      res.json(lot);
+    } catch (error) {
+      console.error("Error updating lot:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update lot" });
+      }
+    }
+  });
+
+  app.delete("/api/lots/:id", requireRole("post-coordinator"), requirePostAccess(req => resolveLotPost(req.params.id)), async (req, res) => {
+    try {
+      const success = await storage.deleteLot(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Lot niet gevonden" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting lot:", error);
+      res.status(500).json({ message: "Failed to delete lot" });
+    }
+  });
+
   // Cabinet ordering API routes
   
   // Get cabinets ordered by ambulance post
@@ -1312,7 +1920,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Set cabinet order for ambulance post
-  app.post("/api/ambulance-posts/:postId/cabinets/order", async (req, res) => {
+  app.post("/api/ambulance-posts/:postId/cabinets/order", requirePostAccess(req => req.params.postId), async (req, res) => {
     try {
       const { orderedCabinetIds } = req.body;
       
@@ -1331,6 +1939,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Content sheet for the cabinet door, drawer by drawer
+  app.get("/api/ambulance-posts/:postId/cabinets/:cabinetId/sheet.pdf", async (req, res) => {
+    try {
+      const pdf = await renderCabinetSheetPdf(req.params.postId, req.params.cabinetId);
+      if (!pdf) {
+        return res.status(404).json({ message: "Ambulancepost of kast niet gevonden" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="kast-${req.params.cabinetId}-inhoud.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating cabinet sheet PDF:", error);
+      res.status(500).json({ message: "Fout bij het maken van het kast inhoudsblad" });
+    }
+  });
+
+  // QR label sheet for a cabinet - each label opens the drawer page on a phone
+  app.get("/api/ambulance-posts/:postId/cabinets/:cabinetId/labels.pdf", async (req, res) => {
+    try {
+      const pdf = await renderDrawerLabelsPdf(req.params.postId, req.params.cabinetId, getAppBaseUrl(req));
+      if (!pdf) {
+        return res.status(404).json({ message: "Ambulancepost of kast niet gevonden" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="kast-${req.params.cabinetId}-qr-labels.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating QR labels PDF:", error);
+      res.status(500).json({ message: "Fout bij het maken van de QR labels" });
+    }
+  });
+
+  // Items behind a QR label: one drawer (?ladeId, or ?lade on older labels), or the whole cabinet
+  app.get("/api/ambulance-posts/:postId/cabinets/:cabinetId/drawer-view", async (req, res) => {
+    try {
+      const drawerId = typeof req.query.ladeId === "string" && req.query.ladeId ? req.query.ladeId : null;
+      const drawer = typeof req.query.lade === "string" && req.query.lade ? req.query.lade : null;
+      const view = await getDrawerView(req.params.postId, req.params.cabinetId, { drawerId, drawer });
+      if (!view) {
+        return res.status(404).json({ message: "Ambulancepost of kast niet gevonden" });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error("Error fetching drawer view:", error);
+      res.status(500).json({ message: "Fout bij het ophalen van de lade" });
+    }
+  });
+
   // Get current cabinet order for ambulance post
   app.get("/api/ambulance-posts/:postId/cabinets/order", async (req, res) => {
     try {
@@ -1342,6 +1998,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Shift checks - the crew checks every drawer of a post and submits the result in one batch
+  app.get("/api/ambulance-posts/:postId/shift-check", async (req, res) => {
+    try {
+      const ambulancePost = await storage.getAmbulancePost(req.params.postId);
+      if (!ambulancePost) {
+        return res.status(404).json({ message: "Ambulancepost niet gevonden" });
+      }
+      res.json(await getShiftCheckDrawers(ambulancePost.id));
+    } catch (error) {
+      console.error("Error fetching shift check drawers:", error);
+      res.status(500).json({ message: "Fout bij het ophalen van de lades" });
+    }
+  });
+
+  app.get("/api/ambulance-posts/:postId/shift-checks", async (req, res) => {
+    try {
+      res.json(await storage.getShiftChecks(req.params.postId));
+    } catch (error) {
+      console.error("Error fetching shift checks:", error);
+      res.status(500).json({ message: "Failed to fetch shift checks" });
+    }
+  });
+
+  app.post("/api/ambulance-posts/:postId/shift-checks", async (req, res) => {
+    try {
+      const parsed = shiftCheckSubmissionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige controle" });
+      }
+      const ambulancePost = await storage.getAmbulancePost(req.params.postId);
+      if (!ambulancePost) {
+        return res.status(404).json({ message: "Ambulancepost niet gevonden" });
+      }
+
+      const shiftCheck = await submitShiftCheck(ambulancePost.id, parsed.data);
+      res.status(201).json(shiftCheck);
+    } catch (error) {
+      console.error("Error submitting shift check:", error);
+      if (error instanceof ShiftCheckValidationError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het opslaan van de controle" });
+      }
+    }
+  });
+
+  // Stocktakes - periodic count of a whole post by a coordinator, corrections applied on close
+  const resolveStocktakePost = async (stocktakeId: string) => (await storage.getStocktake(stocktakeId))?.ambulancePostId;
+
+  // Lines can only change while the session is open
+  const getOpenStocktake = async (stocktakeId: string) => {
+    const stocktake = await storage.getStocktake(stocktakeId);
+    if (stocktake && stocktake.status !== "open") {
+      throw new Error("Deze telling is afgesloten");
+    }
+    return stocktake;
+  };
+
+  app.get("/api/stocktakes", requireRole("post-coordinator"), async (req, res) => {
+    try {
+      const ambulancePostId = typeof req.query.post === "string" && req.query.post ? req.query.post : undefined;
+      // Post coordinators only see the stocktakes of the posts they are assigned to, also without ?post=
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds && ambulancePostId && !managedPostIds.includes(ambulancePostId)) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan deze ambulancepost" });
+      }
+      res.json(await storage.getStocktakes(ambulancePostId, managedPostIds ?? undefined));
+    } catch (error) {
+      console.error("Error fetching stocktakes:", error);
+      res.status(500).json({ message: "Failed to fetch stocktakes" });
+    }
+  });
+
+  app.post("/api/ambulance-posts/:postId/stocktakes", requireRole("post-coordinator"), requirePostAccess(req => req.params.postId), async (req, res) => {
+    try {
+      const ambulancePost = await storage.getAmbulancePost(req.params.postId);
+      if (!ambulancePost) {
+        return res.status(404).json({ message: "Ambulancepost niet gevonden" });
+      }
+      res.status(201).json(await openStocktake(ambulancePost.id));
+    } catch (error) {
+      console.error("Error opening stocktake:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het starten van de telling" });
+      }
+    }
+  });
+
+  app.get("/api/stocktakes/:id", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const view = await getStocktakeView(req.params.id);
+      if (!view) {
+        return res.status(404).json({ message: "Telling niet gevonden" });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error("Error fetching stocktake:", error);
+      res.status(500).json({ message: "Failed to fetch stocktake" });
+    }
+  });
+
+  app.patch("/api/stocktakes/:id/lines/:lineId", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const parsed = updateStocktakeLineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige telling" });
+      }
+      const stocktake = await getOpenStocktake(req.params.id);
+      const line = await storage.getStocktakeLine(req.params.lineId);
+      if (!stocktake || !line || line.stocktakeId !== stocktake.id) {
+        return res.status(404).json({ message: "Regel niet gevonden" });
+      }
+
+      // Finds only change their correction flag or note, registered lines are counted
+      const updated = line.isRegistered
+        ? await countStocktakeLine(line, parsed.data)
+        : await storage.updateStocktakeLine(line.id, { applyCorrection: parsed.data.applyCorrection && !!line.itemId, note: parsed.data.note });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating stocktake line:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het opslaan van de telling" });
+      }
+    }
+  });
+
+  app.post("/api/stocktakes/:id/lines", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const parsed = stocktakeFindSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige vondst" });
+      }
+      const stocktake = await getOpenStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Telling niet gevonden" });
+      }
+      res.status(201).json(await addStocktakeFind(stocktake.id, parsed.data));
+    } catch (error) {
+      console.error("Error adding stocktake find:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het toevoegen van de vondst" });
+      }
+    }
+  });
+
+  app.delete("/api/stocktakes/:id/lines/:lineId", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const stocktake = await getOpenStocktake(req.params.id);
+      const line = await storage.getStocktakeLine(req.params.lineId);
+      if (!stocktake || !line || line.stocktakeId !== stocktake.id) {
+        return res.status(404).json({ message: "Regel niet gevonden" });
+      }
+      if (line.isRegistered) {
+        return res.status(400).json({ message: "Geregistreerde locaties kunnen niet verwijderd worden - markeer ze als ontbrekend" });
+      }
+      await storage.deleteStocktakeLine(line.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting stocktake line:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het verwijderen van de vondst" });
+      }
+    }
+  });
+
+  app.post("/api/stocktakes/:id/close", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const stocktake = await getOpenStocktake(req.params.id);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Telling niet gevonden" });
+      }
+      const closed = await closeStocktake(stocktake);
+      res.json({ ...closed, message: `Telling afgesloten - ${closed.correctionCount} correctie(s) doorgevoerd` });
+    } catch (error) {
+      console.error("Error closing stocktake:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Fout bij het afsluiten van de telling" });
+      }
+    }
+  });
+
+  app.post("/api/stocktakes/:id/cancel", requireRole("post-coordinator"), requirePostAccess(req => resolveStocktakePost(req.params.id)), async (req, res) => {
+    try {
+      const cancelled = await storage.cancelStocktake(req.params.id);
+      if (!cancelled) {
+        return res.status(400).json({ message: "Alleen een lopende telling kan geannuleerd worden" });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling stocktake:", error);
+      res.status(500).json({ message: "Fout bij het annuleren van de telling" });
+    }
+  });
+
   // Category management routes
   app.get("/api/categories", async (req, res) => {
     try {
@@ -1352,7 +2212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requireRole("post-coordinator"), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(categoryData);
@@ -1363,7 +2223,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", requireRole("post-coordinator"), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.partial().parse(req.body);
       const category = await storage.updateCategory(req.params.id, categoryData);
@@ -1376,7 +2236,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", requireRole("administrator"), async (req, res) => {
     try {
       const success = await storage.deleteCategory(req.params.id);
       if (!success) {
@@ -1388,8 +2248,470 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Norm lists - the items a post must carry, managed by administrators
+  app.get("/api/norm-lists", async (req, res) => {
+    try {
+      res.json(await getNormListsWithItems());
+    } catch (error) {
+      console.error("Error fetching norm lists:", error);
+      res.status(500).json({ message: "Failed to fetch norm lists" });
+    }
+  });
+
+  app.post("/api/norm-lists", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = insertNormListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige normlijst" });
+      }
+      res.status(201).json(await storage.createNormList(parsed.data));
+    } catch (error) {
+      console.error("Error creating norm list:", error);
+      res.status(400).json({ message: "Fout bij het aanmaken van de normlijst - bestaat de naam al?" });
+    }
+  });
+
+  app.patch("/api/norm-lists/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = insertNormListSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldige normlijst" });
+      }
+      const normList = await storage.updateNormList(req.params.id, parsed.data);
+      if (!normList) {
+        return res.status(404).json({ message: "Normlijst niet gevonden" });
+      }
+      res.json(normList);
+    } catch (error) {
+      console.error("Error updating norm list:", error);
+      res.status(400).json({ message: "Fout bij het bijwerken van de normlijst - bestaat de naam al?" });
+    }
+  });
+
+  app.delete("/api/norm-lists/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const success = await storage.deleteNormList(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Normlijst niet gevonden" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting norm list:", error);
+      res.status(500).json({ message: "Failed to delete norm list" });
+    }
+  });
+
+  app.put("/api/norm-lists/:id/posts", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = z.object({ ambulancePostIds: z.array(z.string()) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "ambulancePostIds must be an array" });
+      }
+      if (!await storage.getNormList(req.params.id)) {
+        return res.status(404).json({ message: "Normlijst niet gevonden" });
+      }
+      const ambulancePostIds = await storage.setNormListPosts(req.params.id, Array.from(new Set(parsed.data.ambulancePostIds)));
+      res.json({ ambulancePostIds });
+    } catch (error) {
+      console.error("Error assigning norm list:", error);
+      res.status(500).json({ message: "Fout bij het toewijzen van de normlijst" });
+    }
+  });
+
+  app.post("/api/norm-lists/:id/items", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = insertNormListItemSchema.safeParse({ ...req.body, normListId: req.params.id });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldig normitem" });
+      }
+      if (!await storage.getNormList(req.params.id)) {
+        return res.status(404).json({ message: "Normlijst niet gevonden" });
+      }
+      res.status(201).json(await storage.createNormListItem({ ...parsed.data, drawer: parsed.data.drawer || null }));
+    } catch (error) {
+      console.error("Error adding norm list item:", error);
+      res.status(500).json({ message: "Fout bij het toevoegen van het normitem" });
+    }
+  });
+
+  app.patch("/api/norm-list-items/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const parsed = insertNormListItemSchema.omit({ normListId: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Ongeldig normitem" });
+      }
+      const item = await storage.updateNormListItem(req.params.id, parsed.data);
+      if (!item) {
+        return res.status(404).json({ message: "Normitem niet gevonden" });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating norm list item:", error);
+      res.status(500).json({ message: "Fout bij het bijwerken van het normitem" });
+    }
+  });
+
+  app.delete("/api/norm-list-items/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const success = await storage.deleteNormListItem(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Normitem niet gevonden" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting norm list item:", error);
+      res.status(500).json({ message: "Failed to delete norm list item" });
+    }
+  });
+
+  // Norm compliance for one post (?post=) or every active post
+  app.get("/api/norm-compliance", async (req, res) => {
+    try {
+      const ambulancePostIds = typeof req.query.post === "string" && req.query.post
+        ? [req.query.post]
+        : (await storage.getAmbulancePosts()).filter(post => post.isActive).map(post => post.id);
+      res.json(await getNormCompliance(ambulancePostIds));
+    } catch (error) {
+      console.error("Error fetching norm compliance:", error);
+      res.status(500).json({ message: "Fout bij het controleren van de normen" });
+    }
+  });
+
+  // User management routes - administrators only
+  app.get("/api/users", requireRole("administrator"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(await Promise.all(users.map(toPublicUser)));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("administrator"), async (req, res) => {
+    try {
+      const { ambulancePostIds, ...userData } = req.body;
+      const validatedData = insertUserSchema.parse(userData);
+
+      if (!validatedData.username || !validatedData.password) {
+        return res.status(400).json({ message: "Gebruikersnaam en wachtwoord zijn verplicht" });
+      }
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(400).json({ message: "Gebruikersnaam bestaat al" });
+      }
+
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      if (Array.isArray(ambulancePostIds)) {
+        await storage.setUserPosts(user.id, ambulancePostIds);
+      }
+      res.status(201).json(await toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to create user" });
+      }
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      const { ambulancePostIds, password, ...userData } = req.body;
+      const validatedData = insertUserSchema.partial().parse(userData);
+
+      // Keep the current password when the field is left empty
+      if (password) {
+        validatedData.password = await hashPassword(password);
+      }
+
+      // Prevent administrators from locking themselves out
+      if (req.params.id === req.user!.id && validatedData.role && validatedData.role !== "administrator") {
+        return res.status(400).json({ message: "Je kunt je eigen beheerdersrol niet verwijderen" });
+      }
+
+      const user = Object.keys(validatedData).length > 0
+        ? await storage.updateUser(req.params.id, validatedData)
+        : await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Gebruiker niet gevonden" });
+      }
+      if (Array.isArray(ambulancePostIds)) {
+        await storage.setUserPosts(user.id, ambulancePostIds);
+      }
+      res.json(await toPublicUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("administrator"), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "Je kunt je eigen account niet verwijderen" });
+      }
+      const success = await storage.deleteUser(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Gebruiker niet gevonden" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Expiry overview - every lot/location ordered by expiry date, optionally filtered
+  app.get("/api/expiry-overview", async (req, res) => {
+    try {
+      const { ambulancePost, cabinet, category } = req.query as Record<string, string | undefined>;
+      const entries = await getExpiryEntries();
+      res.json(entries.filter(entry =>
+        (!ambulancePost || entry.ambulancePostId === ambulancePost) &&
+        (!cabinet || entry.cabinetId === cabinet) &&
+        (!category || entry.category === category)
+      ));
+    } catch (error) {
+      console.error("Error fetching expiry overview:", error);
+      res.status(500).json({ message: "Fout bij het ophalen van vervaldatum overzicht" });
+    }
+  });
+
+  // Pick list for restocking posts from the central store
+  app.get("/api/pick-list", requireRole("post-coordinator"), async (req, res) => {
+    try {
+      const postIds = typeof req.query.posts === "string" ? req.query.posts.split(",").filter(Boolean) : [];
+      if (postIds.length === 0) {
+        return res.status(400).json({ message: "Kies minimaal één ambulancepost" });
+      }
+      // Post coordinators only pick for the posts they are assigned to
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds && postIds.some(postId => !managedPostIds.includes(postId))) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan alle posten op deze picklijst" });
+      }
+      res.json(await getPickList(postIds));
+    } catch (error) {
+      console.error("Error fetching pick list:", error);
+      res.status(500).json({ message: "Fout bij het ophalen van de picklijst" });
+    }
+  });
+
+  app.get("/api/pick-list/pdf", requireRole("post-coordinator"), async (req, res) => {
+    try {
+      const postIds = typeof req.query.posts === "string" ? req.query.posts.split(",").filter(Boolean) : [];
+      if (postIds.length === 0) {
+        return res.status(400).json({ message: "Kies minimaal één ambulancepost" });
+      }
+      // Post coordinators only pick for the posts they are assigned to
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds && postIds.some(postId => !managedPostIds.includes(postId))) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan alle posten op deze picklijst" });
+      }
+      const pdf = await renderPickListPdf(postIds);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="picklijst-${localDateString()}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating pick list PDF:", error);
+      res.status(500).json({ message: "Fout bij het maken van de picklijst PDF" });
+    }
+  });
+
+  app.post("/api/pick-list/complete", requireRole("post-coordinator"), async (req, res) => {
+    try {
+      const parsed = z.object({ locationIds: z.array(z.string()).min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Vink minimaal één item aan" });
+      }
+
+      // Post coordinators may only restock the posts they are assigned to
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds) {
+        const locations = await Promise.all(parsed.data.locationIds.map(id => storage.getItemLocation(id)));
+        if (locations.some(location => location && !managedPostIds.includes(location.ambulancePostId))) {
+          return res.status(403).json({ message: "Je bent niet gekoppeld aan alle posten op deze picklijst" });
+        }
+      }
+
+      const restocked = await completePickList(parsed.data.locationIds);
+      res.json({ success: true, restocked, message: `${restocked} locatie(s) weer op voorraad` });
+    } catch (error) {
+      console.error("Error completing pick list:", error);
+      res.status(500).json({ message: "Fout bij het afronden van de picklijst" });
+    }
+  });
+
+  // Expiry warning settings and manual run
+  app.get("/api/expiry-warning-settings", requireRole("administrator"), async (req, res) => {
+    try {
+      const settings = await storage.getExpiryWarningSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching expiry warning settings:", error);
+      res.status(500).json({ message: "Failed to fetch expiry warning settings" });
+    }
+  });
+
+  app.put("/api/expiry-warning-settings", requireRole("administrator"), async (req, res) => {
+    try {
+      const validatedData = insertExpiryWarningSettingsSchema.parse(req.body);
+      const settings = await storage.updateExpiryWarningSettings({
+        ...validatedData,
+        windowDays: Array.from(new Set(validatedData.windowDays)).sort((a, b) => b - a),
+      });
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating expiry warning settings:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update expiry warning settings" });
+      }
+    }
+  });
+
+  // Email outbox - pending and failed emails, and resending by hand
+  app.get("/api/email-outbox", requireRole("administrator"), async (req, res) => {
+    try {
+      const { status } = req.query;
+      const statuses = status ? (status as string).split(",") : undefined;
+      const entries = await storage.getEmailOutbox(statuses);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching email outbox:", error);
+      res.status(500).json({ message: "Failed to fetch email outbox" });
+    }
+  });
+
+  app.post("/api/email-outbox/:id/resend", requireRole("administrator"), async (req, res) => {
+    try {
+      const entry = await storage.requeueEmail(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Email niet gevonden of al verzonden" });
+      }
+      void drainEmailQueue();
+      res.json(entry);
+    } catch (error) {
+      console.error("Error resending email:", error);
+      res.status(500).json({ message: "Failed to resend email" });
+    }
+  });
+
+  // Email templates - the stored text, or the built-in default when none is saved
+  app.get("/api/email-templates", requireRole("administrator"), async (req, res) => {
+    try {
+      res.json(await getEmailTemplateViews());
+    } catch (error) {
+      console.error("Error fetching email templates:", error);
+      res.status(500).json({ message: "Failed to fetch email templates" });
+    }
+  });
+
+  app.put("/api/email-templates/:key", requireRole("administrator"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Email template niet gevonden" });
+      }
+      const validatedData = insertEmailTemplateSchema.parse(req.body);
+      const template = await storage.upsertEmailTemplate(key, validatedData);
+      res.json(template);
+    } catch (error) {
+      console.error("Error saving email template:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to save email template" });
+      }
+    }
+  });
+
+  // Reset to the built-in template
+  app.delete("/api/email-templates/:key", requireRole("administrator"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Email template niet gevonden" });
+      }
+      await storage.deleteEmailTemplate(key);
+      res.json({ success: true, message: "Standaard template hersteld" });
+    } catch (error) {
+      console.error("Error resetting email template:", error);
+      res.status(500).json({ message: "Failed to reset email template" });
+    }
+  });
+
+  // Render unsaved edits with the data of a real item
+  app.post("/api/email-templates/:key/preview", requireRole("administrator"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isEmailTemplateKey(key)) {
+        return res.status(404).json({ message: "Email template niet gevonden" });
+      }
+      const { subject = "", body = "", itemId } = req.body;
+      const values = await getPreviewValues(key, typeof itemId === "string" && itemId ? itemId : undefined);
+      res.json(renderEmailTemplate(key, { subject: String(subject), body: String(body) }, values));
+    } catch (error) {
+      console.error("Error rendering email preview:", error);
+      res.status(500).json({ message: "Failed to render email preview" });
+    }
+  });
+
+  app.post("/api/expiry-warnings/run", requireRole("administrator"), async (req, res) => {
+    try {
+      const result = await runExpiryWarnings();
+      res.json({
+        ...result,
+        message: `${result.digestsQueued} overzicht(en) in de wachtrij gezet met ${result.warningsQueued} waarschuwing(en)`,
+      });
+    } catch (error) {
+      console.error("Error running expiry warnings:", error);
+      res.status(500).json({ message: "Fout bij het versturen van vervaldatum waarschuwingen" });
+    }
+  });
+
+  // Audit trail routes
+  app.get("/api/audit", requireRole("post-coordinator"), async (req, res) => {
+    try {
+      const { post, entity, entityId, itemId, from, to, limit } = req.query as Record<string, string | undefined>;
+      // Post coordinators only see the log of the posts they are assigned to, also without ?post=
+      const managedPostIds = await getManagedPostIds(req.user);
+      if (managedPostIds && post && !managedPostIds.includes(post)) {
+        return res.status(403).json({ message: "Je bent niet gekoppeld aan deze ambulancepost" });
+      }
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "Ongeldige datum" });
+      }
+
+      const entries = await storage.getAuditLog({
+        ambulancePostId: post,
+        ambulancePostIds: managedPostIds ?? undefined,
+        entityType: entity,
+        entityId,
+        itemId,
+        from: fromDate,
+        to: toDate,
+        limit: limit ? Math.min(parseInt(limit) || 200, 1000) : undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
   // Backup management routes
-  app.get("/api/backup/export", async (req, res) => {
+  app.get("/api/backup/export", requireRole("administrator"), async (req, res) => {
     try {
       // Gather all data for backup
       const [
@@ -1399,7 +2721,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cabinets,
         categories,
         postContacts,
-        supplyRequests
+        supplyRequests,
+        itemLots,
+        drawers
       ] = await Promise.all([
         storage.getMedicalItems(),
         storage.getItemLocations(),
@@ -1407,7 +2731,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         storage.getCabinets(),
         storage.getCategories(),
         storage.getPostContacts(),
-        storage.getAllSupplyRequests()
+        storage.getAllSupplyRequests(),
+        storage.getAllLots(),
+        storage.getDrawers()
       ]);
 
       const backupData = {
@@ -1420,7 +2746,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cabinets,
         categories,
         postContacts,
-        supplyRequests
+        supplyRequests,
+        itemLots,
+        drawers
       };
 
       res.json(backupData);
@@ -1430,7 +2758,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/backup/import", async (req, res) => {
+  app.post("/api/backup/import", requireRole("administrator"), async (req, res) => {
     try {
       const backupData = req.body;
       
@@ -1442,10 +2770,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let stats = {
         itemsImported: 0,
         locationsImported: 0,
+        lotsImported: 0,
         postsImported: 0,
         cabinetsImported: 0,
         categoriesImported: 0,
-        contactsImported: 0
+        contactsImported: 0,
+        drawersImported: 0
       };
 
       // Import ambulance posts first (dependencies)
@@ -1498,6 +2828,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Import drawers after their cabinets - locations are linked to them by the new id
+      const drawerIds = new Map<string, string>();
+      if (backupData.drawers && Array.isArray(backupData.drawers)) {
+        for (const drawer of backupData.drawers) {
+          try {
+            const existingDrawers = await storage.getDrawersByCabinet(drawer.cabinetId);
+            const existing = existingDrawers.find(candidate => candidate.drawerNumber === drawer.drawerNumber);
+
+            if (existing) {
+              drawerIds.set(drawer.id, existing.id);
+            } else {
+              const createdDrawer = await storage.createDrawer({
+                cabinetId: drawer.cabinetId,
+                name: drawer.name,
+                position: drawer.position,
+                drawerNumber: drawer.drawerNumber,
+                description: drawer.description ?? null
+              });
+              drawerIds.set(drawer.id, createdDrawer.id);
+              stats.drawersImported++;
+            }
+          } catch (error) {
+            console.warn(`Failed to import drawer ${drawer.name}:`, error);
+          }
+        }
+      }
+
       // Import categories
       if (backupData.categories && Array.isArray(backupData.categories)) {
         for (const category of backupData.categories) {
@@ -1549,6 +2906,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             expiryDate: item.expiryDate,
             photoUrl: item.photoUrl,
             alertEmail: item.alertEmail,
+            storeLocation: item.storeLocation ?? null,
             locations: [] // Will be handled separately
           };
           
@@ -1568,13 +2926,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   ambulancePostId: location.ambulancePostId,
                   cabinet: location.cabinet,
                   drawer: location.drawer,
+                  drawerId: location.drawerId ? drawerIds.get(location.drawerId) ?? null : null,
                   contactPersonId: location.contactPersonId,
                   isLowStock: location.isLowStock ?? false,
-                  stockStatus: location.stockStatus ?? 'op-voorraad'
+                  stockStatus: location.stockStatus ?? 'op-voorraad',
+                  currentQuantity: location.currentQuantity ?? null,
+                  minQuantity: location.minQuantity ?? null,
+                  maxQuantity: location.maxQuantity ?? null
                 };
                 
-                await storage.createItemLocation(locationData);
+                const createdLocation = await storage.createItemLocation(locationData);
                 stats.locationsImported++;
+
+                // Lots of this location (backups from before lot tracking have none)
+                const locationLots = Array.isArray(backupData.itemLots)
+                  ? backupData.itemLots.filter((lot: any) => lot.locationId === location.id)
+                  : [];
+                for (const lot of locationLots) {
+                  await storage.createLot({
+                    locationId: createdLocation.id,
+                    lotNumber: lot.lotNumber,
+                    expiryDate: lot.expiryDate,
+                    quantity: lot.quantity ?? null,
+                    receivedDate: lot.receivedDate ?? null
+                  });
+                  stats.lotsImported++;
+                }
               } catch (error) {
                 console.warn(`Failed to import location for item ${item.name}:`, error);
               }
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ItemLocation } from "@shared/schema";
+import { isDeviation } from "./shift-checks";
+
+const location = (overrides: Partial<ItemLocation> = {}): ItemLocation => ({
+  id: "location-1",
+  itemId: "item-1",
+  ambulancePostId: "post-1",
+  cabinet: "A",
+  drawer: "Lade 1",
+  drawerId: null,
+  contactPersonId: null,
+  isLowStock: false,
+  stockStatus: "op-voorraad",
+  currentQuantity: null,
+  minQuantity: null,
+  maxQuantity: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe("isDeviation", () => {
+  it("compares the status of manual locations", () => {
+    assert.equal(isDeviation({ location: location(), stockStatus: "op-voorraad" }), false);
+    assert.equal(isDeviation({ location: location(), stockStatus: "bijna-op" }), true);
+  });
+
+  it("compares the count of counted locations", () => {
+    const counted = location({ currentQuantity: 5, minQuantity: 2 });
+    assert.equal(isDeviation({ location: counted, currentQuantity: 5 }), false);
+    assert.equal(isDeviation({ location: counted, currentQuantity: 3 }), true);
+  });
+
+  it("ignores the status for counted locations", () => {
+    const counted = location({ currentQuantity: 5, minQuantity: 2 });
+    assert.equal(isDeviation({ location: counted, stockStatus: "niet-meer-aanwezig", currentQuantity: 5 }), false);
+  });
+});
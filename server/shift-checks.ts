@@ -0,0 +1,129 @@
+import { deriveStockStatus, isQuantityTracked, type ItemLocation, type ShiftCheck, type ShiftCheckDeviation, type ShiftCheckDrawer, type ShiftCheckSubmission } from "@shared/schema";
+import { storage, type ShiftCheckUpdate } from "./storage";
+import { getCurrentActor } from "./audit";
+import { toDrawerViewItem, compareDrawerViewItems } from "./drawer-view";
+
+// The walk for a shift check: cabinets in the post's own order, drawer by drawer
+export async function getShiftCheckDrawers(ambulancePostId: string): Promise<ShiftCheckDrawer[]> {
+  const [orderedCabinets, locations, items, openRequests] = await Promise.all([
+    storage.getCabinetsOrderedByPost(ambulancePostId),
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getMedicalItems(),
+    storage.getOpenSupplyRequests({ ambulancePostId }),
+  ]);
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const drawers: ShiftCheckDrawer[] = [];
+
+  for (const cabinet of orderedCabinets) {
+    const cabinetItems = locations
+      .filter(location => location.cabinet === cabinet.id)
+      .flatMap(location => {
+        const item = itemsById.get(location.itemId);
+        if (!item || item.isDiscontinued) return [];
+        return [toDrawerViewItem(location, item, openRequests)];
+      })
+      .sort(compareDrawerViewItems);
+
+    for (const item of cabinetItems) {
+      const current = drawers[drawers.length - 1];
+      if (current && current.cabinetId === cabinet.id && current.drawer === item.drawer) {
+        current.items.push(item);
+      } else {
+        drawers.push({
+          cabinetId: cabinet.id,
+          cabinetName: cabinet.name,
+          cabinetColor: cabinet.color,
+          drawer: item.drawer,
+          items: [item],
+        });
+      }
+    }
+  }
+
+  return drawers;
+}
+
+// Submissions the crew has to correct - anything else is a server error
+export class ShiftCheckValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShiftCheckValidationError";
+    Object.setPrototypeOf(this, ShiftCheckValidationError.prototype);
+  }
+}
+
+type CheckedLocation = {
+  location: ItemLocation;
+  stockStatus?: string;
+  currentQuantity?: number;
+};
+
+export function isDeviation({ location, stockStatus, currentQuantity }: CheckedLocation): boolean {
+  return isQuantityTracked(location)
+    ? currentQuantity !== location.currentQuantity
+    : stockStatus !== location.stockStatus;
+}
+
+// Apply every checked location in one go and keep the check as a record
+export async function submitShiftCheck(ambulancePostId: string, submission: ShiftCheckSubmission): Promise<ShiftCheck> {
+  const [locations, items, cabinets] = await Promise.all([
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getMedicalItems(),
+    storage.getCabinets(),
+  ]);
+  const locationsById = new Map(locations.map(location => [location.id, location]));
+
+  // Validate the whole batch before changing anything
+  const checked: CheckedLocation[] = submission.results.map(result => {
+    const location = locationsById.get(result.locationId);
+    if (!location) {
+      throw new ShiftCheckValidationError("Een gecontroleerde locatie hoort niet bij deze post");
+    }
+    if (isQuantityTracked(location) ? result.currentQuantity === undefined : result.stockStatus === undefined) {
+      throw new ShiftCheckValidationError(isQuantityTracked(location)
+        ? "Geef voor getelde locaties het aantal op"
+        : "Geef voor elke locatie een status op");
+    }
+    return { location, stockStatus: result.stockStatus, currentQuantity: result.currentQuantity };
+  });
+
+  const deviations: ShiftCheckDeviation[] = [];
+  const updates: ShiftCheckUpdate[] = [];
+  for (const entry of checked.filter(isDeviation)) {
+    const { location } = entry;
+    // Counted locations get their status from the count, the same way storage derives it
+    const toStatus = isQuantityTracked(location)
+      ? deriveStockStatus({ ...location, currentQuantity: entry.currentQuantity })!
+      : entry.stockStatus!;
+    updates.push({
+      locationId: location.id,
+      changes: isQuantityTracked(location)
+        ? { currentQuantity: entry.currentQuantity }
+        : { stockStatus: toStatus, isLowStock: toStatus === "bijna-op" || toStatus === "niet-meer-aanwezig" },
+    });
+    deviations.push({
+      locationId: location.id,
+      itemId: location.itemId,
+      itemName: items.find(item => item.id === location.itemId)?.name ?? "Onbekend item",
+      cabinetName: cabinets.find(cabinet => cabinet.id === location.cabinet)?.name ?? `Kast ${location.cabinet}`,
+      drawer: location.drawer,
+      fromStatus: location.stockStatus,
+      toStatus,
+      fromQuantity: location.currentQuantity,
+      toQuantity: isQuantityTracked(location) ? entry.currentQuantity! : location.currentQuantity,
+    });
+  }
+
+  // Location changes and the check record are saved together or not at all
+  const actor = getCurrentActor();
+  return await storage.createShiftCheck({
+    ambulancePostId,
+    checkedById: actor.actorId,
+    checkedByName: actor.actorName,
+    startedAt: submission.startedAt ?? null,
+    locationCount: checked.length,
+    deviationCount: deviations.length,
+    deviations,
+  }, updates);
+}
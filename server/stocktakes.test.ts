@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { StocktakeLine } from "@shared/schema";
+import { getCorrections } from "./stocktakes";
+
+const line = (overrides: Partial<StocktakeLine> = {}): StocktakeLine => ({
+  id: "line-1",
+  stocktakeId: "stocktake-1",
+  locationId: "location-1",
+  itemId: "item-1",
+  itemName: "Mitella",
+  cabinet: "A",
+  drawer: "Lade 1",
+  isRegistered: true,
+  expectedStatus: "op-voorraad",
+  expectedQuantity: null,
+  foundStatus: "op-voorraad",
+  foundQuantity: null,
+  isMissing: false,
+  applyCorrection: true,
+  note: null,
+  countedAt: new Date("2026-10-01T08:00:00Z"),
+  countedByName: "coordinator",
+  ...overrides,
+});
+
+describe("getCorrections", () => {
+  it("leaves matching and uncounted lines alone", () => {
+    assert.deepEqual(getCorrections("post-1", [line(), line({ countedAt: null })]), []);
+  });
+
+  it("skips lines the coordinator unticked", () => {
+    assert.deepEqual(getCorrections("post-1", [line({ foundStatus: "bijna-op", applyCorrection: false })]), []);
+  });
+
+  it("updates the status of a manual location that differs", () => {
+    assert.deepEqual(getCorrections("post-1", [line({ foundStatus: "bijna-op" })]), [
+      { type: "update", locationId: "location-1", changes: { stockStatus: "bijna-op", isLowStock: true } },
+    ]);
+  });
+
+  it("updates the quantity of a counted location that differs", () => {
+    assert.deepEqual(getCorrections("post-1", [line({ expectedQuantity: 10, foundQuantity: 4 })]), [
+      { type: "update", locationId: "location-1", changes: { currentQuantity: 4 } },
+    ]);
+  });
+
+  it("marks a missing location as empty instead of deleting it", () => {
+    assert.deepEqual(getCorrections("post-1", [line({ isMissing: true })]), [
+      { type: "update", locationId: "location-1", changes: { stockStatus: "niet-meer-aanwezig", isLowStock: true } },
+    ]);
+    assert.deepEqual(getCorrections("post-1", [line({ isMissing: true, expectedQuantity: 10 })]), [
+      { type: "update", locationId: "location-1", changes: { currentQuantity: 0 } },
+    ]);
+  });
+
+  it("registers a known find as a new location at the post", () => {
+    const find = line({ locationId: null, isRegistered: false, expectedStatus: null, foundStatus: "bijna-op", foundQuantity: 2, drawer: "Lade 2" });
+    assert.deepEqual(getCorrections("post-1", [find]), [{
+      type: "create",
+      location: {
+        itemId: "item-1",
+        ambulancePostId: "post-1",
+        cabinet: "A",
+        drawer: "Lade 2",
+        stockStatus: "bijna-op",
+        isLowStock: true,
+        currentQuantity: 2,
+      },
+    }]);
+  });
+
+  it("keeps free text finds on the report only", () => {
+    assert.deepEqual(getCorrections("post-1", [line({ locationId: null, itemId: null, isRegistered: false })]), []);
+  });
+});
@@ -0,0 +1,150 @@
+import { getStocktakeLineResult, isQuantityTracked, type Stocktake, type StocktakeFind, type StocktakeLine, type StocktakeView, type UpdateStocktakeLine } from "@shared/schema";
+import { storage, type StocktakeCorrection } from "./storage";
+import { getCurrentActor } from "./audit";
+
+// Start a count - every location of the post becomes a line with what the app expects now
+export async function openStocktake(ambulancePostId: string): Promise<Stocktake> {
+  const existing = await storage.getStocktakes(ambulancePostId);
+  if (existing.some(stocktake => stocktake.status === "open")) {
+    throw new Error("Er loopt al een telling voor deze post - rond die eerst af");
+  }
+
+  const [locations, items] = await Promise.all([
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getMedicalItems(),
+  ]);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const { actorId, actorName } = getCurrentActor();
+
+  return await storage.createStocktake(
+    { ambulancePostId, status: "open", openedById: actorId, openedByName: actorName },
+    locations.map(location => ({
+      locationId: location.id,
+      itemId: location.itemId,
+      itemName: itemsById.get(location.itemId)?.name ?? "Onbekend item",
+      cabinet: location.cabinet,
+      drawer: location.drawer,
+      isRegistered: true,
+      expectedStatus: location.stockStatus,
+      expectedQuantity: isQuantityTracked(location) ? location.currentQuantity : null,
+    })),
+  );
+}
+
+export async function getStocktakeView(id: string): Promise<StocktakeView | undefined> {
+  const stocktake = await storage.getStocktake(id);
+  if (!stocktake) return undefined;
+
+  const [lines, ambulancePost, cabinets] = await Promise.all([
+    storage.getStocktakeLines(id),
+    storage.getAmbulancePost(stocktake.ambulancePostId),
+    storage.getCabinetsOrderedByPost(stocktake.ambulancePostId),
+  ]);
+  const cabinetOrder = cabinets.map(cabinet => cabinet.id);
+
+  return {
+    ...stocktake,
+    ambulancePostName: ambulancePost?.name ?? "Onbekende post",
+    lines: lines
+      .map(line => ({ ...line, cabinetName: cabinets.find(cabinet => cabinet.id === line.cabinet)?.name ?? `Kast ${line.cabinet}` }))
+      // Walking order: the post's cabinet order, then drawer and item name
+      .sort((a, b) =>
+        cabinetOrder.indexOf(a.cabinet) - cabinetOrder.indexOf(b.cabinet)
+        || (a.drawer ?? "").localeCompare(b.drawer ?? "", "nl", { numeric: true })
+        || a.itemName.localeCompare(b.itemName, "nl")
+      ),
+  };
+}
+
+// Record a count or confirmation for a registered line
+export async function countStocktakeLine(line: StocktakeLine, changes: UpdateStocktakeLine): Promise<StocktakeLine | undefined> {
+  const next = { ...line, ...changes };
+  const hasFound = line.expectedQuantity != null ? next.foundQuantity != null : !!next.foundStatus;
+  if (!next.isMissing && !hasFound) {
+    // Unticking "missing" before anything was counted puts the line back to uncounted
+    if (changes.isMissing === false) {
+      return await storage.updateStocktakeLine(line.id, { isMissing: false, countedAt: null, countedByName: null });
+    }
+    throw new Error(line.expectedQuantity != null ? "Geef het getelde aantal op" : "Geef de gevonden status op");
+  }
+
+  const { actorName } = getCurrentActor();
+  return await storage.updateStocktakeLine(line.id, { ...changes, countedAt: new Date(), countedByName: actorName });
+}
+
+export async function addStocktakeFind(stocktakeId: string, find: StocktakeFind): Promise<StocktakeLine> {
+  const item = find.itemId ? await storage.getMedicalItem(find.itemId) : undefined;
+  if (find.itemId && !item) {
+    throw new Error("Item niet gevonden");
+  }
+
+  const { actorName } = getCurrentActor();
+  return await storage.createStocktakeLine({
+    stocktakeId,
+    locationId: null,
+    itemId: item?.id ?? null,
+    itemName: item?.name ?? find.itemName!,
+    cabinet: find.cabinet,
+    drawer: find.drawer || null,
+    isRegistered: false,
+    foundStatus: find.foundStatus ?? "op-voorraad",
+    foundQuantity: find.foundQuantity ?? null,
+    // Free text finds can't become a location - they stay on the report only
+    applyCorrection: !!item,
+    note: find.note ?? null,
+    countedAt: new Date(),
+    countedByName: actorName,
+  });
+}
+
+// What closing the session changes, based on the lines the coordinator left ticked
+export function getCorrections(ambulancePostId: string, lines: StocktakeLine[]): StocktakeCorrection[] {
+  const corrections: StocktakeCorrection[] = [];
+  for (const line of lines) {
+    if (!line.applyCorrection) continue;
+    const result = getStocktakeLineResult(line);
+
+    // A missing item may just be used up - the location stays, empty, with its lots and history
+    if (result === "ontbreekt" && line.locationId) {
+      corrections.push({
+        type: "update",
+        locationId: line.locationId,
+        changes: line.expectedQuantity != null
+          ? { currentQuantity: 0 }
+          : { stockStatus: "niet-meer-aanwezig", isLowStock: true },
+      });
+    } else if (result === "afwijking" && line.locationId) {
+      corrections.push({
+        type: "update",
+        locationId: line.locationId,
+        changes: line.expectedQuantity != null
+          ? { currentQuantity: line.foundQuantity }
+          : { stockStatus: line.foundStatus!, isLowStock: line.foundStatus !== "op-voorraad" },
+      });
+    } else if (result === "niet-geregistreerd" && line.itemId) {
+      const foundStatus = line.foundStatus ?? "op-voorraad";
+      corrections.push({
+        type: "create",
+        location: {
+          itemId: line.itemId,
+          ambulancePostId,
+          cabinet: line.cabinet,
+          drawer: line.drawer,
+          stockStatus: foundStatus,
+          isLowStock: foundStatus !== "op-voorraad",
+          currentQuantity: line.foundQuantity,
+        },
+      });
+    }
+  }
+  return corrections;
+}
+
+export async function closeStocktake(stocktake: Stocktake): Promise<Stocktake> {
+  const lines = await storage.getStocktakeLines(stocktake.id);
+  const uncounted = lines.filter(line => getStocktakeLineResult(line) === "niet-geteld").length;
+  if (uncounted > 0) {
+    throw new Error(`${uncounted} locatie(s) zijn nog niet geteld`);
+  }
+  return await storage.closeStocktake(stocktake.id, getCorrections(stocktake.ambulancePostId, lines));
+}
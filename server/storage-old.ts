@@ -301,7 +301,7 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "viewer", createdAt: new Date() };
     this.users.set(id, user);
     return user;
   }
@@ -468,7 +468,19 @@ export class MemStorage implements IStorage {
 
   async createEmailConfig(config: InsertEmailConfig): Promise<EmailConfig> {
     const id = randomUUID();
-    const emailConfig: EmailConfig = { ...config, id };
+    const emailConfig: EmailConfig = {
+      smtpHost: "",
+      smtpPort: 587,
+      smtpUser: "",
+      smtpPassword: "",
+      smtpSecure: true,
+      graphTenantId: null,
+      graphClientId: null,
+      graphClientSecret: null,
+      ...config,
+      id,
+      isDefault: true,
+    };
     this.emailConfig = emailConfig;
     return emailConfig;
   }
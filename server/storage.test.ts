@@ -0,0 +1,103 @@
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { itemLocations, shiftChecks, stockStatusHistory, stocktakes, supplyRequests, type ItemLocation, type Stocktake } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+
+type Query = { op: "select" | "insert" | "update"; table?: unknown; values?: unknown };
+
+// Stands in for the database - every query is recorded and answered by answerQuery
+let queries: Query[] = [];
+let answerQuery: (query: Query) => unknown[] = () => [];
+
+function recordQuery(query: Query) {
+  queries.push(query);
+  const builder: unknown = new Proxy({}, {
+    get(_, prop) {
+      if (prop === "then") {
+        const result = Promise.resolve(answerQuery(query));
+        return result.then.bind(result);
+      }
+      return (...args: unknown[]) => {
+        if (prop === "from") query.table = args[0];
+        if (prop === "values" || prop === "set") query.values = args[0];
+        return builder;
+      };
+    },
+  });
+  return builder;
+}
+
+const fakeDb = {
+  select: () => recordQuery({ op: "select" }),
+  insert: (table: unknown) => recordQuery({ op: "insert", table }),
+  update: (table: unknown) => recordQuery({ op: "update", table }),
+};
+
+const location = (stockStatus: string): ItemLocation => ({
+  id: "location-1",
+  itemId: "item-1",
+  ambulancePostId: "post-1",
+  cabinet: "A",
+  drawer: null,
+  drawerId: null,
+  contactPersonId: null,
+  isLowStock: stockStatus !== "op-voorraad",
+  stockStatus,
+  currentQuantity: null,
+  minQuantity: null,
+  maxQuantity: null,
+  createdAt: null,
+  updatedAt: null,
+});
+
+// The location goes from "bijna-op" back to "op-voorraad", which delivers its open request "request-1"
+const restockAnswers = (query: Query): unknown[] => {
+  if (query.op === "select" && query.table === itemLocations) return [location("bijna-op")];
+  if (query.op === "update" && query.table === itemLocations) return [location("op-voorraad")];
+  if (query.op === "update" && query.table === supplyRequests) return [{ id: "request-1" }];
+  if (query.op === "update" && query.table === stocktakes) return [{ id: "stocktake-1" } as Stocktake];
+  if (query.op === "insert" && query.table === shiftChecks) return [{ id: "check-1" }];
+  return [];
+};
+
+const recordedHistory = () => queries
+  .filter(query => query.op === "insert" && query.table === stockStatusHistory)
+  .map(query => query.values as { fromStatus: string; toStatus: string; supplyRequestId: string | null });
+
+describe("stock status history of a restock", () => {
+  before(() => {
+    mock.method(db, "select", fakeDb.select);
+    mock.method(db, "insert", fakeDb.insert);
+    mock.method(db, "update", fakeDb.update);
+    mock.method(db, "transaction", async (run: (tx: typeof fakeDb) => Promise<unknown>) => run(fakeDb));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    queries = [];
+    answerQuery = restockAnswers;
+  });
+
+  it("links a shift check restock to the supply request it delivered", async () => {
+    await storage.createShiftCheck(
+      { ambulancePostId: "post-1", checkedByName: "Dienst", locationCount: 1, deviationCount: 1, deviations: [] },
+      [{ locationId: "location-1", changes: { stockStatus: "op-voorraad" } }],
+    );
+
+    assert.deepEqual(recordedHistory().map(entry => [entry.fromStatus, entry.toStatus, entry.supplyRequestId]), [
+      ["bijna-op", "op-voorraad", "request-1"],
+    ]);
+  });
+
+  it("links a stocktake correction to the supply request it delivered", async () => {
+    await storage.closeStocktake("stocktake-1", [{ type: "update", locationId: "location-1", changes: { stockStatus: "op-voorraad" } }]);
+
+    assert.deepEqual(recordedHistory().map(entry => [entry.fromStatus, entry.toStatus, entry.supplyRequestId]), [
+      ["bijna-op", "op-voorraad", "request-1"],
+    ]);
+  });
+});
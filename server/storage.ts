@@ -1,11 +1,92 @@
-import { medicalItems, type MedicalItem, type InsertMedicalItem, type EmailNotification, type InsertEmailNotification, type Cabinet, type InsertCabinet, cabinets, drawers, type Drawer, type InsertDrawer, emailNotifications, users, type User, type InsertUser, emailConfigs, type EmailConfig, type InsertEmailConfig, ambulancePosts, type AmbulancePost, type InsertAmbulancePost, itemLocations, type ItemLocation, type InsertItemLocation, postContacts, type PostContact, type InsertPostContact, supplyRequests, type SupplyRequest, type InsertSupplyRequest, postCabinetOrder, type PostCabinetOrder, type InsertPostCabinetOrder, categories, type Category, type InsertCategory, cabinetLocations, type CabinetLocation, type InsertCabinetLocation } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { medicalItems, type MedicalItem, type InsertMedicalItem, type EmailNotification, type InsertEmailNotification, type Cabinet, type InsertCabinet, cabinets, drawers, type Drawer, type InsertDrawer, emailNotifications, users, type User, type InsertUser, userPosts, emailConfigs, type EmailConfig, type InsertEmailConfig, ambulancePosts, type AmbulancePost, type InsertAmbulancePost, itemLocations, type ItemLocation, type InsertItemLocation, postContacts, type PostContact, type InsertPostContact, supplyRequests, type SupplyRequest, type InsertSupplyRequest, type SupplyRequestStatus, openSupplyRequestStatuses, postCabinetOrder, type PostCabinetOrder, type InsertPostCabinetOrder, categories, type Category, type InsertCategory, cabinetLocations, type CabinetLocation, type InsertCabinetLocation, auditLog, type AuditLogEntry, type AuditEntityType, stockStatusHistory, type StockStatusHistoryEntry, deriveStockStatus, itemLots, type ItemLot, type InsertItemLot, expiryWarningSettings, type ExpiryWarningSettings, type InsertExpiryWarningSettings, emailOutbox, type EmailOutboxEntry, type InsertEmailOutbox, emailTemplates, type EmailTemplate, type InsertEmailTemplate, shiftChecks, type ShiftCheck, type InsertShiftCheck, stocktakes, type Stocktake, type InsertStocktake, stocktakeLines, type StocktakeLine, type InsertStocktakeLine, normLists, type NormList, type InsertNormList, normListItems, type NormListItem, type InsertNormListItem, postNormLists, type PostNormList } from "@shared/schema";
+import { db, pool } from "./db";
+import { eq, and, sql, gte, lte, desc, asc, min, inArray, ne, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { getCurrentActor, diffRecords } from "./audit";
+import { encryptSecret, decryptSecret, isEncryptedSecret } from "./email-credentials";
+
+const PostgresSessionStore = connectPg(session);
+
+// Counted locations get their status from the quantities, manual locations keep what was given
+function withDerivedStockStatus<T extends Partial<InsertItemLocation>>(changes: T, current?: ItemLocation): T {
+  const stockStatus = deriveStockStatus({ ...current, ...changes });
+  if (!stockStatus) return changes;
+  return {
+    ...changes,
+    stockStatus,
+    isLowStock: stockStatus !== "op-voorraad",
+  };
+}
+
+export interface AuditLogFilters {
+  ambulancePostId?: string;
+  // Limits the log to these posts, e.g. the posts a coordinator is assigned to
+  ambulancePostIds?: string[];
+  entityType?: string;
+  entityId?: string;
+  itemId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Change to an item location agreed when closing a stocktake
+export type StocktakeCorrection =
+  | { type: "update"; locationId: string; changes: Partial<InsertItemLocation> }
+  | { type: "create"; location: InsertItemLocation };
+
+// Change to an item location found during a shift check
+export type ShiftCheckUpdate = { locationId: string; changes: Partial<InsertItemLocation> };
+
+// Setup copied from one post to another - cabinetOrder replaces the order of the target post when given
+export interface PostSetupCopy {
+  cabinetLocations: InsertCabinetLocation[];
+  cabinetOrder?: string[];
+  itemLocations: InsertItemLocation[];
+}
+
+// The location already has an open supply request - enforced by supply_requests_open_location_idx
+export class OpenSupplyRequestExistsError extends Error {
+  constructor() {
+    super("Er staat al een open aanvulverzoek voor deze locatie");
+    this.name = "OpenSupplyRequestExistsError";
+    Object.setPrototypeOf(this, OpenSupplyRequestExistsError.prototype);
+  }
+}
+
+function isOpenSupplyRequestConflict(error: unknown): boolean {
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === "23505" && constraint === "supply_requests_open_location_idx";
+}
+
+export interface SupplyRequestFilters {
+  ambulancePostId?: string;
+  contactPersonId?: string;
+  locationId?: string;
+}
+
+interface AuditEvent {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: "create" | "update" | "delete";
+  before?: object | null;
+  after?: object | null;
+  itemId?: string | null;
+  ambulancePostId?: string | null;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  getUserPostIds(userId: string): Promise<string[]>;
+  setUserPosts(userId: string, ambulancePostIds: string[]): Promise<string[]>;
   
   getMedicalItems(): Promise<MedicalItem[]>;
   getMedicalItem(id: string): Promise<MedicalItem | undefined>;
@@ -39,10 +120,16 @@ export interface IStorage {
   createEmailNotification(insertEmailNotification: InsertEmailNotification): Promise<EmailNotification>;
   getEmailNotifications(): Promise<EmailNotification[]>;
   getLastEmailNotificationForItem(itemId: string): Promise<EmailNotification | undefined>;
+  getNotificationKeysForRecipient(recipientEmail: string): Promise<string[]>;
   
-  getEmailConfig(): Promise<EmailConfig | undefined>;
+  getEmailConfigs(): Promise<EmailConfig[]>;
+  getEmailConfig(id: string): Promise<EmailConfig | undefined>;
+  getDefaultEmailConfig(): Promise<EmailConfig | undefined>;
   createEmailConfig(config: InsertEmailConfig): Promise<EmailConfig>;
-  updateEmailConfig(config: InsertEmailConfig): Promise<EmailConfig>;
+  updateEmailConfig(id: string, config: Partial<InsertEmailConfig>): Promise<EmailConfig | undefined>;
+  deleteEmailConfig(id: string): Promise<boolean>;
+  setDefaultEmailConfig(id: string): Promise<EmailConfig | undefined>;
+  encryptPlaintextEmailPasswords(): Promise<number>;
   
   getAmbulancePosts(): Promise<AmbulancePost[]>;
   getAmbulancePost(id: string): Promise<AmbulancePost | undefined>;
@@ -59,8 +146,39 @@ export interface IStorage {
   
   getAllSupplyRequests(): Promise<SupplyRequest[]>;
   getSupplyRequestsByItem(itemId: string, ambulancePost?: string): Promise<SupplyRequest[]>;
-  createSupplyRequest(request: InsertSupplyRequest): Promise<SupplyRequest>;
-  deleteSupplyRequestsByLocation(locationId: string): Promise<boolean>;
+  getSupplyRequest(id: string): Promise<SupplyRequest | undefined>;
+  getOpenSupplyRequests(filters?: SupplyRequestFilters): Promise<SupplyRequest[]>;
+  createSupplyRequestsWithEmail(requests: (InsertSupplyRequest & { id?: string })[], email: InsertEmailOutbox): Promise<SupplyRequest[]>;
+  transitionSupplyRequest(id: string, fromStatus: string, status: SupplyRequestStatus, note?: string | null): Promise<SupplyRequest | undefined>;
+  closeSupplyRequestsByLocation(locationId: string): Promise<boolean>;
+
+  getStockStatusHistory(itemId: string, ambulancePostId?: string): Promise<StockStatusHistoryEntry[]>;
+
+  getLot(id: string): Promise<ItemLot | undefined>;
+  getLotsByLocation(locationId: string): Promise<ItemLot[]>;
+  getLotsByItem(itemId: string): Promise<ItemLot[]>;
+  getAllLots(): Promise<ItemLot[]>;
+  createLot(lot: InsertItemLot): Promise<ItemLot>;
+  updateLot(id: string, lot: Partial<InsertItemLot>): Promise<ItemLot | undefined>;
+  deleteLot(id: string): Promise<boolean>;
+  getEarliestLotExpiries(ambulancePostId?: string): Promise<Record<string, string>>;
+
+  getExpiryWarningSettings(): Promise<ExpiryWarningSettings>;
+  updateExpiryWarningSettings(settings: Partial<InsertExpiryWarningSettings>): Promise<ExpiryWarningSettings>;
+  claimExpiryWarningRun(date: string): Promise<boolean>;
+
+  enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutboxEntry>;
+  getEmailOutbox(statuses?: string[]): Promise<EmailOutboxEntry[]>;
+  claimDueEmails(limit: number): Promise<EmailOutboxEntry[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+  requeueEmail(id: string): Promise<EmailOutboxEntry | undefined>;
+  releaseStaleEmails(claimedBefore: Date): Promise<number>;
+
+  getEmailTemplates(): Promise<EmailTemplate[]>;
+  getEmailTemplate(key: string): Promise<EmailTemplate | undefined>;
+  upsertEmailTemplate(key: string, template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(key: string): Promise<boolean>;
   
   getPostCabinetOrder(ambulancePostId: string): Promise<PostCabinetOrder[]>;
   setPostCabinetOrder(ambulancePostId: string, orderedCabinetIds: string[]): Promise<PostCabinetOrder[]>;
@@ -73,14 +191,81 @@ export interface IStorage {
   deleteCategory(id: string): Promise<boolean>;
   
   getCabinetLocations(): Promise<CabinetLocation[]>;
+  getCabinetLocation(id: string): Promise<CabinetLocation | undefined>;
   getCabinetLocationsByCabinet(cabinetId: string): Promise<CabinetLocation[]>;
   getCabinetLocationsByPost(ambulancePostId: string): Promise<CabinetLocation[]>;
   createCabinetLocation(location: InsertCabinetLocation): Promise<CabinetLocation>;
   deleteCabinetLocation(id: string): Promise<boolean>;
   deleteCabinetLocationsByPost(ambulancePostId: string, cabinetId: string): Promise<boolean>;
+  copyPostSetup(ambulancePostId: string, setup: PostSetupCopy): Promise<number>;
+
+  getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]>;
+
+  getShiftChecks(ambulancePostId: string, limit?: number): Promise<ShiftCheck[]>;
+  createShiftCheck(check: InsertShiftCheck, updates: ShiftCheckUpdate[]): Promise<ShiftCheck>;
+
+  getStocktakes(ambulancePostId?: string, ambulancePostIds?: string[]): Promise<Stocktake[]>;
+  getStocktake(id: string): Promise<Stocktake | undefined>;
+  createStocktake(stocktake: InsertStocktake, lines: Omit<InsertStocktakeLine, "stocktakeId">[]): Promise<Stocktake>;
+  cancelStocktake(id: string): Promise<Stocktake | undefined>;
+  closeStocktake(id: string, corrections: StocktakeCorrection[]): Promise<Stocktake>;
+  getStocktakeLines(stocktakeId: string): Promise<StocktakeLine[]>;
+  getStocktakeLine(id: string): Promise<StocktakeLine | undefined>;
+  createStocktakeLine(line: InsertStocktakeLine): Promise<StocktakeLine>;
+  updateStocktakeLine(id: string, line: Partial<InsertStocktakeLine>): Promise<StocktakeLine | undefined>;
+  deleteStocktakeLine(id: string): Promise<boolean>;
+
+  getNormLists(): Promise<NormList[]>;
+  getNormList(id: string): Promise<NormList | undefined>;
+  createNormList(normList: InsertNormList): Promise<NormList>;
+  updateNormList(id: string, normList: Partial<InsertNormList>): Promise<NormList | undefined>;
+  deleteNormList(id: string): Promise<boolean>;
+  getNormListItems(): Promise<NormListItem[]>;
+  getNormListItem(id: string): Promise<NormListItem | undefined>;
+  createNormListItem(item: InsertNormListItem): Promise<NormListItem>;
+  updateNormListItem(id: string, item: Partial<InsertNormListItem>): Promise<NormListItem | undefined>;
+  deleteNormListItem(id: string): Promise<boolean>;
+  getPostNormLists(): Promise<PostNormList[]>;
+  setNormListPosts(normListId: string, ambulancePostIds: string[]): Promise<string[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Audit trail - records who changed what, never blocks the actual mutation
+  private async logAudit(event: AuditEvent): Promise<void> {
+    const before = (event.before ?? null) as Record<string, unknown> | null;
+    const after = (event.after ?? null) as Record<string, unknown> | null;
+    const changes = event.action === "update" && before && after
+      ? diffRecords(before, after)
+      : { before, after };
+
+    if (event.action === "update" && Object.keys(changes.after ?? {}).length === 0) {
+      return;
+    }
+
+    try {
+      await db.insert(auditLog).values({
+        ...getCurrentActor(),
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: event.action,
+        itemId: event.itemId ?? null,
+        ambulancePostId: event.ambulancePostId ?? null,
+        changes,
+      });
+    } catch (error) {
+      console.error(`Error writing audit log for ${event.entityType} ${event.entityId}:`, error);
+    }
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -97,6 +282,42 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(user)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getUserPostIds(userId: string): Promise<string[]> {
+    const assignments = await db.select().from(userPosts).where(eq(userPosts.userId, userId));
+    return assignments.map(assignment => assignment.ambulancePostId);
+  }
+
+  async setUserPosts(userId: string, ambulancePostIds: string[]): Promise<string[]> {
+    // Replace existing assignments for this user
+    await db.delete(userPosts).where(eq(userPosts.userId, userId));
+
+    if (ambulancePostIds.length > 0) {
+      const assignments = await db.insert(userPosts)
+        .values(ambulancePostIds.map(ambulancePostId => ({ userId, ambulancePostId })))
+        .returning();
+      return assignments.map(assignment => assignment.ambulancePostId);
+    }
+    return [];
+  }
+
   // Medical Items operations
   async getMedicalItems(): Promise<MedicalItem[]> {
     // Optimized query with ordering for consistent results and better caching
@@ -116,21 +337,29 @@ export class DatabaseStorage implements IStorage {
 
   async createMedicalItem(item: InsertMedicalItem): Promise<MedicalItem> {
     const [newItem] = await db.insert(medicalItems).values(item).returning();
+    await this.logAudit({ entityType: "medical-item", entityId: newItem.id, action: "create", after: newItem, itemId: newItem.id });
     return newItem as MedicalItem;
   }
 
   async updateMedicalItem(id: string, item: Partial<InsertMedicalItem>): Promise<MedicalItem | undefined> {
+    const existing = await this.getMedicalItem(id);
     const [updatedItem] = await db
       .update(medicalItems)
       .set(item)
       .where(eq(medicalItems.id, id))
       .returning();
+    if (updatedItem) {
+      await this.logAudit({ entityType: "medical-item", entityId: id, action: "update", before: existing, after: updatedItem, itemId: id });
+    }
     return updatedItem as MedicalItem | undefined;
   }
 
   async deleteMedicalItem(id: string): Promise<boolean> {
-    const result = await db.delete(medicalItems).where(eq(medicalItems.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(medicalItems).where(eq(medicalItems.id, id)).returning();
+    for (const item of deleted) {
+      await this.logAudit({ entityType: "medical-item", entityId: item.id, action: "delete", before: item, itemId: item.id });
+    }
+    return deleted.length > 0;
   }
 
   // Item Location operations
@@ -157,27 +386,68 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createItemLocation(location: InsertItemLocation): Promise<ItemLocation> {
-    const [newLocation] = await db.insert(itemLocations).values(location).returning();
+    const values = withDerivedStockStatus(await this.withDrawerLabel(location));
+    const [newLocation] = await db.insert(itemLocations).values(values).returning();
+    await this.logItemLocationAudit("create", null, newLocation);
+    await this.recordStockStatusChange(null, newLocation);
     return newLocation;
   }
 
   async updateItemLocation(id: string, location: Partial<InsertItemLocation>): Promise<ItemLocation | undefined> {
+    const existing = await this.getItemLocation(id);
     const [updatedLocation] = await db
       .update(itemLocations)
-      .set(location)
+      .set(withDerivedStockStatus(await this.withDrawerLabel(location, existing), existing))
       .where(eq(itemLocations.id, id))
       .returning();
+    if (updatedLocation) {
+      await this.logItemLocationAudit("update", existing ?? null, updatedLocation);
+      if (existing && existing.stockStatus !== updatedLocation.stockStatus) {
+        await this.recordStockStatusChange(existing.stockStatus, updatedLocation);
+      }
+    }
     return updatedLocation;
   }
 
   async deleteItemLocation(id: string): Promise<boolean> {
-    const result = await db.delete(itemLocations).where(eq(itemLocations.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(itemLocations).where(eq(itemLocations.id, id)).returning();
+    for (const location of deleted) {
+      await this.logItemLocationAudit("delete", location, null);
+    }
+    return deleted.length > 0;
   }
 
   async deleteItemLocationsByItemId(itemId: string): Promise<boolean> {
-    const result = await db.delete(itemLocations).where(eq(itemLocations.itemId, itemId));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(itemLocations).where(eq(itemLocations.itemId, itemId)).returning();
+    for (const location of deleted) {
+      await this.logItemLocationAudit("delete", location, null);
+    }
+    return deleted.length > 0;
+  }
+
+  // A linked drawer decides the drawer label. A location moved to another cabinet loses its link
+  private async withDrawerLabel<T extends Partial<InsertItemLocation>>(changes: T, current?: ItemLocation): Promise<T> {
+    const drawerId = changes.drawerId !== undefined ? changes.drawerId : current?.drawerId;
+    if (!drawerId) return changes;
+    const drawer = await this.getDrawer(drawerId);
+    if (!drawer || drawer.cabinetId !== (changes.cabinet ?? current?.cabinet)) {
+      if (changes.drawerId) throw new Error("De gekozen lade hoort niet bij deze kast");
+      return { ...changes, drawerId: null };
+    }
+    return { ...changes, drawerId, drawer: drawer.name };
+  }
+
+  private async logItemLocationAudit(action: AuditEvent["action"], before: ItemLocation | null, after: ItemLocation | null) {
+    const location = (after ?? before)!;
+    await this.logAudit({
+      entityType: "item-location",
+      entityId: location.id,
+      action,
+      before,
+      after,
+      itemId: location.itemId,
+      ambulancePostId: location.ambulancePostId,
+    });
   }
 
   // Cabinet operations
@@ -192,26 +462,34 @@ export class DatabaseStorage implements IStorage {
 
   async createCabinet(cabinet: InsertCabinet): Promise<Cabinet> {
     const [newCabinet] = await db.insert(cabinets).values(cabinet).returning();
+    await this.logAudit({ entityType: "cabinet", entityId: newCabinet.id, action: "create", after: newCabinet });
     return newCabinet;
   }
 
   async updateCabinet(id: string, cabinet: Partial<InsertCabinet>): Promise<Cabinet | undefined> {
+    const existing = await this.getCabinet(id);
     const [updatedCabinet] = await db
       .update(cabinets)
       .set(cabinet)
       .where(eq(cabinets.id, id))
       .returning();
+    if (updatedCabinet) {
+      await this.logAudit({ entityType: "cabinet", entityId: id, action: "update", before: existing, after: updatedCabinet });
+    }
     return updatedCabinet;
   }
 
   async deleteCabinet(id: string): Promise<boolean> {
-    const result = await db.delete(cabinets).where(eq(cabinets.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(cabinets).where(eq(cabinets.id, id)).returning();
+    for (const cabinet of deleted) {
+      await this.logAudit({ entityType: "cabinet", entityId: cabinet.id, action: "delete", before: cabinet });
+    }
+    return deleted.length > 0;
   }
 
   // Drawer operations
   async getDrawers(): Promise<Drawer[]> {
-    return await db.select().from(drawers);
+    return await db.select().from(drawers).orderBy(drawers.cabinetId, drawers.drawerNumber);
   }
 
   async getDrawer(id: string): Promise<Drawer | undefined> {
@@ -220,26 +498,53 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDrawersByCabinet(cabinetId: string): Promise<Drawer[]> {
-    return await db.select().from(drawers).where(eq(drawers.cabinetId, cabinetId));
+    return await db.select().from(drawers).where(eq(drawers.cabinetId, cabinetId)).orderBy(drawers.drawerNumber);
   }
 
   async createDrawer(insertDrawer: InsertDrawer): Promise<Drawer> {
     const [newDrawer] = await db.insert(drawers).values(insertDrawer).returning();
+    await this.logAudit({ entityType: "drawer", entityId: newDrawer.id, action: "create", after: newDrawer });
     return newDrawer;
   }
 
   async updateDrawer(id: string, updates: Partial<InsertDrawer>): Promise<Drawer | undefined> {
-    const [updatedDrawer] = await db
-      .update(drawers)
-      .set(updates)
-      .where(eq(drawers.id, id))
-      .returning();
+    const existing = await this.getDrawer(id);
+    if (!existing) return undefined;
+
+    const { updatedDrawer, renamedLocations } = await db.transaction(async (tx) => {
+      const [updatedDrawer] = await tx
+        .update(drawers)
+        .set(updates)
+        .where(eq(drawers.id, id))
+        .returning();
+      // Linked locations show the drawer's name, so a rename carries over to them
+      const renamedLocations = updatedDrawer && updatedDrawer.name !== existing.name
+        ? await tx.update(itemLocations).set({ drawer: updatedDrawer.name }).where(eq(itemLocations.drawerId, id)).returning()
+        : [];
+      return { updatedDrawer, renamedLocations };
+    });
+
+    if (updatedDrawer) {
+      await this.logAudit({
+        entityType: "drawer",
+        entityId: id,
+        action: "update",
+        before: existing,
+        after: renamedLocations.length > 0 ? { ...updatedDrawer, renamedLocationCount: renamedLocations.length } : updatedDrawer,
+      });
+      for (const location of renamedLocations) {
+        await this.logItemLocationAudit("update", { ...location, drawer: existing.name }, location);
+      }
+    }
     return updatedDrawer;
   }
 
   async deleteDrawer(id: string): Promise<boolean> {
-    const result = await db.delete(drawers).where(eq(drawers.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const [drawer] = await db.delete(drawers).where(eq(drawers.id, id)).returning();
+    if (drawer) {
+      await this.logAudit({ entityType: "drawer", entityId: drawer.id, action: "delete", before: drawer });
+    }
+    return !!drawer;
   }
 
   // Email notification operations
@@ -262,29 +567,217 @@ export class DatabaseStorage implements IStorage {
     return notification;
   }
 
-  // Email config operations
-  async getEmailConfig(): Promise<EmailConfig | undefined> {
-    const [config] = await db.select().from(emailConfigs).limit(1);
-    return config;
+  async getNotificationKeysForRecipient(recipientEmail: string): Promise<string[]> {
+    const rows = await db
+      .select({ notificationKey: emailNotifications.notificationKey })
+      .from(emailNotifications)
+      .where(and(
+        eq(emailNotifications.recipientEmail, recipientEmail),
+        sql`${emailNotifications.notificationKey} IS NOT NULL`
+      ));
+    return rows.map(row => row.notificationKey!);
+  }
+
+  // Email config operations - named SMTP profiles, one of them the default
+  // Passwords are encrypted in the database and decrypted only when read here
+  private decryptEmailConfig(config: EmailConfig): EmailConfig {
+    return {
+      ...config,
+      smtpPassword: decryptSecret(config.smtpPassword),
+      graphClientSecret: config.graphClientSecret ? decryptSecret(config.graphClientSecret) : null,
+    };
   }
 
+  // Blank secrets are left out, so an update keeps the saved value
+  private encryptEmailConfigSecrets(config: Partial<InsertEmailConfig>): Partial<InsertEmailConfig> {
+    const { smtpPassword, graphClientSecret, ...rest } = config;
+    return {
+      ...rest,
+      ...(smtpPassword ? { smtpPassword: encryptSecret(smtpPassword) } : {}),
+      ...(graphClientSecret ? { graphClientSecret: encryptSecret(graphClientSecret) } : {}),
+    };
+  }
+
+  async getEmailConfigs(): Promise<EmailConfig[]> {
+    const configs = await db.select().from(emailConfigs).orderBy(desc(emailConfigs.isDefault), emailConfigs.name);
+    return configs.map(config => this.decryptEmailConfig(config));
+  }
+
+  async getEmailConfig(id: string): Promise<EmailConfig | undefined> {
+    const [config] = await db.select().from(emailConfigs).where(eq(emailConfigs.id, id));
+    return config ? this.decryptEmailConfig(config) : undefined;
+  }
+
+  // Falls back to any profile, so a setup from before profiles existed keeps sending
+  async getDefaultEmailConfig(): Promise<EmailConfig | undefined> {
+    const [config] = await db.select().from(emailConfigs).orderBy(desc(emailConfigs.isDefault)).limit(1);
+    return config ? this.decryptEmailConfig(config) : undefined;
+  }
+
+  // The first profile becomes the default
   async createEmailConfig(config: InsertEmailConfig): Promise<EmailConfig> {
-    const [newConfig] = await db.insert(emailConfigs).values(config).returning();
-    return newConfig;
+    const [existing] = await db.select({ id: emailConfigs.id }).from(emailConfigs).limit(1);
+    const [newConfig] = await db.insert(emailConfigs)
+      .values({ ...config, ...this.encryptEmailConfigSecrets(config), isDefault: !existing })
+      .returning();
+    return this.decryptEmailConfig(newConfig);
   }
 
-  async updateEmailConfig(config: InsertEmailConfig): Promise<EmailConfig> {
-    const existingConfig = await this.getEmailConfig();
-    if (existingConfig) {
-      const [updatedConfig] = await db
-        .update(emailConfigs)
-        .set(config)
-        .where(eq(emailConfigs.id, existingConfig.id))
-        .returning();
-      return updatedConfig;
-    } else {
-      return await this.createEmailConfig(config);
+  async updateEmailConfig(id: string, config: Partial<InsertEmailConfig>): Promise<EmailConfig | undefined> {
+    const [updatedConfig] = await db
+      .update(emailConfigs)
+      .set(this.encryptEmailConfigSecrets(config))
+      .where(eq(emailConfigs.id, id))
+      .returning();
+    return updatedConfig ? this.decryptEmailConfig(updatedConfig) : undefined;
+  }
+
+  // Migration for rows stored before encryption - safe to run on every start
+  async encryptPlaintextEmailPasswords(): Promise<number> {
+    const configs = await db.select().from(emailConfigs);
+    const needsEncryption = (secret: string | null) => !!secret && !isEncryptedSecret(secret);
+    const plainText = configs.filter(config => needsEncryption(config.smtpPassword) || needsEncryption(config.graphClientSecret));
+    for (const config of plainText) {
+      await db.update(emailConfigs)
+        .set({
+          smtpPassword: needsEncryption(config.smtpPassword) ? encryptSecret(config.smtpPassword) : config.smtpPassword,
+          graphClientSecret: needsEncryption(config.graphClientSecret) ? encryptSecret(config.graphClientSecret!) : config.graphClientSecret,
+        })
+        .where(eq(emailConfigs.id, config.id));
     }
+    return plainText.length;
+  }
+
+  // Posts using the profile fall back to the default
+  async deleteEmailConfig(id: string): Promise<boolean> {
+    const deleted = await db.delete(emailConfigs).where(eq(emailConfigs.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async setDefaultEmailConfig(id: string): Promise<EmailConfig | undefined> {
+    return await db.transaction(async (tx) => {
+      const [config] = await tx.update(emailConfigs).set({ isDefault: true }).where(eq(emailConfigs.id, id)).returning();
+      if (!config) return undefined;
+      await tx.update(emailConfigs).set({ isDefault: false }).where(ne(emailConfigs.id, id));
+      return config;
+    });
+  }
+
+  // Expiry warning settings - created with defaults on first use
+  async getExpiryWarningSettings(): Promise<ExpiryWarningSettings> {
+    const [settings] = await db.select().from(expiryWarningSettings).limit(1);
+    if (settings) return settings;
+    const [created] = await db.insert(expiryWarningSettings).values({}).returning();
+    return created;
+  }
+
+  async updateExpiryWarningSettings(settings: Partial<InsertExpiryWarningSettings>): Promise<ExpiryWarningSettings> {
+    const existing = await this.getExpiryWarningSettings();
+    const [updated] = await db
+      .update(expiryWarningSettings)
+      .set({ ...settings, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(expiryWarningSettings.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  // Marks the daily run as taken - false when another process already ran it for this date
+  async claimExpiryWarningRun(date: string): Promise<boolean> {
+    const claimed = await db
+      .update(expiryWarningSettings)
+      .set({ lastRunDate: date })
+      .where(sql`${expiryWarningSettings.lastRunDate} IS DISTINCT FROM ${date}`)
+      .returning();
+    return claimed.length > 0;
+  }
+
+  // Email outbox operations
+  async enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutboxEntry> {
+    const [entry] = await db.insert(emailOutbox).values(email).returning();
+    return entry;
+  }
+
+  async getEmailOutbox(statuses?: string[]): Promise<EmailOutboxEntry[]> {
+    return await db.select()
+      .from(emailOutbox)
+      .where(statuses?.length ? inArray(emailOutbox.status, statuses) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(500);
+  }
+
+  // Pending emails that are due, marked "sending" in one statement so two workers never pick the same email
+  async claimDueEmails(limit: number): Promise<EmailOutboxEntry[]> {
+    const due = db.select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(emailOutbox)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await db.update(emailOutbox)
+      .set({ status: "sent", sentAt: new Date(), lastError: null, attempts: sql`${emailOutbox.attempts} + 1`, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Without a next attempt the email is given up and stays "failed" until it is resent by hand
+  async markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db.update(emailOutbox)
+      .set({
+        status: nextAttemptAt ? "pending" : "failed",
+        lastError: error,
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        ...(nextAttemptAt && { nextAttemptAt }),
+        updatedAt: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async requeueEmail(id: string): Promise<EmailOutboxEntry | undefined> {
+    const [entry] = await db.update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), inArray(emailOutbox.status, ["failed", "pending"])))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Emails left in "sending" by a worker that stopped halfway go back in the queue
+  async releaseStaleEmails(claimedBefore: Date): Promise<number> {
+    const released = await db.update(emailOutbox)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(and(eq(emailOutbox.status, "sending"), lte(emailOutbox.updatedAt, claimedBefore)))
+      .returning();
+    return released.length;
+  }
+
+  // Email template operations
+  async getEmailTemplates(): Promise<EmailTemplate[]> {
+    return await db.select().from(emailTemplates);
+  }
+
+  async getEmailTemplate(key: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplates).where(eq(emailTemplates.key, key));
+    return template || undefined;
+  }
+
+  async upsertEmailTemplate(key: string, template: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [saved] = await db.insert(emailTemplates)
+      .values({ key, ...template })
+      .onConflictDoUpdate({ target: emailTemplates.key, set: { ...template, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  // Removing the row puts the built-in template back
+  async deleteEmailTemplate(key: string): Promise<boolean> {
+    const deleted = await db.delete(emailTemplates).where(eq(emailTemplates.key, key)).returning();
+    return deleted.length > 0;
   }
 
   // Ambulance Post operations
@@ -299,21 +792,29 @@ export class DatabaseStorage implements IStorage {
 
   async createAmbulancePost(post: InsertAmbulancePost): Promise<AmbulancePost> {
     const [newPost] = await db.insert(ambulancePosts).values(post).returning();
+    await this.logAudit({ entityType: "ambulance-post", entityId: newPost.id, action: "create", after: newPost, ambulancePostId: newPost.id });
     return newPost;
   }
 
   async updateAmbulancePost(id: string, post: Partial<InsertAmbulancePost>): Promise<AmbulancePost | undefined> {
+    const existing = await this.getAmbulancePost(id);
     const [updatedPost] = await db
       .update(ambulancePosts)
       .set(post)
       .where(eq(ambulancePosts.id, id))
       .returning();
+    if (updatedPost) {
+      await this.logAudit({ entityType: "ambulance-post", entityId: id, action: "update", before: existing, after: updatedPost, ambulancePostId: id });
+    }
     return updatedPost;
   }
 
   async deleteAmbulancePost(id: string): Promise<boolean> {
-    const result = await db.delete(ambulancePosts).where(eq(ambulancePosts.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(ambulancePosts).where(eq(ambulancePosts.id, id)).returning();
+    for (const post of deleted) {
+      await this.logAudit({ entityType: "ambulance-post", entityId: post.id, action: "delete", before: post, ambulancePostId: post.id });
+    }
+    return deleted.length > 0;
   }
 
   // Post contact operations
@@ -332,21 +833,29 @@ export class DatabaseStorage implements IStorage {
 
   async createPostContact(contact: InsertPostContact): Promise<PostContact> {
     const [newContact] = await db.insert(postContacts).values(contact).returning();
+    await this.logAudit({ entityType: "post-contact", entityId: newContact.id, action: "create", after: newContact, ambulancePostId: newContact.ambulancePostId });
     return newContact;
   }
 
   async updatePostContact(id: string, contact: Partial<InsertPostContact>): Promise<PostContact | undefined> {
+    const existing = await this.getPostContact(id);
     const [updatedContact] = await db
       .update(postContacts)
       .set(contact)
       .where(eq(postContacts.id, id))
       .returning();
+    if (updatedContact) {
+      await this.logAudit({ entityType: "post-contact", entityId: id, action: "update", before: existing, after: updatedContact, ambulancePostId: updatedContact.ambulancePostId });
+    }
     return updatedContact;
   }
 
   async deletePostContact(id: string): Promise<boolean> {
-    const result = await db.delete(postContacts).where(eq(postContacts.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(postContacts).where(eq(postContacts.id, id)).returning();
+    for (const contact of deleted) {
+      await this.logAudit({ entityType: "post-contact", entityId: contact.id, action: "delete", before: contact, ambulancePostId: contact.ambulancePostId });
+    }
+    return deleted.length > 0;
   }
 
   // Supply Request operations
@@ -361,22 +870,231 @@ export class DatabaseStorage implements IStorage {
         .where(and(
           eq(supplyRequests.itemId, itemId),
           eq(supplyRequests.ambulancePostId, ambulancePost)
-        ));
+        ))
+        .orderBy(desc(supplyRequests.sentAt));
     } else {
       return await db.select()
         .from(supplyRequests)
-        .where(eq(supplyRequests.itemId, itemId));
+        .where(eq(supplyRequests.itemId, itemId))
+        .orderBy(desc(supplyRequests.sentAt));
     }
   }
 
-  async createSupplyRequest(request: InsertSupplyRequest): Promise<SupplyRequest> {
-    const [newRequest] = await db.insert(supplyRequests).values(request).returning();
-    return newRequest;
+  async getSupplyRequest(id: string): Promise<SupplyRequest | undefined> {
+    const [request] = await db.select().from(supplyRequests).where(eq(supplyRequests.id, id));
+    return request || undefined;
   }
 
-  async deleteSupplyRequestsByLocation(locationId: string): Promise<boolean> {
-    const result = await db.delete(supplyRequests).where(eq(supplyRequests.locationId, locationId));
-    return (result.rowCount ?? 0) > 0;
+  async getOpenSupplyRequests(filters: SupplyRequestFilters = {}): Promise<SupplyRequest[]> {
+    const conditions: SQL[] = [inArray(supplyRequests.status, openSupplyRequestStatuses)];
+    if (filters.ambulancePostId) conditions.push(eq(supplyRequests.ambulancePostId, filters.ambulancePostId));
+    if (filters.contactPersonId) conditions.push(eq(supplyRequests.contactPersonId, filters.contactPersonId));
+    if (filters.locationId) conditions.push(eq(supplyRequests.locationId, filters.locationId));
+
+    return await db.select()
+      .from(supplyRequests)
+      .where(and(...conditions))
+      .orderBy(desc(supplyRequests.sentAt));
+  }
+
+  // The requests and the email announcing them are stored together, so no email goes out for a
+  // request that was not saved. Ids may be chosen up front so the email can carry links to the requests. Throws OpenSupplyRequestExistsError when a location already has an open request
+  async createSupplyRequestsWithEmail(requests: (InsertSupplyRequest & { id?: string })[], email: InsertEmailOutbox): Promise<SupplyRequest[]> {
+    let created: SupplyRequest[];
+    try {
+      created = await db.transaction(async (tx) => {
+        const rows = await tx.insert(supplyRequests).values(requests).returning();
+        await tx.insert(emailOutbox).values(email);
+        return rows;
+      });
+    } catch (error) {
+      if (isOpenSupplyRequestConflict(error)) throw new OpenSupplyRequestExistsError();
+      throw error;
+    }
+    for (const request of created) {
+      await this.linkStockStatusChange(request);
+    }
+    return created;
+  }
+
+  // The status change that triggered the request is recorded before the request exists -
+  // link the newest unlinked change of the location to it
+  private async linkStockStatusChange(request: SupplyRequest) {
+    try {
+      const [latest] = await db.select({ id: stockStatusHistory.id, supplyRequestId: stockStatusHistory.supplyRequestId })
+        .from(stockStatusHistory)
+        .where(eq(stockStatusHistory.locationId, request.locationId))
+        .orderBy(desc(stockStatusHistory.changedAt))
+        .limit(1);
+      if (latest && !latest.supplyRequestId) {
+        await db.update(stockStatusHistory)
+          .set({ supplyRequestId: request.id })
+          .where(eq(stockStatusHistory.id, latest.id));
+      }
+    } catch (error) {
+      console.error(`Error linking stock status change to supply request ${request.id}:`, error);
+    }
+  }
+
+  // Only moves the request when it still has the status the transition was checked against -
+  // undefined when someone else changed it in the meantime
+  async transitionSupplyRequest(id: string, fromStatus: string, status: SupplyRequestStatus, note?: string | null): Promise<SupplyRequest | undefined> {
+    const [updated] = await db.update(supplyRequests)
+      .set({ ...this.supplyRequestTransitionFields(status), ...(note !== undefined && { statusNote: note }) })
+      .where(and(eq(supplyRequests.id, id), eq(supplyRequests.status, fromStatus)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Restocked location - open requests count as delivered and stay as history
+  async closeSupplyRequestsByLocation(locationId: string): Promise<boolean> {
+    const closed = await db.update(supplyRequests)
+      .set(this.supplyRequestTransitionFields("delivered"))
+      .where(and(
+        eq(supplyRequests.locationId, locationId),
+        inArray(supplyRequests.status, openSupplyRequestStatuses)
+      ))
+      .returning();
+    return closed.length > 0;
+  }
+
+  private supplyRequestTransitionFields(status: SupplyRequestStatus): Partial<SupplyRequest> {
+    const now = new Date();
+    const { actorName } = getCurrentActor();
+    switch (status) {
+      case "acknowledged":
+        return { status, acknowledgedAt: now, acknowledgedBy: actorName };
+      case "partially-delivered":
+        return { status, partiallyDeliveredAt: now, partiallyDeliveredBy: actorName };
+      case "delivered":
+        return { status, deliveredAt: now, deliveredBy: actorName };
+      case "cancelled":
+        return { status, cancelledAt: now, cancelledBy: actorName };
+      default:
+        return { status };
+    }
+  }
+
+  // Stock status history operations
+  async getStockStatusHistory(itemId: string, ambulancePostId?: string): Promise<StockStatusHistoryEntry[]> {
+    const conditions = [eq(stockStatusHistory.itemId, itemId)];
+    if (ambulancePostId) {
+      conditions.push(eq(stockStatusHistory.ambulancePostId, ambulancePostId));
+    }
+    return await db.select()
+      .from(stockStatusHistory)
+      .where(and(...conditions))
+      .orderBy(desc(stockStatusHistory.changedAt));
+  }
+
+  // Lot operations
+  async getLot(id: string): Promise<ItemLot | undefined> {
+    const [lot] = await db.select().from(itemLots).where(eq(itemLots.id, id));
+    return lot;
+  }
+
+  async getLotsByLocation(locationId: string): Promise<ItemLot[]> {
+    return await db.select()
+      .from(itemLots)
+      .where(eq(itemLots.locationId, locationId))
+      .orderBy(asc(itemLots.expiryDate));
+  }
+
+  async getLotsByItem(itemId: string): Promise<ItemLot[]> {
+    const rows = await db.select({ lot: itemLots })
+      .from(itemLots)
+      .innerJoin(itemLocations, eq(itemLots.locationId, itemLocations.id))
+      .where(eq(itemLocations.itemId, itemId))
+      .orderBy(asc(itemLots.expiryDate));
+    return rows.map(row => row.lot);
+  }
+
+  async getAllLots(): Promise<ItemLot[]> {
+    return await db.select().from(itemLots).orderBy(asc(itemLots.expiryDate));
+  }
+
+  async createLot(lot: InsertItemLot): Promise<ItemLot> {
+    const [created] = await db.insert(itemLots).values(lot).returning();
+    await this.logLotAudit("create", null, created);
+    return created;
+  }
+
+  async updateLot(id: string, lot: Partial<InsertItemLot>): Promise<ItemLot | undefined> {
+    const existing = await this.getLot(id);
+    const [updated] = await db.update(itemLots)
+      .set({ ...lot, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(itemLots.id, id))
+      .returning();
+    if (updated) {
+      await this.logLotAudit("update", existing ?? null, updated);
+    }
+    return updated;
+  }
+
+  async deleteLot(id: string): Promise<boolean> {
+    const deleted = await db.delete(itemLots).where(eq(itemLots.id, id)).returning();
+    for (const lot of deleted) {
+      await this.logLotAudit("delete", lot, null);
+    }
+    return deleted.length > 0;
+  }
+
+  // Effective expiry per item: the earliest lot expiry, limited to one post when given
+  async getEarliestLotExpiries(ambulancePostId?: string): Promise<Record<string, string>> {
+    const rows = await db.select({
+        itemId: itemLocations.itemId,
+        expiryDate: min(itemLots.expiryDate),
+      })
+      .from(itemLots)
+      .innerJoin(itemLocations, eq(itemLots.locationId, itemLocations.id))
+      .where(ambulancePostId ? eq(itemLocations.ambulancePostId, ambulancePostId) : undefined)
+      .groupBy(itemLocations.itemId);
+
+    const expiries: Record<string, string> = {};
+    for (const row of rows) {
+      if (row.expiryDate) expiries[row.itemId] = row.expiryDate;
+    }
+    return expiries;
+  }
+
+  private async logLotAudit(action: AuditEvent["action"], before: ItemLot | null, after: ItemLot | null) {
+    const lot = (after ?? before)!;
+    const location = await this.getItemLocation(lot.locationId);
+    await this.logAudit({
+      entityType: "item-lot",
+      entityId: lot.id,
+      action,
+      before,
+      after,
+      itemId: location?.itemId,
+      ambulancePostId: location?.ambulancePostId,
+    });
+  }
+
+  // closedRequestId is the request the change itself closed - it is no longer open by the time the change is recorded
+  private async recordStockStatusChange(fromStatus: string | null, location: ItemLocation, closedRequestId?: string) {
+    try {
+      const [openRequest] = closedRequestId ? [{ id: closedRequestId }] : await db.select()
+        .from(supplyRequests)
+        .where(and(
+          eq(supplyRequests.locationId, location.id),
+          inArray(supplyRequests.status, openSupplyRequestStatuses)
+        ))
+        .orderBy(desc(supplyRequests.sentAt))
+        .limit(1);
+
+      await db.insert(stockStatusHistory).values({
+        ...getCurrentActor(),
+        locationId: location.id,
+        itemId: location.itemId,
+        ambulancePostId: location.ambulancePostId,
+        fromStatus,
+        toStatus: location.stockStatus,
+        supplyRequestId: openRequest?.id ?? null,
+      });
+    } catch (error) {
+      console.error(`Error recording stock status change for location ${location.id}:`, error);
+    }
   }
 
   // Post Cabinet Order operations
@@ -449,20 +1167,28 @@ export class DatabaseStorage implements IStorage {
 
   async createCategory(category: InsertCategory): Promise<Category> {
     const [created] = await db.insert(categories).values(category).returning();
+    await this.logAudit({ entityType: "category", entityId: created.id, action: "create", after: created });
     return created;
   }
 
   async updateCategory(id: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existing = await this.getCategory(id);
     const [updated] = await db.update(categories)
       .set({ ...category, updatedAt: sql`CURRENT_TIMESTAMP` })
       .where(eq(categories.id, id))
       .returning();
+    if (updated) {
+      await this.logAudit({ entityType: "category", entityId: id, action: "update", before: existing, after: updated });
+    }
     return updated;
   }
 
   async deleteCategory(id: string): Promise<boolean> {
-    const result = await db.delete(categories).where(eq(categories.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const deleted = await db.delete(categories).where(eq(categories.id, id)).returning();
+    for (const category of deleted) {
+      await this.logAudit({ entityType: "category", entityId: category.id, action: "delete", before: category });
+    }
+    return deleted.length > 0;
   }
 
   // Cabinet Location operations
@@ -470,6 +1196,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(cabinetLocations);
   }
 
+  async getCabinetLocation(id: string): Promise<CabinetLocation | undefined> {
+    const [location] = await db.select().from(cabinetLocations).where(eq(cabinetLocations.id, id));
+    return location;
+  }
+
   async getCabinetLocationsByCabinet(cabinetId: string): Promise<CabinetLocation[]> {
     return await db.select().from(cabinetLocations).where(eq(cabinetLocations.cabinetId, cabinetId));
   }
@@ -496,6 +1227,300 @@ export class DatabaseStorage implements IStorage {
       ));
     return (result.rowCount ?? 0) > 0;
   }
+
+  // All or nothing - a failed copy leaves no half set up post behind. Returns the number of created locations
+  async copyPostSetup(ambulancePostId: string, setup: PostSetupCopy): Promise<number> {
+    const itemLocationValues: InsertItemLocation[] = [];
+    for (const location of setup.itemLocations) {
+      itemLocationValues.push(withDerivedStockStatus(await this.withDrawerLabel(location)));
+    }
+
+    const createdLocations = await db.transaction(async (tx) => {
+      if (setup.cabinetLocations.length > 0) {
+        await tx.insert(cabinetLocations).values(setup.cabinetLocations);
+      }
+      if (setup.cabinetOrder) {
+        await tx.delete(postCabinetOrder).where(eq(postCabinetOrder.ambulancePostId, ambulancePostId));
+        if (setup.cabinetOrder.length > 0) {
+          await tx.insert(postCabinetOrder).values(setup.cabinetOrder.map((cabinetId, index) => ({
+            ambulancePostId,
+            cabinetId,
+            displayOrder: index + 1,
+          })));
+        }
+      }
+      return itemLocationValues.length > 0
+        ? await tx.insert(itemLocations).values(itemLocationValues).returning()
+        : [];
+    });
+
+    // Audit trail and status history follow once the copy is committed
+    for (const location of createdLocations) {
+      await this.logItemLocationAudit("create", null, location);
+      await this.recordStockStatusChange(null, location);
+    }
+    return setup.cabinetLocations.length + createdLocations.length;
+  }
+
+  // Audit log operations
+  async getAuditLog(filters: AuditLogFilters): Promise<AuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filters.ambulancePostIds) {
+      if (filters.ambulancePostIds.length === 0) return [];
+      conditions.push(inArray(auditLog.ambulancePostId, filters.ambulancePostIds));
+    }
+    if (filters.ambulancePostId) conditions.push(eq(auditLog.ambulancePostId, filters.ambulancePostId));
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.itemId) conditions.push(eq(auditLog.itemId, filters.itemId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLog.createdAt, filters.to));
+
+    return await db.select()
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt))
+      .limit(filters.limit ?? 200);
+  }
+
+  // Shift check operations - newest first
+  async getShiftChecks(ambulancePostId: string, limit = 20): Promise<ShiftCheck[]> {
+    return await db.select()
+      .from(shiftChecks)
+      .where(eq(shiftChecks.ambulancePostId, ambulancePostId))
+      .orderBy(desc(shiftChecks.completedAt))
+      .limit(limit);
+  }
+
+  async createShiftCheck(check: InsertShiftCheck, updates: ShiftCheckUpdate[]): Promise<ShiftCheck> {
+    const auditEvents: { before: ItemLocation; after: ItemLocation; closedRequestId?: string }[] = [];
+
+    const newCheck = await db.transaction(async (tx) => {
+      for (const { locationId, changes } of updates) {
+        const [existing] = await tx.select().from(itemLocations).where(eq(itemLocations.id, locationId));
+        if (!existing) continue;
+
+        const [updated] = await tx.update(itemLocations)
+          .set(withDerivedStockStatus(changes, existing))
+          .where(eq(itemLocations.id, existing.id))
+          .returning();
+        // Found back in stock - open supply requests count as delivered
+        let closedRequestId: string | undefined;
+        if (updated.stockStatus === "op-voorraad" && existing.stockStatus !== "op-voorraad") {
+          const [closedRequest] = await tx.update(supplyRequests)
+            .set(this.supplyRequestTransitionFields("delivered"))
+            .where(and(
+              eq(supplyRequests.locationId, existing.id),
+              inArray(supplyRequests.status, openSupplyRequestStatuses)
+            ))
+            .returning({ id: supplyRequests.id });
+          closedRequestId = closedRequest?.id;
+        }
+        auditEvents.push({ before: existing, after: updated, closedRequestId });
+      }
+
+      const [created] = await tx.insert(shiftChecks).values(check).returning();
+      return created;
+    });
+
+    // Audit trail and status history follow once the check is committed
+    for (const { before, after, closedRequestId } of auditEvents) {
+      await this.logItemLocationAudit("update", before, after);
+      if (after.stockStatus !== before.stockStatus) {
+        await this.recordStockStatusChange(before.stockStatus, after, closedRequestId);
+      }
+    }
+    return newCheck;
+  }
+
+  // Stocktake operations
+  // ambulancePostIds limits the list to these posts, e.g. the posts a coordinator is assigned to
+  async getStocktakes(ambulancePostId?: string, ambulancePostIds?: string[]): Promise<Stocktake[]> {
+    const conditions: SQL[] = [];
+    if (ambulancePostIds) {
+      if (ambulancePostIds.length === 0) return [];
+      conditions.push(inArray(stocktakes.ambulancePostId, ambulancePostIds));
+    }
+    if (ambulancePostId) conditions.push(eq(stocktakes.ambulancePostId, ambulancePostId));
+
+    return await db.select()
+      .from(stocktakes)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stocktakes.openedAt));
+  }
+
+  async getStocktake(id: string): Promise<Stocktake | undefined> {
+    const [stocktake] = await db.select().from(stocktakes).where(eq(stocktakes.id, id));
+    return stocktake;
+  }
+
+  // The session and its snapshot of every location are created together
+  async createStocktake(stocktake: InsertStocktake, lines: Omit<InsertStocktakeLine, "stocktakeId">[]): Promise<Stocktake> {
+    return await db.transaction(async (tx) => {
+      const [newStocktake] = await tx.insert(stocktakes).values(stocktake).returning();
+      if (lines.length > 0) {
+        await tx.insert(stocktakeLines).values(lines.map(line => ({ ...line, stocktakeId: newStocktake.id })));
+      }
+      return newStocktake;
+    });
+  }
+
+  async cancelStocktake(id: string): Promise<Stocktake | undefined> {
+    const { actorId, actorName } = getCurrentActor();
+    const [cancelled] = await db.update(stocktakes)
+      .set({ status: "cancelled", closedById: actorId, closedByName: actorName, closedAt: new Date() })
+      .where(and(eq(stocktakes.id, id), eq(stocktakes.status, "open")))
+      .returning();
+    return cancelled;
+  }
+
+  // Close the session and apply every agreed correction - all or nothing
+  async closeStocktake(id: string, corrections: StocktakeCorrection[]): Promise<Stocktake> {
+    const { actorId, actorName } = getCurrentActor();
+    const auditEvents: { before: ItemLocation | null; after: ItemLocation; closedRequestId?: string }[] = [];
+
+    const closed = await db.transaction(async (tx) => {
+      const [stocktake] = await tx.update(stocktakes)
+        .set({ status: "closed", closedById: actorId, closedByName: actorName, closedAt: new Date(), correctionCount: corrections.length })
+        .where(and(eq(stocktakes.id, id), eq(stocktakes.status, "open")))
+        .returning();
+      if (!stocktake) {
+        throw new Error("Deze telling is al afgesloten");
+      }
+
+      for (const correction of corrections) {
+        if (correction.type === "create") {
+          const [created] = await tx.insert(itemLocations).values(withDerivedStockStatus(correction.location)).returning();
+          auditEvents.push({ before: null, after: created });
+          continue;
+        }
+
+        const [existing] = await tx.select().from(itemLocations).where(eq(itemLocations.id, correction.locationId));
+        if (!existing) continue;
+
+        const [updated] = await tx.update(itemLocations)
+          .set(withDerivedStockStatus(correction.changes, existing))
+          .where(eq(itemLocations.id, existing.id))
+          .returning();
+        // Found back in stock - open supply requests count as delivered
+        let closedRequestId: string | undefined;
+        if (updated.stockStatus === "op-voorraad" && existing.stockStatus !== "op-voorraad") {
+          const [closedRequest] = await tx.update(supplyRequests)
+            .set(this.supplyRequestTransitionFields("delivered"))
+            .where(and(
+              eq(supplyRequests.locationId, existing.id),
+              inArray(supplyRequests.status, openSupplyRequestStatuses)
+            ))
+            .returning({ id: supplyRequests.id });
+          closedRequestId = closedRequest?.id;
+        }
+        auditEvents.push({ before: existing, after: updated, closedRequestId });
+      }
+
+      return stocktake;
+    });
+
+    // Audit trail and status history follow once the corrections are committed
+    for (const { before, after, closedRequestId } of auditEvents) {
+      await this.logItemLocationAudit(before ? "update" : "create", before, after);
+      if (after.stockStatus !== before?.stockStatus) {
+        await this.recordStockStatusChange(before?.stockStatus ?? null, after, closedRequestId);
+      }
+    }
+    return closed;
+  }
+
+  async getStocktakeLines(stocktakeId: string): Promise<StocktakeLine[]> {
+    return await db.select().from(stocktakeLines).where(eq(stocktakeLines.stocktakeId, stocktakeId));
+  }
+
+  async getStocktakeLine(id: string): Promise<StocktakeLine | undefined> {
+    const [line] = await db.select().from(stocktakeLines).where(eq(stocktakeLines.id, id));
+    return line;
+  }
+
+  async createStocktakeLine(line: InsertStocktakeLine): Promise<StocktakeLine> {
+    const [newLine] = await db.insert(stocktakeLines).values(line).returning();
+    return newLine;
+  }
+
+  async updateStocktakeLine(id: string, line: Partial<InsertStocktakeLine>): Promise<StocktakeLine | undefined> {
+    const [updated] = await db.update(stocktakeLines).set(line).where(eq(stocktakeLines.id, id)).returning();
+    return updated;
+  }
+
+  async deleteStocktakeLine(id: string): Promise<boolean> {
+    const deleted = await db.delete(stocktakeLines).where(eq(stocktakeLines.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Norm list operations
+  async getNormLists(): Promise<NormList[]> {
+    return await db.select().from(normLists).orderBy(normLists.name);
+  }
+
+  async getNormList(id: string): Promise<NormList | undefined> {
+    const [normList] = await db.select().from(normLists).where(eq(normLists.id, id));
+    return normList;
+  }
+
+  async createNormList(normList: InsertNormList): Promise<NormList> {
+    const [newNormList] = await db.insert(normLists).values(normList).returning();
+    return newNormList;
+  }
+
+  async updateNormList(id: string, normList: Partial<InsertNormList>): Promise<NormList | undefined> {
+    const [updated] = await db.update(normLists)
+      .set({ ...normList, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(normLists.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteNormList(id: string): Promise<boolean> {
+    const deleted = await db.delete(normLists).where(eq(normLists.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getNormListItems(): Promise<NormListItem[]> {
+    return await db.select().from(normListItems);
+  }
+
+  async getNormListItem(id: string): Promise<NormListItem | undefined> {
+    const [item] = await db.select().from(normListItems).where(eq(normListItems.id, id));
+    return item;
+  }
+
+  async createNormListItem(item: InsertNormListItem): Promise<NormListItem> {
+    const [newItem] = await db.insert(normListItems).values(item).returning();
+    return newItem;
+  }
+
+  async updateNormListItem(id: string, item: Partial<InsertNormListItem>): Promise<NormListItem | undefined> {
+    const [updated] = await db.update(normListItems).set(item).where(eq(normListItems.id, id)).returning();
+    return updated;
+  }
+
+  async deleteNormListItem(id: string): Promise<boolean> {
+    const deleted = await db.delete(normListItems).where(eq(normListItems.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getPostNormLists(): Promise<PostNormList[]> {
+    return await db.select().from(postNormLists);
+  }
+
+  async setNormListPosts(normListId: string, ambulancePostIds: string[]): Promise<string[]> {
+    // Replace existing assignments for this norm list
+    return await db.transaction(async (tx) => {
+      await tx.delete(postNormLists).where(eq(postNormLists.normListId, normListId));
+      if (ambulancePostIds.length === 0) return [];
+      const assignments = await tx.insert(postNormLists)
+        .values(ambulancePostIds.map(ambulancePostId => ({ normListId, ambulancePostId })))
+        .returning();
+      return assignments.map(assignment => assignment.ambulancePostId);
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
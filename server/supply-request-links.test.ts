@@ -0,0 +1,62 @@
+import { afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { createSupplyRequestToken, getAppBaseUrl, verifySupplyRequestToken } from "./supply-request-links";
+
+describe("supply request link tokens", () => {
+  before(() => {
+    process.env.SESSION_SECRET = "test-session-secret";
+  });
+
+  it("verifies a token it signed", () => {
+    const token = createSupplyRequestToken("request-1", "aangevuld");
+    assert.deepEqual(verifySupplyRequestToken(token), { valid: true, requestId: "request-1", action: "aangevuld" });
+  });
+
+  it("rejects a token with a changed action", () => {
+    const [requestId, , expires, signature] = createSupplyRequestToken("request-1", "ontvangen").split(".");
+    assert.deepEqual(verifySupplyRequestToken([requestId, "niet-leverbaar", expires, signature].join(".")), { valid: false, reason: "invalid" });
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = createSupplyRequestToken("request-1", "ontvangen");
+    process.env.SESSION_SECRET = "rotated-session-secret";
+    try {
+      assert.deepEqual(verifySupplyRequestToken(token), { valid: false, reason: "invalid" });
+    } finally {
+      process.env.SESSION_SECRET = "test-session-secret";
+    }
+  });
+
+  it("rejects malformed tokens", () => {
+    assert.deepEqual(verifySupplyRequestToken("request-1.ontvangen"), { valid: false, reason: "invalid" });
+  });
+
+  it("reports expired tokens as expired", () => {
+    const fifteenDaysAgo = Date.now() - 15 * 24 * 60 * 60 * 1000;
+    const token = createSupplyRequestToken("request-1", "ontvangen", fifteenDaysAgo);
+    assert.deepEqual(verifySupplyRequestToken(token), { valid: false, reason: "expired" });
+  });
+});
+
+describe("getAppBaseUrl", () => {
+  const request = (env: string) => ({
+    protocol: "https",
+    get: () => "aanvaller.example.com",
+    app: { get: () => env },
+  }) as unknown as Request;
+
+  afterEach(() => {
+    delete process.env.APP_BASE_URL;
+  });
+
+  it("uses APP_BASE_URL instead of the Host header", () => {
+    process.env.APP_BASE_URL = "https://inventaris.example.org/";
+    assert.equal(getAppBaseUrl(request("production")), "https://inventaris.example.org");
+  });
+
+  it("falls back to the Host header only during development", () => {
+    assert.equal(getAppBaseUrl(request("development")), "https://aanvaller.example.com");
+    assert.throws(() => getAppBaseUrl(request("production")), /APP_BASE_URL/);
+  });
+});
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+
+// One-click answers a contact person can give from the restock email
+export const supplyRequestLinkActions = ["ontvangen", "aangevuld", "niet-leverbaar"] as const;
+export type SupplyRequestLinkAction = typeof supplyRequestLinkActions[number];
+
+export interface SupplyRequestActionLinks {
+  received: string;
+  restocked: string;
+  unavailable: string;
+}
+
+const LINK_VALIDITY_MS = 14 * 24 * 60 * 60 * 1000;
+
+function sign(payload: string): string {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign supply request links.");
+  }
+  // Prefixed so a link signature can never double as any other signature made with the session secret
+  return createHmac("sha256", process.env.SESSION_SECRET).update(`supply-request:${payload}`).digest("base64url");
+}
+
+export function createSupplyRequestToken(requestId: string, action: SupplyRequestLinkAction, now: number = Date.now()): string {
+  const payload = `${requestId}.${action}.${now + LINK_VALIDITY_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export type SupplyRequestTokenResult =
+  | { valid: true; requestId: string; action: SupplyRequestLinkAction }
+  | { valid: false; reason: "invalid" | "expired" };
+
+export function verifySupplyRequestToken(token: string): SupplyRequestTokenResult {
+  const parts = token.split(".");
+  if (parts.length !== 4) return { valid: false, reason: "invalid" };
+
+  const [requestId, action, expires, signature] = parts;
+  const expected = Buffer.from(sign(`${requestId}.${action}.${expires}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { valid: false, reason: "invalid" };
+  }
+  if (!supplyRequestLinkActions.includes(action as SupplyRequestLinkAction)) {
+    return { valid: false, reason: "invalid" };
+  }
+  if (Date.now() > Number(expires)) {
+    return { valid: false, reason: "expired" };
+  }
+
+  return { valid: true, requestId, action: action as SupplyRequestLinkAction };
+}
+
+// Links open the public confirmation page, which performs the action - mail scanners that prefetch links change nothing
+export function getSupplyRequestActionLinks(baseUrl: string, requestId: string): SupplyRequestActionLinks {
+  const link = (action: SupplyRequestLinkAction) => `${baseUrl}/aanvulverzoek/${createSupplyRequestToken(requestId, action)}`;
+  return {
+    received: link("ontvangen"),
+    restocked: link("aangevuld"),
+    unavailable: link("niet-leverbaar"),
+  };
+}
+
+// Links that leave the app use APP_BASE_URL - the Host header comes from the client, so it is only trusted during development
+export function getAppBaseUrl(req: Request): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/$/, "");
+  if (req.app.get("env") !== "development") {
+    throw new Error("APP_BASE_URL must be set to create links to the app.");
+  }
+  return `${req.protocol}://${req.get("host")}`;
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from "crypto";
+import { isOpenSupplyRequest, isQuantityTracked, type ItemLocation, type MedicalItem, type PostContact, type SupplyRequest } from "@shared/schema";
+import { storage, OpenSupplyRequestExistsError } from "./storage";
+import { renderRestockTableHTML } from "./email";
+import { enqueueSupplyRequestEmail } from "./email-queue";
+import { renderEmail } from "./email-templates";
+import { runAsActor } from "./audit";
+import { getSupplyRequestActionLinks, type SupplyRequestLinkAction } from "./supply-request-links";
+
+export interface SupplyRequestBatchResult {
+  emailsQueued: number;
+  requestsCreated: number;
+  alreadyRequested: number;
+  withoutContact: number;
+}
+
+interface BatchLine {
+  requestId: string;
+  item: MedicalItem;
+  location: ItemLocation;
+}
+
+const needsSupply = (location: ItemLocation) =>
+  location.stockStatus === "bijna-op" || location.stockStatus === "niet-meer-aanwezig";
+
+// Send every open supply request of a post - one combined email per contact person
+export async function sendBatchedSupplyRequests(ambulancePostId: string, baseUrl: string): Promise<SupplyRequestBatchResult> {
+  const result: SupplyRequestBatchResult = { emailsQueued: 0, requestsCreated: 0, alreadyRequested: 0, withoutContact: 0 };
+  const [ambulancePost, locations, openRequests, items, contacts, cabinets, lotExpiries] = await Promise.all([
+    storage.getAmbulancePost(ambulancePostId),
+    storage.getItemLocationsByPost(ambulancePostId),
+    storage.getOpenSupplyRequests({ ambulancePostId }),
+    storage.getMedicalItems(),
+    storage.getPostContacts(),
+    storage.getCabinets(),
+    storage.getEarliestLotExpiries(ambulancePostId),
+  ]);
+
+  const requestedLocationIds = new Set(openRequests.map(request => request.locationId));
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+  const batches = new Map<string, { contact: PostContact; lines: BatchLine[] }>();
+
+  for (const location of locations) {
+    const item = itemsById.get(location.itemId);
+    if (!item || item.isDiscontinued || !needsSupply(location)) continue;
+
+    // Locations that already have a request waiting are not sent again
+    if (requestedLocationIds.has(location.id)) {
+      result.alreadyRequested++;
+      continue;
+    }
+
+    const contact = location.contactPersonId ? contactsById.get(location.contactPersonId) : undefined;
+    if (!contact) {
+      result.withoutContact++;
+      continue;
+    }
+
+    const batch = batches.get(contact.id) ?? { contact, lines: [] };
+    batch.lines.push({ requestId: randomUUID(), item, location });
+    batches.set(contact.id, batch);
+  }
+
+  const postName = ambulancePost?.name ?? "Onbekende post";
+  const renderBatchEmail = async (contact: PostContact, lines: BatchLine[]) => {
+    const itemsHTML = renderRestockTableHTML(lines.map(({ requestId, item, location }) => ({
+      itemName: item.name,
+      category: item.category,
+      cabinetName: cabinets.find(cabinet => cabinet.id === location.cabinet)?.name ?? `Kast ${location.cabinet}`,
+      drawer: location.drawer,
+      status: location.stockStatus === "niet-meer-aanwezig" ? "OP" : "Bijna op",
+      expiryDate: lotExpiries[item.id] ?? item.expiryDate,
+      actionLinks: getSupplyRequestActionLinks(baseUrl, requestId),
+    })));
+    // Each line carries its own action links, so the template gets no {{actions}} block
+    return await renderEmail("restock", {
+      "item.name": `${lines.length} item(s)`,
+      "post": postName,
+      "contact.name": contact.name,
+      "status": "Aanvulling nodig",
+      "items": itemsHTML,
+    });
+  };
+
+  for (const { contact, lines } of Array.from(batches.values())) {
+    let pending = lines;
+    while (pending.length > 0) {
+      const email = await renderBatchEmail(contact, pending);
+      // One row per location, linked to the email they were sent in - stored together with that email
+      const batchId = randomUUID();
+      try {
+        await enqueueSupplyRequestEmail({
+          to: contact.email,
+          from: "inventaris@ziekenhuis.nl",
+          subject: email.subject,
+          html: email.html,
+          ambulancePostId,
+        }, pending.map(({ requestId, item, location }) => ({
+          id: requestId,
+          itemId: item.id,
+          locationId: location.id,
+          ambulancePostId: location.ambulancePostId,
+          contactPersonId: contact.id,
+          contactPersonName: contact.name,
+          contactPersonEmail: contact.email,
+          status: "sent",
+          batchId,
+        })));
+        result.emailsQueued++;
+        result.requestsCreated += pending.length;
+        break;
+      } catch (error) {
+        if (!(error instanceof OpenSupplyRequestExistsError)) throw error;
+        // Someone else sent a request for one of the locations in the meantime - leave those out and try again
+        const openRequests = await storage.getOpenSupplyRequests({ ambulancePostId });
+        const requestedNow = new Set(openRequests.map(request => request.locationId));
+        const remaining = pending.filter(({ location }) => !requestedNow.has(location.id));
+        if (remaining.length === pending.length) throw error;
+        result.alreadyRequested += pending.length - remaining.length;
+        pending = remaining;
+      }
+    }
+  }
+
+  return result;
+}
+
+// Back in stock - counted locations are refilled to their maximum (or just above par), open requests count as delivered
+export async function restockLocation(location: ItemLocation) {
+  if (isQuantityTracked(location)) {
+    await storage.updateItemLocation(location.id, {
+      currentQuantity: location.maxQuantity ?? location.minQuantity! + 1
+    });
+  } else {
+    await storage.updateItemLocation(location.id, {
+      isLowStock: false,
+      stockStatus: "op-voorraad"
+    });
+  }
+  await storage.closeSupplyRequestsByLocation(location.id);
+}
+
+export interface SupplyRequestLinkResult {
+  message: string;
+  itemName: string;
+  request: SupplyRequest;
+}
+
+// The request was changed between loading it and answering - show where it stands now
+async function getChangedResult(request: SupplyRequest, itemName: string): Promise<SupplyRequestLinkResult> {
+  const current = await storage.getSupplyRequest(request.id) ?? request;
+  return { message: `Het aanvulverzoek voor ${itemName} is intussen al bijgewerkt.`, itemName, request: current };
+}
+
+// Answer from a link in the restock email, recorded under the name of the contact person
+export async function handleSupplyRequestLinkAction(request: SupplyRequest, action: SupplyRequestLinkAction): Promise<SupplyRequestLinkResult> {
+  const item = await storage.getMedicalItem(request.itemId);
+  const itemName = item?.name ?? "het item";
+
+  if (!isOpenSupplyRequest(request)) {
+    const closedAs = request.status === "cancelled" ? "geannuleerd" : "afgerond";
+    return { message: `Dit aanvulverzoek voor ${itemName} is al ${closedAs}.`, itemName, request };
+  }
+
+  const actor = { actorId: null, actorName: `${request.contactPersonName ?? "Contactpersoon"} (via email)` };
+  return runAsActor(actor, async () => {
+    switch (action) {
+      case "ontvangen": {
+        if (request.status !== "sent") {
+          return { message: `Het aanvulverzoek voor ${itemName} was al als ontvangen gemeld.`, itemName, request };
+        }
+        const updated = await storage.transitionSupplyRequest(request.id, request.status, "acknowledged");
+        if (!updated) return getChangedResult(request, itemName);
+        return { message: `Bedankt! Het aanvulverzoek voor ${itemName} staat op ontvangen.`, itemName, request: updated };
+      }
+      case "aangevuld": {
+        const location = await storage.getItemLocation(request.locationId);
+        if (location) {
+          await restockLocation(location);
+        } else {
+          await storage.transitionSupplyRequest(request.id, request.status, "delivered");
+        }
+        const updated = await storage.getSupplyRequest(request.id);
+        return { message: `Bedankt! ${itemName} staat weer op voorraad.`, itemName, request: updated ?? request };
+      }
+      case "niet-leverbaar": {
+        const updated = await storage.transitionSupplyRequest(request.id, request.status, "cancelled", "Niet leverbaar (gemeld via email)");
+        if (!updated) return getChangedResult(request, itemName);
+        return { message: `Doorgegeven: ${itemName} is niet leverbaar.`, itemName, request: updated };
+      }
+    }
+  });
+}
@@ -0,0 +1,20 @@
+import type { EmailConfig } from "@shared/schema";
+
+// Email profile that sends through Microsoft Graph - the tests point the Graph endpoints at a local stub
+export const graphConfig = (overrides: Partial<EmailConfig> = {}): EmailConfig => ({
+  id: "profile-1",
+  name: "Microsoft 365",
+  isDefault: true,
+  provider: "graph",
+  smtpHost: "",
+  smtpPort: 587,
+  smtpUser: "",
+  smtpPassword: "",
+  smtpSecure: false,
+  graphTenantId: "tenant-1",
+  graphClientId: "client-1",
+  graphClientSecret: "secret-1",
+  fromEmail: "inventaris@example.org",
+  fromName: "Medische Inventaris",
+  ...overrides,
+});
@@ -1,8 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, date, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, date, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const drawerPositions = ["boven", "onder", "links", "rechts", "midden"] as const;
+
 export const drawers = pgTable("drawers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   cabinetId: varchar("cabinet_id", { length: 10 }).notNull(),
@@ -22,6 +24,7 @@ export const medicalItems = pgTable("medical_items", {
   expiryDate: date("expiry_date"),
   alertEmail: text("alert_email"),
   photoUrl: text("photo_url"),
+  storeLocation: text("store_location"), // Vak in het centrale magazijn - volgorde van de picklijst
   isDiscontinued: boolean("is_discontinued").notNull().default(false),
   replacementItemId: varchar("replacement_item_id"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -33,14 +36,31 @@ export const itemLocations = pgTable("item_locations", {
   itemId: varchar("item_id").notNull().references(() => medicalItems.id, { onDelete: "cascade" }),
   ambulancePostId: varchar("ambulance_post_id").notNull().references(() => ambulancePosts.id),
   cabinet: varchar("cabinet", { length: 10 }).notNull(),
-  drawer: text("drawer"),
+  drawer: text("drawer"), // Label shown everywhere - follows the drawer's name when drawerId is set
+  drawerId: varchar("drawer_id").references(() => drawers.id, { onDelete: "set null" }),
   contactPersonId: varchar("contact_person_id").references(() => postContacts.id),
   isLowStock: boolean("is_low_stock").notNull().default(false),
   stockStatus: text("stock_status").notNull().default("op-voorraad"), // "op-voorraad", "bijna-op", "niet-meer-aanwezig"
+  currentQuantity: integer("current_quantity"), // Optioneel - zonder aantallen wordt de status handmatig bijgehouden
+  minQuantity: integer("min_quantity"), // Par niveau - op of onder dit aantal is het item "bijna-op"
+  maxQuantity: integer("max_quantity"), // Aanvullen tot dit aantal
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A location is counted when both the current quantity and the par level are known
+export function isQuantityTracked(location: { currentQuantity?: number | null; minQuantity?: number | null }): boolean {
+  return location.currentQuantity != null && location.minQuantity != null;
+}
+
+// Stock status that follows from the counts, or null for locations with a manual status
+export function deriveStockStatus(location: { currentQuantity?: number | null; minQuantity?: number | null }): string | null {
+  if (!isQuantityTracked(location)) return null;
+  if (location.currentQuantity! <= 0) return "niet-meer-aanwezig";
+  if (location.currentQuantity! <= location.minQuantity!) return "bijna-op";
+  return "op-voorraad";
+}
+
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -58,6 +78,27 @@ export const cabinets = pgTable("cabinets", {
   color: varchar("color", { length: 20 }).default("bg-slate-200"),
 });
 
+// Cabinet colours are stored as Tailwind classes - hex values for places without Tailwind (inline styles, PDFs)
+const cabinetColorHex: Record<string, string> = {
+  'bg-red-500': '#EF4444',
+  'bg-orange-500': '#F97316',
+  'bg-yellow-500': '#EAB308',
+  'bg-green-500': '#22C55E',
+  'bg-blue-500': '#3B82F6',
+  'bg-purple-500': '#A855F7',
+  'bg-pink-500': '#EC4899',
+  'bg-indigo-500': '#6366F1',
+  'bg-teal-500': '#14B8A6',
+  'bg-lime-500': '#84CC16',
+  'bg-slate-500': '#64748B',
+  'bg-gray-700': '#374151',
+  'bg-slate-200': '#E2E8F0',
+};
+
+export function getCabinetColorHex(color: string | null | undefined): string {
+  return (color && cabinetColorHex[color]) || '#6B7280'; // Default gray
+}
+
 // Cabinet ordering per ambulance post
 export const postCabinetOrder = pgTable("post_cabinet_order", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -83,6 +124,7 @@ export const emailNotifications = pgTable("email_notifications", {
   itemId: varchar("item_id").notNull().references(() => medicalItems.id),
   recipientEmail: text("recipient_email").notNull(),
   department: text("department").notNull(), // Afdeling waar mail naartoe is verzonden
+  notificationKey: text("notification_key"), // Identificeert automatische waarschuwingen zodat ze niet opnieuw verstuurd worden
   sentAt: date("sent_at").notNull().default(sql`CURRENT_DATE`),
 });
 
@@ -92,11 +134,18 @@ export const insertMedicalItemSchema = createInsertSchema(medicalItems).omit({
   updatedAt: true,
 });
 
-export const insertItemLocationSchema = createInsertSchema(itemLocations).omit({
+export const insertItemLocationSchema = createInsertSchema(itemLocations, {
+  currentQuantity: z.number().int().min(0).nullable().optional(),
+  minQuantity: z.number().int().min(0).nullable().optional(),
+  maxQuantity: z.number().int().min(0).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-});
+}).refine(
+  (location) => location.maxQuantity == null || location.minQuantity == null || location.maxQuantity >= location.minQuantity,
+  { message: "Maximum aantal moet groter of gelijk zijn aan het minimum", path: ["maxQuantity"] }
+);
 
 export const insertCabinetSchema = createInsertSchema(cabinets);
 
@@ -118,7 +167,11 @@ export const insertPostCabinetOrderSchema = createInsertSchema(postCabinetOrder)
   updatedAt: true,
 });
 
-export const insertDrawerSchema = createInsertSchema(drawers).omit({
+export const insertDrawerSchema = createInsertSchema(drawers, {
+  name: z.string().trim().min(1, "Naam is verplicht"),
+  position: z.enum(drawerPositions),
+  drawerNumber: z.number().int().min(1, "Ladenummer moet 1 of hoger zijn"),
+}).omit({
   id: true,
 });
 
@@ -144,14 +197,25 @@ export type Drawer = typeof drawers.$inferSelect;
 export type InsertEmailNotification = z.infer<typeof insertEmailNotificationSchema>;
 export type EmailNotification = typeof emailNotifications.$inferSelect;
 
+// How a profile delivers email - SMTP server or Microsoft Graph sendMail (Microsoft 365)
+export const emailProviders = ["smtp", "graph"] as const;
+export type EmailProvider = typeof emailProviders[number];
+
+// Email profiles - posts pick one, everything else goes out through the default profile
 export const emailConfigs = pgTable("email_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  smtpHost: text("smtp_host").notNull(),
-  smtpPort: integer("smtp_port").notNull(),
-  smtpUser: text("smtp_user").notNull(),
-  smtpPassword: text("smtp_password").notNull(),
+  name: text("name").notNull().default("Standaard"),
+  isDefault: boolean("is_default").notNull().default(false),
+  provider: text("provider").notNull().default("smtp"),
+  smtpHost: text("smtp_host").notNull().default(""),
+  smtpPort: integer("smtp_port").notNull().default(587),
+  smtpUser: text("smtp_user").notNull().default(""),
+  smtpPassword: text("smtp_password").notNull().default(""),
   smtpSecure: boolean("smtp_secure").notNull().default(true),
-  fromEmail: text("from_email").notNull(),
+  graphTenantId: text("graph_tenant_id"), // Azure AD app registration with Mail.Send application permission
+  graphClientId: text("graph_client_id"),
+  graphClientSecret: text("graph_client_secret"),
+  fromEmail: text("from_email").notNull(), // Bij Graph: de mailbox waarvandaan verzonden wordt
   fromName: text("from_name").notNull(),
 });
 
@@ -159,14 +223,46 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"), // "viewer", "post-coordinator", "administrator"
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertEmailConfigSchema = createInsertSchema(emailConfigs).omit({
+// Ordered from least to most rights - each role includes the rights of the roles before it
+export const userRoles = ["viewer", "post-coordinator", "administrator"] as const;
+export type UserRole = typeof userRoles[number];
+
+export function hasRole(user: { role: string } | null | undefined, minimum: UserRole): boolean {
+  if (!user) return false;
+  return userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(minimum);
+}
+
+// Secrets may be left blank - the saved value is kept
+const requiredEmailConfigFields: Record<EmailProvider, { field: "smtpHost" | "smtpUser" | "graphTenantId" | "graphClientId"; message: string }[]> = {
+  smtp: [
+    { field: "smtpHost", message: "SMTP host is verplicht" },
+    { field: "smtpUser", message: "SMTP gebruikersnaam is verplicht" },
+  ],
+  graph: [
+    { field: "graphTenantId", message: "Tenant ID is verplicht" },
+    { field: "graphClientId", message: "Client ID is verplicht" },
+  ],
+};
+
+export const insertEmailConfigSchema = createInsertSchema(emailConfigs, {
+  name: z.string().trim().min(1, "Naam is verplicht"),
+  provider: z.enum(emailProviders).default("smtp"),
+}).omit({
   id: true,
+  isDefault: true,
+}).superRefine((config, ctx) => {
+  for (const { field, message } of requiredEmailConfigFields[config.provider]) {
+    if (!config[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
 });
 
 export type InsertEmailConfig = z.infer<typeof insertEmailConfigSchema>;
 export type EmailConfig = typeof emailConfigs.$inferSelect;
+export type PublicEmailConfig = Omit<EmailConfig, "smtpPassword" | "graphClientSecret"> & { hasPassword: boolean; hasClientSecret: boolean };
 
 export const ambulancePosts = pgTable("ambulance_posts", {
   id: varchar("id").primaryKey(),
@@ -174,6 +270,8 @@ export const ambulancePosts = pgTable("ambulance_posts", {
   location: text("location"),
   description: text("description"),
   isActive: boolean("is_active").notNull().default(true),
+  emailConfigId: varchar("email_config_id").references(() => emailConfigs.id, { onDelete: "set null" }), // Leeg = standaard email profiel
+  replyToEmail: text("reply_to_email"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -188,7 +286,9 @@ export const postContacts = pgTable("post_contacts", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertAmbulancePostSchema = createInsertSchema(ambulancePosts).omit({
+export const insertAmbulancePostSchema = createInsertSchema(ambulancePosts, {
+  replyToEmail: z.string().email("Ongeldig reply-to adres").nullable().optional(),
+}).omit({
   createdAt: true,
 });
 
@@ -203,13 +303,26 @@ export type AmbulancePost = typeof ambulancePosts.$inferSelect;
 export type InsertPostContact = z.infer<typeof insertPostContactSchema>;
 export type PostContact = typeof postContacts.$inferSelect;
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// Posts a user is assigned to - post coordinators may only manage these posts
+export const userPosts = pgTable("user_posts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  ambulancePostId: varchar("ambulance_post_id").notNull().references(() => ambulancePosts.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(userRoles).optional(),
+}).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserPost = typeof userPosts.$inferSelect;
+export type PublicUser = Omit<User, "password"> & { ambulancePostIds: string[] };
 
 export const supplyRequests = pgTable("supply_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -220,8 +333,24 @@ export const supplyRequests = pgTable("supply_requests", {
   contactPersonName: text("contact_person_name"),
   contactPersonEmail: text("contact_person_email"),
   status: text("status").notNull().default("sent"),
+  batchId: varchar("batch_id"), // shared by all requests sent together in one combined email
   sentAt: timestamp("sent_at").defaultNow(),
-});
+  // When and by whom each transition happened
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: text("acknowledged_by"),
+  partiallyDeliveredAt: timestamp("partially_delivered_at"),
+  partiallyDeliveredBy: text("partially_delivered_by"),
+  deliveredAt: timestamp("delivered_at"),
+  deliveredBy: text("delivered_by"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: text("cancelled_by"),
+  statusNote: text("status_note"),
+}, (table) => [
+  // One open request per location - the statuses are those of openSupplyRequestStatuses
+  uniqueIndex("supply_requests_open_location_idx")
+    .on(table.locationId)
+    .where(sql`status in ('sent', 'acknowledged', 'partially-delivered')`),
+]);
 
 export const insertSupplyRequestSchema = createInsertSchema(supplyRequests).omit({
   id: true,
@@ -230,3 +359,563 @@ export const insertSupplyRequestSchema = createInsertSchema(supplyRequests).omit
 
 export type InsertSupplyRequest = z.infer<typeof insertSupplyRequestSchema>;
 export type SupplyRequest = typeof supplyRequests.$inferSelect;
+
+// Supply request lifecycle - delivered and cancelled requests are closed and kept as history
+export const supplyRequestStatuses = ["sent", "acknowledged", "partially-delivered", "delivered", "cancelled"] as const;
+export type SupplyRequestStatus = typeof supplyRequestStatuses[number];
+
+export const openSupplyRequestStatuses: SupplyRequestStatus[] = ["sent", "acknowledged", "partially-delivered"];
+
+export const supplyRequestTransitions: Record<SupplyRequestStatus, SupplyRequestStatus[]> = {
+  "sent": ["acknowledged", "partially-delivered", "delivered", "cancelled"],
+  "acknowledged": ["partially-delivered", "delivered", "cancelled"],
+  "partially-delivered": ["partially-delivered", "delivered", "cancelled"],
+  "delivered": [],
+  "cancelled": [],
+};
+
+export function isOpenSupplyRequest(request: Pick<SupplyRequest, "status">): boolean {
+  return openSupplyRequestStatuses.includes(request.status as SupplyRequestStatus);
+}
+
+// Open request with the names the dashboard shows
+export type OpenSupplyRequest = SupplyRequest & {
+  itemName: string;
+  ambulancePostName: string;
+  cabinetName: string;
+  drawer: string | null;
+  stockStatus: string;
+};
+
+// Audit trail - one row per create/update/delete done through DatabaseStorage
+export const auditEntityTypes = ["medical-item", "item-location", "item-lot", "cabinet", "ambulance-post", "post-contact", "category", "drawer"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id"), // null for system actions (startup, background jobs)
+  actorName: text("actor_name").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  action: text("action").notNull(), // "create", "update", "delete"
+  itemId: varchar("item_id"), // medical item the entry belongs to, for item and item location entries
+  ambulancePostId: varchar("ambulance_post_id"),
+  changes: jsonb("changes").$type<{ before: Record<string, unknown> | null; after: Record<string, unknown> | null }>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Stock status history - append-only, one row per stockStatus change of an item location
+export const stockStatusHistory = pgTable("stock_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => itemLocations.id, { onDelete: 'set null' }),
+  itemId: varchar("item_id").notNull().references(() => medicalItems.id, { onDelete: 'cascade' }),
+  ambulancePostId: varchar("ambulance_post_id").notNull(),
+  fromStatus: text("from_status"), // null when the location was created
+  toStatus: text("to_status").notNull(),
+  supplyRequestId: varchar("supply_request_id"), // supply request open at the time of the change
+  actorId: varchar("actor_id"),
+  actorName: text("actor_name").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+});
+
+export const insertStockStatusHistorySchema = createInsertSchema(stockStatusHistory).omit({
+  id: true,
+  changedAt: true,
+});
+
+export type InsertStockStatusHistory = z.infer<typeof insertStockStatusHistorySchema>;
+export type StockStatusHistoryEntry = typeof stockStatusHistory.$inferSelect;
+
+// Lots (batches) per item location - each with its own lot number and expiry date for recalls
+export const itemLots = pgTable("item_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").notNull().references(() => itemLocations.id, { onDelete: 'cascade' }),
+  lotNumber: text("lot_number").notNull(),
+  expiryDate: date("expiry_date").notNull(),
+  quantity: integer("quantity"),
+  receivedDate: date("received_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertItemLotSchema = createInsertSchema(itemLots, {
+  lotNumber: z.string().trim().min(1, "Lotnummer is verplicht"),
+  expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Vervaldatum moet in formaat JJJJ-MM-DD zijn"),
+  quantity: z.number().int().min(0).nullable().optional(),
+  receivedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Ontvangstdatum moet in formaat JJJJ-MM-DD zijn").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertItemLot = z.infer<typeof insertItemLotSchema>;
+export type ItemLot = typeof itemLots.$inferSelect;
+
+// Expiry warnings - single settings row for the daily digest job
+export const expiryWarningSettings = pgTable("expiry_warning_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  enabled: boolean("enabled").notNull().default(true),
+  windowDays: integer("window_days").array().notNull().default(sql`'{60,30,7}'::integer[]`), // Waarschuw als de vervaldatum binnen zoveel dagen valt
+  sendTime: text("send_time").notNull().default("07:00"), // HH:MM, Nederlandse tijd
+  lastRunDate: date("last_run_date"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertExpiryWarningSettingsSchema = createInsertSchema(expiryWarningSettings, {
+  windowDays: z.array(z.number().int().min(1).max(365)).min(1, "Minimaal één waarschuwingstermijn is verplicht"),
+  sendTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Verzendtijd moet in formaat UU:MM zijn"),
+}).omit({
+  id: true,
+  lastRunDate: true,
+  updatedAt: true,
+});
+
+export type InsertExpiryWarningSettings = z.infer<typeof insertExpiryWarningSettingsSchema>;
+export type ExpiryWarningSettings = typeof expiryWarningSettings.$inferSelect;
+
+// Expiry overview - computed on the server from lots and item expiry dates
+export const expiryGroups = ["verlopen", "deze-week", "deze-maand", "later"] as const;
+export type ExpiryGroup = typeof expiryGroups[number];
+
+export interface ExpiryEntry {
+  itemId: string;
+  itemName: string;
+  category: string;
+  locationId: string;
+  ambulancePostId: string;
+  ambulancePostName: string;
+  cabinetId: string;
+  cabinetName: string;
+  drawer: string | null;
+  contactPersonId: string | null;
+  lotId: string | null; // null when the item expiry date is used because the location has no lots
+  lotNumber: string | null;
+  quantity: number | null;
+  expiryDate: string; // YYYY-MM-DD
+  daysUntilExpiry: number; // negative when already expired
+  group: ExpiryGroup;
+}
+
+// Pick list for restocking one or more posts - one line per item, in walking order through the central store
+export interface PickListLocation {
+  locationId: string;
+  ambulancePostId: string;
+  ambulancePostName: string;
+  cabinetName: string;
+  drawer: string | null;
+  stockStatus: string;
+  quantityNeeded: number | null; // up to the max (or just above the par level) for counted locations
+  supplyRequestId: string | null; // open supply request that completing the pick list closes
+}
+
+export interface PickListLine {
+  itemId: string;
+  itemName: string;
+  category: string;
+  storeLocation: string | null;
+  photoUrl: string | null;
+  postCount: number;
+  quantityNeeded: number | null; // null when no location of the item is counted
+  locations: PickListLocation[];
+}
+
+// What a QR label on a cabinet or drawer opens - drawer null means the whole cabinet
+export interface DrawerViewItem {
+  locationId: string;
+  itemId: string;
+  itemName: string;
+  category: string;
+  photoUrl: string | null;
+  drawer: string | null;
+  stockStatus: string;
+  currentQuantity: number | null;
+  minQuantity: number | null;
+  hasContactPerson: boolean;
+  openSupplyRequestId: string | null;
+}
+
+export interface DrawerView {
+  ambulancePostId: string;
+  ambulancePostName: string;
+  cabinetId: string;
+  cabinetName: string;
+  cabinetColor: string | null;
+  drawer: string | null;
+  items: DrawerViewItem[];
+}
+
+// Shift check - the crew walks a post's cabinets drawer by drawer and submits everything at once
+export const stockStatuses = ["op-voorraad", "bijna-op", "niet-meer-aanwezig"] as const;
+
+export interface ShiftCheckDrawer {
+  cabinetId: string;
+  cabinetName: string;
+  cabinetColor: string | null;
+  drawer: string | null;
+  items: DrawerViewItem[];
+}
+
+// One location whose state at the check differed from what the app had recorded
+export interface ShiftCheckDeviation {
+  locationId: string;
+  itemId: string;
+  itemName: string;
+  cabinetName: string;
+  drawer: string | null;
+  fromStatus: string;
+  toStatus: string;
+  fromQuantity: number | null;
+  toQuantity: number | null;
+}
+
+export const shiftChecks = pgTable("shift_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ambulancePostId: varchar("ambulance_post_id").notNull().references(() => ambulancePosts.id, { onDelete: 'cascade' }),
+  checkedById: varchar("checked_by_id"),
+  checkedByName: text("checked_by_name").notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at").defaultNow(),
+  locationCount: integer("location_count").notNull(),
+  deviationCount: integer("deviation_count").notNull(),
+  deviations: jsonb("deviations").$type<ShiftCheckDeviation[]>().notNull().default(sql`'[]'::jsonb`),
+});
+
+export const insertShiftCheckSchema = createInsertSchema(shiftChecks, {
+  deviations: z.array(z.custom<ShiftCheckDeviation>()),
+}).omit({
+  id: true,
+  completedAt: true,
+});
+
+// What the check mode submits - every checked location, counted ones with their quantity
+export const shiftCheckSubmissionSchema = z.object({
+  startedAt: z.coerce.date().optional(),
+  results: z.array(z.object({
+    locationId: z.string(),
+    stockStatus: z.enum(stockStatuses).optional(),
+    currentQuantity: z.number().int().min(0).optional(),
+  }).refine(result => result.stockStatus !== undefined || result.currentQuantity !== undefined, {
+    message: "Status of aantal is verplicht",
+  })).min(1, "Er zijn geen items gecontroleerd"),
+});
+
+export type InsertShiftCheck = z.infer<typeof insertShiftCheckSchema>;
+export type ShiftCheck = typeof shiftChecks.$inferSelect;
+export type ShiftCheckSubmission = z.infer<typeof shiftCheckSubmissionSchema>;
+
+// Stocktake - formal periodic count of every location at a post, closed with a discrepancy report
+export const stocktakeStatuses = ["open", "closed", "cancelled"] as const;
+export type StocktakeStatus = typeof stocktakeStatuses[number];
+
+export const stocktakes = pgTable("stocktakes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ambulancePostId: varchar("ambulance_post_id").notNull().references(() => ambulancePosts.id, { onDelete: 'cascade' }),
+  status: text("status").notNull().default("open"),
+  openedById: varchar("opened_by_id"),
+  openedByName: text("opened_by_name").notNull(),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedById: varchar("closed_by_id"),
+  closedByName: text("closed_by_name"),
+  closedAt: timestamp("closed_at"),
+  correctionCount: integer("correction_count"), // set when the session is closed
+});
+
+// One line per registered location (with what the app expected at the start) or per unregistered find
+export const stocktakeLines = pgTable("stocktake_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stocktakeId: varchar("stocktake_id").notNull().references(() => stocktakes.id, { onDelete: 'cascade' }),
+  locationId: varchar("location_id").references(() => itemLocations.id, { onDelete: 'set null' }), // null for finds that aren't registered
+  itemId: varchar("item_id").references(() => medicalItems.id, { onDelete: 'set null' }),
+  itemName: text("item_name").notNull(), // kept for the report, free text for unknown finds
+  cabinet: varchar("cabinet", { length: 10 }).notNull(),
+  drawer: text("drawer"),
+  isRegistered: boolean("is_registered").notNull().default(true),
+  expectedStatus: text("expected_status"),
+  expectedQuantity: integer("expected_quantity"),
+  foundStatus: text("found_status"),
+  foundQuantity: integer("found_quantity"),
+  isMissing: boolean("is_missing").notNull().default(false), // registered, but not in the cabinet at all
+  applyCorrection: boolean("apply_correction").notNull().default(true),
+  note: text("note"),
+  countedAt: timestamp("counted_at"),
+  countedByName: text("counted_by_name"),
+});
+
+export const insertStocktakeSchema = createInsertSchema(stocktakes).omit({
+  id: true,
+  openedAt: true,
+});
+
+export const insertStocktakeLineSchema = createInsertSchema(stocktakeLines).omit({
+  id: true,
+});
+
+// Counting or confirming a registered line
+export const updateStocktakeLineSchema = z.object({
+  foundStatus: z.enum(stockStatuses).nullable().optional(),
+  foundQuantity: z.number().int().min(0, "Aantal kan niet negatief zijn").nullable().optional(),
+  isMissing: z.boolean().optional(),
+  applyCorrection: z.boolean().optional(),
+  note: z.string().nullable().optional(),
+});
+
+// Something found in a cabinet that the app doesn't know about
+export const stocktakeFindSchema = z.object({
+  itemId: z.string().nullable().optional(),
+  itemName: z.string().trim().optional(),
+  cabinet: z.string().min(1, "Kast is verplicht"),
+  drawer: z.string().trim().nullable().optional(),
+  foundStatus: z.enum(stockStatuses).nullable().optional(),
+  foundQuantity: z.number().int().min(0, "Aantal kan niet negatief zijn").nullable().optional(),
+  note: z.string().nullable().optional(),
+}).refine(find => !!find.itemId || !!find.itemName, { message: "Kies een item of geef een omschrijving", path: ["itemName"] });
+
+export type InsertStocktake = z.infer<typeof insertStocktakeSchema>;
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type InsertStocktakeLine = z.infer<typeof insertStocktakeLineSchema>;
+export type StocktakeLine = typeof stocktakeLines.$inferSelect;
+export type UpdateStocktakeLine = z.infer<typeof updateStocktakeLineSchema>;
+export type StocktakeFind = z.infer<typeof stocktakeFindSchema>;
+
+export type StocktakeLineResult = "niet-geteld" | "klopt" | "afwijking" | "ontbreekt" | "niet-geregistreerd";
+
+// Expected vs found for one line of the discrepancy report
+export function getStocktakeLineResult(line: StocktakeLine): StocktakeLineResult {
+  if (!line.isRegistered) return "niet-geregistreerd";
+  if (line.isMissing) return "ontbreekt";
+  if (!line.countedAt) return "niet-geteld";
+  const matches = line.expectedQuantity != null
+    ? line.foundQuantity === line.expectedQuantity
+    : line.foundStatus === line.expectedStatus;
+  return matches ? "klopt" : "afwijking";
+}
+
+export type StocktakeView = Stocktake & {
+  ambulancePostName: string;
+  lines: (StocktakeLine & { cabinetName: string })[];
+};
+
+// Norm lists - named templates of the items a post must carry, assigned to posts
+export const normLists = pgTable("norm_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const normListItems = pgTable("norm_list_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  normListId: varchar("norm_list_id").notNull().references(() => normLists.id, { onDelete: 'cascade' }),
+  itemId: varchar("item_id").notNull().references(() => medicalItems.id, { onDelete: 'cascade' }),
+  cabinet: varchar("cabinet", { length: 10 }), // Optioneel - zonder kast telt elke locatie op de post
+  drawer: text("drawer"),
+  minQuantity: integer("min_quantity"), // Optioneel - alleen te controleren op getelde locaties
+});
+
+export const postNormLists = pgTable("post_norm_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ambulancePostId: varchar("ambulance_post_id").notNull().references(() => ambulancePosts.id, { onDelete: 'cascade' }),
+  normListId: varchar("norm_list_id").notNull().references(() => normLists.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertNormListSchema = createInsertSchema(normLists, {
+  name: z.string().trim().min(1, "Naam is verplicht"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNormListItemSchema = createInsertSchema(normListItems, {
+  cabinet: z.string().nullable().optional(),
+  drawer: z.string().trim().nullable().optional(),
+  minQuantity: z.number().int().min(1, "Minimum aantal moet minimaal 1 zijn").nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertNormList = z.infer<typeof insertNormListSchema>;
+export type NormList = typeof normLists.$inferSelect;
+export type InsertNormListItem = z.infer<typeof insertNormListItemSchema>;
+export type NormListItem = typeof normListItems.$inferSelect;
+export type PostNormList = typeof postNormLists.$inferSelect;
+
+export type NormListWithItems = NormList & {
+  items: NormListItem[];
+  ambulancePostIds: string[];
+};
+
+// Norm compliance - computed per post from its norm lists and item locations
+export const normComplianceStatuses = ["ok", "ontbreekt", "niet-meer-aanwezig", "te-weinig", "uit-assortiment"] as const;
+export type NormComplianceStatus = typeof normComplianceStatuses[number];
+
+export interface NormComplianceLine {
+  normListId: string;
+  normListName: string;
+  normItemId: string;
+  itemId: string;
+  itemName: string;
+  category: string;
+  cabinet: string | null;
+  cabinetName: string | null;
+  drawer: string | null;
+  minQuantity: number | null;
+  currentQuantity: number | null; // sum over the counted matching locations
+  locationCount: number;
+  status: NormComplianceStatus;
+  replacementItemName: string | null; // for discontinued items
+}
+
+export interface NormCompliance {
+  ambulancePostId: string;
+  ambulancePostName: string;
+  normListNames: string[];
+  lines: NormComplianceLine[];
+}
+
+// Cloning a post - copies cabinets, cabinet order and item locations from an existing post
+export const clonePostSchema = z.object({
+  sourcePostId: z.string().min(1, "Kies een bronpost"),
+  // Source contact id -> contact for the new locations, null for none. Unmapped contacts are matched by email
+  contactMapping: z.record(z.string(), z.string().nullable()).default({}),
+  dryRun: z.boolean().default(false),
+});
+
+export type ClonePostRequest = z.infer<typeof clonePostSchema>;
+
+export interface ClonePostPlan {
+  sourcePostId: string;
+  targetPostId: string;
+  cabinetLocations: { cabinetId: string; cabinetName: string; specificLocation: string | null; exists: boolean }[];
+  copiesCabinetOrder: boolean; // only when the target has no order of its own yet
+  itemLocations: {
+    sourceLocationId: string;
+    itemName: string;
+    cabinetName: string;
+    drawer: string | null;
+    contactPersonName: string | null;
+    currentQuantity: number | null;
+    exists: boolean; // the target already has this item in this cabinet and drawer
+  }[];
+  createdCount: number; // 0 for a dry run
+}
+// Outbox - every outgoing email is stored first and sent by the queue worker, with retries
+export const emailOutboxStatuses = ["pending", "sending", "sent", "failed"] as const;
+export type EmailOutboxStatus = typeof emailOutboxStatuses[number];
+
+// Picture shown in the email as cid:<cid> - loaded from object storage when the email is sent
+export interface EmailInlineImage {
+  cid: string;
+  objectPath: string;
+}
+
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipient: text("recipient").notNull(),
+  fromEmail: text("from_email").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  ambulancePostId: varchar("ambulance_post_id").references(() => ambulancePosts.id, { onDelete: "set null" }), // Picks the sender profile
+  inlineImages: jsonb("inline_images").$type<EmailInlineImage[]>().notNull().default(sql`'[]'::jsonb`),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  inlineImages: z.array(z.object({ cid: z.string(), objectPath: z.string() })).optional(),
+}).pick({
+  recipient: true,
+  fromEmail: true,
+  subject: true,
+  html: true,
+  ambulancePostId: true,
+  inlineImages: true,
+});
+
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+
+// Editable email templates - one row per customised template, missing rows fall back to the built-in text
+export const emailTemplateKeys = ["restock", "out-of-stock", "expiry-warning", "test"] as const;
+export type EmailTemplateKey = typeof emailTemplateKeys[number];
+
+export const emailTemplates = pgTable("email_templates", {
+  key: text("key").primaryKey(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // HTML with {{placeholders}}, placed inside the standard email layout
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates, {
+  subject: z.string().trim().min(1, "Onderwerp is verplicht"),
+  body: z.string().trim().min(1, "Inhoud is verplicht"),
+}).pick({
+  subject: true,
+  body: true,
+});
+
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+
+// Template as the editor sees it - the stored version or the built-in default
+export interface EmailTemplateView {
+  key: EmailTemplateKey;
+  name: string;
+  subject: string;
+  body: string;
+  isCustom: boolean;
+}
+
+export const emailTemplatePlaceholders: { placeholder: string; description: string }[] = [
+  { placeholder: "{{item.name}}", description: "Naam van het item (bij meerdere items: het aantal)" },
+  { placeholder: "{{item.description}}", description: "Beschrijving van het item" },
+  { placeholder: "{{item.category}}", description: "Categorie van het item" },
+  { placeholder: "{{item.expiryDate}}", description: "Vervaldatum van het item" },
+  { placeholder: "{{cabinet}}", description: "Naam van de kast" },
+  { placeholder: "{{drawer}}", description: "Lade" },
+  { placeholder: "{{post}}", description: "Ambulancepost" },
+  { placeholder: "{{contact.name}}", description: "Naam van de ontvanger" },
+  { placeholder: "{{status}}", description: "Voorraadstatus, bijv. Bijna op of OP" },
+  { placeholder: "{{date}}", description: "Datum van verzenden" },
+  { placeholder: "{{items}}", description: "Blok of tabel met de item gegevens" },
+  { placeholder: "{{actions}}", description: "Knoppen Ontvangen / Aangevuld / Niet leverbaar" },
+];
+
+// Drawer migration - item locations whose free-text drawer is not linked to a structured drawer yet
+export interface DrawerMigrationGroup {
+  cabinet: string;
+  cabinetName: string;
+  drawerText: string;
+  locationCount: number;
+  itemNames: string[];
+  suggestedDrawerId: string | null; // set when the text matches exactly one drawer of the cabinet
+}
+
+export interface DrawerMigrationStatus {
+  linkedCount: number;
+  groups: DrawerMigrationGroup[];
+}
+
+export const drawerResolutionSchema = z.object({
+  cabinet: z.string().min(1),
+  drawerText: z.string().min(1),
+  drawerId: z.string().min(1, "Kies een lade"),
+});
+
+export type DrawerResolution = z.infer<typeof drawerResolutionSchema>;